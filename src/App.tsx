@@ -1,6 +1,6 @@
 import { useEffect, useState } from "react";
 import "./App.css";
-import { useStore } from "./store";
+import { useStore, MAX_GROUPS } from "./store";
 import Sidebar from "./components/Sidebar";
 import Calendar from "./components/Calendar";
 import ChevronIcon from "./components/icons/ChevronIcon";
@@ -20,14 +20,27 @@ function App() {
 	const checkInitializationState = useStore((state) => state.checkInitializationState);
 	const loadFromLocalStorage = useStore((state) => state.loadFromLocalStorage);
 	const loadFromUrlAndMigrate = useStore((state) => state.loadFromUrlAndMigrate);
+	const loadSharedView = useStore((state) => state.loadSharedView);
+	const copySharedView = useStore((state) => state.copySharedView);
+	const mergeFromUrl = useStore((state) => state.mergeFromUrl);
+	const isViewOnly = useStore((state) => state.isViewOnly);
 	const showHelpModal = useStore((state) => state.showHelpModal);
 	const setShowHelpModal = useStore((state) => state.setShowHelpModal);
 	const isDarkMode = useStore((state) => state.isDarkMode);
+	const undo = useStore((state) => state.undo);
+	const redo = useStore((state) => state.redo);
+	const loadError = useStore((state) => state.loadError);
+	const clearLoadError = useStore((state) => state.clearLoadError);
 
 	// Load state on initial mount - handle 4 cases
 	useEffect(() => {
 		const { hasLocalStorage, hasUrlHash } = checkInitializationState();
 
+		if (hasUrlHash && loadSharedView()) {
+			// View-only link - show it without touching the saved calendar
+			return;
+		}
+
 		if (hasLocalStorage && hasUrlHash) {
 			// Case 1: Both exist - show reconciliation modal
 			setShowReconciliationModal(true);
@@ -47,7 +60,38 @@ function App() {
 		if (!welcomeDismissed) {
 			setShowWelcomeModal(true);
 		}
-	}, [checkInitializationState, loadFromLocalStorage, loadFromUrlAndMigrate, getAppStateFromUrl]);
+	}, [checkInitializationState, loadSharedView, loadFromLocalStorage, loadFromUrlAndMigrate, getAppStateFromUrl]);
+
+	// Tell the user why a share link or saved calendar could not be loaded
+	useEffect(() => {
+		if (loadError) {
+			alert(loadError);
+			clearLoadError();
+		}
+	}, [loadError, clearLoadError]);
+
+	// Undo/redo shortcuts: Ctrl+Z, Ctrl+Shift+Z and Ctrl+Y (Cmd on macOS)
+	useEffect(() => {
+		const handleKeyDown = (e: KeyboardEvent) => {
+			if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+			// Leave native text undo alone while typing
+			const target = e.target as HTMLElement | null;
+			if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+
+			const key = e.key.toLowerCase();
+			if (key === "z" && !e.shiftKey) {
+				e.preventDefault();
+				undo();
+			} else if ((key === "z" && e.shiftKey) || key === "y") {
+				e.preventDefault();
+				redo();
+			}
+		};
+
+		window.addEventListener("keydown", handleKeyDown);
+		return () => window.removeEventListener("keydown", handleKeyDown);
+	}, [undo, redo]);
 
 	// Handle dismissing the welcome modal permanently
 	const handleDismissWelcome = () => {
@@ -72,6 +116,24 @@ function App() {
 		setShowReconciliationModal(false);
 	};
 
+	const handleMergeUrl = () => {
+		alertSkippedCalendars(mergeFromUrl());
+		setShowReconciliationModal(false);
+	};
+
+	// Shared calendars that don't fit are left out
+	const alertSkippedCalendars = (skipped: number) => {
+		if (skipped > 0) {
+			alert(
+				`${skipped} shared ${skipped === 1 ? "calendar was" : "calendars were"} left out. You can have up to ${MAX_GROUPS} calendars.`
+			);
+		}
+	};
+
+	const handleCopySharedView = () => {
+		alertSkippedCalendars(copySharedView());
+	};
+
 	// Apply dark mode class to document root
 	useEffect(() => {
 		const root = document.documentElement;
@@ -99,7 +161,15 @@ function App() {
 	};
 
 	return (
-		<div className={`app-container ${isSidebarHidden ? "sidebar-hidden" : ""}`}>
+		<div className={`app-container ${isSidebarHidden ? "sidebar-hidden" : ""}${isViewOnly ? " view-only" : ""}`}>
+			{isViewOnly && (
+				<div className="view-only-banner" role="status">
+					<span>You're viewing a shared calendar. Changes can't be made or saved here.</span>
+					<button className="btn" onClick={handleCopySharedView}>
+						Copy into my calendars
+					</button>
+				</div>
+			)}
 			<button
 				className="sidebar-toggle"
 				onClick={toggleSidebar}
@@ -127,6 +197,7 @@ function App() {
 				<ReconciliationModal
 					onUseLocal={handleUseLocalStorage}
 					onUseUrl={handleUseUrl}
+					onMerge={handleMergeUrl}
 				/>
 			)}
 		</div>
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from "react";
+import { eachDayOfInterval, format, formatISO, parseISO } from "date-fns";
+import XIcon from "./icons/XIcon";
+import CalendarIcon from "./icons/CalendarIcon";
+import { useStore, EventGroup } from "../store";
+import { PTOCalendarUtils, PTOConfig } from "../utils/ptoUtils";
+import { BreakSuggestion, getBreakEfficiency, suggestBreaks } from "../utils/ptoOptimizer";
+import "./Modal.css";
+
+interface BreakPlannerModalProps {
+	group: EventGroup;
+	year: number;
+	config: PTOConfig; // Settings for the plan year
+	remainingHours: number;
+	onClose: () => void;
+}
+
+const formatDates = (start: string, end: string): string =>
+	start === end
+		? format(parseISO(start), "EEE, MMM d")
+		: `${format(parseISO(start), "MMM d")} – ${format(parseISO(end), "MMM d")}`;
+
+// Suggests bridge days for the longest breaks the remaining PTO can buy, and books them
+const BreakPlannerModal: React.FC<BreakPlannerModalProps> = ({ group, year, config, remainingHours, onClose }) => {
+	const { addPTOEntry, validatePTOEntry } = useStore();
+	const [budgetHours, setBudgetHours] = useState<number>(Math.max(0, Math.floor(remainingHours)));
+	const workdayHours = PTOCalendarUtils.getWorkdayHours(config);
+
+	const suggestions = useMemo(() => {
+		// Days already off on any kind of leave can be built on, but not booked again
+		const bookedDates = (group.ptoEntries || []).flatMap((entry) =>
+			eachDayOfInterval({ start: parseISO(entry.startDate), end: parseISO(entry.endDate) })
+				.map((date) => formatISO(date, { representation: "date" }))
+		);
+		return suggestBreaks({
+			year,
+			budgetHours,
+			config,
+			bookedDates,
+			fromDate: formatISO(new Date(), { representation: "date" }),
+		});
+	}, [group.ptoEntries, year, budgetHours, config]);
+
+	const handleBook = (suggestion: BreakSuggestion) => {
+		const entry = PTOCalendarUtils.createMultiDayEntry(
+			suggestion.startDate,
+			suggestion.endDate,
+			workdayHours,
+			undefined,
+			config
+		);
+		const validation = validatePTOEntry(group.id, entry);
+		if (!validation.isValid) {
+			alert(validation.warning);
+			return;
+		}
+		addPTOEntry(group.id, entry);
+		setBudgetHours((hours) => Math.max(0, hours - entry.totalHours));
+	};
+
+	return (
+		<div className="modal-overlay" onClick={onClose}>
+			<div className="modal-content" onClick={(e) => e.stopPropagation()}>
+				<button
+					className="modal-close"
+					onClick={onClose}
+					aria-label="Close break planner"
+				>
+					<XIcon color="var(--text-secondary)" />
+				</button>
+				<h2>
+					<CalendarIcon color="var(--text-primary)" width={28} height={28} /> Plan Breaks
+				</h2>
+
+				<div className="pto-modal-content">
+					<p className="share-description">
+						Days that join weekends and holidays into the longest breaks, ranked by days off per hour of PTO.
+					</p>
+
+					<div className="pto-description">
+						<label htmlFor="break-budget">PTO to spend (hours):</label>
+						<input
+							type="number"
+							id="break-budget"
+							min={0}
+							step={workdayHours}
+							value={budgetHours}
+							onChange={(e) => setBudgetHours(Math.max(0, Number(e.target.value) || 0))}
+						/>
+					</div>
+
+					{suggestions.length > 0 ? (
+						<ul className="ics-import-preview">
+							{suggestions.map((suggestion) => (
+								<li key={`${suggestion.startDate}-${suggestion.endDate}`}>
+									<span className="ics-import-dates">
+										{formatDates(suggestion.startDate, suggestion.endDate)}
+									</span>
+									<span className="ics-import-description">
+										{suggestion.daysOff} days off ({formatDates(suggestion.breakStart, suggestion.breakEnd)})
+										{suggestion.holidays.length > 0 && ` · ${suggestion.holidays.join(", ")}`}
+									</span>
+									<span title={`${Math.round(getBreakEfficiency(suggestion) * workdayHours * 10) / 10} days off per day of PTO`}>
+										{suggestion.hours}h
+									</span>
+									<button className="submit-button" onClick={() => handleBook(suggestion)}>
+										Book
+									</button>
+								</li>
+							))}
+						</ul>
+					) : (
+						<p className="share-note">
+							{budgetHours > 0
+								? `No more breaks to plan in ${year}.`
+								: "Enter how much PTO to spend to see suggestions."}
+						</p>
+					)}
+
+					<div className="modal-actions">
+						<button onClick={onClose} className="cancel-button">
+							Done
+						</button>
+					</div>
+				</div>
+			</div>
+		</div>
+	);
+};
+
+export default BreakPlannerModal;
@@ -5,7 +5,11 @@ import {
 	checkSameDay,
 	DateRange,
 	findRangeForDate,
+	getRangeOccurrences,
+	getViewStart,
 	EventGroup,
+	ViewMode,
+	VIEW_MONTHS,
 } from "../store";
 // Holidays are now handled as a regular calendar
 import {
@@ -22,14 +26,22 @@ import {
 	parseISO,
 	subDays,
 	addDays,
+	addMonths,
+	differenceInCalendarMonths,
+	getQuarter,
 } from "date-fns";
 import { getHolidayFromISODate } from "../constants/holidays";
-import { PTOCalendarUtils, PTOEntry } from "../utils/ptoUtils";
+import { PTOCalendarUtils, PTOEntry, LEAVE_TYPE_LABELS } from "../utils/ptoUtils";
 import { createGradientFromColor } from "../utils/gradientUtils";
+import { getDraggedRange, isInDraggedRange, DraggedDates, RangeDragMode } from "../utils/rangeDrag";
+import { getTeamAbsences, getHeatLevel, isCoverageRisk } from "../utils/teamCoverage";
 import PTOSelectionModal from "./PTOSelectionModal";
 import DateRangeSelectionModal from "./DateRangeSelectionModal";
 import "./Calendar.css";
 
+// Edges of the selected calendar's range that can be dragged from a date
+type RangeEdge = "start" | "end" | "both";
+
 // Memoized DateCell component to prevent unnecessary re-renders
 interface DateCellProps {
 	date: Date;
@@ -40,7 +52,9 @@ interface DateCellProps {
 	gradientStyle: React.CSSProperties | null;
 	rangeStyles: React.CSSProperties[];
 	isFocused: boolean;
-	onMouseDown: (date: Date) => void;
+	rangeEdge?: RangeEdge;
+	label?: string; // Shown inside the cell in the month view
+	onMouseDown?: (date: Date, edge?: RangeDragMode) => void; // Omitted when the calendar is view-only
 	onMouseEnter: (date: Date, e: React.MouseEvent) => void;
 	onMouseLeave: () => void;
 }
@@ -54,16 +68,25 @@ const DateCell = memo(({
 	gradientStyle,
 	rangeStyles,
 	isFocused,
+	rangeEdge,
+	label,
 	onMouseDown,
 	onMouseEnter,
 	onMouseLeave
 }: DateCellProps) => {
+	// Handles sit on the first and last day of a range and resize it instead of moving it
+	const handleEdgeMouseDown = (edge: RangeDragMode) => (e: React.MouseEvent) => {
+		e.stopPropagation();
+		onMouseDown?.(date, edge);
+	};
+
+
 	return (
 		<div
 			key={dateStr}
 			className={className}
 			style={gradientStyle || {}}
-			onMouseDown={() => onMouseDown(date)}
+			onMouseDown={onMouseDown && (() => onMouseDown(date))}
 			onMouseEnter={(e) => onMouseEnter(date, e)}
 			onMouseLeave={onMouseLeave}
 			data-date={dateStr}
@@ -75,6 +98,11 @@ const DateCell = memo(({
 			<span className="day-number" aria-hidden="true">
 				{getDate(date)}
 			</span>
+			{label && (
+				<span className="day-label" aria-hidden="true">
+					{label}
+				</span>
+			)}
 			{/* Only render range indicators for multiple calendar overlaps (including PTO entries) */}
 			{!hasSingleCalendar && (
 				<div className="range-indicators" aria-hidden="true">
@@ -87,6 +115,20 @@ const DateCell = memo(({
 					))}
 				</div>
 			)}
+			{(rangeEdge === "start" || rangeEdge === "both") && (
+				<span
+					className="range-handle range-handle-start"
+					onMouseDown={handleEdgeMouseDown("start")}
+					aria-hidden="true"
+				/>
+			)}
+			{(rangeEdge === "end" || rangeEdge === "both") && (
+				<span
+					className="range-handle range-handle-end"
+					onMouseDown={handleEdgeMouseDown("end")}
+					aria-hidden="true"
+				/>
+			)}
 		</div>
 	);
 }, (prevProps, nextProps) => {
@@ -97,6 +139,9 @@ const DateCell = memo(({
 		prevProps.isSelected === nextProps.isSelected &&
 		prevProps.hasSingleCalendar === nextProps.hasSingleCalendar &&
 		prevProps.isFocused === nextProps.isFocused &&
+		prevProps.rangeEdge === nextProps.rangeEdge &&
+		prevProps.label === nextProps.label &&
+		!prevProps.onMouseDown === !nextProps.onMouseDown &&
 		JSON.stringify(prevProps.gradientStyle) === JSON.stringify(nextProps.gradientStyle) &&
 		prevProps.rangeStyles.length === nextProps.rangeStyles.length
 	);
@@ -104,6 +149,80 @@ const DateCell = memo(({
 
 DateCell.displayName = 'DateCell';
 
+const VIEW_MODE_LABELS: Record<ViewMode, string> = {
+	month: "Month",
+	quarter: "Quarter",
+	rolling: "12 Months",
+	year: "Year",
+};
+
+// Title of the displayed period, e.g. "March 2025", "Q1 2025" or "Mar 2025 – Feb 2026"
+const getViewTitle = (viewMode: ViewMode, viewStart: Date): string => {
+	switch (viewMode) {
+		case "month":
+			return format(viewStart, "MMMM yyyy");
+		case "quarter":
+			return `Q${getQuarter(viewStart)} ${getYear(viewStart)}`;
+		case "rolling":
+			return `${format(viewStart, "MMM yyyy")} – ${format(addMonths(viewStart, VIEW_MONTHS.rolling - 1), "MMM yyyy")}`;
+		case "year":
+			return `${getYear(viewStart)}`;
+	}
+};
+
+// A range (or PTO entry) of the selected calendar being dragged to new dates
+interface RangeDrag {
+	mode: RangeDragMode;
+	from: string; // ISO date the drag started on
+	range: DateRange;
+	entryId?: string; // Set when a PTO entry is dragged
+	dates?: DraggedDates; // Where the range would land, once the pointer has moved
+}
+
+// Finds the range grabbed on a date: the one starting or ending there for an edge, or any covering it
+const findDraggableRange = (
+	group: EventGroup,
+	dateStr: string,
+	mode: RangeDragMode,
+	isPTOEnabled: boolean
+): Pick<RangeDrag, "range" | "entryId"> | null => {
+	const matches = (range: DraggedDates) =>
+		mode === "start" ? range.start === dateStr :
+		mode === "end" ? range.end === dateStr :
+		isInDraggedRange(dateStr, range);
+
+	if (isPTOEnabled) {
+		const entry = (group.ptoEntries || []).find(entry =>
+			matches({ start: entry.startDate, end: entry.endDate })
+		);
+		return entry ? { range: { start: entry.startDate, end: entry.endDate }, entryId: entry.id } : null;
+	}
+	const range = group.ranges.find(range => !range.recurrence && matches(range));
+	return range ? { range } : null;
+};
+
+// Saves a dragged range, checking PTO entries against holidays, closed years and the balance first
+const commitRangeDrag = (groupId: string, drag: RangeDrag, dates: DraggedDates) => {
+	if (dates.start === drag.range.start && dates.end === drag.range.end) return;
+
+	const state = useStore.getState();
+	if (drag.entryId) {
+		const group = state.eventGroups.find(g => g.id === groupId);
+		const entry = (group?.ptoEntries || []).find(entry => entry.id === drag.entryId);
+		if (!entry) return;
+
+		const validation = state.validatePTOEntry(groupId, { ...entry, startDate: dates.start, endDate: dates.end });
+		if (!validation.isValid) {
+			alert(validation.warning);
+			return;
+		}
+		// totalHours is recalculated by the store for the new dates
+		state.updatePTOEntry(groupId, drag.entryId, { startDate: dates.start, endDate: dates.end });
+	} else {
+		state.updateDateRange(groupId, drag.range, { ...drag.range, start: dates.start, end: dates.end });
+	}
+};
+
 const Calendar: React.FC = () => {
 	const {
 		startDate,
@@ -112,24 +231,49 @@ const Calendar: React.FC = () => {
 		selectedGroupId,
 		addDateRange,
 		deleteDateRange,
+		batchHistory,
 		// PTO state
 		getSelectedGroupPTOEntries,
 		isPTOEnabledForGroup,
-		deletePTOEntry,
+		removePTODay,
 		addPTOEntry,
 		cleanupWeekendPTOEntries,
 		// Display helpers
 		getAllDisplayGroups,
+		getHolidaysGroup,
 		// Get actual state arrays for proper memoization dependencies
 		eventGroups,
-		holidays,
+		holidayOverlays,
+		customHolidays,
+		// View mode
+		viewMode,
+		viewDate,
+		setViewMode,
+		shiftView,
+		// Team heatmap
+		showHeatmap,
+		setShowHeatmap,
+		coverageThreshold,
+		setCoverageThreshold,
+		// Shared links can open view-only
+		isViewOnly,
 	} = useStore();
 
-	const calendarDates = getCalendarDates(startDate);
+	const viewStart = getViewStart(viewMode, startDate, viewDate);
+	const calendarDates = getCalendarDates(viewStart, VIEW_MONTHS[viewMode]);
 	const today = startOfDay(new Date());
+	// Recurring ranges are expanded over the displayed months
+	const windowStart = formatISO(calendarDates[0], { representation: "date" });
+	const windowEnd = formatISO(calendarDates[calendarDates.length - 1], { representation: "date" });
 
 	// Memoize expensive store lookups based on actual state data (not function refs)
-	const allDisplayGroups = useMemo(() => getAllDisplayGroups(), [eventGroups, holidays, getAllDisplayGroups]);
+	const allDisplayGroups = useMemo(
+		() => getAllDisplayGroups(),
+		[eventGroups, startDate, selectedGroupId, holidayOverlays, customHolidays, viewMode, viewDate, getAllDisplayGroups]
+	);
+	// The home region's holidays block PTO; overlaid regions show like other calendars
+	const holidaysGroup = getHolidaysGroup();
+	const holidayRegionId = holidaysGroup.holidayRegionId;
 	const selectedGroup = useMemo(() =>
 		allDisplayGroups.find(g => g.id === selectedGroupId),
 		[allDisplayGroups, selectedGroupId]
@@ -138,6 +282,9 @@ const Calendar: React.FC = () => {
 		selectedGroupId ? isPTOEnabledForGroup(selectedGroupId) : false,
 		[selectedGroupId, eventGroups, isPTOEnabledForGroup]
 	);
+	const ptoConfig = selectedGroup?.ptoConfig;
+	const workdayHours = PTOCalendarUtils.getWorkdayHours(ptoConfig);
+	const workSchedule = PTOCalendarUtils.getWorkSchedule(ptoConfig);
 	const ptoEntries = useMemo(() =>
 		selectedGroupId && isPTOEnabled ? getSelectedGroupPTOEntries() : [],
 		[selectedGroupId, isPTOEnabled, eventGroups, getSelectedGroupPTOEntries]
@@ -176,11 +323,13 @@ const Calendar: React.FC = () => {
 
 		// Add events from all groups (including holidays)
 		allDisplayGroups.forEach(group => {
-			group.ranges.forEach(range => {
+			group.ranges.flatMap(range =>
+				range.recurrence ? getRangeOccurrences(range, windowStart, windowEnd) : [range]
+			).forEach(range => {
 				if (range.start === range.end) {
 					const existing = map.get(range.start) || { groups: [], isHoliday: false };
 					existing.groups.push(group);
-					if (group.name === "Unispace Holidays") existing.isHoliday = true;
+					if (group.id === holidaysGroup.id) existing.isHoliday = true;
 					map.set(range.start, existing);
 				} else {
 					const start = parseISO(range.start);
@@ -190,7 +339,7 @@ const Calendar: React.FC = () => {
 						const dateStr = formatISO(current, { representation: "date" });
 						const existing = map.get(dateStr) || { groups: [], isHoliday: false };
 						existing.groups.push(group);
-						if (group.name === "Unispace Holidays") existing.isHoliday = true;
+						if (group.id === holidaysGroup.id) existing.isHoliday = true;
 						map.set(dateStr, existing);
 						current = addDays(current, 1);
 					}
@@ -199,7 +348,43 @@ const Calendar: React.FC = () => {
 		});
 
 		return map;
-	}, [ptoEntries, isPTOEnabled, allDisplayGroups]);
+	}, [ptoEntries, isPTOEnabled, allDisplayGroups, holidaysGroup, windowStart, windowEnd]);
+
+	// Who is out on each day for the heatmap; every calendar (PTO is mirrored into its ranges) is a team member
+	const teamAbsences = useMemo(() => {
+		if (!showHeatmap) return new Map<string, string[]>();
+		return getTeamAbsences(eventGroups.map(group => ({
+			name: group.name,
+			dates: group.ranges.flatMap(range =>
+				range.recurrence ? getRangeOccurrences(range, windowStart, windowEnd) : [range]
+			),
+		})));
+	}, [showHeatmap, eventGroups, windowStart, windowEnd]);
+	// Read by cells that may hold stale hover handlers
+	const teamAbsencesRef = useRef(teamAbsences);
+	useEffect(() => {
+		teamAbsencesRef.current = teamAbsences;
+	}, [teamAbsences]);
+
+	// First and last days of the selected calendar's ranges (or PTO entries), where resize handles go
+	const rangeEdges = useMemo(() => {
+		const edges = new Map<string, RangeEdge>();
+		if (!selectedGroup || selectedGroup.isSpecial) return edges;
+
+		const ranges = isPTOEnabled
+			? ptoEntries.map(entry => ({ start: entry.startDate, end: entry.endDate }))
+			// Recurring series are edited through the date range modal instead
+			: selectedGroup.ranges.filter(range => !range.recurrence);
+		ranges.forEach(range => {
+			if (range.start === range.end) {
+				edges.set(range.start, "both");
+				return;
+			}
+			edges.set(range.start, edges.get(range.start) === "end" ? "both" : "start");
+			edges.set(range.end, edges.get(range.end) === "start" ? "both" : "end");
+		});
+		return edges;
+	}, [selectedGroup, isPTOEnabled, ptoEntries]);
 
 	const [focusedDate, setFocusedDate] = useState<Date | null>(null);
 	const [isContainerFocused, setIsContainerFocused] = useState(false);
@@ -207,6 +392,9 @@ const Calendar: React.FC = () => {
 	const clickedDateRef = useRef<Date | null>(null);
 	const longPressTimerRef = useRef<number | null>(null);
 	const [isLongPress, setIsLongPress] = useState(false);
+	// Drag state - the ref is read by cells that may hold stale handlers, the preview drives rendering
+	const dragRef = useRef<RangeDrag | null>(null);
+	const [dragPreview, setDragPreview] = useState<{ original: DraggedDates; dates: DraggedDates } | null>(null);
 	// Tooltip state
 	const [tooltip, setTooltip] = useState<{ content: string; x: number; y: number } | null>(null);
 	const calendarGridRef = useRef<HTMLDivElement>(null);
@@ -256,14 +444,29 @@ const Calendar: React.FC = () => {
 		const ptoEntry = dateInfo?.ptoEntry;
 
 		if (ptoEntry && ptoEntry.id) {
-			// Remove existing PTO for this day
-			deletePTOEntry(selectedGroupId, ptoEntry.id);
+			// Remove existing PTO for this day; the rest of a multi-day entry stays booked
+			removePTODay(selectedGroupId, ptoEntry.id, dateStr);
 		} else {
-			// Add 8h PTO for this day
-			const newEntry = PTOCalendarUtils.createSingleDayEntry(dateStr, 8);
+			// Add a full day of PTO for this day, as long as the balance allows it
+			const newEntry = PTOCalendarUtils.createSingleDayEntry(dateStr, workdayHours);
+			const validation = useStore.getState().validatePTOEntry(selectedGroupId, newEntry);
+			if (!validation.isValid) {
+				alert(validation.warning);
+				return;
+			}
 			addPTOEntry(selectedGroupId, newEntry);
 		}
-	}, [selectedGroupId, dateInfoMap, deletePTOEntry, addPTOEntry]);
+	}, [selectedGroupId, dateInfoMap, removePTODay, addPTOEntry, workdayHours]);
+
+	// Previous/next period; the focused date moves with the view so keyboard navigation carries on
+	const handleShiftView = (direction: 1 | -1) => {
+		shiftView(direction);
+		const state = useStore.getState();
+		const months = differenceInCalendarMonths(getViewStart(state.viewMode, state.startDate, state.viewDate), viewStart);
+		if (focusedDate) {
+			setFocusedDate(addMonths(focusedDate, months));
+		}
+	};
 
 	const handleKeyDown = (e: React.KeyboardEvent) => {
 		if (!focusedDate || !selectedGroupId) return;
@@ -297,10 +500,18 @@ const Calendar: React.FC = () => {
 				// Move up by a week (or 5 days if weekends are hidden)
 				newIndex = Math.max(currentIndex - (includeWeekends ? 7 : 5), 0);
 				break;
+			case "PageUp":
+				e.preventDefault();
+				handleShiftView(-1);
+				return;
+			case "PageDown":
+				e.preventDefault();
+				handleShiftView(1);
+				return;
 			case " ":
 			case "Enter":
 				e.preventDefault();
-				handleDateSelection(focusedDate);
+				if (!isViewOnly) handleDateSelection(focusedDate);
 				return;
 			default:
 				preventDefault = false;
@@ -335,29 +546,40 @@ const Calendar: React.FC = () => {
 
 		// Check if the date is already in a range for this group
 		const existingRange = findRangeForDate(date, selectedGroup);
-		if (existingRange) {
-			deleteDateRange(selectedGroupId, existingRange);
-
-			// Create two new ranges if needed - one before and one after the clicked date
-			const startDate = parseISO(existingRange.start);
-			const endDate = parseISO(existingRange.end);
-
-			// Only create new ranges if there are dates to include
-			if (isBefore(startDate, date)) {
-				const beforeRange: DateRange = {
-					start: formatISO(startDate, { representation: "date" }),
-					end: formatISO(subDays(date, 1), { representation: "date" }),
-				};
-				addDateRange(selectedGroupId, beforeRange);
-			}
+		if (existingRange?.recurrence) {
+			// Occurrences of a series are edited in the modal, one at a time or all together
+			setModalDate(formatISO(date, { representation: "date" }));
+			setModalExistingRange(existingRange);
+			setShowDateRangeModal(true);
+		} else if (existingRange) {
+			// Removing a day can split a range in two; undo should restore it in one step
+			batchHistory(`Removed ${format(date, "MMM d")} from '${selectedGroup.name}'`, () => {
+				deleteDateRange(selectedGroupId, existingRange);
+
+				// Create two new ranges if needed - one before and one after the clicked date
+				const startDate = parseISO(existingRange.start);
+				const endDate = parseISO(existingRange.end);
+
+				// Only create new ranges if there are dates to include.
+				// The first one keeps the range's id, so its exported event is updated rather than duplicated.
+				if (isBefore(startDate, date)) {
+					const beforeRange: DateRange = {
+						id: existingRange.id,
+						start: formatISO(startDate, { representation: "date" }),
+						end: formatISO(subDays(date, 1), { representation: "date" }),
+					};
+					addDateRange(selectedGroupId, beforeRange);
+				}
 
-			if (isAfter(endDate, date)) {
-				const afterRange: DateRange = {
-					start: formatISO(addDays(date, 1), { representation: "date" }),
-					end: formatISO(endDate, { representation: "date" }),
-				};
-				addDateRange(selectedGroupId, afterRange);
-			}
+				if (isAfter(endDate, date)) {
+					const afterRange: DateRange = {
+						id: isBefore(startDate, date) ? undefined : existingRange.id,
+						start: formatISO(addDays(date, 1), { representation: "date" }),
+						end: formatISO(endDate, { representation: "date" }),
+					};
+					addDateRange(selectedGroupId, afterRange);
+				}
+			});
 		} else {
 			// Add single date
 			const newRange: DateRange = {
@@ -368,7 +590,7 @@ const Calendar: React.FC = () => {
 		}
 	};
 
-	const handleMouseDown = (date: Date) => {
+	const handleMouseDown = (date: Date, edge?: RangeDragMode) => {
 		// CRITICAL: Read fresh state from store to avoid stale closure values
 		// The component may not have re-rendered yet after sidebar selection
 		const freshSelectedGroupId = useStore.getState().selectedGroupId;
@@ -393,6 +615,14 @@ const Calendar: React.FC = () => {
 			return;
 		}
 
+		// Grabbing a range lets it be dragged to new dates; handleMouseEnterDate tracks the pointer
+		const mode = edge ?? "move";
+		const grabbed = findDraggableRange(freshSelectedGroup, dateStr, mode, freshIsPTOEnabled);
+		dragRef.current = grabbed ? { ...grabbed, mode, from: dateStr } : null;
+
+		// Edge handles only resize, so they don't toggle the date or open a modal
+		if (edge) return;
+
 		// Store clicked date for handleMouseUp
 		clickedDateRef.current = date;
 
@@ -422,7 +652,23 @@ const Calendar: React.FC = () => {
 	};
 
 	const handleMouseEnterDate = (date: Date, event: React.MouseEvent) => {
-		const tooltipContent = getTooltipContent(date);
+		const drag = dragRef.current;
+		if (drag) {
+			const dateStr = formatISO(date, { representation: "date" });
+			if (dateStr === drag.from && !drag.dates) return;
+
+			// Moving off the grabbed date turns the press into a drag
+			if (longPressTimerRef.current) {
+				clearTimeout(longPressTimerRef.current);
+				longPressTimerRef.current = null;
+			}
+			drag.dates = getDraggedRange(drag.range, drag.mode, drag.from, dateStr);
+			setDragPreview({ original: drag.range, dates: drag.dates });
+			setTooltip(null);
+			return;
+		}
+
+		const tooltipContent = useStore.getState().showHeatmap ? getCoverageTooltip(date) : getTooltipContent(date);
 		if (tooltipContent) {
 			const rect = (event.target as HTMLElement).getBoundingClientRect();
 			setTooltip({
@@ -449,6 +695,10 @@ const Calendar: React.FC = () => {
 			longPressTimerRef.current = null;
 		}
 
+		const drag = dragRef.current;
+		dragRef.current = null;
+		setDragPreview(null);
+
 		// If this was a long press, don't do anything (modal already opened)
 		if (isLongPress) {
 			console.log('Was long press, modal opened');
@@ -457,6 +707,14 @@ const Calendar: React.FC = () => {
 			return;
 		}
 
+		// Drag: save the range at its new dates instead of treating the press as a click
+		if (drag?.dates) {
+			clickedDateRef.current = null;
+			const groupId = useStore.getState().selectedGroupId;
+			if (groupId) commitRangeDrag(groupId, drag, drag.dates);
+			return;
+		}
+
 		// Short click: toggle single date
 		if (!clickedDateRef.current) {
 			console.log('No clicked date, aborting');
@@ -484,15 +742,15 @@ const Calendar: React.FC = () => {
 			const existingRange = findRangeForDate(date, freshSelectedGroup);
 
 			if (existingRange) {
-				// Check if it's a single-day range
-				const isSingleDay = existingRange.start === existingRange.end;
+				// Check if it's a single-day range (occurrences of a series always open the modal)
+				const isSingleDay = existingRange.start === existingRange.end && !existingRange.recurrence;
 
 				if (isSingleDay) {
 					// Single-day range: remove it directly (quick toggle)
 					console.log('Removing single-day range');
 					deleteDateRange(freshSelectedGroupId, existingRange);
 				} else {
-					// Multi-day range: open modal to edit
+					// Multi-day or recurring range: open modal to edit
 					console.log('Opening modal to edit multi-day range');
 					const dateStr = formatISO(date, { representation: "date" });
 					setModalDate(dateStr);
@@ -554,12 +812,16 @@ const Calendar: React.FC = () => {
 		let ptoText = "";
 		if (selectedGroupId && isPTOEnabled && dateInfo.ptoEntry) {
 			const ptoEntry = dateInfo.ptoEntry;
-			const hourText = ptoEntry.hoursPerDay === 2 ? "Quarter Day" :
-							ptoEntry.hoursPerDay === 4 ? "Half Day" : "Full Day";
+			const fraction = ptoEntry.hoursPerDay / workdayHours;
+			const hourText = fraction >= 1 ? "Full Day" :
+							fraction === 0.5 ? "Half Day" :
+							fraction === 0.25 ? "Quarter Day" : "Partial Day";
 			const nameText = ptoEntry.name ? ` - ${ptoEntry.name}` : "";
 			const dayText = ptoEntry.startDate === ptoEntry.endDate ? "" :
 							` (${ptoEntry.startDate} to ${ptoEntry.endDate})`;
-			ptoText = `PTO: ${hourText} (${ptoEntry.hoursPerDay}h)${nameText}${dayText}`;
+			const leaveType = PTOCalendarUtils.getLeaveType(ptoEntry);
+			const typeText = leaveType === "vacation" ? "PTO" : LEAVE_TYPE_LABELS[leaveType];
+			ptoText = `${typeText}: ${hourText} (${ptoEntry.hoursPerDay}h)${nameText}${dayText}`;
 		}
 
 		// Read fresh groups from store to avoid stale descriptions
@@ -574,11 +836,11 @@ const Calendar: React.FC = () => {
 			if (groupsWithEvent.length === 1) {
 				const group = groupsWithEvent[0];
 				const isSelected = group.id === selectedGroupId;
-				const isHoliday = group.name === "Unispace Holidays";
+				const isHoliday = group.id === holidaysGroup.id;
 				const prefix = isHoliday ? "" : (isSelected ? "" : "");
 
 				if (isHoliday) {
-					const holidayName = getHolidayFromISODate(formatISO(date, { representation: "date" }));
+					const holidayName = getHolidayFromISODate(formatISO(date, { representation: "date" }), holidayRegionId);
 					calendarText = `${prefix} ${holidayName || group.name}`;
 				} else {
 					// Check if this range has a description (using fresh group reference)
@@ -587,18 +849,18 @@ const Calendar: React.FC = () => {
 					calendarText = `${prefix} ${group.name}${isSelected ? "" : ""}${descriptionText}`;
 				}
 			} else {
-				const holidayGroup = groupsWithEvent.find(g => g.name === "Unispace Holidays");
+				const holidayGroup = groupsWithEvent.find(g => g.id === holidaysGroup.id);
 				const selectedGroup = groupsWithEvent.find(g => g.id === selectedGroupId);
-				const otherGroups = groupsWithEvent.filter(g => g.id !== selectedGroupId && g.name !== "Unispace Holidays");
+				const otherGroups = groupsWithEvent.filter(g => g.id !== selectedGroupId && g.id !== holidaysGroup.id);
 
 				if (holidayGroup && selectedGroup) {
-					const holidayName = getHolidayFromISODate(formatISO(date, { representation: "date" }));
+					const holidayName = getHolidayFromISODate(formatISO(date, { representation: "date" }), holidayRegionId);
 					const range = findRangeForDate(date, selectedGroup);
 					const descriptionText = range?.description ? ` - ${range.description}` : "";
 					const others = otherGroups.length > 0 ? ` + ${otherGroups.map(g => g.name).join(", ")}` : "";
 					calendarText = `${holidayName || holidayGroup.name} + ${selectedGroup.name}${descriptionText}${others}`;
 				} else if (holidayGroup) {
-					const holidayName = getHolidayFromISODate(formatISO(date, { representation: "date" }));
+					const holidayName = getHolidayFromISODate(formatISO(date, { representation: "date" }), holidayRegionId);
 					const others = otherGroups.length > 0 ? ` + ${otherGroups.map(g => g.name).join(", ")}` : "";
 					calendarText = `${holidayName || holidayGroup.name}${others}`;
 				} else if (selectedGroup) {
@@ -630,6 +892,16 @@ const Calendar: React.FC = () => {
 		return null;
 	};
 
+	// Heatmap tooltip: who is off, and whether too few people are left
+	const getCoverageTooltip = (date: Date): string | null => {
+		const { eventGroups: freshGroups, coverageThreshold: threshold } = useStore.getState();
+		const names = teamAbsencesRef.current.get(formatISO(date, { representation: "date" })) || [];
+		if (names.length === 0) return null;
+
+		const risk = isCoverageRisk(names.length, threshold) ? " · Coverage risk" : "";
+		return `${names.length} of ${freshGroups.length} out: ${names.join(", ")}${risk}`;
+	};
+
 	const getDayClassName = (date: Date): string => {
 		let className = "calendar-day";
 
@@ -648,18 +920,36 @@ const Calendar: React.FC = () => {
 		}
 
 		const dateStr = formatISO(date, { representation: "date" });
+
+		// Live preview of a range being dragged, with the dates it is leaving dimmed
+		if (isInDraggedRange(dateStr, dragPreview?.dates ?? null)) {
+			className += " drag-preview";
+		} else if (isInDraggedRange(dateStr, dragPreview?.original ?? null)) {
+			className += " drag-source";
+		}
 		const dateInfo = dateInfoMap.get(dateStr);
 
-		// Add PTO-specific visual classes (only on weekdays)
-		if (dateInfo?.ptoEntry && selectedGroupId && isPTOEnabled && !isWeekend(date)) {
+		// The heatmap shades days by how many calendars are out instead of by calendar colour
+		if (showHeatmap) {
+			const outCount = teamAbsences.get(dateStr)?.length ?? 0;
+			className += ` heat-${getHeatLevel(outCount, eventGroups.length)}`;
+			if (isCoverageRisk(outCount, coverageThreshold)) className += " coverage-risk";
+			if (dateInfo?.isHoliday) className += " holiday";
+			return className;
+		}
+
+		// Add PTO-specific visual classes (only on scheduled workdays)
+		if (dateInfo?.ptoEntry && selectedGroupId && isPTOEnabled && workSchedule[date.getDay()] > 0) {
 			const ptoEntry = dateInfo.ptoEntry;
-			if (ptoEntry.hoursPerDay === 8) {
+			const fraction = ptoEntry.hoursPerDay / workdayHours;
+			if (fraction >= 1) {
 				className += " pto-full-day";
-			} else if (ptoEntry.hoursPerDay === 4) {
+			} else if (fraction >= 0.5) {
 				className += " pto-half-day";
-			} else if (ptoEntry.hoursPerDay === 2) {
+			} else {
 				className += " pto-quarter-day";
 			}
+			className += ` pto-type-${PTOCalendarUtils.getLeaveType(ptoEntry)}`;
 		}
 
 		// Check if this date has a holiday (apply subtle background)
@@ -668,7 +958,7 @@ const Calendar: React.FC = () => {
 		}
 
 		// Apply gradient styling for single calendar event (not multiple overlaps)
-		const groupsWithDate = dateInfo?.groups.filter(g => g.name !== "Unispace Holidays") || [];
+		const groupsWithDate = dateInfo?.groups.filter(g => g.id !== holidaysGroup.id) || [];
 		if (groupsWithDate.length === 1) {
 			className += " has-gradient";
 		}
@@ -676,6 +966,24 @@ const Calendar: React.FC = () => {
 		return className;
 	};
 
+	// Inline text for the month view: PTO and the descriptions of ranges and holidays on the date
+	const getDayLabel = (date: Date): string | undefined => {
+		const dateStr = formatISO(date, { representation: "date" });
+		const dateInfo = dateInfoMap.get(dateStr);
+		if (!dateInfo) return undefined;
+
+		const labels: string[] = [];
+		if (dateInfo.ptoEntry && selectedGroupId && isPTOEnabled) {
+			const leaveType = PTOCalendarUtils.getLeaveType(dateInfo.ptoEntry);
+			labels.push(dateInfo.ptoEntry.name || (leaveType === "vacation" ? "PTO" : LEAVE_TYPE_LABELS[leaveType]));
+		}
+		dateInfo.groups.forEach(group => {
+			const description = findRangeForDate(date, group)?.description;
+			if (description && !labels.includes(description)) labels.push(description);
+		});
+		return labels.length > 0 ? labels.join(" · ") : undefined;
+	};
+
 	// Get gradient style for a date based on calendar color (uses imported utility function)
 	// This applies to ALL calendars (not just selected), but only when there's a single calendar on that date
 	const getGradientStyle = (date: Date): React.CSSProperties | null => {
@@ -685,7 +993,7 @@ const Calendar: React.FC = () => {
 		if (!dateInfo) return null;
 
 		// Find all calendars with events on this date (excluding holidays)
-		const groupsWithDate = dateInfo.groups.filter(g => g.name !== "Unispace Holidays");
+		const groupsWithDate = dateInfo.groups.filter(g => g.id !== holidaysGroup.id);
 
 		// Count total calendars including PTO entry (if it exists)
 		const hasPTOEntry = dateInfo.ptoEntry && selectedGroupId && isPTOEnabled;
@@ -763,16 +1071,63 @@ const Calendar: React.FC = () => {
 	};
 
 	return (
-		<>
+		<div className="calendar-view">
+		<div className="calendar-toolbar">
+			<div className="view-modes" role="group" aria-label="Calendar view">
+				{(Object.keys(VIEW_MODE_LABELS) as ViewMode[]).map((mode) => (
+					<button
+						key={mode}
+						className={viewMode === mode ? "selected" : ""}
+						onClick={() => setViewMode(mode)}
+						aria-pressed={viewMode === mode}
+					>
+						{VIEW_MODE_LABELS[mode]}
+					</button>
+				))}
+			</div>
+			<div className="view-navigation">
+				<button onClick={() => handleShiftView(-1)} aria-label="Show previous period">
+					‹
+				</button>
+				<span aria-live="polite">{getViewTitle(viewMode, viewStart)}</span>
+				<button onClick={() => handleShiftView(1)} aria-label="Show next period">
+					›
+				</button>
+			</div>
+			<div className="heatmap-controls">
+				<button
+					className={showHeatmap ? "selected" : ""}
+					onClick={() => setShowHeatmap(!showHeatmap)}
+					aria-pressed={showHeatmap}
+					title="Shade each day by how many calendars are out"
+				>
+					Heatmap
+				</button>
+				{showHeatmap && (
+					<label>
+						Risk at
+						<input
+							type="number"
+							min={1}
+							max={Math.max(1, eventGroups.length)}
+							value={coverageThreshold}
+							onChange={(e) => setCoverageThreshold(Number(e.target.value))}
+							aria-label="Number of calendars out that makes a coverage risk"
+						/>
+						out
+					</label>
+				)}
+			</div>
+		</div>
 		<div
-			className="calendar-container"
+			className={`calendar-container view-${viewMode}${dragPreview ? " dragging" : ""}`}
 			ref={calendarGridRef}
 			onKeyDown={handleKeyDown}
 			onFocus={handleContainerFocus}
 			onBlur={handleContainerBlur}
 			tabIndex={0}
 			role="application"
-			aria-label="Calendar grid. Use arrow keys to navigate dates and space or enter to select."
+			aria-label="Calendar grid. Use arrow keys to navigate dates, space or enter to select, and page up or page down to change period."
 		>
 			{Object.entries(groupedDates).map(([monthYearKey, datesInMonth]) => {
 				const [year, monthIndex] = monthYearKey.split("-").map(Number);
@@ -820,14 +1175,14 @@ const Calendar: React.FC = () => {
 
 								// Quick lookups from pre-computed map
 								const isSelected = dateInfo ? dateInfo.groups.length > 0 : false;
-								const groupsWithoutHolidays = dateInfo?.groups.filter(g => g.name !== "Unispace Holidays") || [];
+								const groupsWithoutHolidays = dateInfo?.groups.filter(g => g.id !== holidaysGroup.id) || [];
 								// Include PTO entries in the count to determine if we show gradient or range indicators
 								const hasPTOEntry = dateInfo?.ptoEntry && selectedGroupId && isPTOEnabled;
 								const totalCalendarsOnDate = groupsWithoutHolidays.length + (hasPTOEntry ? 1 : 0);
-								const hasSingleCalendar = totalCalendarsOnDate === 1;
+								const hasSingleCalendar = showHeatmap || totalCalendarsOnDate === 1;
 
-								const gradientStyle = getGradientStyle(date);
-								const rangeStyles = getRangeStyles(date);
+								const gradientStyle = showHeatmap ? null : getGradientStyle(date);
+								const rangeStyles = showHeatmap ? [] : getRangeStyles(date);
 								const isFocused = focusedDate ? checkSameDay(date, focusedDate) : false;
 
 								return (
@@ -841,7 +1196,9 @@ const Calendar: React.FC = () => {
 										gradientStyle={gradientStyle}
 										rangeStyles={rangeStyles}
 										isFocused={isFocused}
-										onMouseDown={handleMouseDown}
+										rangeEdge={isViewOnly ? undefined : rangeEdges.get(dateStr)}
+										label={viewMode === "month" ? getDayLabel(date) : undefined}
+										onMouseDown={isViewOnly ? undefined : handleMouseDown}
 										onMouseEnter={handleMouseEnterDate}
 										onMouseLeave={handleMouseLeaveDate}
 									/>
@@ -899,7 +1256,7 @@ const Calendar: React.FC = () => {
 				}}
 			/>
 		)}
-		</>
+		</div>
 	);
 };
 
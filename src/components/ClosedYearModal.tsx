@@ -0,0 +1,131 @@
+import React from "react";
+import { format, parseISO } from "date-fns";
+import XIcon from "./icons/XIcon";
+import CalendarIcon from "./icons/CalendarIcon";
+import { useStore, EventGroup } from "../store";
+import { LEAVE_TYPE_LABELS, PTOCalendarUtils } from "../utils/ptoUtils";
+import { closePTOYear, getClosedYear } from "../utils/ptoYearEnd";
+import "./Modal.css";
+import "./PTOSummaryDashboard.css";
+
+interface ClosedYearModalProps {
+	group: EventGroup;
+	year: number;
+	onClose: () => void;
+}
+
+// Previews closing a plan year, or shows the frozen snapshot of a closed one
+const ClosedYearModal: React.FC<ClosedYearModalProps> = ({ group, year, onClose }) => {
+	const { closePTOYear: closeYear, reopenPTOYear, getPTOConfigForYear } = useStore();
+	const closedYear = getClosedYear(group.closedYears, year);
+	const yearConfig = getPTOConfigForYear(group.id, year);
+	const snapshot = closedYear ?? (yearConfig ? closePTOYear(group.ptoEntries || [], yearConfig, year) : null);
+
+	if (!snapshot) return null;
+
+	const formatHours = (hours: number) => {
+		const rounded = Math.round(hours * 100) / 100;
+		return `${rounded}h (${Math.round((hours / snapshot.workdayHours) * 100) / 100} days)`;
+	};
+	const entries = [...snapshot.entries].sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+	const handleClose = () => {
+		closeYear(group.id, year);
+		onClose();
+	};
+
+	const handleReopen = () => {
+		reopenPTOYear(group.id, year);
+		onClose();
+	};
+
+	return (
+		<div className="modal-overlay" onClick={onClose}>
+			<div className="modal-content" onClick={(e) => e.stopPropagation()}>
+				<button
+					className="modal-close"
+					onClick={onClose}
+					aria-label="Close year end"
+				>
+					<XIcon color="var(--text-secondary)" />
+				</button>
+				<h2>
+					<CalendarIcon color="var(--text-primary)" width={28} height={28} /> {year} Year End
+				</h2>
+
+				<div className="pto-modal-content">
+					<p className="share-description">
+						{closedYear
+							? `Closed on ${format(parseISO(closedYear.closedOn), "MMM d, yyyy")}. This is a read-only record of ${year} for ${group.name}.`
+							: `Closing ${year} freezes this summary and carries ${Math.round(snapshot.carriedOverHours * 100) / 100}h into ${year + 1}. PTO in ${year} can't be changed until the year is reopened.`}
+					</p>
+
+					<div className="pto-config-details">
+						<div className="config-item">
+							<span className="config-label">Years of Service:</span>
+							<span className="config-value">{snapshot.yearsOfService}</span>
+						</div>
+						<div className="config-item">
+							<span className="config-label">Total Available:</span>
+							<span className="config-value">{formatHours(snapshot.totalHours)}</span>
+						</div>
+						<div className="config-item">
+							<span className="config-label">Used:</span>
+							<span className="config-value">{formatHours(snapshot.usedHours)}</span>
+						</div>
+						{snapshot.expiredHours > 0 && (
+							<div className="config-item">
+								<span className="config-label">Expired Carryover:</span>
+								<span className="config-value">{formatHours(snapshot.expiredHours)}</span>
+							</div>
+						)}
+						<div className="config-item">
+							<span className="config-label">Remaining:</span>
+							<span className="config-value">{formatHours(snapshot.remainingHours)}</span>
+						</div>
+						<div className="config-item">
+							<span className="config-label">Carried into {year + 1}:</span>
+							<span className="config-value">{formatHours(snapshot.carriedOverHours)}</span>
+						</div>
+					</div>
+
+					{entries.length > 0 && (
+						<ul className="ics-import-preview">
+							{entries.map((entry) => (
+								<li key={`${entry.startDate}-${entry.endDate}`}>
+									<span className="ics-import-dates">
+										{entry.startDate === entry.endDate
+											? format(parseISO(entry.startDate), "MMM d")
+											: `${format(parseISO(entry.startDate), "MMM d")} – ${format(parseISO(entry.endDate), "MMM d")}`}
+									</span>
+									<span className="ics-import-description">
+										{entry.name || LEAVE_TYPE_LABELS[PTOCalendarUtils.getLeaveType(entry)]}
+									</span>
+									<span>{entry.totalHours}h</span>
+								</li>
+							))}
+						</ul>
+					)}
+
+					<div className="modal-actions">
+						{closedYear && (
+							<button onClick={handleReopen} className="delete-button">
+								Reopen {year}
+							</button>
+						)}
+						<button onClick={onClose} className="cancel-button">
+							{closedYear ? "Done" : "Cancel"}
+						</button>
+						{!closedYear && (
+							<button onClick={handleClose} className="submit-button">
+								Close {year}
+							</button>
+						)}
+					</div>
+				</div>
+			</div>
+		</div>
+	);
+};
+
+export default ClosedYearModal;
@@ -0,0 +1,206 @@
+import React, { useRef, useState } from "react";
+import { useStore, EventGroup } from "../store";
+import CalendarIcon from "./icons/CalendarIcon";
+import PlusIcon from "./icons/PlusIcon";
+import Tooltip from "./Tooltip";
+import ICSImportModal from "./ICSImportModal";
+import PTOImportModal from "./PTOImportModal";
+import HolidayImportModal from "./HolidayImportModal";
+import ClosedYearModal from "./ClosedYearModal";
+import { getHolidayRegion } from "../constants/holidays";
+import { getClosedYear } from "../utils/ptoYearEnd";
+import { exportGroupAsICS } from "../utils/icsExport";
+import {
+	ExportData,
+	exportForADP,
+	exportPTODataAsCSV,
+	exportPTODataAsJSON,
+	exportPTOSummaryReportAsHTML,
+	importPTODataFromJSON,
+} from "../utils/ptoExport";
+
+interface DataPanelProps {
+	group: EventGroup;
+	disabled?: boolean;
+}
+
+// Import/export for the selected calendar
+const DataPanel: React.FC<DataPanelProps> = ({ group, disabled }) => {
+	const { startDate, isPTOEnabledForGroup, getPTOConfigForYear, customHolidays, removeCustomHolidays } = useStore();
+	const [showICSImport, setShowICSImport] = useState(false);
+	const [showHolidayImport, setShowHolidayImport] = useState(false);
+	const [showYearEnd, setShowYearEnd] = useState(false);
+	const [ptoImport, setPTOImport] = useState<{ data: ExportData; fileName: string } | null>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	const ptoEnabled = isPTOEnabledForGroup(group.id) && !!group.ptoConfig;
+	const ptoEntries = group.ptoEntries || [];
+	const holidayRegion = getHolidayRegion(group.ptoConfig?.holidayRegion);
+	const importedHolidays = customHolidays.find((custom) => custom.regionId === holidayRegion.id);
+	const year = startDate.getFullYear();
+	const isYearClosed = getClosedYear(group.closedYears, year) !== null;
+
+	const handlePTOFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		// Allow choosing the same file again later
+		e.target.value = "";
+		if (!file) return;
+
+		try {
+			const data = await importPTODataFromJSON(file);
+			if (data) setPTOImport({ data, fileName: file.name });
+		} catch (error) {
+			alert(error instanceof Error ? error.message : "Failed to import PTO data");
+		}
+	};
+
+	return (
+		<>
+			<h4>Data - {group.name}</h4>
+			<div className="setting-item">
+				<Tooltip content="Download this calendar as an .ics file for Outlook, Google Calendar or Apple Calendar, or add events from an .ics file. Re-importing a newer export updates events instead of duplicating them.">
+					<label>Calendar File:</label>
+				</Tooltip>
+				<div className="data-buttons">
+					<button
+						className="footer-button data-button"
+						onClick={() => exportGroupAsICS(group)}
+					>
+						<CalendarIcon width={16} height={16} color="currentColor" /> Export .ics
+					</button>
+					<button
+						className="footer-button data-button"
+						onClick={() => setShowICSImport(true)}
+						disabled={disabled}
+					>
+						<PlusIcon width={16} height={16} /> Import .ics
+					</button>
+				</div>
+			</div>
+
+			<div className="setting-item">
+				<Tooltip content={`Replace or add to the built-in ${holidayRegion.calendarName} with a holiday list from HR (.ics or .csv).${importedHolidays ? ` Currently using ${importedHolidays.name}.` : ""}`}>
+					<label>Holidays:</label>
+				</Tooltip>
+				<div className="data-buttons">
+					<button
+						className="footer-button data-button"
+						onClick={() => setShowHolidayImport(true)}
+						disabled={disabled}
+					>
+						<PlusIcon width={16} height={16} /> Import holidays
+					</button>
+					{importedHolidays && (
+						<button
+							className="footer-button data-button"
+							onClick={() => removeCustomHolidays(holidayRegion.id)}
+							disabled={disabled}
+						>
+							Use built-in
+						</button>
+					)}
+				</div>
+			</div>
+
+			{ptoEnabled && group.ptoConfig && (
+				<div className="setting-item">
+					<Tooltip content="JSON is a full backup you can import again. CSV lists each day off, ADP is formatted for time entry, and Report is a printable summary.">
+						<label>PTO Data:</label>
+					</Tooltip>
+					<div className="data-buttons">
+						<button
+							className="footer-button data-button"
+							onClick={() => exportPTODataAsJSON(ptoEntries, group.ptoConfig!)}
+						>
+							JSON
+						</button>
+						<button
+							className="footer-button data-button"
+							onClick={() => exportPTODataAsCSV(ptoEntries, group.ptoConfig!)}
+							disabled={ptoEntries.length === 0}
+						>
+							CSV
+						</button>
+						<button
+							className="footer-button data-button"
+							onClick={() => exportForADP(ptoEntries)}
+							disabled={ptoEntries.length === 0}
+						>
+							ADP
+						</button>
+						<button
+							className="footer-button data-button"
+							onClick={() => exportPTOSummaryReportAsHTML(
+								ptoEntries,
+								getPTOConfigForYear(group.id, year)!,
+								year
+							)}
+						>
+							Report
+						</button>
+						<button
+							className="footer-button data-button"
+							onClick={() => fileInputRef.current?.click()}
+							disabled={disabled}
+						>
+							<PlusIcon width={16} height={16} /> Import JSON
+						</button>
+						<input
+							ref={fileInputRef}
+							type="file"
+							accept=".json,application/json"
+							onChange={handlePTOFileChange}
+							hidden
+						/>
+					</div>
+				</div>
+			)}
+
+			{ptoEnabled && (
+				<div className="setting-item">
+					<Tooltip content={isYearClosed
+						? `${year} is closed. View the frozen summary, or reopen the year to change its PTO.`
+						: `Freeze ${year} and carry what's left, up to the carryover limit, into ${year + 1}.`}>
+						<label>Year End:</label>
+					</Tooltip>
+					<div className="data-buttons">
+						<button
+							className="footer-button data-button"
+							onClick={() => setShowYearEnd(true)}
+							disabled={disabled && !isYearClosed}
+						>
+							{isYearClosed ? `View ${year}` : `Close ${year}`}
+						</button>
+					</div>
+				</div>
+			)}
+
+			{showICSImport && (
+				<ICSImportModal onClose={() => setShowICSImport(false)} />
+			)}
+			{showHolidayImport && (
+				<HolidayImportModal
+					regionId={holidayRegion.id}
+					onClose={() => setShowHolidayImport(false)}
+				/>
+			)}
+			{showYearEnd && (
+				<ClosedYearModal
+					group={group}
+					year={year}
+					onClose={() => setShowYearEnd(false)}
+				/>
+			)}
+			{ptoImport && (
+				<PTOImportModal
+					group={group}
+					data={ptoImport.data}
+					fileName={ptoImport.fileName}
+					onClose={() => setPTOImport(null)}
+				/>
+			)}
+		</>
+	);
+};
+
+export default DataPanel;
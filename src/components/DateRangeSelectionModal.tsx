@@ -1,31 +1,65 @@
 import React, { useState } from "react";
 import XIcon from "./icons/XIcon";
-import { useStore, DateRange } from "../store";
-import { format, parseISO, isAfter } from "date-fns";
+import { useStore, DateRange, findOccurrenceForDate } from "../store";
+import { format, parseISO, isAfter, getDay, getDaysInMonth } from "date-fns";
+import { describeRecurrence, RecurrenceFrequency, RecurrenceRule } from "../utils/recurrence";
 import "./Modal.css";
 
 interface DateRangeSelectionModalProps {
 	selectedDate: string; // ISO date format - initial date clicked
-	existingRange?: DateRange; // If editing an existing range
+	existingRange?: DateRange; // If editing an existing range (the whole series when it repeats)
 	onClose: () => void;
 }
 
+type RepeatOption = "none" | RecurrenceFrequency;
+type MonthlyOption = "day" | "nth" | "last"; // By date, nth weekday or last weekday of the month
+type EndOption = "never" | "until" | "count";
+
+const REPEAT_LABELS: Record<RepeatOption, string> = {
+	none: "Does not repeat",
+	daily: "Daily",
+	weekly: "Weekly",
+	monthly: "Monthly",
+	yearly: "Yearly",
+};
+const REPEAT_UNITS: Record<RecurrenceFrequency, string> = { daily: "day", weekly: "week", monthly: "month", yearly: "year" };
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const ORDINAL_LABELS = ["first", "second", "third", "fourth", "fifth"];
+
 const DateRangeSelectionModal: React.FC<DateRangeSelectionModalProps> = ({
 	selectedDate,
 	existingRange,
 	onClose
 }) => {
-	const { selectedGroupId, addDateRange, deleteDateRange } = useStore();
+	const { selectedGroupId, addDateRange, updateDateRange, deleteDateRange, updateRangeOccurrence } = useStore();
+
+	// A repeating range is edited one occurrence at a time unless the whole series is chosen
+	const series = existingRange?.recurrence ? existingRange : null;
+	const occurrence = series ? findOccurrenceForDate(parseISO(selectedDate), series) : null;
+	const rule = existingRange?.recurrence;
 
+	const [scope, setScope] = useState<"occurrence" | "series">("occurrence");
 	const [startDate, setStartDate] = useState<string>(
-		existingRange?.start || selectedDate
+		occurrence?.start || existingRange?.start || selectedDate
 	);
 	const [endDate, setEndDate] = useState<string>(
-		existingRange?.end || selectedDate
+		occurrence?.end || existingRange?.end || selectedDate
 	);
 	const [description, setDescription] = useState<string>(
 		existingRange?.description || ""
 	);
+	const [repeat, setRepeat] = useState<RepeatOption>(rule?.frequency || "none");
+	const [repeatInterval, setRepeatInterval] = useState<number>(rule?.interval || 1);
+	const [weekdays, setWeekdays] = useState<number[]>(
+		rule?.byWeekday?.length ? rule.byWeekday : [getDay(parseISO(existingRange?.start || selectedDate))]
+	);
+	const [monthly, setMonthly] = useState<MonthlyOption>(
+		rule?.byNthWeekday ? (rule.byNthWeekday.n < 0 ? "last" : "nth") : "day"
+	);
+	const [ends, setEnds] = useState<EndOption>(rule?.until ? "until" : rule?.count ? "count" : "never");
+	const [until, setUntil] = useState<string>(rule?.until || `${parseISO(selectedDate).getFullYear()}-12-31`);
+	const [count, setCount] = useState<number>(rule?.count || 10);
+	const [exceptions, setExceptions] = useState<string[]>(rule?.exceptions || []);
 
 	if (!selectedGroupId) {
 		return null;
@@ -33,40 +67,101 @@ const DateRangeSelectionModal: React.FC<DateRangeSelectionModalProps> = ({
 
 	const parsedDate = parseISO(selectedDate);
 	const formattedDate = format(parsedDate, "EEEE, MMMM d, yyyy");
+	const editsOccurrence = !!(series && occurrence && scope === "occurrence");
+
+	const start = parseISO(startDate);
+	const nthWeekday = Math.ceil(start.getDate() / 7);
+	const isLastWeekday = start.getDate() + 7 > getDaysInMonth(start);
+
+	const handleScopeChange = (newScope: "occurrence" | "series") => {
+		if (!series || !occurrence) return;
+		const dates = newScope === "series" ? series : occurrence;
+		setScope(newScope);
+		setStartDate(dates.start);
+		setEndDate(dates.end);
+	};
+
+	const toggleWeekday = (weekday: number) => {
+		setWeekdays(weekdays.includes(weekday)
+			? weekdays.filter((day) => day !== weekday)
+			: [...weekdays, weekday].sort());
+	};
+
+	const buildRecurrence = (): RecurrenceRule | undefined => {
+		if (repeat === "none") return undefined;
+		return {
+			frequency: repeat,
+			...(repeatInterval > 1 ? { interval: repeatInterval } : {}),
+			...(ends === "until" ? { until } : {}),
+			...(ends === "count" ? { count } : {}),
+			...(repeat === "weekly" && weekdays.length > 0 ? { byWeekday: weekdays } : {}),
+			// Imported series can count their weeks from another day
+			...(repeat === "weekly" && rule?.weekStart !== undefined ? { weekStart: rule.weekStart } : {}),
+			...(repeat === "monthly" && monthly !== "day"
+				? { byNthWeekday: { n: monthly === "last" ? -1 : nthWeekday, weekday: getDay(start) } }
+				: {}),
+			...(exceptions.length > 0 ? { exceptions } : {}),
+		};
+	};
+	const recurrence = editsOccurrence ? undefined : buildRecurrence();
 
 	const handleSubmit = () => {
 		// Validate dates
-		const start = parseISO(startDate);
 		const end = parseISO(endDate);
 
 		if (isAfter(start, end)) {
 			alert("Start date must be before or equal to end date.");
 			return;
 		}
-
-		// Delete existing range if editing
-		if (existingRange) {
-			deleteDateRange(selectedGroupId, existingRange);
+		if (recurrence) {
+			if (!Number.isInteger(repeatInterval) || repeatInterval < 1) {
+				alert("Repeat interval must be a whole number of at least 1.");
+				return;
+			}
+			if (ends === "until" && until < startDate) {
+				alert("A series must end on or after its start date.");
+				return;
+			}
+			if (ends === "count" && (!Number.isInteger(count) || count < 1)) {
+				alert("A series must repeat at least once.");
+				return;
+			}
 		}
 
-		// Create new range
 		const newRange: DateRange = {
 			start: startDate,
 			end: endDate,
 			description: description.trim() || undefined,
+			...(recurrence ? { recurrence } : {}),
 		};
 
-		addDateRange(selectedGroupId, newRange);
+		if (series && occurrence && editsOccurrence) {
+			const unchanged = startDate === occurrence.start &&
+				endDate === occurrence.end &&
+				newRange.description === occurrence.description;
+			// Only this occurrence changes; the series skips it from now on
+			if (!unchanged) updateRangeOccurrence(selectedGroupId, series, occurrence.start, newRange);
+		} else if (existingRange) {
+			// Replace the existing range in place when editing (a single undo step)
+			updateDateRange(selectedGroupId, existingRange, newRange);
+		} else {
+			addDateRange(selectedGroupId, newRange);
+		}
 		onClose();
 	};
 
 	const handleDelete = () => {
-		if (existingRange) {
+		if (series && occurrence && editsOccurrence) {
+			updateRangeOccurrence(selectedGroupId, series, occurrence.start, null);
+			onClose();
+		} else if (existingRange) {
 			deleteDateRange(selectedGroupId, existingRange);
 			onClose();
 		}
 	};
 
+	const rangeLabel = editsOccurrence ? "Occurrence" : series ? "Series" : "Range";
+
 	return (
 		<div className="modal-overlay" onClick={onClose}>
 			<div className="modal-content" onClick={(e) => e.stopPropagation()}>
@@ -78,17 +173,40 @@ const DateRangeSelectionModal: React.FC<DateRangeSelectionModalProps> = ({
 					<XIcon color="var(--text-secondary)" />
 				</button>
 
-				<h2>{existingRange ? "Edit Date Range" : "Add Date Range"}</h2>
+				<h2>{existingRange ? `Edit ${rangeLabel}` : "Add Date Range"}</h2>
 
 				<div className="pto-modal-content">
 					<div className="pto-date-info">
 						<h3>Selected: {formattedDate}</h3>
 					</div>
 
+					{/* Occurrence or whole series */}
+					{series && occurrence && (
+						<div className="pto-hours-selection">
+							<label>Edit:</label>
+							<div className="hours-buttons">
+								<button
+									type="button"
+									className={`hour-button ${scope === "occurrence" ? "selected" : ""}`}
+									onClick={() => handleScopeChange("occurrence")}
+								>
+									This occurrence
+								</button>
+								<button
+									type="button"
+									className={`hour-button ${scope === "series" ? "selected" : ""}`}
+									onClick={() => handleScopeChange("series")}
+								>
+									Whole series
+								</button>
+							</div>
+						</div>
+					)}
+
 					{/* Date range inputs */}
 					<div className="date-range-inputs">
 						<div className="date-input-group">
-							<label htmlFor="start-date">Start Date:</label>
+							<label htmlFor="start-date">{series && !editsOccurrence ? "First Start Date:" : "Start Date:"}</label>
 							<input
 								type="date"
 								id="start-date"
@@ -97,7 +215,7 @@ const DateRangeSelectionModal: React.FC<DateRangeSelectionModalProps> = ({
 							/>
 						</div>
 						<div className="date-input-group">
-							<label htmlFor="end-date">End Date:</label>
+							<label htmlFor="end-date">{series && !editsOccurrence ? "First End Date:" : "End Date:"}</label>
 							<input
 								type="date"
 								id="end-date"
@@ -107,6 +225,119 @@ const DateRangeSelectionModal: React.FC<DateRangeSelectionModalProps> = ({
 						</div>
 					</div>
 
+					{/* Recurrence */}
+					{!editsOccurrence && (
+						<div className="pto-description recurrence-options">
+							<label htmlFor="range-repeat">Repeat:</label>
+							<select
+								id="range-repeat"
+								value={repeat}
+								onChange={(e) => setRepeat(e.target.value as RepeatOption)}
+							>
+								{(Object.keys(REPEAT_LABELS) as RepeatOption[]).map((option) => (
+									<option key={option} value={option}>
+										{REPEAT_LABELS[option]}
+									</option>
+								))}
+							</select>
+
+							{repeat !== "none" && (
+								<>
+									<div className="recurrence-row">
+										<span>Every</span>
+										<input
+											type="number"
+											className="pto-custom-hours"
+											aria-label="Repeat interval"
+											min={1}
+											value={repeatInterval}
+											onChange={(e) => setRepeatInterval(Number(e.target.value))}
+										/>
+										<span>{REPEAT_UNITS[repeat]}{repeatInterval === 1 ? "" : "s"}</span>
+									</div>
+
+									{repeat === "weekly" && (
+										<div className="hours-buttons recurrence-weekdays">
+											{WEEKDAY_LABELS.map((label, weekday) => (
+												<button
+													key={label}
+													type="button"
+													className={`hour-button ${weekdays.includes(weekday) ? "selected" : ""}`}
+													onClick={() => toggleWeekday(weekday)}
+												>
+													{label}
+												</button>
+											))}
+										</div>
+									)}
+
+									{repeat === "monthly" && (
+										<select
+											value={monthly}
+											onChange={(e) => setMonthly(e.target.value as MonthlyOption)}
+											aria-label="Monthly on"
+										>
+											<option value="day">On day {start.getDate()}</option>
+											<option value="nth">
+												On the {ORDINAL_LABELS[nthWeekday - 1]} {format(start, "EEEE")}
+											</option>
+											{isLastWeekday && (
+												<option value="last">On the last {format(start, "EEEE")}</option>
+											)}
+										</select>
+									)}
+
+									<div className="recurrence-row">
+										<select
+											value={ends}
+											onChange={(e) => setEnds(e.target.value as EndOption)}
+											aria-label="Series ends"
+										>
+											<option value="never">Never ends</option>
+											<option value="until">Ends on</option>
+											<option value="count">Ends after</option>
+										</select>
+										{ends === "until" && (
+											<input
+												type="date"
+												aria-label="Last occurrence"
+												value={until}
+												onChange={(e) => setUntil(e.target.value)}
+											/>
+										)}
+										{ends === "count" && (
+											<>
+												<input
+													type="number"
+													className="pto-custom-hours"
+													aria-label="Number of occurrences"
+													min={1}
+													value={count}
+													onChange={(e) => setCount(Number(e.target.value))}
+												/>
+												<span>{count === 1 ? "occurrence" : "occurrences"}</span>
+											</>
+										)}
+									</div>
+
+									{recurrence && (
+										<p className="share-note">{describeRecurrence(recurrence, startDate)}</p>
+									)}
+									{exceptions.length > 0 && (
+										<div className="recurrence-row">
+											<span>
+												Skips {exceptions.map((date) => format(parseISO(date), "MMM d")).join(", ")}
+											</span>
+											<button type="button" className="cancel-button" onClick={() => setExceptions([])}>
+												Restore
+											</button>
+										</div>
+									)}
+								</>
+							)}
+						</div>
+					)}
+
 					{/* Description */}
 					<div className="pto-description">
 						<label htmlFor="range-description">Description (optional):</label>
@@ -124,14 +355,14 @@ const DateRangeSelectionModal: React.FC<DateRangeSelectionModalProps> = ({
 					<div className="modal-actions">
 						{existingRange && (
 							<button onClick={handleDelete} className="delete-button">
-								Delete Range
+								Delete {rangeLabel}
 							</button>
 						)}
 						<button onClick={onClose} className="cancel-button">
 							Cancel
 						</button>
 						<button onClick={handleSubmit} className="submit-button">
-							{existingRange ? "Update" : "Add"} Range
+							{existingRange ? "Update" : "Add"} {rangeLabel}
 						</button>
 					</div>
 				</div>
@@ -30,6 +30,9 @@ const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
 						</li>
 						<li>Your data is saved automatically in your browser</li>
 						<li>Generate shareable snapshot links that won't change when you update your calendar</li>
+						<li>Tick <strong>View only</strong> when sharing to show your plan without letting the recipient edit it or overwrite their own calendar</li>
+						<li>Choose which calendars a link shares, and leave out descriptions, calendar names or PTO hours you want to keep private</li>
+						<li>Open a colleague's link and choose <strong>Merge Into My Calendars</strong> to build a team calendar; calendars with the same name are combined</li>
 					</ul>
 					<h3>Navigation</h3>
 					<ul>
@@ -39,6 +42,9 @@ const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
 						<li>
 							<strong>Long press</strong> (hold 500ms) to open modal for custom hours
 						</li>
+						<li>
+							<strong>Drag</strong> a range to move it, or drag its first or last day's edge to resize it
+						</li>
 						<li>
 							<strong>Arrow keys</strong> to move between dates when calendar is
 							focused
@@ -47,6 +53,19 @@ const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
 							<strong>Enter</strong> or <strong>Space</strong> to toggle the
 							selected date
 						</li>
+						<li>
+							<strong>Month</strong>, <strong>Quarter</strong>, <strong>12 Months</strong> or
+							<strong> Year</strong> above the calendar to change the view, and{" "}
+							<strong>Page Up</strong> or <strong>Page Down</strong> to move between periods
+						</li>
+						<li>
+							<strong>Heatmap</strong> shades each day by how many calendars are out and outlines days
+							at the coverage risk threshold; hover a day to see who is off
+						</li>
+						<li>
+							<strong>Ctrl+Z</strong> to undo and <strong>Ctrl+Shift+Z</strong> to
+							redo changes (<strong>Cmd</strong> on macOS)
+						</li>
 					</ul>
 					<h3 style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
 					<span>About</span>
@@ -0,0 +1,148 @@
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import XIcon from "./icons/XIcon";
+import CalendarIcon from "./icons/CalendarIcon";
+import { useStore } from "../store";
+import {
+	CustomHolidays,
+	getHolidayRegion,
+	HOLIDAY_REGIONS,
+	ImportedHoliday,
+} from "../constants/holidays";
+import { parseHolidayFile } from "../utils/holidayImport";
+import { readICSFile } from "../utils/icsImport";
+import "./Modal.css";
+
+interface HolidayImportModalProps {
+	regionId: string; // Region selected when the modal opens
+	onClose: () => void;
+}
+
+const HolidayImportModal: React.FC<HolidayImportModalProps> = ({ regionId, onClose }) => {
+	const { startDate, customHolidays, importCustomHolidays } = useStore();
+	const year = startDate.getFullYear();
+
+	const [fileName, setFileName] = useState("");
+	const [holidays, setHolidays] = useState<ImportedHoliday[] | null>(null);
+	const [error, setError] = useState("");
+	const [targetRegionId, setTargetRegionId] = useState(regionId);
+	const [mode, setMode] = useState<CustomHolidays["mode"]>("replace");
+
+	const region = getHolidayRegion(targetRegionId);
+	const previousImport = customHolidays.find((custom) => custom.regionId === region.id);
+	const holidaysThisYear = (holidays || []).filter((holiday) => holiday.date.startsWith(`${year}-`));
+
+	const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		if (!file) return;
+
+		setFileName(file.name);
+		setHolidays(null);
+		setError("");
+		try {
+			setHolidays(parseHolidayFile(await readICSFile(file), file.name, year));
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to read file");
+		}
+	};
+
+	const handleImport = () => {
+		if (!holidays) return;
+		importCustomHolidays({ regionId: region.id, name: fileName, mode, holidays });
+		onClose();
+	};
+
+	return (
+		<div className="modal-overlay" onClick={onClose}>
+			<div className="modal-content" onClick={(e) => e.stopPropagation()}>
+				<button
+					className="modal-close"
+					onClick={onClose}
+					aria-label="Close holiday import"
+				>
+					<XIcon color="var(--text-secondary)" />
+				</button>
+				<h2>
+					<CalendarIcon color="var(--text-primary)" width={28} height={28} /> Import Holidays
+				</h2>
+
+				<div className="pto-modal-content">
+					<p className="share-description">
+						Use a holiday list published by HR, as an .ics feed or a CSV file with a date column
+						(YYYY-MM-DD or MM/DD/YYYY) followed by the holiday name. PTO is not charged on imported holidays.
+					</p>
+
+					<div className="pto-description">
+						<label htmlFor="holiday-file">Holiday file:</label>
+						<input
+							type="file"
+							id="holiday-file"
+							accept=".ics,.csv,text/calendar,text/csv"
+							onChange={handleFileChange}
+						/>
+					</div>
+
+					{error && <p className="error-message">{error}</p>}
+
+					{holidays && (
+						<>
+							<div className="pto-description">
+								<label htmlFor="holiday-region-target">Region:</label>
+								<select
+									id="holiday-region-target"
+									value={targetRegionId}
+									onChange={(e) => setTargetRegionId(e.target.value)}
+								>
+									{HOLIDAY_REGIONS.map((option) => (
+										<option key={option.id} value={option.id}>
+											{option.name}
+										</option>
+									))}
+								</select>
+								<select
+									value={mode}
+									onChange={(e) => setMode(e.target.value as CustomHolidays["mode"])}
+									aria-label="Import mode"
+								>
+									<option value="replace">Replace the built-in {region.calendarName}</option>
+									<option value="supplement">Add to the built-in {region.calendarName}</option>
+								</select>
+							</div>
+
+							<div className="ics-import-summary">
+								<span>
+									{holidays.length} {holidays.length === 1 ? "holiday" : "holidays"}, {holidaysThisYear.length} in {year}
+								</span>
+								{previousImport && <span>Replaces the holidays imported from {previousImport.name}</span>}
+							</div>
+
+							<ul className="ics-import-preview">
+								{holidaysThisYear.map((holiday) => (
+									<li key={holiday.date}>
+										<span className="ics-import-dates">{format(parseISO(holiday.date), "EEE MMM d")}</span>
+										<span className="ics-import-description">{holiday.name}</span>
+									</li>
+								))}
+							</ul>
+						</>
+					)}
+
+					<div className="modal-actions">
+						<button onClick={onClose} className="cancel-button">
+							Cancel
+						</button>
+						<button
+							onClick={handleImport}
+							className="submit-button"
+							disabled={!holidays}
+						>
+							Import {holidays ? holidays.length : ""} {holidays?.length === 1 ? "Holiday" : "Holidays"}
+						</button>
+					</div>
+				</div>
+			</div>
+		</div>
+	);
+};
+
+export default HolidayImportModal;
@@ -0,0 +1,210 @@
+import React, { useState } from "react";
+import XIcon from "./icons/XIcon";
+import CalendarIcon from "./icons/CalendarIcon";
+import { useStore, DateRange, MAX_GROUPS } from "../store";
+import {
+	buildImportPreview,
+	expandICSEvents,
+	formatImportRange,
+	parseICS,
+	readICSFile,
+} from "../utils/icsImport";
+import "./Modal.css";
+
+interface ICSImportModalProps {
+	onClose: () => void;
+}
+
+const NEW_GROUP = "new";
+
+const ICSImportModal: React.FC<ICSImportModalProps> = ({ onClose }) => {
+	const {
+		startDate,
+		eventGroups,
+		selectedGroupId,
+		addEventGroup,
+		addDateRanges,
+		selectEventGroup,
+		batchHistory,
+	} = useStore();
+	const year = startDate.getFullYear();
+	const targetGroups = eventGroups.filter((g) => !g.isSpecial);
+	const canCreateGroup = eventGroups.length < MAX_GROUPS;
+
+	const [fileName, setFileName] = useState("");
+	const [ranges, setRanges] = useState<DateRange[] | null>(null);
+	// Titles of repeating events whose rule can't be repeated here
+	const [unsupported, setUnsupported] = useState<string[]>([]);
+	const [error, setError] = useState("");
+	const [target, setTarget] = useState<string>(
+		targetGroups.find((g) => g.id === selectedGroupId)?.id || (canCreateGroup ? NEW_GROUP : targetGroups[0]?.id || "")
+	);
+	const [newGroupName, setNewGroupName] = useState("");
+	const [skipOverlaps, setSkipOverlaps] = useState(false);
+
+	const targetGroup = targetGroups.find((g) => g.id === target);
+	const preview = ranges ? buildImportPreview(ranges, targetGroup?.ranges || []) : [];
+	const overlapCount = preview.filter((item) => item.overlaps).length;
+	const toImport = preview
+		.filter((item) => !(skipOverlaps && item.overlaps))
+		.map((item) => item.range);
+
+	const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		if (!file) return;
+
+		setFileName(file.name);
+		setRanges(null);
+		setUnsupported([]);
+		setError("");
+		try {
+			const calendar = parseICS(await readICSFile(file));
+			const expanded = expandICSEvents(calendar.events, year);
+			if (expanded.length === 0) {
+				setError(`No events in this file fall in ${year}.`);
+				return;
+			}
+			setRanges(expanded);
+			setUnsupported(calendar.events
+				.filter((event) => event.unsupportedRecurrence)
+				.map((event) => event.summary || "(no title)"));
+			setNewGroupName(calendar.name || file.name.replace(/\.ics$/i, ""));
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to read file");
+		}
+	};
+
+	const handleImport = () => {
+		if (toImport.length === 0) return;
+
+		batchHistory(`Imported ${toImport.length} events from ${fileName}`, () => {
+			let groupId = target;
+			if (target === NEW_GROUP) {
+				groupId = addEventGroup(newGroupName.trim() || "Imported Calendar").id;
+				if (!groupId) return;
+			}
+			addDateRanges(groupId, toImport);
+			selectEventGroup(groupId);
+		});
+		onClose();
+	};
+
+	return (
+		<div className="modal-overlay" onClick={onClose}>
+			<div className="modal-content" onClick={(e) => e.stopPropagation()}>
+				<button
+					className="modal-close"
+					onClick={onClose}
+					aria-label="Close calendar import"
+				>
+					<XIcon color="var(--text-secondary)" />
+				</button>
+				<h2>
+					<CalendarIcon color="var(--text-primary)" width={28} height={28} /> Import Calendar File
+				</h2>
+
+				<div className="pto-modal-content">
+					<p className="share-description">
+						Add events from an .ics file exported by Outlook, Google Calendar or another tool.
+						Repeating events are expanded for {year}.
+					</p>
+
+					<div className="pto-description">
+						<label htmlFor="ics-file">Calendar file:</label>
+						<input
+							type="file"
+							id="ics-file"
+							accept=".ics,text/calendar"
+							onChange={handleFileChange}
+						/>
+					</div>
+
+					{error && <p className="error-message">{error}</p>}
+
+					{ranges && (
+						<>
+							<div className="pto-description">
+								<label htmlFor="ics-target">Add to:</label>
+								<select
+									id="ics-target"
+									value={target}
+									onChange={(e) => setTarget(e.target.value)}
+								>
+									{targetGroups.map((group) => (
+										<option key={group.id} value={group.id}>
+											{group.name}
+										</option>
+									))}
+									<option value={NEW_GROUP} disabled={!canCreateGroup}>
+										{canCreateGroup ? "New calendar" : `New calendar (limit of ${MAX_GROUPS} reached)`}
+									</option>
+								</select>
+								{target === NEW_GROUP && (
+									<input
+										type="text"
+										value={newGroupName}
+										onChange={(e) => setNewGroupName(e.target.value)}
+										placeholder="Calendar name"
+										aria-label="New calendar name"
+									/>
+								)}
+							</div>
+
+							<div className="ics-import-summary">
+								<span>
+									{ranges.length} {ranges.length === 1 ? "event" : "events"} in {year}
+									{overlapCount > 0 && `, ${overlapCount} overlapping existing dates`}
+								</span>
+								{overlapCount > 0 && (
+									<label>
+										<input
+											type="checkbox"
+											checked={skipOverlaps}
+											onChange={(e) => setSkipOverlaps(e.target.checked)}
+										/>{" "}
+										Skip overlapping
+									</label>
+								)}
+							</div>
+
+							{unsupported.length > 0 && (
+								<p className="share-note">
+									{unsupported.length === 1 ? "1 repeating event uses a rule" : `${unsupported.length} repeating events use rules`}{" "}
+									that can't be repeated here, so only the first date is imported: {unsupported.join(", ")}
+								</p>
+							)}
+
+							<ul className="ics-import-preview">
+								{preview.map((item, index) => (
+									<li
+										key={`${item.range.start}-${item.range.end}-${index}`}
+										className={`${item.overlaps ? "overlaps" : ""} ${skipOverlaps && item.overlaps ? "skipped" : ""}`}
+									>
+										<span className="ics-import-dates">{formatImportRange(item.range)}</span>
+										<span className="ics-import-description">{item.range.description || "(no title)"}</span>
+										{item.overlaps && <span className="ics-import-flag">Overlaps</span>}
+									</li>
+								))}
+							</ul>
+						</>
+					)}
+
+					<div className="modal-actions">
+						<button onClick={onClose} className="cancel-button">
+							Cancel
+						</button>
+						<button
+							onClick={handleImport}
+							className="submit-button"
+							disabled={toImport.length === 0 || !target}
+						>
+							Import {toImport.length > 0 ? toImport.length : ""} {toImport.length === 1 ? "Event" : "Events"}
+						</button>
+					</div>
+				</div>
+			</div>
+		</div>
+	);
+};
+
+export default ICSImportModal;
@@ -0,0 +1,136 @@
+import React, { useId } from "react";
+import { format, parseISO } from "date-fns";
+import { PTOConfig, PTOEntry } from "../utils/ptoUtils";
+import { getPTOPolicy } from "../utils/ptoPolicy";
+import { getBalanceDips, simulatePTOBalance } from "../utils/ptoBalance";
+
+interface PTOBalanceChartProps {
+	entries: PTOEntry[];
+	config: PTOConfig;
+	year: number;
+	onFloorChange?: (hours: number) => void; // Omitted when the floor can't be changed
+}
+
+// Plot area inside the SVG viewBox
+const WIDTH = 300;
+const HEIGHT = 120;
+const PADDING = { top: 8, right: 8, bottom: 16, left: 8 };
+const MONTH_LABELS = ["J", "F", "M", "A", "M", "J", "J", "A", "S", "O", "N", "D"];
+
+const formatHours = (hours: number): string => `${Math.round(hours * 10) / 10}h`;
+
+// Projected balance across the year, with today, the floor and the carryover cap marked
+const PTOBalanceChart: React.FC<PTOBalanceChartProps> = ({ entries, config, year, onFloorChange }) => {
+	// Used in url(#...) references, so only characters that need no escaping
+	const clipId = `balance-chart${useId().replace(/[^a-zA-Z0-9]/g, "")}`;
+	const timeline = React.useMemo(() => simulatePTOBalance(entries, config, year), [entries, config, year]);
+	const floor = config.balanceFloorHours ?? 0;
+	const dips = React.useMemo(() => getBalanceDips(timeline, floor), [timeline, floor]);
+
+	if (timeline.length === 0) return null;
+
+	const carryoverCap = getPTOPolicy(config).maxCarryoverHours;
+	const balances = timeline.map((day) => day.balance);
+	const minBalance = Math.min(0, floor, ...balances);
+	const maxBalance = Math.max(floor, carryoverCap ?? 0, ...balances, 1);
+
+	const x = (index: number) =>
+		PADDING.left + (index / (timeline.length - 1)) * (WIDTH - PADDING.left - PADDING.right);
+	const y = (balance: number) =>
+		PADDING.top + ((maxBalance - balance) / (maxBalance - minBalance)) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+	const points = timeline.map((day, index) => `${x(index)},${y(day.balance)}`).join(" ");
+	// Closed against a level line, then clipped to below it, this shades only the dips
+	const areaBelow = (level: number) => `${points} ${x(timeline.length - 1)},${y(level)} ${x(0)},${y(level)}`;
+
+	const today = format(new Date(), "yyyy-MM-dd");
+	const todayIndex = timeline.findIndex((day) => day.date === today);
+	const expiry = timeline.findIndex((day) => day.forfeited > 0);
+	const yearEndBalance = balances[balances.length - 1];
+	const overCap = carryoverCap !== undefined ? yearEndBalance - carryoverCap : 0;
+
+	return (
+		<div className="recent-pto-section balance-chart">
+			<div className="balance-chart-header">
+				<h4>Projected Balance</h4>
+				{onFloorChange && (
+					<label>
+						Keep at least
+						<input
+							type="number"
+							min="0"
+							step="1"
+							value={floor}
+							onChange={(e) => onFloorChange(Math.max(0, parseFloat(e.target.value) || 0))}
+							aria-label="Balance floor in hours"
+						/>
+						h
+					</label>
+				)}
+			</div>
+			<svg
+				viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+				role="img"
+				aria-label={`PTO balance over ${year}, ending at ${formatHours(yearEndBalance)}`}
+			>
+				<defs>
+					<clipPath id={`${clipId}-floor`}>
+						<rect x={0} y={y(floor)} width={WIDTH} height={HEIGHT} />
+					</clipPath>
+					<clipPath id={`${clipId}-zero`}>
+						<rect x={0} y={y(0)} width={WIDTH} height={HEIGHT} />
+					</clipPath>
+				</defs>
+
+				{MONTH_LABELS.map((label, month) => {
+					const index = timeline.findIndex((day) => day.date === format(new Date(year, month, 1), "yyyy-MM-dd"));
+					return (
+						<text key={month} className="balance-chart-month" x={x(index)} y={HEIGHT - 4}>
+							{label}
+						</text>
+					);
+				})}
+
+				{floor > 0 && (
+					<>
+						<polygon className="balance-chart-below-floor" points={areaBelow(floor)} clipPath={`url(#${clipId}-floor)`} />
+						<line className="balance-chart-floor" x1={x(0)} x2={x(timeline.length - 1)} y1={y(floor)} y2={y(floor)} />
+					</>
+				)}
+				<polygon className="balance-chart-below-zero" points={areaBelow(0)} clipPath={`url(#${clipId}-zero)`} />
+				<line className="balance-chart-zero" x1={x(0)} x2={x(timeline.length - 1)} y1={y(0)} y2={y(0)} />
+				{carryoverCap !== undefined && (
+					<line className="balance-chart-cap" x1={x(0)} x2={x(timeline.length - 1)} y1={y(carryoverCap)} y2={y(carryoverCap)}>
+						<title>Carryover cap: hours above {formatHours(carryoverCap)} at year end are forfeited</title>
+					</line>
+				)}
+				{expiry >= 0 && (
+					<line className="balance-chart-cap" x1={x(expiry)} x2={x(expiry)} y1={PADDING.top} y2={HEIGHT - PADDING.bottom}>
+						<title>{formatHours(timeline[expiry].forfeited)} of carryover expired on {format(parseISO(timeline[expiry].date), "MMM d")}</title>
+					</line>
+				)}
+				{todayIndex >= 0 && (
+					<line className="balance-chart-today" x1={x(todayIndex)} x2={x(todayIndex)} y1={PADDING.top} y2={HEIGHT - PADDING.bottom}>
+						<title>Today: {formatHours(timeline[todayIndex].balance)}</title>
+					</line>
+				)}
+
+				<polyline className="balance-chart-line" points={points} />
+			</svg>
+
+			{dips.map((dip) => (
+				<div key={dip.startDate} className="pto-warning">
+					{floor > 0 ? `Below ${formatHours(floor)}` : "Overdrawn"} from {format(parseISO(dip.startDate), "MMM d")} to{" "}
+					{format(parseISO(dip.endDate), "MMM d")}, down to {formatHours(dip.lowest)}.
+				</div>
+			))}
+			{overCap > 0.005 && (
+				<div className="pto-warning">
+					{formatHours(overCap)} over the {formatHours(carryoverCap!)} carryover cap will be forfeited at year end.
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default PTOBalanceChart;
@@ -0,0 +1,52 @@
+import React from "react";
+import { format, parseISO } from "date-fns";
+import { PTOConfig, PTOEntry } from "../utils/ptoUtils";
+import { getAccrualSchedule, getBalanceChanges, simulatePTOBalance } from "../utils/ptoBalance";
+
+interface PTOBalanceTimelineProps {
+	entries: PTOEntry[];
+	config: PTOConfig;
+	year: number;
+}
+
+const formatHours = (hours: number): string => `${Math.round(hours * 100) / 100}h`;
+
+// Lists when accrued hours land and how bookings draw them down over the year
+const PTOBalanceTimeline: React.FC<PTOBalanceTimelineProps> = ({ entries, config, year }) => {
+	const schedule = getAccrualSchedule(config);
+	const changes = React.useMemo(
+		() => getBalanceChanges(simulatePTOBalance(entries, config, year), schedule),
+		[entries, config, year, schedule]
+	);
+	const today = format(new Date(), "yyyy-MM-dd");
+
+	if (changes.length === 0) return null;
+
+	return (
+		<div className="recent-pto-section">
+			<h4>Balance Timeline</h4>
+			<div className="recent-pto-list balance-timeline-list">
+				{changes.map((change) => (
+					<div
+						key={change.date}
+						className={`recent-pto-item ${change.endDate < today ? "past" : ""} ${change.balance < 0 ? "negative" : ""}`}
+					>
+						<span className="pto-item-date">
+							{schedule.frequency === "daily"
+								? format(parseISO(change.date), "MMMM")
+								: format(parseISO(change.date), "MMM d")}
+						</span>
+						<span className="pto-item-details">
+							{change.accrued > 0 && <span className="balance-accrued">+{formatHours(change.accrued)}</span>}
+							{change.used > 0 && <span className="balance-used">−{formatHours(change.used)}</span>}
+							{change.forfeited > 0 && <span className="balance-used">−{formatHours(change.forfeited)} expired</span>}
+							<span className="pto-item-hours">{formatHours(change.balance)}</span>
+						</span>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+};
+
+export default PTOBalanceTimeline;
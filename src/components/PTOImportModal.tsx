@@ -0,0 +1,131 @@
+import React from "react";
+import XIcon from "./icons/XIcon";
+import InfoIcon from "./icons/InfoIcon";
+import { useStore, EventGroup } from "../store";
+import { ExportData, summarizePTOImport } from "../utils/ptoExport";
+import { isHolidayFromISODate } from "../constants/holidays";
+import "./Modal.css";
+
+interface PTOImportModalProps {
+	group: EventGroup;
+	data: ExportData;
+	fileName: string;
+	onClose: () => void;
+}
+
+const PTOImportModal: React.FC<PTOImportModalProps> = ({
+	group,
+	data,
+	fileName,
+	onClose,
+}) => {
+	const { setPTOConfig, addPTOEntry, deletePTOEntry, batchHistory } = useStore();
+	const existingEntries = group.ptoEntries || [];
+	const summary = summarizePTOImport(existingEntries, group.ptoConfig, data, group.closedYears);
+	// addPTOEntry refuses entries that start or end on one of the calendar's holidays
+	const regionId = group.ptoConfig?.holidayRegion;
+	const holidayEntries = data.ptoEntries.filter(
+		(entry) =>
+			isHolidayFromISODate(entry.startDate, regionId) ||
+			isHolidayFromISODate(entry.endDate || entry.startDate, regionId)
+	);
+
+	const addEntries = (entries: ExportData["ptoEntries"]) => {
+		entries.forEach((entry) =>
+			addPTOEntry(group.id, { ...entry, endDate: entry.endDate || entry.startDate })
+		);
+	};
+
+	const handleReplace = () => {
+		// Closed years stay as they were closed, on both sides of the replace
+		batchHistory(`Replaced PTO in '${group.name}' from ${fileName}`, () => {
+			existingEntries.forEach((entry) => {
+				if (entry.id && !summary.keptClosedEntries.includes(entry)) deletePTOEntry(group.id, entry.id);
+			});
+			setPTOConfig(group.id, {
+				yearsOfService: data.config.yearsOfService,
+				rolloverHours: data.config.rolloverHours,
+				policy: data.config.policy,
+				accrual: data.config.accrual,
+				leaveRolloverHours: data.config.leaveRolloverHours ?? {},
+				workdayHours: data.config.workdayHours,
+				workSchedule: data.config.workSchedule,
+				holidayRegion: data.config.holidayRegion,
+				firstYear: data.config.firstYear,
+				years: data.config.years,
+			});
+			addEntries(data.ptoEntries.filter((entry) => !summary.closedYearEntries.includes(entry)));
+		});
+		onClose();
+	};
+
+	const handleMerge = () => {
+		batchHistory(`Merged PTO into '${group.name}' from ${fileName}`, () => {
+			addEntries(summary.newEntries);
+		});
+		onClose();
+	};
+
+	return (
+		<div className="modal-overlay" onClick={onClose}>
+			<div className="modal-content" onClick={(e) => e.stopPropagation()}>
+				<button
+					className="modal-close"
+					onClick={onClose}
+					aria-label="Close PTO import"
+				>
+					<XIcon color="var(--text-secondary)" />
+				</button>
+				<h2>
+					<InfoIcon color="var(--text-primary)" width={28} height={28} /> Import PTO Data
+				</h2>
+
+				<p className="reconciliation-description">
+					<strong>{fileName}</strong> has {data.ptoEntries.length} PTO{" "}
+					{data.ptoEntries.length === 1 ? "entry" : "entries"}. {group.name} currently has{" "}
+					{existingEntries.length}.
+				</p>
+
+				<ul className="pto-import-summary">
+					<li>{summary.newEntries.length} new</li>
+					<li>{summary.duplicateEntries.length} already in this calendar</li>
+					<li className={summary.conflictingEntries.length > 0 ? "conflict" : ""}>
+						{summary.conflictingEntries.length} overlapping existing PTO with different dates or hours
+					</li>
+					{holidayEntries.length > 0 && (
+						<li className="conflict">{holidayEntries.length} on holidays (will be skipped)</li>
+					)}
+					{summary.closedYearEntries.length > 0 && (
+						<li className="conflict">{summary.closedYearEntries.length} in closed years (will be skipped)</li>
+					)}
+					{summary.keptClosedEntries.length > 0 && (
+						<li className="conflict">
+							{summary.keptClosedEntries.length} of this calendar's entries in closed years (kept on replace)
+						</li>
+					)}
+					{summary.configChanges.map((change) => (
+						<li key={change}>{change}</li>
+					))}
+				</ul>
+
+				<div className="reconciliation-options">
+					<button onClick={handleMerge} className="btn btn-primary" disabled={summary.newEntries.length === 0}>
+						Merge: add {summary.newEntries.length} new {summary.newEntries.length === 1 ? "entry" : "entries"}
+					</button>
+					<button onClick={handleReplace} className="btn btn-secondary">
+						Replace all PTO and settings
+					</button>
+					<button onClick={onClose} className="btn btn-secondary">
+						Cancel
+					</button>
+				</div>
+
+				<p className="reconciliation-warning">
+					Merge keeps your current entries and settings. Replace removes this calendar's PTO entries and uses the file's settings. Closed years are left as they are; reopen a year to change its entries. Either can be undone.
+				</p>
+			</div>
+		</div>
+	);
+};
+
+export default PTOImportModal;
@@ -1,9 +1,12 @@
 import React, { useState } from "react";
 import XIcon from "./icons/XIcon";
 import { useStore } from "../store";
-import { PTOEntry, PTOCalendarUtils } from "../utils/ptoUtils";
+import { PTOEntry, PTOCalendarUtils, LeaveType, LEAVE_TYPE_LABELS } from "../utils/ptoUtils";
+import { getHourIncrement, getLeaveTypes, getPTOPolicy } from "../utils/ptoPolicy";
+import { getLeaveBalances } from "../utils/ptoBalance";
 import { format, parseISO, isWithinInterval } from "date-fns";
 import { getHolidayFromISODate } from "../constants/holidays";
+import { getClosedYear } from "../utils/ptoYearEnd";
 import "./Modal.css";
 
 interface PTOSelectionModalProps {
@@ -16,10 +19,14 @@ const PTOSelectionModal: React.FC<PTOSelectionModalProps> = ({ selectedDate, onC
 		selectedGroupId,
 		addPTOEntry,
 		updatePTOEntry,
-		deletePTOEntry,
+		removePTODay,
+		batchHistory,
 		validatePTOEntry,
 		getPTOSummary,
-		getSelectedGroupPTOEntries
+		getSelectedGroupPTOEntries,
+		getSelectedGroupPTOConfig,
+		startDate,
+		eventGroups
 	} = useStore();
 
 	// Find existing PTO entry for this date (handles both single-day and multi-day entries)
@@ -32,34 +39,62 @@ const PTOSelectionModal: React.FC<PTOSelectionModalProps> = ({ selectedDate, onC
 		return isWithinInterval(selectedDateObj, { start: entryStart, end: entryEnd });
 	});
 
-	const [selectedHours, setSelectedHours] = useState<number>(existingEntry?.hoursPerDay || 8);
+	const ptoConfig = getSelectedGroupPTOConfig();
+	const workdayHours = PTOCalendarUtils.getWorkdayHours(ptoConfig);
+	const [selectedHours, setSelectedHours] = useState<number>(existingEntry?.hoursPerDay || workdayHours);
 	const [description, setDescription] = useState<string>(existingEntry?.name || "");
+	const [leaveType, setLeaveType] = useState<LeaveType>(
+		existingEntry ? PTOCalendarUtils.getLeaveType(existingEntry) : "vacation"
+	);
 
 	if (!selectedGroupId) {
 		return null;
 	}
 
 	const summary = getPTOSummary(selectedGroupId);
-	const holidayName = getHolidayFromISODate(selectedDate);
+	const policy = getPTOPolicy(ptoConfig);
+	const leaveTypes = getLeaveTypes(policy);
+	const hourIncrement = getHourIncrement(policy);
+	// Quarter, half and full days, rounded to what the policy lets people book
+	const hourPresets = [0.25, 0.5, 1]
+		.map((fraction) => Math.round((workdayHours * fraction) / hourIncrement) * hourIncrement)
+		.filter((hours, index, all) => hours > 0 && all.indexOf(hours) === index);
+	const scheduledHours = PTOCalendarUtils.getScheduledHours(selectedDate, ptoConfig);
+	const leaveBalance = ptoConfig
+		? getLeaveBalances(ptoEntries, ptoConfig, startDate.getFullYear()).find((b) => b.type === leaveType)
+		: undefined;
+	const holidayName = getHolidayFromISODate(selectedDate, ptoConfig?.holidayRegion);
 	const parsedDate = parseISO(selectedDate);
+	const closedYear = getClosedYear(
+		eventGroups.find((group) => group.id === selectedGroupId)?.closedYears,
+		parsedDate.getFullYear()
+	);
 	const formattedDate = format(parsedDate, "EEEE, MMMM d, yyyy");
 
+	// Always single-day entries now
+	const entry: PTOEntry = {
+		...PTOCalendarUtils.createSingleDayEntry(selectedDate, selectedHours, description.trim() || undefined, leaveType),
+		totalHours: PTOCalendarUtils.calculateTotalPTOHours(selectedDate, selectedDate, selectedHours, ptoConfig),
+	};
+	// Checked as a replacement for the entry being edited
+	const validation = validatePTOEntry(selectedGroupId, { ...entry, id: existingEntry?.id });
+
 	const handleSubmit = () => {
-		// Always single-day entries now
-		const entry: PTOEntry = PTOCalendarUtils.createSingleDayEntry(
-			selectedDate,
-			selectedHours,
-			description.trim() || undefined
-		);
-
-		const validation = validatePTOEntry(selectedGroupId, entry);
 		if (!validation.isValid) {
 			alert(validation.warning);
 			return;
 		}
 
-		if (existingEntry && existingEntry.id) {
-			updatePTOEntry(selectedGroupId, existingEntry.id, entry);
+		if (existingEntry?.id && existingEntry.startDate !== existingEntry.endDate) {
+			// Only this day changes; the rest of a multi-day entry stays as it was
+			const entryId = existingEntry.id;
+			batchHistory(`Edited PTO on ${format(parsedDate, "MMM d")}`, () => {
+				removePTODay(selectedGroupId, entryId, selectedDate);
+				addPTOEntry(selectedGroupId, entry);
+			});
+		} else if (existingEntry && existingEntry.id) {
+			// Clear a previous leave type when switching back to vacation
+			updatePTOEntry(selectedGroupId, existingEntry.id, { ...entry, leaveType: entry.leaveType });
 		} else {
 			addPTOEntry(selectedGroupId, entry);
 		}
@@ -68,18 +103,17 @@ const PTOSelectionModal: React.FC<PTOSelectionModalProps> = ({ selectedDate, onC
 
 	const handleDelete = () => {
 		if (existingEntry && existingEntry.id) {
-			deletePTOEntry(selectedGroupId, existingEntry.id);
+			removePTODay(selectedGroupId, existingEntry.id, selectedDate);
 			onClose();
 		}
 	};
 
 	const getHourDisplay = (hours: number): string => {
-		switch (hours) {
-			case 2: return "2h (Quarter Day)";
-			case 4: return "4h (Half Day)";
-			case 8: return "8h (Full Day)";
-			default: return `${hours}h`;
-		}
+		const fraction = hours / workdayHours;
+		if (fraction >= 1) return `${scheduledHours || hours}h (Full Day)`;
+		if (fraction === 0.5) return `${hours}h (Half Day)`;
+		if (fraction === 0.25) return `${hours}h (Quarter Day)`;
+		return `${hours}h`;
 	};
 
 	return (
@@ -104,15 +138,40 @@ const PTOSelectionModal: React.FC<PTOSelectionModalProps> = ({ selectedDate, onC
 								<p>PTO cannot be requested on company holidays.</p>
 							</div>
 						)}
+						{closedYear && (
+							<div className="holiday-warning">
+								<strong>{closedYear.year} is closed</strong>
+								<p>Reopen the year from the Data panel to change its PTO.</p>
+							</div>
+						)}
 					</div>
 
-					{!holidayName && (
+					{!holidayName && !closedYear && (
 						<>
+							{/* Leave type selection */}
+							{leaveTypes.length > 1 && (
+								<div className="pto-hours-selection">
+									<label>Type:</label>
+									<div className="hours-buttons">
+										{leaveTypes.map((type) => (
+											<button
+												key={type}
+												type="button"
+												className={`hour-button leave-type-${type} ${leaveType === type ? 'selected' : ''}`}
+												onClick={() => setLeaveType(type)}
+											>
+												{LEAVE_TYPE_LABELS[type]}
+											</button>
+										))}
+									</div>
+								</div>
+							)}
+
 							{/* Hours selection */}
 							<div className="pto-hours-selection">
 								<label>Hours:</label>
 								<div className="hours-buttons">
-									{[2, 4, 8].map((hours) => (
+									{hourPresets.map((hours) => (
 										<button
 											key={hours}
 											type="button"
@@ -123,6 +182,19 @@ const PTOSelectionModal: React.FC<PTOSelectionModalProps> = ({ selectedDate, onC
 										</button>
 									))}
 								</div>
+								<input
+									type="number"
+									className="pto-custom-hours"
+									aria-label="Custom hours"
+									min={hourIncrement}
+									max={workdayHours}
+									step={hourIncrement}
+									value={selectedHours}
+									onChange={(e) => setSelectedHours(Number(e.target.value))}
+								/>
+								{scheduledHours === 0 && (
+									<p className="pto-balance-warning">You aren't scheduled to work on this day.</p>
+								)}
 							</div>
 
 							{/* Description */}
@@ -141,12 +213,30 @@ const PTOSelectionModal: React.FC<PTOSelectionModalProps> = ({ selectedDate, onC
 							{/* Summary info */}
 							{summary && (
 								<div className="pto-summary-info">
-									<p>
-										<strong>Available:</strong> {summary.remainingHours}h remaining
-										{selectedHours > 0 && !existingEntry && (
-											<> (will be {summary.remainingHours - selectedHours}h after this)</>
-										)}
-									</p>
+									{leaveType === "vacation" ? (
+										<p>
+											<strong>Available:</strong> {summary.remainingHours}h remaining
+											{entry.totalHours > 0 && !existingEntry && (
+												<> (will be {summary.remainingHours - entry.totalHours}h after this)</>
+											)}
+										</p>
+									) : leaveBalance?.remainingHours !== undefined ? (
+										<p>
+											<strong>{LEAVE_TYPE_LABELS[leaveType]}:</strong>{" "}
+											{Math.round(leaveBalance.remainingHours * 10) / 10}h of {leaveBalance.allowanceHours}h remaining
+										</p>
+									) : (
+										<p>{LEAVE_TYPE_LABELS[leaveType]} leave isn't limited by a balance.</p>
+									)}
+									{validation.projectedBalance !== undefined && (
+										<p>
+											<strong>Projected balance on {format(parsedDate, "MMM d")}:</strong>{" "}
+											{Math.round(validation.projectedBalance * 10) / 10}h
+										</p>
+									)}
+									{!validation.isValid && validation.warning && (
+										<p className="pto-balance-warning">{validation.warning}</p>
+									)}
 								</div>
 							)}
 
@@ -1,26 +1,50 @@
-import React from "react";
+import React, { useState } from "react";
 import { useStore } from "../store";
-import { PTOCalendarUtils } from "../utils/ptoUtils";
+import { format, parseISO } from "date-fns";
+import { PTOCalendarUtils, LEAVE_TYPE_LABELS } from "../utils/ptoUtils";
+import { getPTOPolicy } from "../utils/ptoPolicy";
+import {
+	getAccrualEvents,
+	getAccrualSchedule,
+	getAccrualScheduleLabel,
+	getLeaveBalances,
+	getPTOConfigForYear,
+} from "../utils/ptoBalance";
+import { getClosedYear } from "../utils/ptoYearEnd";
+import PTOBalanceTimeline from "./PTOBalanceTimeline";
+import PTOBalanceChart from "./PTOBalanceChart";
+import BreakPlannerModal from "./BreakPlannerModal";
 import "./PTOSummaryDashboard.css";
 
 const PTOSummaryDashboard: React.FC = () => {
 	// Subscribe directly to the parts of state we need
 	const selectedGroupId = useStore(state => state.selectedGroupId);
+	const year = useStore(state => state.startDate.getFullYear());
 	const selectedGroup = useStore(state =>
 		state.selectedGroupId ? state.eventGroups.find(g => g.id === state.selectedGroupId) : null
 	);
+	const setPTOConfig = useStore(state => state.setPTOConfig);
+	const isViewOnly = useStore(state => state.isViewOnly);
+	const [showBreakPlanner, setShowBreakPlanner] = useState(false);
+
+	// Settings for the displayed year, with the previous year's balance carried in
+	const yearConfig = React.useMemo(() => {
+		if (!selectedGroup?.ptoConfig) return null;
+		return getPTOConfigForYear(selectedGroup.ptoConfig, selectedGroup.ptoEntries || [], year);
+	}, [selectedGroup?.ptoEntries, selectedGroup?.ptoConfig, year]);
 
 	// Calculate summary directly from the selected group data
 	const summary = React.useMemo(() => {
-		if (!selectedGroup?.ptoConfig?.isEnabled) return null;
+		if (!yearConfig?.isEnabled) return null;
 
 		return PTOCalendarUtils.calculatePTOSummary(
-			selectedGroup.ptoEntries || [],
-			selectedGroup.ptoConfig
+			selectedGroup?.ptoEntries || [],
+			yearConfig,
+			year
 		);
-	}, [selectedGroup?.ptoEntries, selectedGroup?.ptoConfig, selectedGroupId]);
+	}, [selectedGroup?.ptoEntries, yearConfig, selectedGroupId, year]);
 
-	if (!selectedGroupId || !selectedGroup?.ptoConfig?.isEnabled) {
+	if (!selectedGroupId || !selectedGroup || !yearConfig?.isEnabled) {
 		return null;
 	}
 
@@ -28,6 +52,16 @@ const PTOSummaryDashboard: React.FC = () => {
 		return null;
 	}
 
+	const accrual = getAccrualSchedule(yearConfig);
+	const annualHours = PTOCalendarUtils.calculateAnnualPTOHours(
+		yearConfig.yearsOfService,
+		getPTOPolicy(yearConfig)
+	);
+	const today = format(new Date(), "yyyy-MM-dd");
+	const nextAccrual = getAccrualEvents(accrual, annualHours, year).find((event) => event.date > today);
+	const leaveBalances = getLeaveBalances(selectedGroup.ptoEntries || [], yearConfig, year);
+	const roundHours = (hours: number) => Math.round(hours * 10) / 10;
+
 	const getProgressBarWidth = (used: number, total: number): number => {
 		return Math.min((used / total) * 100, 100);
 	};
@@ -58,6 +92,31 @@ const PTOSummaryDashboard: React.FC = () => {
 				</div>
 			</div>
 
+			{/* Carryover Warnings */}
+			{summary.forfeitedCarryoverHours > 0 && (
+				<div className="pto-warning">
+					Only {summary.carryoverHours}h can carry over under this policy; {summary.forfeitedCarryoverHours}h of rollover is forfeited.
+				</div>
+			)}
+			{summary.expiringHours > 0 && summary.carryoverExpiryDate && (
+				<div className="pto-warning">
+					{summary.carryoverExpiryDate < format(new Date(), "yyyy-MM-dd")
+						? `${summary.expiringHours}h of carried-over PTO expired unused on ${format(parseISO(summary.carryoverExpiryDate), "MMM d")}.`
+						: `${summary.expiringHours}h of carried-over PTO will expire on ${format(parseISO(summary.carryoverExpiryDate), "MMM d")}. Plan time off before then to use it.`}
+				</div>
+			)}
+
+			{/* Break Planner */}
+			{!isViewOnly && !getClosedYear(selectedGroup.closedYears, year) && summary.remainingHours > 0 && (
+				<button
+					className="footer-button data-button pto-plan-breaks"
+					onClick={() => setShowBreakPlanner(true)}
+					title="Find the days that turn weekends and holidays into the longest breaks"
+				>
+					Plan Breaks
+				</button>
+			)}
+
 			{/* Progress Bar */}
 			<div className="pto-progress-section">
 				<div className="progress-header">
@@ -79,26 +138,70 @@ const PTOSummaryDashboard: React.FC = () => {
 			<div className="pto-config-details">
 				{/* <div className="config-item">
 					<span className="config-label">Years of Service:</span>
-					<span className="config-value">{selectedGroup.ptoConfig.yearsOfService} years</span>
+					<span className="config-value">{yearConfig.yearsOfService} years</span>
 				</div> */}
 				{/* <div className="config-item">
 					<span className="config-label">Annual Allowance:</span>
 					<span className="config-value">
-						{summary.totalHours - selectedGroup.ptoConfig.rolloverHours}h ({(summary.totalHours - selectedGroup.ptoConfig.rolloverHours) / 8} days)
+						{summary.totalHours - yearConfig.rolloverHours}h ({(summary.totalHours - yearConfig.rolloverHours) / 8} days)
 					</span>
 				</div>
-				{selectedGroup.ptoConfig.rolloverHours > 0 && (
+				{yearConfig.rolloverHours > 0 && (
 					<div className="config-item">
 						<span className="config-label">Rollover Hours:</span>
-						<span className="config-value">{selectedGroup.ptoConfig.rolloverHours}h ({selectedGroup.ptoConfig.rolloverHours / 8} days)</span>
+						<span className="config-value">{yearConfig.rolloverHours}h ({yearConfig.rolloverHours / 8} days)</span>
 					</div>
 				)} */}
 				<div className="config-item">
-					<span className="config-label">Accrual Rate:</span>
-					<span className="config-value">{summary.accrualRate.toFixed(2)}h per day</span>
+					<span className="config-label">Accrual:</span>
+					<span className="config-value">
+						{accrual.frequency === "daily"
+							? `${summary.accrualRate.toFixed(2)}h per day`
+							: getAccrualScheduleLabel(accrual)}
+					</span>
 				</div>
+				{nextAccrual && accrual.frequency !== "daily" && (
+					<div className="config-item">
+						<span className="config-label">Next Accrual:</span>
+						<span className="config-value">
+							+{Math.round(nextAccrual.hours * 100) / 100}h on {format(parseISO(nextAccrual.date), "MMM d")}
+						</span>
+					</div>
+				)}
 			</div>
 
+			{/* Other Leave Buckets */}
+			{leaveBalances.length > 0 && (
+				<>
+					<h4>Other Leave</h4>
+					<div className="pto-config-details">
+						{leaveBalances.map((balance) => (
+							<div key={balance.type} className={`config-item leave-balance leave-type-${balance.type}`}>
+								<span className="config-label">{LEAVE_TYPE_LABELS[balance.type]}:</span>
+								<span className="config-value">
+									{balance.remainingHours !== undefined
+										? `${roundHours(balance.remainingHours)}h of ${roundHours(balance.allowanceHours ?? 0)}h left`
+										: `${roundHours(balance.usedHours)}h taken`}
+								</span>
+							</div>
+						))}
+					</div>
+				</>
+			)}
+
+			<PTOBalanceChart
+				entries={selectedGroup.ptoEntries || []}
+				config={yearConfig}
+				year={year}
+				onFloorChange={isViewOnly ? undefined : (hours) => setPTOConfig(selectedGroupId, { balanceFloorHours: hours })}
+			/>
+
+			<PTOBalanceTimeline
+				entries={selectedGroup.ptoEntries || []}
+				config={yearConfig}
+				year={year}
+			/>
+
 			{/* Quick Stats */}
 			<div className="pto-quick-stats">
 				<div className="stat-item">
@@ -110,6 +213,16 @@ const PTOSummaryDashboard: React.FC = () => {
 					<span className="stat-label">Days Used</span>
 				</div>
 			</div>
+
+			{showBreakPlanner && (
+				<BreakPlannerModal
+					group={selectedGroup}
+					year={year}
+					config={yearConfig}
+					remainingHours={summary.remainingHours}
+					onClose={() => setShowBreakPlanner(false)}
+				/>
+			)}
 		</div>
 	);
 };
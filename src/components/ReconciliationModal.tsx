@@ -5,11 +5,13 @@ import "./Modal.css";
 interface ReconciliationModalProps {
 	onUseLocal: () => void;
 	onUseUrl: () => void;
+	onMerge: () => void;
 }
 
 const ReconciliationModal: React.FC<ReconciliationModalProps> = ({
 	onUseLocal,
 	onUseUrl,
+	onMerge,
 }) => {
 	return (
 		<div className="modal-overlay">
@@ -29,8 +31,14 @@ const ReconciliationModal: React.FC<ReconciliationModalProps> = ({
 					<button onClick={onUseUrl} className="btn btn-secondary">
 						Use Shared Link
 					</button>
+					<button onClick={onMerge} className="btn btn-secondary">
+						Merge Into My Calendars
+					</button>
 				</div>
 
+				<p className="reconciliation-description">
+					Merging adds the shared calendars to yours. A shared calendar with the same name as one of yours is combined with it.
+				</p>
 				<p className="reconciliation-warning">
 					<strong>Warning:</strong> Choosing the shared link will replace your saved calendar.
 				</p>
@@ -5,20 +5,34 @@ import ShareIcon from "./icons/ShareIcon";
 import { useStore } from "../store";
 import "./Modal.css";
 
+// Some mail and chat apps cut off longer links
+const LONG_URL_LENGTH = 2000;
+
 interface ShareModalProps {
 	onClose: () => void;
 }
 
 const ShareModal: React.FC<ShareModalProps> = ({ onClose }) => {
-	const { generateShareableUrl } = useStore();
+	const { generateShareableUrl, eventGroups } = useStore();
 	const [shareUrl, setShareUrl] = useState("");
 	const [copied, setCopied] = useState(false);
+	const [viewOnly, setViewOnly] = useState(false);
+	const [groupIds, setGroupIds] = useState<string[]>(() => eventGroups.map((group) => group.id));
+	const [stripText, setStripText] = useState(false);
+	const [hideNames, setHideNames] = useState(false);
+	const [omitPTOHours, setOmitPTOHours] = useState(false);
 
 	useEffect(() => {
-		// Generate shareable URL when modal opens
-		const url = generateShareableUrl();
+		// Regenerate the link whenever what it shares changes
+		const url = groupIds.length > 0
+			? generateShareableUrl({ groupIds, stripText, hideNames, omitPTOHours, viewOnly })
+			: "";
 		setShareUrl(url);
-	}, [generateShareableUrl]);
+	}, [generateShareableUrl, eventGroups, groupIds, stripText, hideNames, omitPTOHours, viewOnly]);
+
+	const toggleGroup = (groupId: string, shared: boolean) => {
+		setGroupIds((ids) => (shared ? [...ids, groupId] : ids.filter((id) => id !== groupId)));
+	};
 
 	const handleCopy = async () => {
 		try {
@@ -48,16 +62,66 @@ const ShareModal: React.FC<ShareModalProps> = ({ onClose }) => {
 					This is a <strong>snapshot</strong> of your calendar at this moment. Changes you make after sharing won't affect this link.
 				</p>
 
+				<fieldset className="share-calendars">
+					<legend>Calendars to share</legend>
+					{eventGroups.map((group) => (
+						<label key={group.id} className="share-option">
+							<input
+								type="checkbox"
+								checked={groupIds.includes(group.id)}
+								onChange={(e) => toggleGroup(group.id, e.target.checked)}
+							/>
+							<span className="color-indicator" style={{ backgroundColor: group.color }} />
+							{group.name}
+						</label>
+					))}
+				</fieldset>
+
+				<label className="share-option">
+					<input
+						type="checkbox"
+						checked={stripText}
+						onChange={(e) => setStripText(e.target.checked)}
+					/>{" "}
+					Hide descriptions and PTO entry names
+				</label>
+				<label className="share-option">
+					<input
+						type="checkbox"
+						checked={hideNames}
+						onChange={(e) => setHideNames(e.target.checked)}
+					/>{" "}
+					Hide calendar names, numbering them "Calendar 1", "Calendar 2", …
+				</label>
+				<label className="share-option">
+					<input
+						type="checkbox"
+						checked={omitPTOHours}
+						onChange={(e) => setOmitPTOHours(e.target.checked)}
+					/>{" "}
+					Share days off without PTO hours or settings
+				</label>
+				<label className="share-option">
+					<input
+						type="checkbox"
+						checked={viewOnly}
+						onChange={(e) => setViewOnly(e.target.checked)}
+					/>{" "}
+					View only: recipients can look but not edit, and their saved calendars stay untouched
+				</label>
+
 				<div className="share-url-container">
 					<input
 						type="text"
 						value={shareUrl}
+						placeholder="Choose at least one calendar to share"
 						readOnly
 						className="share-url-input"
 						onClick={(e) => e.currentTarget.select()}
 					/>
 					<button
 						onClick={handleCopy}
+						disabled={!shareUrl}
 						className="btn"
 						aria-label="Copy to clipboard"
 					>
@@ -66,8 +130,17 @@ const ShareModal: React.FC<ShareModalProps> = ({ onClose }) => {
 					</button>
 				</div>
 
+				{shareUrl && (
+					<p className={`share-url-length${shareUrl.length > LONG_URL_LENGTH ? " too-long" : ""}`}>
+						{shareUrl.length.toLocaleString()} characters
+						{shareUrl.length > LONG_URL_LENGTH &&
+							" - some apps cut off links this long. Share fewer calendars or leave out PTO hours to shorten it."}
+					</p>
+				)}
+
 				<p className="share-note">
 					Recipients will see a frozen copy of your calendar, not live edits.
+					{viewOnly && " They can still copy it into their own calendars."}
 				</p>
 			</div>
 		</div>
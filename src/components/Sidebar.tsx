@@ -10,7 +10,26 @@ import SettingsIcon from "./icons/SettingsIcon";
 import HelpIcon from "./icons/HelpIcon";
 import ShareIcon from "./icons/ShareIcon";
 import InfoIcon from "./icons/InfoIcon";
+import UndoIcon from "./icons/UndoIcon";
+import RedoIcon from "./icons/RedoIcon";
 import PTOSummaryDashboard from "./PTOSummaryDashboard";
+import DataPanel from "./DataPanel";
+import {
+	LeaveBucket,
+	getHourIncrement,
+	getLeaveBuckets,
+	getPTOPolicy,
+	getTenureBand,
+	getTenureBandLabel,
+} from "../utils/ptoPolicy";
+import { LEAVE_TYPE_LABELS, PTOCalendarUtils, WEEKDAY_LABELS } from "../utils/ptoUtils";
+import { DEFAULT_HOLIDAY_REGION_ID, HOLIDAY_REGIONS } from "../constants/holidays";
+import {
+	AccrualFrequency,
+	AccrualSchedule,
+	getAccrualSchedule,
+} from "../utils/ptoBalance";
+import { getClosedYear } from "../utils/ptoYearEnd";
 import Tooltip from "./Tooltip";
 import DarkModeToggle from "./DarkModeToggle";
 
@@ -21,29 +40,95 @@ interface SidebarProps {
 	onShowShareModal: () => void;
 }
 
+// Bi-weekly pay periods, used to show per-period accrual in the tenure tooltip
+const PAY_PERIODS_PER_YEAR = 26;
+
 function Sidebar({ onShowWelcome, onShowShareModal }: SidebarProps) {
 	const {
+		startDate,
 		includeWeekends,
 		showToday,
 		eventGroups,
 		selectedGroupId,
+		setStartDate,
 		setIncludeWeekends,
 		setShowToday,
+		holidayOverlays,
+		setHolidayOverlays,
 		setShowHelpModal,
 		addEventGroup,
 		updateEventGroup,
 		deleteEventGroup,
 		selectEventGroup,
+		// Undo/redo
+		history,
+		undo,
+		redo,
 		// PTO state
 		setPTOConfig,
+		setPTOYearSettings,
 		getSelectedGroupPTOConfig,
 		isPTOEnabledForGroup,
 		// Display helpers
 		getAllDisplayGroups,
+		getHomeHolidayRegionId,
+		// Shared links can open view-only
+		isViewOnly,
 	} = useStore();
 	const maxGroups = MAX_GROUPS;
 	const [newEventName, setNewEventName] = useState("");
 	const [editingGroup, setEditingGroup] = useState<EventGroup | null>(null);
+	const selectedGroup = eventGroups.find(g => g.id === selectedGroupId);
+	const ptoPolicy = getPTOPolicy(selectedGroup?.ptoConfig);
+	const accrual = getAccrualSchedule(selectedGroup?.ptoConfig);
+	const workSchedule = PTOCalendarUtils.getWorkSchedule(selectedGroup?.ptoConfig);
+	const homeRegionId = getHomeHolidayRegionId();
+	const year = startDate.getFullYear();
+	// Settings for the displayed year; later years follow on from the first plan year
+	const yearConfig = getSelectedGroupPTOConfig();
+	const firstPlanYear = selectedGroup?.ptoConfig?.firstYear ?? year;
+	const isCarriedOver = year > firstPlanYear;
+	const rolloverOverridden = selectedGroup?.ptoConfig?.years?.[year]?.rolloverHours !== undefined;
+	// A closed year's settings are frozen with it
+	const isYearClosed = getClosedYear(selectedGroup?.closedYears, year) !== null;
+	const previousYearClosed = getClosedYear(selectedGroup?.closedYears, year - 1) !== null;
+
+	const toggleHolidayOverlay = (regionId: string, shown: boolean) => {
+		setHolidayOverlays(
+			shown ? [...holidayOverlays, regionId] : holidayOverlays.filter((id) => id !== regionId)
+		);
+	};
+
+	// Sets the hours for one weekday, starting from the current (possibly default) schedule
+	const updateWorkSchedule = (day: number, hours: number) => {
+		if (!selectedGroupId) return;
+		setPTOConfig(selectedGroupId, {
+			workSchedule: workSchedule.map((current, index) => (index === day ? hours : current)),
+		});
+	};
+
+	// Edits one leave bucket, copying the default buckets into the policy on first change
+	const updateLeaveBucket = (type: LeaveBucket["type"], changes: Partial<LeaveBucket>) => {
+		if (!selectedGroupId) return;
+		setPTOConfig(selectedGroupId, {
+			policy: {
+				...ptoPolicy,
+				leaveBuckets: getLeaveBuckets(ptoPolicy).map((bucket) =>
+					bucket.type === type ? { ...bucket, ...changes } : bucket
+				),
+			},
+		});
+	};
+
+	// Keeps the current payday when switching between weekly and bi-weekly
+	const toAccrualSchedule = (frequency: AccrualFrequency): AccrualSchedule | undefined => {
+		if (frequency === "weekly" || frequency === "biweekly") {
+			return { frequency, anchorDate: "anchorDate" in accrual ? accrual.anchorDate : `${startDate.getFullYear()}-01-01` };
+		}
+		return frequency === "daily" ? undefined : { frequency };
+	};
+	const undoLabel = history.past[history.past.length - 1]?.label;
+	const redoLabel = history.future[history.future.length - 1]?.label;
 
 	// Add effect to select the first non-special group if none is selected
 	useEffect(() => {
@@ -209,7 +294,7 @@ function Sidebar({ onShowWelcome, onShowShareModal }: SidebarProps) {
 						) : (
 							<>
 								<span className="group-name">{group.name}</span>
-								{!group.isSpecial && (
+								{!group.isSpecial && !isViewOnly && (
 									<div className="group-actions">
 										<button
 											onClick={(e) => {
@@ -241,7 +326,7 @@ function Sidebar({ onShowWelcome, onShowShareModal }: SidebarProps) {
 				))}
 			</div>
 
-			{eventGroups.length < maxGroups && (
+			{eventGroups.length < maxGroups && !isViewOnly && (
 				<button
 					className="add-group-button"
 					onClick={handleAddGroup}
@@ -251,23 +336,55 @@ function Sidebar({ onShowWelcome, onShowShareModal }: SidebarProps) {
 				</button>
 			)}
 
+			{!isViewOnly && (
+				<div className="history-buttons">
+					<Tooltip content={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : "Nothing to undo"}>
+						<button
+							className="footer-button"
+							onClick={undo}
+							disabled={!undoLabel || !!editingGroup}
+							aria-label={undoLabel ? `Undo: ${undoLabel}` : "Undo"}
+						>
+							<UndoIcon width={16} height={16} color="currentColor" /> Undo
+						</button>
+					</Tooltip>
+					<Tooltip content={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"}>
+						<button
+							className="footer-button"
+							onClick={redo}
+							disabled={!redoLabel || !!editingGroup}
+							aria-label={redoLabel ? `Redo: ${redoLabel}` : "Redo"}
+						>
+							<RedoIcon width={16} height={16} color="currentColor" /> Redo
+						</button>
+					</Tooltip>
+				</div>
+			)}
+
 			<h3>
 				<SettingsIcon height={20} /> Settings
 			</h3>
 			<div className={`settings-scroll-container ${selectedGroupId && isPTOEnabledForGroup(selectedGroupId) ? 'has-scrollable-content' : ''}`}>
-				{/* <div className="setting-item">
-					<Tooltip content="The calendar will display 12 months starting from January of this year.">
-						<label htmlFor="start-date">Start Year:</label>
+				<div className="setting-item">
+					<Tooltip content="The calendar shows January to December of this year. Each year keeps its own PTO balance, and unused hours carry into the next.">
+						<label>Plan Year:</label>
 					</Tooltip>
-					<input
-						type="number"
-						id="start-date"
-						min="2020"
-						max="2030"
-						value={startDate.getFullYear()}
-						onChange={handleStartDateChange}
-					/>
-				</div> */}
+					<div className="year-navigation">
+						<button
+							onClick={() => setStartDate(new Date(year - 1, 0, 1))}
+							aria-label={`Show ${year - 1}`}
+						>
+							‹
+						</button>
+						<span>{year}</span>
+						<button
+							onClick={() => setStartDate(new Date(year + 1, 0, 1))}
+							aria-label={`Show ${year + 1}`}
+						>
+							›
+						</button>
+					</div>
+				</div>
 				<div className="setting-item">
 					<Tooltip content="Show or hide Saturday and Sunday columns in the calendar grid.">
 						<label htmlFor="include-weekends">Show Weekends:</label>
@@ -290,9 +407,26 @@ function Sidebar({ onShowWelcome, onShowShareModal }: SidebarProps) {
 						onChange={(e) => setShowToday(e.target.checked)}
 					/>
 				</div>
+				<div className="setting-item">
+					<Tooltip content="Show other offices' holidays as read-only calendars. They don't affect your PTO.">
+						<label>Other Regions' Holidays:</label>
+					</Tooltip>
+					<div className="holiday-overlays">
+						{HOLIDAY_REGIONS.filter((region) => region.id !== homeRegionId).map((region) => (
+							<label key={region.id}>
+								<input
+									type="checkbox"
+									checked={holidayOverlays.includes(region.id)}
+									onChange={(e) => toggleHolidayOverlay(region.id, e.target.checked)}
+								/>
+								{region.name}
+							</label>
+						))}
+					</div>
+				</div>
 
 				{/* Per-Group PTO Settings */}
-				{selectedGroupId && !getAllDisplayGroups().find(g => g.id === selectedGroupId)?.isSpecial && (
+				{selectedGroupId && !isViewOnly && !getAllDisplayGroups().find(g => g.id === selectedGroupId)?.isSpecial && (
 					<>
 						<h4>PTO Settings - {getAllDisplayGroups().find(g => g.id === selectedGroupId)?.name}</h4>
 						{/* <p className="sidebar-help-text">Configure vacation/PTO policy for this person/team.</p> */}
@@ -307,25 +441,47 @@ function Sidebar({ onShowWelcome, onShowShareModal }: SidebarProps) {
 								onChange={(e) => setPTOConfig(selectedGroupId, { isEnabled: e.target.checked })}
 							/>
 						</div>
+						<div className="setting-item">
+							<Tooltip content="The office whose holidays this person gets off. PTO is never charged on them.">
+								<label htmlFor="holiday-region">Holiday Region:</label>
+							</Tooltip>
+							<select
+								id="holiday-region"
+								value={selectedGroup?.ptoConfig?.holidayRegion ?? DEFAULT_HOLIDAY_REGION_ID}
+								onChange={(e) => setPTOConfig(selectedGroupId, {
+									holidayRegion: e.target.value === DEFAULT_HOLIDAY_REGION_ID ? undefined : e.target.value,
+								})}
+							>
+								{HOLIDAY_REGIONS.map((region) => (
+									<option key={region.id} value={region.id}>{region.name}</option>
+								))}
+							</select>
+						</div>
 
 						{isPTOEnabledForGroup(selectedGroupId) && (
 							<>
 								<div className="setting-item">
-									<Tooltip content="PTO is based on years of service. 1–4 years: 21 days (6.46hr accrual). 5+ years: 26 days (8hr accrual).">
+									<Tooltip content={`PTO is based on years of service (${ptoPolicy.name}). ${ptoPolicy.tenureBands
+										.map((band) => `${getTenureBandLabel(ptoPolicy, band)}: ${band.annualHours / ptoPolicy.hoursPerWorkday} days (${(band.annualHours / PAY_PERIODS_PER_YEAR).toFixed(2)}hr accrual).`)
+										.join(" ")}`}>
 										<label htmlFor="years-of-service">Years of Employment</label>
 									</Tooltip>
 									<select
 										id="years-of-service"
-										// Ensure the value matches your state (likely 1 or 5)
-										value={getSelectedGroupPTOConfig()?.yearsOfService || 1}
-										onChange={(e) => setPTOConfig(selectedGroupId, { yearsOfService: parseInt(e.target.value) })}
+										// Each option stands for its band; band values start at 1 year
+										value={Math.max(getTenureBand(ptoPolicy, yearConfig?.yearsOfService || 1).minYears, 1)}
+										onChange={(e) => setPTOYearSettings(selectedGroupId, year, { yearsOfService: parseInt(e.target.value) })}
+										disabled={isYearClosed}
 									>
-										<option value={1}>1 – 4 years</option>
-										<option value={5}>5+ years</option>
+										{ptoPolicy.tenureBands.map((band) => (
+											<option key={band.minYears} value={Math.max(band.minYears, 1)}>
+												{getTenureBandLabel(ptoPolicy, band)}
+											</option>
+										))}
 									</select>
 								</div>
 								<div className="setting-item">
-									<Tooltip content="Unused PTO hours from last year that were carried over. Enter 0 if you're starting fresh.">
+									<Tooltip content="Unused PTO hours carried over from last year. After your first plan year this is last year's closing balance unless you change it.">
 										<label htmlFor="rollover-hours">Rollover Hours:</label>
 									</Tooltip>
 									<input
@@ -334,14 +490,225 @@ function Sidebar({ onShowWelcome, onShowShareModal }: SidebarProps) {
 										min="0"
 										max="2000"
 										step="1"
-										value={getSelectedGroupPTOConfig()?.rolloverHours || 0}
-										onChange={(e) => setPTOConfig(selectedGroupId, { rolloverHours: parseInt(e.target.value) || 0 })}
+										value={yearConfig?.rolloverHours || 0}
+										onChange={(e) => setPTOYearSettings(selectedGroupId, year, { rolloverHours: parseInt(e.target.value) || 0 })}
+										disabled={isYearClosed}
 										placeholder="0"
 									/>
-									<small className="setting-help">Hours carried over from previous year</small>
+									<small className="setting-help">
+										{ptoPolicy.maxCarryoverHours !== undefined && (yearConfig?.rolloverHours || 0) > ptoPolicy.maxCarryoverHours
+											? `Capped at ${ptoPolicy.maxCarryoverHours}h by the carryover limit`
+											: previousYearClosed
+												? `Carried over when ${year - 1} was closed`
+												: isCarriedOver && !rolloverOverridden
+													? `Closing balance of ${year - 1}`
+													: "Hours carried over from previous year"}
+									</small>
+									{isCarriedOver && rolloverOverridden && !isYearClosed && !previousYearClosed && (
+										<button
+											className="footer-button data-button"
+											onClick={() => setPTOYearSettings(selectedGroupId, year, { rolloverHours: undefined })}
+										>
+											Use the {year - 1} closing balance
+										</button>
+									)}
 								</div>
+								<div className="setting-item">
+									<Tooltip content="The most hours your policy lets you carry into a new year. Leave empty for no limit.">
+										<label htmlFor="max-carryover">Carryover Limit:</label>
+									</Tooltip>
+									<input
+										type="number"
+										id="max-carryover"
+										min="0"
+										max="2000"
+										step="1"
+										value={ptoPolicy.maxCarryoverHours ?? ""}
+										onChange={(e) => setPTOConfig(selectedGroupId, {
+											policy: {
+												...ptoPolicy,
+												maxCarryoverHours: e.target.value === "" ? undefined : Math.max(0, parseInt(e.target.value) || 0),
+											},
+										})}
+										placeholder="No limit"
+									/>
+								</div>
+								<div className="setting-item">
+									<Tooltip content="Carried-over hours not used by this date are forfeited. Leave empty if they never expire.">
+										<label htmlFor="carryover-expiry">Carryover Expires:</label>
+									</Tooltip>
+									<input
+										type="date"
+										id="carryover-expiry"
+										min={`${startDate.getFullYear()}-01-01`}
+										max={`${startDate.getFullYear()}-12-31`}
+										value={ptoPolicy.carryoverExpiry ? `${startDate.getFullYear()}-${ptoPolicy.carryoverExpiry}` : ""}
+										onChange={(e) => setPTOConfig(selectedGroupId, {
+											// Stored as MM-DD so the rule applies every year
+											policy: { ...ptoPolicy, carryoverExpiry: e.target.value ? e.target.value.slice(5) : undefined },
+										})}
+									/>
+								</div>
+								<div className="setting-item">
+									<Tooltip content="When your allowance is earned. PTO can't be booked on a date before enough hours have accrued.">
+										<label htmlFor="accrual-frequency">Accrual:</label>
+									</Tooltip>
+									<select
+										id="accrual-frequency"
+										value={accrual.frequency}
+										onChange={(e) => setPTOConfig(selectedGroupId, { accrual: toAccrualSchedule(e.target.value as AccrualFrequency) })}
+									>
+										<option value="daily">Daily</option>
+										<option value="weekly">Weekly (payday)</option>
+										<option value="biweekly">Every two weeks (payday)</option>
+										<option value="semimonthly">15th and last day of the month</option>
+										<option value="monthly">Last day of the month</option>
+										<option value="lumpsum">All at once on Jan 1</option>
+									</select>
+									{"anchorDate" in accrual && (
+										<input
+											type="date"
+											id="accrual-anchor"
+											aria-label="A payday"
+											value={accrual.anchorDate}
+											onChange={(e) => e.target.value && setPTOConfig(selectedGroupId, {
+												accrual: { frequency: accrual.frequency, anchorDate: e.target.value },
+											})}
+										/>
+									)}
+									<small className="setting-help">
+										{"anchorDate" in accrual ? "Any payday; later paydays follow on the same cadence" : "Hours can be booked once they are credited"}
+									</small>
+								</div>
+								<div className="setting-item">
+									<Tooltip content="How far below zero your balance may go when booking PTO ahead of accrual. Leave empty to require hours to be earned first.">
+										<label htmlFor="negative-allowance">Negative Balance:</label>
+									</Tooltip>
+									<input
+										type="number"
+										id="negative-allowance"
+										min="0"
+										max="2000"
+										step="1"
+										value={ptoPolicy.negativeBalanceAllowance ?? ""}
+										onChange={(e) => setPTOConfig(selectedGroupId, {
+											policy: {
+												...ptoPolicy,
+												negativeBalanceAllowance: e.target.value === "" ? undefined : Math.max(0, parseInt(e.target.value) || 0),
+											},
+										})}
+										placeholder="Not allowed"
+									/>
+								</div>
+								<div className="setting-item">
+									<Tooltip content="The length of a full day off for you. Leave empty to use your policy's workday.">
+										<label htmlFor="workday-hours">Workday Hours:</label>
+									</Tooltip>
+									<input
+										type="number"
+										id="workday-hours"
+										min="1"
+										max="24"
+										step="0.5"
+										value={selectedGroup?.ptoConfig?.workdayHours ?? ""}
+										onChange={(e) => setPTOConfig(selectedGroupId, {
+											workdayHours: e.target.value === "" ? undefined : Math.min(24, Math.max(1, parseFloat(e.target.value) || 1)),
+										})}
+										placeholder={String(ptoPolicy.hoursPerWorkday)}
+									/>
+								</div>
+								<div className="setting-item work-schedule">
+									<Tooltip content="Hours you work each day. A full day off costs what you're scheduled for that day; days set to 0 are never charged.">
+										<label>Work Schedule:</label>
+									</Tooltip>
+									<div className="work-schedule-days">
+										{/* Monday first, Sunday last */}
+										{[1, 2, 3, 4, 5, 6, 0].map((day) => (
+											<label key={day} className="work-schedule-day">
+												<span>{WEEKDAY_LABELS[day]}</span>
+												<input
+													type="number"
+													min="0"
+													max="24"
+													step="0.5"
+													value={workSchedule[day]}
+													onChange={(e) => updateWorkSchedule(day, Math.min(24, Math.max(0, parseFloat(e.target.value) || 0)))}
+												/>
+											</label>
+										))}
+									</div>
+									<small className="setting-help">
+										{PTOCalendarUtils.getWorkScheduleLabel(selectedGroup?.ptoConfig)}
+									</small>
+								</div>
+								<div className="setting-item">
+									<Tooltip content="The smallest amount of PTO your policy lets you book, in hours.">
+										<label htmlFor="hour-increment">Booking Increment:</label>
+									</Tooltip>
+									<select
+										id="hour-increment"
+										value={getHourIncrement(ptoPolicy)}
+										onChange={(e) => setPTOConfig(selectedGroupId, {
+											policy: { ...ptoPolicy, hourIncrement: parseFloat(e.target.value) },
+										})}
+									>
+										<option value="0.25">15 minutes</option>
+										<option value="0.5">30 minutes</option>
+										<option value="1">1 hour</option>
+										<option value="2">2 hours</option>
+										<option value="4">4 hours</option>
+									</select>
+								</div>
+								{getLeaveBuckets(ptoPolicy).map((bucket) => (
+									<React.Fragment key={bucket.type}>
+										<div className="setting-item">
+											<Tooltip content={`${LEAVE_TYPE_LABELS[bucket.type]} hours granted each year, separate from vacation. Leave empty to log this leave without tracking a balance.`}>
+												<label htmlFor={`leave-allowance-${bucket.type}`}>{LEAVE_TYPE_LABELS[bucket.type]} Allowance:</label>
+											</Tooltip>
+											<input
+												type="number"
+												id={`leave-allowance-${bucket.type}`}
+												min="0"
+												max="2000"
+												step="1"
+												value={bucket.annualHours ?? ""}
+												onChange={(e) => updateLeaveBucket(bucket.type, {
+													annualHours: e.target.value === "" ? undefined : Math.max(0, parseInt(e.target.value) || 0),
+												})}
+												placeholder="Untracked"
+											/>
+										</div>
+										{bucket.annualHours !== undefined && bucket.maxCarryoverHours !== 0 && (
+											<div className="setting-item">
+												<Tooltip content={`Unused ${LEAVE_TYPE_LABELS[bucket.type].toLowerCase()} hours carried over from last year.`}>
+													<label htmlFor={`leave-rollover-${bucket.type}`}>{LEAVE_TYPE_LABELS[bucket.type]} Rollover:</label>
+												</Tooltip>
+												<input
+													type="number"
+													id={`leave-rollover-${bucket.type}`}
+													min="0"
+													max={bucket.maxCarryoverHours ?? 2000}
+													step="1"
+													value={yearConfig?.leaveRolloverHours?.[bucket.type] || 0}
+													// Carried over automatically after the first plan year
+													disabled={isCarriedOver}
+													onChange={(e) => setPTOConfig(selectedGroupId, {
+														leaveRolloverHours: {
+															...selectedGroup?.ptoConfig?.leaveRolloverHours,
+															[bucket.type]: Math.max(0, parseInt(e.target.value) || 0),
+														},
+													})}
+												/>
+											</div>
+										)}
+									</React.Fragment>
+								))}
 							</>
 						)}
+
+						{selectedGroup && (
+							<DataPanel group={selectedGroup} disabled={!!editingGroup} />
+						)}
 					</>
 				)}
 
@@ -57,6 +57,8 @@ const WelcomeModal: React.FC<WelcomeModalProps> = ({ onClose, onDontShowAgain })
                         <li><strong>Short click</strong> on empty date → adds that day</li>
                         <li><strong>Short click</strong> on existing date → opens editor</li>
                         <li><strong>Long press</strong> (500ms) → select multi-day range</li>
+                        <li><strong>Drag</strong> a range to move it, or drag its edge to resize it</li>
+                        <li><strong>Repeat</strong> a range daily, weekly or monthly, then edit one occurrence or the whole series</li>
                         <li>Add optional descriptions that appear on hover</li>
                     </ul>
                 </>
@@ -72,6 +74,7 @@ const WelcomeModal: React.FC<WelcomeModalProps> = ({ onClose, onDontShowAgain })
                         <li><strong>Short click</strong> toggles full day (8h) PTO on/off</li>
                         <li><strong>Long press</strong> (500ms) opens modal for custom hours</li>
                         <li>Choose between full day (8h), half day (4h), or quarter day (2h)</li>
+                        <li><strong>Plan Breaks</strong> suggests the days that turn holidays into the longest breaks</li>
                     </ul>
                 </>
             ),
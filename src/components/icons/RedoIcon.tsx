@@ -0,0 +1,27 @@
+import React from "react";
+import { IconProps } from "./SharedProps";
+
+const RedoIcon: React.FC<IconProps> = ({
+	width = 24,
+	height = 24,
+	color = "currentColor",
+}) => {
+	return (
+		<svg
+			width={width}
+			height={height}
+			viewBox="0 0 24 24"
+			fill="none"
+			stroke={color}
+			strokeWidth="2"
+			strokeLinecap="round"
+			strokeLinejoin="round"
+			xmlns="http://www.w3.org/2000/svg"
+		>
+			<path d="M15 14l5-5-5-5"></path>
+			<path d="M20 9H9.5a5.5 5.5 0 000 11H13"></path>
+		</svg>
+	);
+};
+
+export default RedoIcon;
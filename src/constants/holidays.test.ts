@@ -3,19 +3,169 @@
  * Testing holiday blocking and date conversion functions
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import {
-  HOLIDAYS_2025,
   getHoliday,
+  getHolidaysForYear,
   isHoliday,
   getAllHolidayDates,
   isoDateToMMDD,
   getHolidayFromISODate,
-  isHolidayFromISODate
+  isHolidayFromISODate,
+  getHolidayRegion,
+  HOLIDAY_REGIONS,
+  setCustomHolidays
 } from './holidays';
 
+// The hand-maintained tables the holiday rules replaced; the rules must keep producing them
+const HOLIDAYS_2024: Record<number, string> = {
+  101: "New Year's Day",
+  115: "MLK Jr. Day",
+  527: "Memorial Day",
+  619: "Juneteenth",
+  703: "Independence Day Eve",
+  704: "Independence Day",
+  902: "Labor Day",
+  1014: "Indigenous People's Day",
+  1128: "Thanksgiving",
+  1129: "Day after Thanksgiving",
+  1225: "Christmas",
+  1223: "Unispace Gift Day",
+  1224: "Unispace Gift Day",
+  1230: "Unispace Gift Day",
+  1231: "Unispace Gift Day"
+};
+
+const HOLIDAYS_2025: Record<number, string> = {
+  101: "New Year's Day",
+  120: "MLK Jr. Day",
+  526: "Memorial Day",
+  619: "Juneteenth",
+  703: "Independence Day Eve",
+  704: "Independence Day",
+  901: "Labor Day",
+  1013: "Indigenous People's Day",
+  1127: "Thanksgiving",
+  1128: "Day after Thanksgiving",
+  1225: "Christmas",
+  1226: "Unispace Gift Day",
+  1227: "Unispace Gift Day",
+  1230: "Unispace Gift Day",
+  1231: "Unispace Gift Day"
+};
+
+const HOLIDAYS_2026: Record<number, string> = {
+  101: "New Year's Day",
+  119: "MLK Jr. Day",
+  525: "Memorial Day",
+  619: "Juneteenth",
+  702: "Independence Day Eve",
+  703: "Independence Day",
+  907: "Labor Day",
+  1012: "Indigenous People's Day",
+  1126: "Thanksgiving",
+  1127: "Day after Thanksgiving",
+  1225: "Christmas",
+  1228: "Unispace Gift Day",
+  1229: "Unispace Gift Day",
+  1230: "Unispace Gift Day",
+  1231: "Unispace Gift Day"
+};
+
 describe('Holiday Calendar 2025', () => {
-  describe('HOLIDAYS_2025 constant', () => {
+  describe('getHolidaysForYear', () => {
+    it('should reproduce the 2024-2026 holiday tables', () => {
+      expect(getHolidaysForYear(2024)).toEqual(HOLIDAYS_2024);
+      expect(getHolidaysForYear(2025)).toEqual(HOLIDAYS_2025);
+      expect(getHolidaysForYear(2026)).toEqual(HOLIDAYS_2026);
+    });
+
+    it('should compute later years instead of reusing 2025', () => {
+      const holidays = getHolidaysForYear(2027);
+      expect(holidays[118]).toBe("MLK Jr. Day");
+      expect(holidays[531]).toBe("Memorial Day");
+      expect(holidays[1125]).toBe("Thanksgiving");
+      // July 4 is a Sunday: observed Monday, with the eve on the Friday before
+      expect(holidays[705]).toBe("Independence Day");
+      expect(holidays[702]).toBe("Independence Day Eve");
+      // Gift days are only known for the years they were announced
+      expect(Object.values(holidays)).not.toContain("Unispace Gift Day");
+    });
+
+    it('should include a New Year\'s Day observed in the previous December', () => {
+      // Jan 1 2028 is a Saturday
+      expect(getHolidaysForYear(2027)[1231]).toBe("New Year's Day");
+      expect(getHolidaysForYear(2028)[101]).toBeUndefined();
+    });
+  });
+
+  describe('holiday regions', () => {
+    it('should compute UK bank holidays', () => {
+      expect(getHolidaysForYear(2025, 'uk')).toEqual({
+        101: "New Year's Day",
+        418: 'Good Friday',
+        421: 'Easter Monday',
+        505: 'Early May Bank Holiday',
+        526: 'Spring Bank Holiday',
+        825: 'Summer Bank Holiday',
+        1225: 'Christmas Day',
+        1226: 'Boxing Day'
+      });
+    });
+
+    it('should move a weekend Christmas and Boxing Day to the following free weekdays', () => {
+      // 2021: Saturday and Sunday; 2022: Sunday and Monday
+      expect(getHolidaysForYear(2021, 'uk')).toMatchObject({ 1227: 'Christmas Day', 1228: 'Boxing Day' });
+      expect(getHolidaysForYear(2022, 'uk')).toMatchObject({ 1226: 'Boxing Day', 1227: 'Christmas Day' });
+    });
+
+    it('should compute Australian and Canadian holidays', () => {
+      // Australia Day 2025 is a Sunday
+      expect(getHolidaysForYear(2025, 'au')).toMatchObject({ 127: 'Australia Day', 425: 'Anzac Day', 609: "King's Birthday" });
+      expect(getHolidaysForYear(2025, 'ca')).toMatchObject({ 519: 'Victoria Day', 701: 'Canada Day', 1013: 'Thanksgiving' });
+    });
+
+    it('should keep each region\'s holidays separate', () => {
+      expect(isHolidayFromISODate('2025-11-27')).toBe(true);
+      expect(isHolidayFromISODate('2025-11-27', 'uk')).toBe(false);
+      expect(getHolidayFromISODate('2025-04-21', 'au')).toBe('Easter Monday');
+      expect(getHolidayFromISODate('2025-04-21')).toBeNull();
+    });
+
+    it('should fall back to the US office for unknown regions', () => {
+      expect(getHolidayRegion('mars')).toBe(HOLIDAY_REGIONS[0]);
+      expect(getHolidaysForYear(2025, 'mars')).toEqual(getHolidaysForYear(2025));
+    });
+  });
+
+  describe('imported holidays', () => {
+    afterEach(() => setCustomHolidays([]));
+
+    it('should add imported holidays to the region\'s rules', () => {
+      setCustomHolidays([{
+        regionId: 'us', name: 'HR 2025', mode: 'supplement',
+        holidays: [{ date: '2025-03-14', name: 'Company Day' }, { date: '2025-12-25', name: 'Xmas' }]
+      }]);
+      expect(getHolidayFromISODate('2025-03-14')).toBe('Company Day');
+      expect(getHolidayFromISODate('2025-12-25')).toBe('Christmas');
+      expect(isHolidayFromISODate('2025-03-14', 'uk')).toBe(false);
+    });
+
+    it('should replace the region\'s rules', () => {
+      setCustomHolidays([{ regionId: 'uk', name: 'UK 2025', mode: 'replace', holidays: [{ date: '2025-03-14', name: 'Company Day' }] }]);
+      expect(getHolidaysForYear(2025, 'uk')).toEqual({ 314: 'Company Day' });
+      expect(getHolidaysForYear(2026, 'uk')).toEqual({});
+    });
+
+    it('should go back to the rules when the import is removed', () => {
+      setCustomHolidays([{ regionId: 'us', name: 'HR', mode: 'replace', holidays: [] }]);
+      expect(isHolidayFromISODate('2025-12-25')).toBe(false);
+      setCustomHolidays([]);
+      expect(isHolidayFromISODate('2025-12-25')).toBe(true);
+    });
+  });
+
+  describe('HOLIDAYS_2025 fixture', () => {
     it('should contain all expected holidays', () => {
       const expectedHolidays = [
         101,  // New Year's Day
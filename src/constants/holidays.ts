@@ -1,96 +1,180 @@
 /**
  * Multi-Year Holiday Calendar
- * Company holidays and Unispace gift days by year
+ * Company holidays and Unispace gift days for each office region, computed from rules for any year
+ * and optionally replaced or supplemented by holidays imported from a file
  */
 
-// Standard holidays that are the same every year
-const STANDARD_HOLIDAYS: Record<number, string> = {
-  
-};
-
-// Year-specific holidays (like Unispace gift days that may vary)
-export const HOLIDAYS_2024: Record<number, string> = {
-  ...STANDARD_HOLIDAYS,
-  101: "New Year's Day",
-  115: "MLK Jr. Day",
-  527: "Memorial Day",
-  619: "Juneteenth",
-  703: "Independence Day Eve",
-  704: "Independence Day",
-  902: "Labor Day",
-  1014: "Indigenous People's Day",
-  1128: "Thanksgiving",
-  1129: "Day after Thanksgiving",
-  1225: "Christmas",
-  // 2024 Unispace Gift Days
-  1223: "Unispace Gift Day",
-  1224: "Unispace Gift Day",
-  1230: "Unispace Gift Day",
-  1231: "Unispace Gift Day"
-};
-
-export const HOLIDAYS_2025: Record<number, string> = {
-  ...STANDARD_HOLIDAYS,
-  // 2025 Unispace Gift Days
-  101: "New Year's Day",
-  120: "MLK Jr. Day",
-  526: "Memorial Day",
-  619: "Juneteenth",
-  703: "Independence Day Eve",
-  704: "Independence Day", 
-  901: "Labor Day",
-  1013: "Indigenous People's Day",
-  1127: "Thanksgiving",
-  1128: "Day after Thanksgiving",
-  1225: "Christmas",
-  1226: "Unispace Gift Day",
-  1227: "Unispace Gift Day",
-  1230: "Unispace Gift Day",
-  1231: "Unispace Gift Day"
-};
-
-export const HOLIDAYS_2026: Record<number, string> = {
-  ...STANDARD_HOLIDAYS,
-  // 2026 Unispace Gift Days (example)
-  101: "New Year's Day",
-  119: "MLK Jr. Day",
-  525: "Memorial Day",
-  619: "Juneteenth",
-  702: "Independence Day Eve",
-  703: "Independence Day", 
-  907: "Labor Day",
-  1012: "Indigenous People's Day",
-  1126: "Thanksgiving",
-  1127: "Day after Thanksgiving",
-  1225: "Christmas",
-  1228: "Unispace Gift Day",
-  1229: "Unispace Gift Day",
-  1230: "Unispace Gift Day",
-  1231: "Unispace Gift Day"
-};
+import { HolidayRule, resolveHolidays } from '../utils/holidayRules';
+
+// Weekdays, for readable rules
+const MONDAY = 1;
+const THURSDAY = 4;
+
+export interface HolidayRegion {
+  id: string;
+  name: string;          // Region label, e.g. "United Kingdom"
+  calendarName: string;  // Name of the region's read-only holidays calendar
+  color: string;         // Calendar colour for the region's holidays
+  rules: HolidayRule[];
+}
+
+export interface ImportedHoliday {
+  date: string;  // ISO date
+  name: string;
+}
+
+export interface CustomHolidays {
+  regionId: string;
+  name: string;                      // File or calendar the holidays were imported from
+  mode: 'replace' | 'supplement';    // Use instead of the region's rules, or as well as them
+  holidays: ImportedHoliday[];
+}
+
+// Gift days are announced each December, so they only apply to the year given
+const giftDays = (year: number, days: number[]): HolidayRule[] =>
+  days.map(day => ({ type: 'fixed', name: 'Unispace Gift Day', month: 12, day, years: [year] }));
+
+// Company holidays
+export const UNISPACE_HOLIDAY_RULES: HolidayRule[] = [
+  { type: 'fixed', name: "New Year's Day", month: 1, day: 1, observed: 'nearestWeekday' },
+  { type: 'nthWeekday', name: 'MLK Jr. Day', month: 1, weekday: MONDAY, n: 3 },
+  { type: 'lastWeekday', name: 'Memorial Day', month: 5, weekday: MONDAY },
+  { type: 'fixed', name: 'Juneteenth', month: 6, day: 19, observed: 'nearestWeekday' },
+  { type: 'fixed', name: 'Independence Day', month: 7, day: 4, observed: 'nearestWeekday' },
+  { type: 'offset', name: 'Independence Day Eve', from: 'Independence Day', days: -1, businessDays: true },
+  { type: 'nthWeekday', name: 'Labor Day', month: 9, weekday: MONDAY, n: 1 },
+  { type: 'nthWeekday', name: "Indigenous People's Day", month: 10, weekday: MONDAY, n: 2 },
+  { type: 'nthWeekday', name: 'Thanksgiving', month: 11, weekday: THURSDAY, n: 4 },
+  { type: 'offset', name: 'Day after Thanksgiving', from: 'Thanksgiving', days: 1 },
+  { type: 'fixed', name: 'Christmas', month: 12, day: 25, observed: 'nearestWeekday' },
+  ...giftDays(2024, [23, 24, 30, 31]),
+  ...giftDays(2025, [26, 27, 30, 31]),
+  ...giftDays(2026, [28, 29, 30, 31])
+];
+
+// England & Wales bank holidays
+export const UK_HOLIDAY_RULES: HolidayRule[] = [
+  { type: 'fixed', name: "New Year's Day", month: 1, day: 1, observed: 'followingWeekday' },
+  { type: 'easter', name: 'Good Friday', days: -2 },
+  { type: 'easter', name: 'Easter Monday', days: 1 },
+  { type: 'nthWeekday', name: 'Early May Bank Holiday', month: 5, weekday: MONDAY, n: 1 },
+  { type: 'lastWeekday', name: 'Spring Bank Holiday', month: 5, weekday: MONDAY },
+  { type: 'lastWeekday', name: 'Summer Bank Holiday', month: 8, weekday: MONDAY },
+  { type: 'fixed', name: 'Christmas Day', month: 12, day: 25, observed: 'followingWeekday' },
+  { type: 'fixed', name: 'Boxing Day', month: 12, day: 26, observed: 'followingWeekday' }
+];
+
+// National public holidays observed in every state
+export const AU_HOLIDAY_RULES: HolidayRule[] = [
+  { type: 'fixed', name: "New Year's Day", month: 1, day: 1, observed: 'followingWeekday' },
+  { type: 'fixed', name: 'Australia Day', month: 1, day: 26, observed: 'followingWeekday' },
+  { type: 'easter', name: 'Good Friday', days: -2 },
+  { type: 'easter', name: 'Easter Monday', days: 1 },
+  { type: 'fixed', name: 'Anzac Day', month: 4, day: 25 },
+  { type: 'nthWeekday', name: "King's Birthday", month: 6, weekday: MONDAY, n: 2 },
+  { type: 'fixed', name: 'Christmas Day', month: 12, day: 25, observed: 'followingWeekday' },
+  { type: 'fixed', name: 'Boxing Day', month: 12, day: 26, observed: 'followingWeekday' }
+];
+
+// Federal statutory holidays
+export const CA_HOLIDAY_RULES: HolidayRule[] = [
+  { type: 'fixed', name: "New Year's Day", month: 1, day: 1, observed: 'followingWeekday' },
+  { type: 'easter', name: 'Good Friday', days: -2 },
+  { type: 'weekdayOnOrBefore', name: 'Victoria Day', month: 5, day: 24, weekday: MONDAY },
+  { type: 'fixed', name: 'Canada Day', month: 7, day: 1, observed: 'followingWeekday' },
+  { type: 'nthWeekday', name: 'Labour Day', month: 9, weekday: MONDAY, n: 1 },
+  { type: 'fixed', name: 'National Day for Truth and Reconciliation', month: 9, day: 30, observed: 'followingWeekday' },
+  { type: 'nthWeekday', name: 'Thanksgiving', month: 10, weekday: MONDAY, n: 2 },
+  { type: 'fixed', name: 'Remembrance Day', month: 11, day: 11, observed: 'followingWeekday' },
+  { type: 'fixed', name: 'Christmas Day', month: 12, day: 25, observed: 'followingWeekday' },
+  { type: 'fixed', name: 'Boxing Day', month: 12, day: 26, observed: 'followingWeekday' }
+];
+
+// Office regions people can pick as home or show alongside it
+export const HOLIDAY_REGIONS: HolidayRegion[] = [
+  { id: 'us', name: 'United States', calendarName: 'Unispace Holidays', color: '#814ffd', rules: UNISPACE_HOLIDAY_RULES },
+  { id: 'uk', name: 'United Kingdom', calendarName: 'UK Bank Holidays', color: '#1d70b8', rules: UK_HOLIDAY_RULES },
+  { id: 'au', name: 'Australia', calendarName: 'Australian Public Holidays', color: '#00843d', rules: AU_HOLIDAY_RULES },
+  { id: 'ca', name: 'Canada', calendarName: 'Canadian Statutory Holidays', color: '#d52b1e', rules: CA_HOLIDAY_RULES }
+];
+
+export const DEFAULT_HOLIDAY_REGION_ID = 'us';
+
+/**
+ * Look up a holiday region
+ * @param regionId Region id (defaults to the US office)
+ * @returns The region, or the default region for unknown ids
+ */
+export function getHolidayRegion(regionId: string = DEFAULT_HOLIDAY_REGION_ID): HolidayRegion {
+  return HOLIDAY_REGIONS.find(region => region.id === regionId)
+    ?? HOLIDAY_REGIONS.find(region => region.id === DEFAULT_HOLIDAY_REGION_ID)!;
+}
+
+const holidaysByYear = new Map<string, Record<number, string>>();
+
+// Imported holidays currently in use, mirrored from the app state
+let customHolidays: CustomHolidays[] = [];
+
+/**
+ * Set the imported holidays that lookups apply on top of the built-in rules
+ * @param custom At most one imported holiday list per region
+ */
+export function setCustomHolidays(custom: CustomHolidays[]): void {
+  if (custom === customHolidays) return;
+  customHolidays = custom;
+  holidaysByYear.clear();
+}
+
+/**
+ * Get the imported holidays for a region
+ * @param regionId Holiday region (defaults to the US office)
+ * @returns The region's imported holidays, or null when it only uses its rules
+ */
+export function getCustomHolidays(regionId: string = DEFAULT_HOLIDAY_REGION_ID): CustomHolidays | null {
+  const region = getHolidayRegion(regionId);
+  return customHolidays.find(custom => custom.regionId === region.id) ?? null;
+}
 
 /**
  * Get holidays for a specific year
  * @param year The year to get holidays for
- * @returns Holiday object for that year, or fallback to 2025
+ * @param regionId Holiday region (defaults to the US office)
+ * @returns Holiday names keyed by MMDD date, including holidays observed in this year from a neighbouring one
  */
-export function getHolidaysForYear(year: number): Record<number, string> {
-  switch (year) {
-    case 2024: return HOLIDAYS_2024;
-    case 2025: return HOLIDAYS_2025;
-    case 2026: return HOLIDAYS_2026;
-    default: return HOLIDAYS_2025; // fallback to 2025
-  }
+export function getHolidaysForYear(year: number, regionId: string = DEFAULT_HOLIDAY_REGION_ID): Record<number, string> {
+  const region = getHolidayRegion(regionId);
+  const cacheKey = `${region.id}-${year}`;
+  const cached = holidaysByYear.get(cacheKey);
+  if (cached) return cached;
+
+  const custom = getCustomHolidays(region.id);
+  const holidays: Record<number, string> = {};
+  [year - 1, year, year + 1]
+    .flatMap(ruleYear => custom?.mode === 'replace' ? [] : resolveHolidays(region.rules, ruleYear))
+    .filter(holiday => holiday.date.startsWith(`${year}-`))
+    .forEach(holiday => {
+      holidays[isoDateToMMDD(holiday.date)] = holiday.name;
+    });
+  // Imported holidays fill in days the rules leave free
+  custom?.holidays
+    .filter(holiday => holiday.date.startsWith(`${year}-`))
+    .forEach(holiday => {
+      holidays[isoDateToMMDD(holiday.date)] ??= holiday.name;
+    });
+
+  holidaysByYear.set(cacheKey, holidays);
+  return holidays;
 }
 
 /**
  * Check if a date (MMDD format) is a company holiday for a specific year
  * @param date Date in MMDD format (e.g., 101 for Jan 1st)
  * @param year The year to check (defaults to current year)
+ * @param regionId Holiday region (defaults to the US office)
  * @returns Holiday name if it's a holiday, null otherwise
  */
-export function getHoliday(date: number, year: number = new Date().getFullYear()): string | null {
-  const yearHolidays = getHolidaysForYear(year);
+export function getHoliday(date: number, year: number = new Date().getFullYear(), regionId?: string): string | null {
+  const yearHolidays = getHolidaysForYear(year, regionId);
   return yearHolidays[date] || null;
 }
 
@@ -98,20 +182,22 @@ export function getHoliday(date: number, year: number = new Date().getFullYear()
  * Check if a date (MMDD format) is a company holiday for a specific year
  * @param date Date in MMDD format (e.g., 101 for Jan 1st)
  * @param year The year to check (defaults to current year)
+ * @param regionId Holiday region (defaults to the US office)
  * @returns True if it's a holiday
  */
-export function isHoliday(date: number, year: number = new Date().getFullYear()): boolean {
-  const yearHolidays = getHolidaysForYear(year);
+export function isHoliday(date: number, year: number = new Date().getFullYear(), regionId?: string): boolean {
+  const yearHolidays = getHolidaysForYear(year, regionId);
   return date in yearHolidays;
 }
 
 /**
  * Get all holiday dates as an array of MMDD numbers for a specific year
  * @param year The year to get holidays for (defaults to current year)
+ * @param regionId Holiday region (defaults to the US office)
  * @returns Array of holiday dates in MMDD format
  */
-export function getAllHolidayDates(year: number = new Date().getFullYear()): number[] {
-  const yearHolidays = getHolidaysForYear(year);
+export function getAllHolidayDates(year: number = new Date().getFullYear(), regionId?: string): number[] {
+  const yearHolidays = getHolidaysForYear(year, regionId);
   return Object.keys(yearHolidays).map(Number);
 }
 
@@ -130,21 +216,23 @@ export function isoDateToMMDD(isoDate: string): number {
 /**
  * Check if an ISO date is a company holiday
  * @param isoDate ISO date string (YYYY-MM-DD)
+ * @param regionId Holiday region (defaults to the US office)
  * @returns Holiday name if it's a holiday, null otherwise
  */
-export function getHolidayFromISODate(isoDate: string): string | null {
+export function getHolidayFromISODate(isoDate: string, regionId?: string): string | null {
   const mmdd = isoDateToMMDD(isoDate);
   const year = parseInt(isoDate.split('-')[0], 10);
-  return getHoliday(mmdd, year);
+  return getHoliday(mmdd, year, regionId);
 }
 
 /**
  * Check if an ISO date is a company holiday
  * @param isoDate ISO date string (YYYY-MM-DD)
+ * @param regionId Holiday region (defaults to the US office)
  * @returns True if it's a holiday
  */
-export function isHolidayFromISODate(isoDate: string): boolean {
+export function isHolidayFromISODate(isoDate: string, regionId?: string): boolean {
   const mmdd = isoDateToMMDD(isoDate);
   const year = parseInt(isoDate.split('-')[0], 10);
-  return isHoliday(mmdd, year);
+  return isHoliday(mmdd, year, regionId);
 }
\ No newline at end of file
@@ -8,18 +8,53 @@ import {
 	eachDayOfInterval,
 	isSameDay,
 	differenceInDays,
-	addDays,
-	isWeekend,
+	format,
+	startOfQuarter,
 } from "date-fns";
-import LZString from "lz-string";
-import { PTOEntry, PTOConfig, PTOCalendarUtils } from "./utils/ptoUtils";
-import { isHolidayFromISODate, getHolidaysForYear } from "./constants/holidays";
+import { PTOEntry, PTOConfig, PTOCalendarUtils, PTOSummary, PTOYearSettings } from "./utils/ptoUtils";
+import {
+	decodeState,
+	encodeState,
+	PersistedState,
+	StateDecodeError,
+} from "./utils/stateCodec";
+import {
+	History,
+	createHistory,
+	recordHistory,
+	undoHistory,
+	redoHistory,
+} from "./utils/history";
+import {
+	isHolidayFromISODate,
+	getHolidaysForYear,
+	getHolidayRegion,
+	setCustomHolidays,
+	CustomHolidays,
+	DEFAULT_HOLIDAY_REGION_ID,
+} from "./constants/holidays";
+import { checkPTOBooking, getPTOConfigForYear } from "./utils/ptoBalance";
+import { getHourIncrement, getPTOPolicy } from "./utils/ptoPolicy";
+import { ClosedPTOYear, closePTOYear, getClosedYear } from "./utils/ptoYearEnd";
+import { expandRecurringRange, RecurrenceRule } from "./utils/recurrence";
+import { DEFAULT_COVERAGE_THRESHOLD } from "./utils/teamCoverage";
+import { getSharedGroups, mergeSharedGroups, ShareOptions } from "./utils/sharing";
 
 // Re-export types for use in tests and other modules
 export type { PTOEntry, PTOConfig } from "./utils/ptoUtils";
 
 export const MAX_GROUPS = 10;
 
+// How much of the calendar is shown at once
+export type ViewMode = "month" | "quarter" | "rolling" | "year";
+export const VIEW_MONTHS: Record<ViewMode, number> = { month: 1, quarter: 3, rolling: 12, year: 12 };
+// Previous/next move a whole month, quarter or year; the rolling view moves a month at a time
+const VIEW_STEP_MONTHS: Record<ViewMode, number> = { month: 1, quarter: 3, rolling: 1, year: 12 };
+const VIEW_MODE_KEY = "pocketcal_view_mode";
+const HEATMAP_KEY = "pocketcal_heatmap";
+
+const STORAGE_KEY = "pocketcal_calendar_state_v1";
+
 export const GROUP_COLORS = [
 	{ hex: "#24d05a", rgb: "rgb(36, 208, 90)" }, // green
 	{ hex: "#f44336", rgb: "rgb(244 67 54)" }, // red
@@ -34,9 +69,11 @@ export const GROUP_COLORS = [
 ];
 
 export interface DateRange {
+	id?: string; // Set on every range a calendar stores; exported events take their UIDs from it
 	start: string;
 	end: string;
 	description?: string;
+	recurrence?: RecurrenceRule; // Repeats the range; start and end are its first occurrence
 }
 
 export interface EventGroup {
@@ -47,6 +84,15 @@ export interface EventGroup {
 	ptoConfig?: PTOConfig;  // Optional PTO settings per group
 	ptoEntries?: PTOEntry[]; // PTO entries specific to this group
 	isSpecial?: boolean;     // Special calendars cannot be edited/deleted
+	holidayRegionId?: string; // Set on the generated holiday calendars
+	closedYears?: ClosedPTOYear[]; // Frozen snapshots of finished plan years
+}
+
+// What an undo/redo step restores
+export interface HistorySnapshot {
+	eventGroups: EventGroup[];
+	selectedGroupId: string | null;
+	customHolidays: CustomHolidays[];
 }
 
 interface AppState {
@@ -54,29 +100,61 @@ interface AppState {
 	includeWeekends: boolean;
 	showToday: boolean;
 	eventGroups: EventGroup[];
-	holidays: EventGroup; // Separate read-only holidays data
+	holidayOverlays: string[]; // Regions whose holidays are shown alongside the home region's
+	customHolidays: CustomHolidays[]; // Holidays imported from a file, at most one list per region
 	selectedGroupId: string | null;
 	showHelpModal: boolean;
 	isDarkMode: boolean;
+	viewMode: ViewMode;
+	viewDate: Date; // First day of the month the view was moved to; see getViewStart
+	showHeatmap: boolean; // Shade days by how many calendars are out instead of by calendar colour
+	coverageThreshold: number; // Days with at least this many calendars out are coverage risks
+	loadError: string | null; // Why the last share link / saved calendar could not be loaded
+	isViewOnly: boolean; // Showing a view-only share link; nothing is edited or saved
+	history: History<HistorySnapshot>;
 	// Actions
 	setStartDate: (date: Date) => void;
 	setIncludeWeekends: (include: boolean) => void;
 	setShowToday: (show: boolean) => void;
+	setHolidayOverlays: (regionIds: string[]) => void;
+	importCustomHolidays: (custom: CustomHolidays) => void;
+	removeCustomHolidays: (regionId: string) => void;
 	setShowHelpModal: (show: boolean) => void;
 	setIsDarkMode: (isDark: boolean) => void;
+	setViewMode: (mode: ViewMode) => void;
+	shiftView: (direction: 1 | -1) => void;
+	setShowHeatmap: (show: boolean) => void;
+	setCoverageThreshold: (threshold: number) => void;
+	clearLoadError: () => void;
 	addEventGroup: (name: string) => EventGroup;
 	updateEventGroup: (id: string, name: string) => void;
 	deleteEventGroup: (id: string) => void;
 	selectEventGroup: (id: string | null) => void;
 	addDateRange: (groupId: string, range: DateRange) => void;
+	addDateRanges: (groupId: string, ranges: DateRange[]) => void;
 	updateDateRange: (
 		groupId: string,
 		oldRange: DateRange,
 		newRange: DateRange
 	) => void;
 	deleteDateRange: (groupId: string, rangeToDelete: DateRange) => void;
+	updateRangeOccurrence: (
+		groupId: string,
+		series: DateRange,
+		occurrenceStart: string,
+		newRange: DateRange | null
+	) => void;
+	// Undo/redo
+	undo: () => void;
+	redo: () => void;
+	pushHistory: (label: string, before: HistorySnapshot) => void;
+	batchHistory: (label: string, mutate: () => void) => void;
 	getAppStateFromUrl: () => void;
-	generateShareableUrl: () => string;
+	generateShareableUrl: (options?: ShareOptions) => string;
+	loadSharedView: () => boolean;
+	copySharedView: () => number;
+	mergeFromUrl: () => number;
+	mergeEventGroups: (groups: EventGroup[]) => number; // Returns how many didn't fit
 	// localStorage persistence
 	saveToLocalStorage: () => void;
 	loadFromLocalStorage: () => boolean;
@@ -85,57 +163,108 @@ interface AppState {
 	loadFromUrlAndMigrate: () => void;
 	// Per-Group PTO Actions
 	setPTOConfig: (groupId: string, config: Partial<PTOConfig>) => void;
+	setPTOYearSettings: (groupId: string, year: number, settings: PTOYearSettings) => void;
+	closePTOYear: (groupId: string, year: number) => void;
+	reopenPTOYear: (groupId: string, year: number) => void;
 	addPTOEntry: (groupId: string, entry: PTOEntry) => void;
 	updatePTOEntry: (groupId: string, entryId: string, updates: Partial<PTOEntry>) => void;
 	deletePTOEntry: (groupId: string, entryId: string) => void;
+	removePTODay: (groupId: string, entryId: string, date: string) => void; // Splits the entry around the day
 	clearPTOEntries: (groupId: string) => void;
-	validatePTOEntry: (groupId: string, entry: PTOEntry) => { isValid: boolean; warning?: string };
-	getPTOSummary: (groupId: string) => {
-		totalHours: number;
-		usedHours: number;
-		remainingHours: number;
-		totalDays: number;
-		usedDays: number;
-		remainingDays: number;
-		accrualRate: number;
-	} | null;
+	validatePTOEntry: (groupId: string, entry: PTOEntry) => { isValid: boolean; warning?: string; projectedBalance?: number };
+	getPTOSummary: (groupId: string) => PTOSummary | null;
 	cleanupWeekendPTOEntries: () => void;
 	// Helper methods
 	getSelectedGroupPTOConfig: () => PTOConfig | null;
+	getPTOConfigForYear: (groupId: string, year: number) => PTOConfig | null;
 	getSelectedGroupPTOEntries: () => PTOEntry[];
 	isPTOEnabledForGroup: (groupId: string) => boolean;
 	// Display helpers that merge holidays with eventGroups
 	getAllDisplayGroups: () => EventGroup[];
 	getHolidaysGroup: () => EventGroup;
+	getHomeHolidayRegionId: () => string;
 }
 
 const defaultStartDate = new Date(new Date().getFullYear(), 0, 1); // January 1st of current year
 
-// Create the special holidays calendar for a given year
-const createHolidaysCalendar = (year: number = new Date().getFullYear()): EventGroup => {
-	// Get holidays for the specific year from constants
-	const holidayDates = getHolidaysForYear(year);
-
-	const ranges: DateRange[] = Object.keys(holidayDates).map(dateKey => {
-		const mmdd = parseInt(dateKey);
-		const month = Math.floor(mmdd / 100);
-		const day = mmdd % 100;
-		const dateStr = formatISO(new Date(year, month - 1, day), { representation: "date" });
-		return {
-			start: dateStr,
-			end: dateStr
-		};
-	});
+// Generated holiday calendars, kept so repeated lookups return the same object
+const holidayCalendars = new Map<string, EventGroup>();
+
+// Create the special holidays calendar for a region and year.
+// The home region's calendar keeps the id `holidays-<year>` whichever region it is,
+// so a selected holidays calendar stays selected when the home region changes.
+// Views that run into the next year also list that year's holidays (`throughYear`).
+const createHolidaysCalendar = (
+	year: number = new Date().getFullYear(),
+	regionId: string = DEFAULT_HOLIDAY_REGION_ID,
+	isHome = true,
+	throughYear: number = year
+): EventGroup => {
+	const region = getHolidayRegion(regionId);
+	const id = isHome ? `holidays-${year}` : `holidays-${region.id}-${year}`;
+	const cacheKey = `${id}-${region.id}-${throughYear}`;
+	const cached = holidayCalendars.get(cacheKey);
+	if (cached) return cached;
+
+	const ranges: DateRange[] = [];
+	for (let holidayYear = year; holidayYear <= throughYear; holidayYear++) {
+		// Get holidays for the specific year from constants
+		const holidayDates = getHolidaysForYear(holidayYear, region.id);
+
+		Object.entries(holidayDates).forEach(([dateKey, name]) => {
+			const mmdd = parseInt(dateKey);
+			const month = Math.floor(mmdd / 100);
+			const day = mmdd % 100;
+			const dateStr = formatISO(new Date(holidayYear, month - 1, day), { representation: "date" });
+			ranges.push({
+				start: dateStr,
+				end: dateStr,
+				description: name
+			});
+		});
+	}
 
-	return {
-		id: `holidays-${year}`,
-		name: "Unispace Holidays",
-		color: "#814ffd", // purple color for holidays
+	const calendar: EventGroup = {
+		id,
+		name: region.calendarName,
+		color: region.color,
 		ranges,
-		isSpecial: true
+		isSpecial: true,
+		holidayRegionId: region.id
 	};
+	holidayCalendars.set(cacheKey, calendar);
+	return calendar;
+};
+
+// The home region follows the selected calendar's PTO settings, or the first calendar's
+const getHomeRegionId = (state: Pick<AppState, "eventGroups" | "selectedGroupId">): string => {
+	const group = state.eventGroups.find((g) => g.id === state.selectedGroupId) ?? state.eventGroups[0];
+	return group?.ptoConfig?.holidayRegion ?? DEFAULT_HOLIDAY_REGION_ID;
+};
+
+type HolidayCalendarState = Pick<
+	AppState,
+	"startDate" | "eventGroups" | "selectedGroupId" | "holidayOverlays" | "viewMode" | "viewDate"
+>;
+
+const getHolidayCalendars = (state: HolidayCalendarState): EventGroup[] => {
+	const year = state.startDate.getFullYear();
+	const lastViewMonth = addMonths(getViewStart(state.viewMode, state.startDate, state.viewDate), VIEW_MONTHS[state.viewMode] - 1);
+	const throughYear = Math.max(year, lastViewMonth.getFullYear());
+	const homeRegionId = getHomeRegionId(state);
+	return [
+		createHolidaysCalendar(year, homeRegionId, true, throughYear),
+		...state.holidayOverlays
+			.filter((regionId) => regionId !== homeRegionId)
+			.map((regionId) => createHolidaysCalendar(year, regionId, false, throughYear)),
+	];
 };
 
+const isHolidaysGroupId = (
+	state: HolidayCalendarState,
+	groupId: string
+): boolean => getHolidayCalendars(state).some((calendar) => calendar.id === groupId);
+
 // Create a function to generate the default event group
 const createDefaultEventGroup = (index = 0): EventGroup => ({
 	id: nanoid(),
@@ -146,37 +275,174 @@ const createDefaultEventGroup = (index = 0): EventGroup => ({
 
 // Create a function to get the default state
 const getDefaultState = () => {
-	const currentYear = defaultStartDate.getFullYear();
-	const holidaysCalendar = createHolidaysCalendar(currentYear);
 	const defaultGroup = createDefaultEventGroup(1); // Use index 1 since holidays uses index 0 color
 	return {
 		startDate: defaultStartDate,
 		includeWeekends: true,
 		showToday: true,
+		coverageThreshold: DEFAULT_COVERAGE_THRESHOLD,
 		eventGroups: [defaultGroup], // Only user groups, no holidays
-		holidays: holidaysCalendar, // Separate holidays data
+		holidayOverlays: [] as string[],
+		customHolidays: [] as CustomHolidays[],
 		selectedGroupId: defaultGroup.id,
+		history: createHistory<HistorySnapshot>(),
+	};
+};
+
+const takeHistorySnapshot = (state: HistorySnapshot): HistorySnapshot => ({
+	eventGroups: state.eventGroups,
+	selectedGroupId: state.selectedGroupId,
+	customHolidays: state.customHolidays,
+});
+
+// Nesting depth of batchHistory calls; changes inside a batch are recorded as one step
+let historyBatchDepth = 0;
+
+// Labels for history entries, e.g. "Deleted calendar 'Team Offsite'"
+const groupName = (snapshot: HistorySnapshot, groupId: string): string =>
+	snapshot.eventGroups.find((g) => g.id === groupId)?.name ?? "calendar";
+
+const describeDates = (start: string, end: string): string => {
+	const startLabel = format(parseISO(start), "MMM d");
+	return start === end ? startLabel : `${startLabel} – ${format(parseISO(end), "MMM d")}`;
+};
+
+// Ranges are matched by id; a recurring series and a one-off range can share their first dates
+const isSameRange = (a: DateRange, b: DateRange): boolean =>
+	a.id && b.id
+		? a.id === b.id
+		: a.start === b.start && a.end === b.end && !a.recurrence === !b.recurrence;
+
+const withRangeId = (range: DateRange): DateRange => (range.id ? range : { ...range, id: nanoid() });
+
+const describePTOEntry = (snapshot: HistorySnapshot, groupId: string, entryId: string): string => {
+	const entry = snapshot.eventGroups
+		.find((g) => g.id === groupId)
+		?.ptoEntries?.find((e) => e.id === entryId);
+	return entry ? describeDates(entry.startDate, entry.endDate) : "unknown date";
+};
+
+// PTO entries can't share days, except with an entry over the same dates that they replace
+const findOverlappingEntry = (entries: PTOEntry[], entry: PTOEntry): PTOEntry | undefined =>
+	entries.find((existing) =>
+		!(entry.id && existing.id === entry.id) &&
+		!(existing.startDate === entry.startDate && existing.endDate === entry.endDate) &&
+		existing.startDate <= entry.endDate &&
+		existing.endDate >= entry.startDate
+	);
+
+// Entries are stored without days off in them; pieces split off an entry get their own ids
+const splitPTOEntry = (entry: PTOEntry, ptoConfig?: PTOConfig, removedDate?: string): PTOEntry[] =>
+	PTOCalendarUtils.splitAtDaysOff(entry, ptoConfig, removedDate)
+		.map((piece) => (piece.id ? piece : { ...piece, id: nanoid() }));
+
+// Holiday lookups outside the store (PTO hours, tooltips) read imported holidays from constants/holidays
+const applyCustomHolidays = (customHolidays: CustomHolidays[]) => {
+	setCustomHolidays(customHolidays);
+	holidayCalendars.clear();
+};
+
+// Recalculate PTO entry hours, e.g. after the holidays they skip have changed
+const recostPTOEntries = (groups: EventGroup[]): EventGroup[] =>
+	groups.map((group) =>
+		group.ptoEntries
+			? {
+					...group,
+					ptoEntries: group.ptoEntries.map((entry) => ({
+						...entry,
+						totalHours: PTOCalendarUtils.calculateTotalPTOHours(
+							entry.startDate,
+							entry.endDate,
+							entry.hoursPerDay,
+							group.ptoConfig
+						),
+					})),
+			  }
+			: group
+	);
+
+// Turn decoded persisted data into store state
+const applyPersistedState = ({ viewOnly, ...persisted }: PersistedState) => {
+	const customHolidays = persisted.customHolidays ?? [];
+	// Entries were costed while decoding, before the imported holidays were in use
+	applyCustomHolidays(customHolidays);
+	const eventGroups =
+		persisted.eventGroups.length > 0
+			? recostPTOEntries(persisted.eventGroups)
+			: [createDefaultEventGroup()];
+	return {
+		...persisted,
+		eventGroups,
+		holidayOverlays: persisted.holidayOverlays ?? [],
+		customHolidays,
+		coverageThreshold: persisted.coverageThreshold ?? DEFAULT_COVERAGE_THRESHOLD,
+		isViewOnly: viewOnly ?? false,
+		selectedGroupId: eventGroups[0]?.id ?? null,
+		history: createHistory<HistorySnapshot>(), // Undo never crosses a load
+	};
+};
+
+// One single-day range per date, the shape PTO entries are mirrored into
+const toDayRanges = (dates: string[]): DateRange[] =>
+	dates.map((date) => ({ id: nanoid(), start: date, end: date }));
+
+// Hours per day must follow the policy's increment and fit in the longest scheduled day
+const isValidEntryHours = (hours: number, config?: PTOConfig): boolean =>
+	PTOCalendarUtils.isValidPTOHours(
+		hours,
+		getHourIncrement(getPTOPolicy(config)),
+		Math.max(PTOCalendarUtils.getWorkdayHours(config), ...PTOCalendarUtils.getWorkSchedule(config))
+	);
+
+// PTO dated in a closed plan year stays as it was frozen
+const isInClosedYear = (group: EventGroup | undefined, date: string): boolean =>
+	getClosedYear(group?.closedYears, parseISO(date).getFullYear()) !== null;
+
+// Changes one plan year's settings; the first plan year keeps them in the base config
+const withYearSettings = (config: PTOConfig, year: number, settings: PTOYearSettings): PTOConfig => {
+	const firstYear = config.firstYear ?? year;
+	if (year === firstYear) {
+		return {
+			...config,
+			firstYear,
+			yearsOfService: settings.yearsOfService ?? config.yearsOfService,
+			rolloverHours: settings.rolloverHours ?? config.rolloverHours,
+		};
+	}
+
+	// Settings passed as undefined go back to following on from the year before
+	const yearSettings: PTOYearSettings = { ...config.years?.[year], ...settings };
+	(Object.keys(yearSettings) as (keyof PTOYearSettings)[]).forEach(
+		(key) => yearSettings[key] === undefined && delete yearSettings[key]
+	);
+	const years = { ...config.years };
+	delete years[year];
+	return {
+		...config,
+		firstYear,
+		years: Object.keys(yearSettings).length > 0 ? { ...years, [year]: yearSettings } : years,
 	};
 };
 
+const describeDecodeError = (error: unknown): string =>
+	error instanceof StateDecodeError
+		? error.message
+		: "An unexpected error occurred while reading the calendar data.";
+
 export const useStore = create<AppState>((set, get) => ({
 	...getDefaultState(),
 	showHelpModal: false,
+	loadError: null,
+	isViewOnly: false,
 	isDarkMode: localStorage.getItem("pocketcal_dark_mode") === "false" ? false : true, // Default to dark mode (Unispace design)
+	viewMode: (Object.keys(VIEW_MONTHS) as ViewMode[]).find((mode) => mode === localStorage.getItem(VIEW_MODE_KEY)) ?? "year",
+	viewDate: new Date(new Date().getFullYear(), new Date().getMonth(), 1),
+	showHeatmap: localStorage.getItem(HEATMAP_KEY) === "true",
 
 	setStartDate: (date) => {
 		const newStartDate = new Date(date.getFullYear(), 0, 1);
-		const newYear = date.getFullYear();
-		set((state) => {
-			// Only regenerate holidays if the year actually changed
-			if (state.startDate.getFullYear() !== newYear) {
-				return {
-					startDate: newStartDate,
-					holidays: createHolidaysCalendar(newYear)
-				};
-			}
-			return { startDate: newStartDate };
-		});
+		// Holiday calendars follow the year through getAllDisplayGroups
+		set({ startDate: newStartDate });
 		get().saveToLocalStorage();
 	},
 	setIncludeWeekends: (include) => {
@@ -187,14 +453,77 @@ export const useStore = create<AppState>((set, get) => ({
 		set({ showToday: show });
 		get().saveToLocalStorage();
 	},
+	setHolidayOverlays: (regionIds) => {
+		set({ holidayOverlays: regionIds });
+		get().saveToLocalStorage();
+	},
+
+	importCustomHolidays: (custom) => {
+		const before = takeHistorySnapshot(get());
+		// A new import for a region replaces its previous one
+		const customHolidays = [
+			...get().customHolidays.filter((c) => c.regionId !== custom.regionId),
+			custom,
+		];
+		applyCustomHolidays(customHolidays);
+		set((state) => ({ customHolidays, eventGroups: recostPTOEntries(state.eventGroups) }));
+		get().pushHistory(`Imported ${getHolidayRegion(custom.regionId).name} holidays from ${custom.name}`, before);
+		get().saveToLocalStorage();
+	},
+
+	removeCustomHolidays: (regionId) => {
+		const before = takeHistorySnapshot(get());
+		const customHolidays = get().customHolidays.filter((c) => c.regionId !== regionId);
+		if (customHolidays.length === before.customHolidays.length) return;
+		applyCustomHolidays(customHolidays);
+		set((state) => ({ customHolidays, eventGroups: recostPTOEntries(state.eventGroups) }));
+		get().pushHistory(`Removed imported ${getHolidayRegion(regionId).name} holidays`, before);
+		get().saveToLocalStorage();
+	},
 	setShowHelpModal: (show) => set({ showHelpModal: show }),
 	setIsDarkMode: (isDark) => {
-		localStorage.setItem("pocketcal_dark_mode", isDark.toString());
+		if (!get().isViewOnly) localStorage.setItem("pocketcal_dark_mode", isDark.toString());
 		set({ isDarkMode: isDark });
 	},
+	setViewMode: (mode) => {
+		if (!get().isViewOnly) localStorage.setItem(VIEW_MODE_KEY, mode);
+		const state = get();
+		const today = new Date();
+		// Rolling views start from this month; others open on today when it is in the plan year
+		const anchor = mode === "rolling" || today.getFullYear() === state.startDate.getFullYear()
+			? today
+			: getViewStart(state.viewMode, state.startDate, state.viewDate);
+		set({
+			viewMode: mode,
+			viewDate: new Date(anchor.getFullYear(), anchor.getMonth(), 1),
+			startDate: new Date(anchor.getFullYear(), 0, 1),
+		});
+		get().saveToLocalStorage();
+	},
+	shiftView: (direction) => {
+		const { viewMode, startDate, viewDate } = get();
+		const viewStart = addMonths(getViewStart(viewMode, startDate, viewDate), direction * VIEW_STEP_MONTHS[viewMode]);
+		// Moving into another year changes the plan year with it
+		set({ viewDate: viewStart, startDate: new Date(viewStart.getFullYear(), 0, 1) });
+		get().saveToLocalStorage();
+	},
+	setShowHeatmap: (show) => {
+		if (!get().isViewOnly) localStorage.setItem(HEATMAP_KEY, show.toString());
+		set({ showHeatmap: show });
+	},
+	setCoverageThreshold: (threshold) => {
+		if (!Number.isInteger(threshold) || threshold < 1) {
+			console.warn("Coverage threshold must be a whole number of at least 1:", threshold);
+			return;
+		}
+		set({ coverageThreshold: threshold });
+		get().saveToLocalStorage();
+	},
+	clearLoadError: () => set({ loadError: null }),
 
 	addEventGroup: (name) => {
 		let newGroup: EventGroup | null = null;
+		const before = takeHistorySnapshot(get());
 		set((state) => {
 			if (state.eventGroups.length >= MAX_GROUPS) {
 				return state;
@@ -220,6 +549,7 @@ export const useStore = create<AppState>((set, get) => ({
 				eventGroups: [...state.eventGroups, newGroup],
 			};
 		});
+		get().pushHistory(`Added calendar '${name}'`, before);
 		get().saveToLocalStorage();
 		return (
 			newGroup || {
@@ -232,47 +562,77 @@ export const useStore = create<AppState>((set, get) => ({
 	},
 
 	updateEventGroup: (id, name) => {
+		const before = takeHistorySnapshot(get());
 		set((state) => ({
 			eventGroups: state.eventGroups.map((group) =>
 				group.id === id ? { ...group, name } : group
 			),
 		}));
+		get().pushHistory(`Renamed calendar '${groupName(before, id)}' to '${name}'`, before);
 		get().saveToLocalStorage();
 	},
 
 	deleteEventGroup: (id) => {
+		const before = takeHistorySnapshot(get());
 		set((state) => ({
 			eventGroups: state.eventGroups.filter((group) => group.id !== id),
 			selectedGroupId:
 				state.selectedGroupId === id ? null : state.selectedGroupId,
 		}));
+		get().pushHistory(`Deleted calendar '${groupName(before, id)}'`, before);
 		get().saveToLocalStorage();
 	},
 
 	selectEventGroup: (id) => set({ selectedGroupId: id }),
 
 	addDateRange: (groupId, range) => {
+		const before = takeHistorySnapshot(get());
 		set((state) => {
 			// Prevent adding to holidays (safety check)
-			if (groupId === state.holidays.id) {
+			if (isHolidaysGroupId(state, groupId)) {
 				console.warn('Cannot add date range to holidays calendar');
 				return state;
 			}
 			return {
 				eventGroups: state.eventGroups.map((group) =>
 					group.id === groupId
-						? { ...group, ranges: [...group.ranges, range] }
+						? { ...group, ranges: [...group.ranges, withRangeId(range)] }
 						: group
 				),
 			};
 		});
+		get().pushHistory(`Added ${describeDates(range.start, range.end)} to '${groupName(before, groupId)}'`, before);
+		get().saveToLocalStorage();
+	},
+
+	addDateRanges: (groupId, ranges) => {
+		const before = takeHistorySnapshot(get());
+		set((state) => {
+			// Prevent adding to holidays (safety check)
+			if (isHolidaysGroupId(state, groupId)) {
+				console.warn('Cannot add date ranges to holidays calendar');
+				return state;
+			}
+			if (ranges.length === 0) {
+				return state;
+			}
+			return {
+				eventGroups: state.eventGroups.map((group) =>
+					group.id === groupId
+						? { ...group, ranges: [...group.ranges, ...ranges.map(withRangeId)] }
+						: group
+				),
+			};
+		});
+		get().pushHistory(`Added ${ranges.length} ranges to '${groupName(before, groupId)}'`, before);
 		get().saveToLocalStorage();
 	},
 
 	updateDateRange: (groupId, oldRange, newRange) => {
+		const before = takeHistorySnapshot(get());
 		set((state) => {
 			// Prevent updating holidays (safety check)
-			if (groupId === state.holidays.id) {
+			if (isHolidaysGroupId(state, groupId)) {
 				console.warn('Cannot update date range in holidays calendar');
 				return state;
 			}
@@ -281,23 +641,24 @@ export const useStore = create<AppState>((set, get) => ({
 					group.id === groupId
 						? {
 								...group,
+								// The range keeps its id, so its exported event is updated rather than duplicated
 								ranges: group.ranges.map((r) =>
-									r.start === oldRange.start && r.end === oldRange.end
-										? newRange
-										: r
+									isSameRange(r, oldRange) ? withRangeId({ ...newRange, id: r.id }) : r
 								),
 						  }
 						: group
 				),
 			};
 		});
+		get().pushHistory(`Changed ${describeDates(oldRange.start, oldRange.end)} to ${describeDates(newRange.start, newRange.end)} in '${groupName(before, groupId)}'`, before);
 		get().saveToLocalStorage();
 	},
 
 	deleteDateRange: (groupId, rangeToDelete) => {
+		const before = takeHistorySnapshot(get());
 		set((state) => {
 			// Prevent deleting from holidays (safety check)
-			if (groupId === state.holidays.id) {
+			if (isHolidaysGroupId(state, groupId)) {
 				console.warn('Cannot delete date range from holidays calendar');
 				return state;
 			}
@@ -306,168 +667,110 @@ export const useStore = create<AppState>((set, get) => ({
 					group.id === groupId
 						? {
 								...group,
-								ranges: group.ranges.filter(
-									(r) =>
-										!(
-											r.start === rangeToDelete.start &&
-											r.end === rangeToDelete.end
-										)
-								),
+								ranges: group.ranges.filter((r) => !isSameRange(r, rangeToDelete)),
 						  }
 						: group
 				),
 			};
 		});
+		get().pushHistory(`Removed ${describeDates(rangeToDelete.start, rangeToDelete.end)} from '${groupName(before, groupId)}'`, before);
 		get().saveToLocalStorage();
 	},
 
-	getAppStateFromUrl: () => {
+	updateRangeOccurrence: (groupId, series, occurrenceStart, newRange) => {
+		const before = takeHistorySnapshot(get());
+		set((state) => {
+			if (isHolidaysGroupId(state, groupId)) {
+				console.warn('Cannot update date range in holidays calendar');
+				return state;
+			}
+			if (!series.recurrence) {
+				console.warn('Cannot edit an occurrence of a range that does not repeat');
+				return state;
+			}
+			// The occurrence is skipped by the series and, when edited, kept as a one-off range
+			const exceptions = [...(series.recurrence.exceptions || []), occurrenceStart].sort();
+			const updatedSeries: DateRange = { ...series, recurrence: { ...series.recurrence, exceptions } };
+			return {
+				eventGroups: state.eventGroups.map((group) =>
+					group.id === groupId
+						? {
+								...group,
+								ranges: [
+									...group.ranges.map((r) => (isSameRange(r, series) ? updatedSeries : r)),
+									...(newRange ? [withRangeId(newRange)] : []),
+								],
+						  }
+						: group
+				),
+			};
+		});
+		const occurrence = format(parseISO(occurrenceStart), "MMM d");
+		get().pushHistory(
+			newRange
+				? `Changed the ${occurrence} occurrence to ${describeDates(newRange.start, newRange.end)} in '${groupName(before, groupId)}'`
+				: `Removed the ${occurrence} occurrence from '${groupName(before, groupId)}'`,
+			before
+		);
+		get().saveToLocalStorage();
+	},
+
+	undo: () => {
+		const result = undoHistory(get().history, takeHistorySnapshot(get()));
+		if (!result) return;
+		set({ ...result.entry.snapshot, history: result.history });
+		get().saveToLocalStorage();
+	},
+
+	redo: () => {
+		const result = redoHistory(get().history, takeHistorySnapshot(get()));
+		if (!result) return;
+		set({ ...result.entry.snapshot, history: result.history });
+		get().saveToLocalStorage();
+	},
+
+	pushHistory: (label, before) => {
+		// Skip no-op actions and steps inside a batch (the batch records itself)
+		if (
+			historyBatchDepth > 0 ||
+			(get().eventGroups === before.eventGroups && get().customHolidays === before.customHolidays)
+		) return;
+		set((state) => ({ history: recordHistory(state.history, label, before) }));
+	},
+
+	batchHistory: (label, mutate) => {
+		const before = takeHistorySnapshot(get());
+		historyBatchDepth++;
 		try {
-			const hash = window.location.hash.substring(1);
-			if (hash) {
-				let decodedState;
-				try {
-					const decompressed = LZString.decompressFromEncodedURIComponent(hash);
-					if (decompressed) {
-						decodedState = JSON.parse(decompressed);
-					} else {
-						decodedState = JSON.parse(atob(hash));
-					}
-				} catch {
-					decodedState = JSON.parse(atob(hash));
-				}
+			mutate();
+		} finally {
+			historyBatchDepth--;
+		}
+		get().pushHistory(label, before);
+	},
 
-				if (decodedState.startDate || decodedState.s) {
-					if (decodedState.s) {
-						const parsedDate = parseISO(decodedState.s);
-						const savedYear = parsedDate.getFullYear();
-						const currentYear = new Date().getFullYear();
-						// Use current year if saved year is in the past
-						const yearToUse = savedYear < currentYear ? currentYear : savedYear;
-						const startDate = new Date(yearToUse, 0, 1);
-						const usedColorIndices = new Set<number>();
-
-						const validGroups = (decodedState.g || []).filter((g: any) => {
-							return g.c !== undefined && g.c >= 0 && g.c < GROUP_COLORS.length;
-						});
-
-						validGroups.forEach((g: any) => {
-							usedColorIndices.add(g.c);
-						});
-
-						const eventGroups = (decodedState.g || []).map(
-							(g: any, index: number) => {
-								let colorIndex = g.c;
-
-								// If no color index, invalid, or already used
-								if (
-									colorIndex === undefined ||
-									colorIndex < 0 ||
-									colorIndex >= GROUP_COLORS.length
-								) {
-									for (let i = 0; i < GROUP_COLORS.length; i++) {
-										if (!usedColorIndices.has(i)) {
-											colorIndex = i;
-											usedColorIndices.add(i);
-											break;
-										}
-									}
-									// Fallback if all colors are used
-									if (colorIndex === undefined) {
-										colorIndex = index % GROUP_COLORS.length;
-									}
-								}
-
-								// Handle per-group PTO config restoration
-								const ptoConfig = g.pto ? {
-									yearsOfService: g.pto.y || 2,
-									rolloverHours: g.pto.r || 0,
-									isEnabled: g.pto.e !== undefined ? g.pto.e : false
-								} : undefined;
-
-								// Handle per-group PTO entries restoration
-								const ptoEntries = g.ptoEntries ? 
-									g.ptoEntries.map((entry: any) => ({
-										id: `${entry.sd}-${entry.ed}-restored`,
-										startDate: formatISO(addDays(startDate, entry.sd), { representation: "date" }),
-										endDate: formatISO(addDays(startDate, entry.ed), { representation: "date" }),
-										hoursPerDay: entry.hpd,
-										totalHours: PTOCalendarUtils.calculateTotalPTOHours(
-											formatISO(addDays(startDate, entry.sd), { representation: "date" }),
-											formatISO(addDays(startDate, entry.ed), { representation: "date" }),
-											entry.hpd
-										),
-										name: entry.n
-									})) : undefined;
-
-								return {
-									id: nanoid(),
-									name: g.n || "My PTO",
-									color: GROUP_COLORS[colorIndex].hex,
-									ranges: (g.r || []).map((r: any) => ({
-										start: formatISO(addDays(startDate, r[0]), {
-											representation: "date",
-										}),
-										end: formatISO(addDays(startDate, r[1]), {
-											representation: "date",
-										}),
-									})),
-									ptoConfig,
-									ptoEntries
-								};
-							}
-						);
-
-						set({
-							startDate,
-							includeWeekends: decodedState.w ?? true,
-							showToday: decodedState.t ?? true,
-							eventGroups:
-								eventGroups.length > 0
-									? eventGroups
-									: [createDefaultEventGroup()],
-							selectedGroupId: eventGroups[0]?.id ?? null,
-							holidays: createHolidaysCalendar(yearToUse), // Update holidays to match the year
-						});
-					} else {
-						const eventGroups = decodedState.eventGroups ?? [
-							createDefaultEventGroup(),
-						];
-						set({
-							startDate: (() => {
-							const savedYear = parseISO(decodedState.startDate).getFullYear();
-							const currentYear = new Date().getFullYear();
-							const yearToUse = savedYear < currentYear ? currentYear : savedYear;
-							return new Date(yearToUse, 0, 1);
-						})(),
-						holidays: (() => {
-							const savedYear = parseISO(decodedState.startDate).getFullYear();
-							const currentYear = new Date().getFullYear();
-							const yearToUse = savedYear < currentYear ? currentYear : savedYear;
-							return createHolidaysCalendar(yearToUse);
-						})(),
-							includeWeekends: decodedState.includeWeekends ?? true,
-							showToday: decodedState.showToday ?? true,
-							eventGroups,
-							selectedGroupId: eventGroups[0]?.id ?? null,
-						});
-					}
-				} else {
-					// If no valid state in hash, use default
-					set(getDefaultState());
-				}
-			} else {
-				// If no hash, set to default state with the default group
-				set(getDefaultState());
-			}
+	getAppStateFromUrl: () => {
+		const hash = window.location.hash.substring(1);
+		if (!hash) {
+			// If no hash, set to default state with the default group
+			set(getDefaultState());
+			return;
+		}
+
+		try {
+			set(applyPersistedState(decodeState(hash)));
 		} catch (error) {
 			console.error("Failed to parse state from URL:", error);
-			set(getDefaultState());
+			set({
+				...getDefaultState(),
+				loadError: `The shared link could not be opened. ${describeDecodeError(error)}`,
+			});
 		}
 	},
 
 	// Per-Group PTO Actions
 	setPTOConfig: (groupId, config) => {
+		const before = takeHistorySnapshot(get());
 		set((state) => {
 			const group = state.eventGroups.find((g) => g.id === groupId);
 
@@ -478,6 +781,24 @@ export const useStore = create<AppState>((set, get) => ({
 			const willBeEnabled = config.isEnabled !== undefined ? config.isEnabled : wasEnabled;
 			const isEnablingPTO = !wasEnabled && willBeEnabled;
 
+			const ptoConfig: PTOConfig = {
+				yearsOfService: config.yearsOfService ?? group.ptoConfig?.yearsOfService ?? 2,
+				rolloverHours: config.rolloverHours ?? group.ptoConfig?.rolloverHours ?? 0,
+				isEnabled: willBeEnabled,
+				// Passing policy, accrual, work hours or holiday region as undefined explicitly resets to the default
+				policy: "policy" in config ? config.policy : group.ptoConfig?.policy,
+				accrual: "accrual" in config ? config.accrual : group.ptoConfig?.accrual,
+				leaveRolloverHours: config.leaveRolloverHours ?? group.ptoConfig?.leaveRolloverHours,
+				workdayHours: "workdayHours" in config ? config.workdayHours : group.ptoConfig?.workdayHours,
+				workSchedule: "workSchedule" in config ? config.workSchedule : group.ptoConfig?.workSchedule,
+				holidayRegion: "holidayRegion" in config ? config.holidayRegion : group.ptoConfig?.holidayRegion,
+				// Years of service and rollover describe the year shown when PTO was first set up
+				firstYear: config.firstYear ?? group.ptoConfig?.firstYear ?? state.startDate.getFullYear(),
+				years: "years" in config ? config.years : group.ptoConfig?.years,
+				balanceFloorHours: config.balanceFloorHours ?? group.ptoConfig?.balanceFloorHours
+			};
+			const workdayHours = PTOCalendarUtils.getWorkdayHours(ptoConfig);
+
 			// Convert existing ranges to PTO entries if enabling PTO
 			let newPTOEntries = group.ptoEntries || [];
 			let newRanges = group.ranges;
@@ -488,7 +809,13 @@ export const useStore = create<AppState>((set, get) => ({
 				// Group consecutive single-day ranges into multi-day ranges
 				// This helps convert ranges that were created as individual days
 				const consolidatedRanges: DateRange[] = [];
-				const sortedRanges = [...group.ranges].sort((a, b) =>
+				// Recurring ranges become PTO for their occurrences in the displayed year
+				const calendarDates = getCalendarDates(state.startDate);
+				const windowStart = formatISO(calendarDates[0], { representation: "date" });
+				const windowEnd = formatISO(calendarDates[calendarDates.length - 1], { representation: "date" });
+				const sortedRanges = group.ranges.flatMap((range) =>
+					range.recurrence ? getRangeOccurrences(range, windowStart, windowEnd) : [range]
+				).sort((a, b) =>
 					parseISO(a.start).getTime() - parseISO(b.start).getTime()
 				);
 
@@ -523,14 +850,15 @@ export const useStore = create<AppState>((set, get) => ({
 					const totalHours = PTOCalendarUtils.calculateTotalPTOHours(
 						range.start,
 						range.end,
-						8 // Default to 8 hours per day (full day)
+						workdayHours, // Default to a full day
+						ptoConfig
 					);
 
 					return {
-						id: `${range.start}-${range.end}-converted-${Date.now()}`,
+						id: nanoid(),
 						startDate: range.start,
 						endDate: range.end,
-						hoursPerDay: 8,
+						hoursPerDay: workdayHours,
 						totalHours,
 					};
 				});
@@ -539,22 +867,11 @@ export const useStore = create<AppState>((set, get) => ({
 				const validEntries = convertedEntries.filter(entry => entry.totalHours > 0);
 				newPTOEntries = validEntries;
 
-				// Create new individual day ranges for each weekday in the PTO entries
+				// Create new individual day ranges for each scheduled workday in the PTO entries
 				// This matches the format used by addPTOEntry
 				// Exclude holidays so they remain visible
 				newRanges = validEntries.flatMap(entry =>
-					eachDayOfInterval({
-						start: parseISO(entry.startDate),
-						end: parseISO(entry.endDate)
-					})
-					.filter(date => {
-						const dateStr = formatISO(date, { representation: "date" });
-						return !isWeekend(date) && !isHolidayFromISODate(dateStr);
-					})
-					.map(date => ({
-						start: formatISO(date, { representation: "date" }),
-						end: formatISO(date, { representation: "date" })
-					}))
+					toDayRanges(PTOCalendarUtils.getChargeableDates(entry.startDate, entry.endDate, ptoConfig))
 				);
 
 				console.log(`[PTO] Converted to ${newPTOEntries.length} PTO entries (${newPTOEntries.reduce((sum, e) => sum + e.totalHours, 0)} total hours)`);
@@ -565,44 +882,136 @@ export const useStore = create<AppState>((set, get) => ({
 					g.id === groupId
 						? {
 							...g,
-							ptoConfig: {
-								yearsOfService: config.yearsOfService ?? g.ptoConfig?.yearsOfService ?? 2,
-								rolloverHours: config.rolloverHours ?? g.ptoConfig?.rolloverHours ?? 0,
-								isEnabled: willBeEnabled
-							},
-							// Apply converted PTO entries and regenerated ranges
-							ptoEntries: isEnablingPTO ? newPTOEntries : g.ptoEntries,
+							ptoConfig,
+							// Apply converted PTO entries and regenerated ranges; existing entries
+							// are re-costed in case the work schedule changed
+							ptoEntries: isEnablingPTO
+								? newPTOEntries
+								: g.ptoEntries?.map((entry) => ({
+									...entry,
+									totalHours: PTOCalendarUtils.calculateTotalPTOHours(
+										entry.startDate,
+										entry.endDate,
+										entry.hoursPerDay,
+										ptoConfig
+									)
+								})),
 							ranges: isEnablingPTO ? newRanges : g.ranges
 						}
 						: g
 				),
 			};
 		});
+		get().pushHistory(`Changed PTO settings for '${groupName(before, groupId)}'`, before);
+		get().saveToLocalStorage();
+	},
+
+	setPTOYearSettings: (groupId, year, settings) => {
+		const group = get().eventGroups.find((g) => g.id === groupId);
+		if (!group?.ptoConfig) {
+			console.warn(`Cannot change plan year settings for '${groupId}' without PTO settings`);
+			return;
+		}
+
+		const before = takeHistorySnapshot(get());
+		const ptoConfig = withYearSettings(group.ptoConfig, year, settings);
+		set((state) => ({
+			eventGroups: state.eventGroups.map((g) => (g.id === groupId ? { ...g, ptoConfig } : g)),
+		}));
+		get().pushHistory(`Changed ${year} PTO settings for '${groupName(before, groupId)}'`, before);
+		get().saveToLocalStorage();
+	},
+
+	closePTOYear: (groupId, year) => {
+		const group = get().eventGroups.find((g) => g.id === groupId);
+		if (!group?.ptoConfig?.isEnabled) {
+			console.warn(`Cannot close ${year} for '${groupId}' without PTO enabled`);
+			return;
+		}
+		if (getClosedYear(group.closedYears, year)) {
+			console.warn(`${year} is already closed for '${group.name}'`);
+			return;
+		}
+
+		const before = takeHistorySnapshot(get());
+		const entries = group.ptoEntries || [];
+		// A config without plan years describes the year being closed
+		const config = { ...group.ptoConfig, firstYear: group.ptoConfig.firstYear ?? year };
+		const closedYear = closePTOYear(entries, getPTOConfigForYear(config, entries, year), year);
+		const ptoConfig = withYearSettings(config, year + 1, { rolloverHours: closedYear.carriedOverHours });
+
+		set((state) => ({
+			eventGroups: state.eventGroups.map((g) =>
+				g.id === groupId
+					? {
+						...g,
+						ptoConfig,
+						closedYears: [...(g.closedYears || []), closedYear].sort((a, b) => a.year - b.year),
+					}
+					: g
+			),
+		}));
+		get().pushHistory(`Closed ${year} for '${groupName(before, groupId)}'`, before);
+		get().saveToLocalStorage();
+	},
+
+	reopenPTOYear: (groupId, year) => {
+		const group = get().eventGroups.find((g) => g.id === groupId);
+		if (!group?.ptoConfig || !getClosedYear(group.closedYears, year)) {
+			console.warn(`${year} is not closed for '${groupId}'`);
+			return;
+		}
+
+		const before = takeHistorySnapshot(get());
+		// The next year goes back to carrying over the live closing balance
+		const ptoConfig = withYearSettings(group.ptoConfig, year + 1, { rolloverHours: undefined });
+		set((state) => ({
+			eventGroups: state.eventGroups.map((g) =>
+				g.id === groupId
+					? { ...g, ptoConfig, closedYears: (g.closedYears || []).filter((closed) => closed.year !== year) }
+					: g
+			),
+		}));
+		get().pushHistory(`Reopened ${year} for '${groupName(before, groupId)}'`, before);
 		get().saveToLocalStorage();
 	},
 
 	addPTOEntry: (groupId, entry) => {
+		const before = takeHistorySnapshot(get());
 		set((state) => {
+			const targetGroup = state.eventGroups.find((group) => group.id === groupId);
+			const ptoConfig = targetGroup?.ptoConfig;
+			if (isInClosedYear(targetGroup, entry.startDate)) {
+				console.warn(`Cannot add PTO to a closed year: ${entry.startDate}`);
+				return state;
+			}
 			// Check if entry is valid (no holidays, valid hours)
-			if (isHolidayFromISODate(entry.startDate) || isHolidayFromISODate(entry.endDate)) {
+			const regionId = ptoConfig?.holidayRegion;
+			if (isHolidayFromISODate(entry.startDate, regionId) || isHolidayFromISODate(entry.endDate, regionId)) {
 				console.warn(`Cannot add PTO entry on holiday dates: ${entry.startDate} - ${entry.endDate}`);
 				return state;
 			}
-			if (!PTOCalendarUtils.isValidPTOHours(entry.hoursPerDay)) {
+			if (!isValidEntryHours(entry.hoursPerDay, ptoConfig)) {
 				console.warn(`Invalid PTO hours per day: ${entry.hoursPerDay}`);
 				return state;
 			}
+			const overlapping = findOverlappingEntry(targetGroup?.ptoEntries || [], { ...entry, id: undefined });
+			if (overlapping) {
+				console.warn(`PTO on ${entry.startDate} - ${entry.endDate} overlaps PTO on ${overlapping.startDate} - ${overlapping.endDate}`);
+				return state;
+			}
 
 			// Always recalculate totalHours to ensure accuracy
 			const totalHours = PTOCalendarUtils.calculateTotalPTOHours(
 				entry.startDate,
 				entry.endDate,
-				entry.hoursPerDay
+				entry.hoursPerDay,
+				ptoConfig
 			);
 
-			// Don't create entries with 0 hours (weekend-only spans)
+			// Don't create entries with 0 hours (spans with no scheduled workdays)
 			if (totalHours === 0) {
-				console.warn('[PTO] Skipping entry with 0 hours (weekend-only span):', {
+				console.warn('[PTO] Skipping entry with 0 hours (no scheduled workdays):', {
 					startDate: entry.startDate,
 					endDate: entry.endDate,
 					hoursPerDay: entry.hoursPerDay
@@ -612,47 +1021,37 @@ export const useStore = create<AppState>((set, get) => ({
 
 			// Removed console.log for performance
 
+			// An entry booked over the same dates is replaced, keeping its id so exported events stay linked
+			const replaced = (targetGroup?.ptoEntries || []).find(e => e.startDate === entry.startDate && e.endDate === entry.endDate);
+
 			return {
 				eventGroups: state.eventGroups.map((group) =>
 					group.id === groupId
 						? {
 							...group,
-							// Add PTO entry with recalculated totalHours
+							// Add PTO entry with recalculated totalHours, split where it spans days off
 							ptoEntries: [
-								...(group.ptoEntries || []).filter(e => !(e.startDate === entry.startDate && e.endDate === entry.endDate)),
-								{
-									...entry,
-									id: `${entry.startDate}-${entry.endDate}-${Date.now()}`,
-									totalHours
-								}
+								...(group.ptoEntries || []).filter(e => e !== replaced),
+								...splitPTOEntry({ ...entry, id: replaced?.id ?? nanoid() }, ptoConfig)
 							],
-							// Also add as regular event ranges for visual consistency (weekdays only)
+							// Also add as regular event ranges for visual consistency (scheduled workdays only)
 							// Exclude holidays so they remain visible
 							ranges: [
 								...group.ranges.filter(r => !(r.start === entry.startDate && r.end === entry.endDate)),
-								// Create individual ranges for each weekday in the PTO entry
-								...eachDayOfInterval({
-									start: parseISO(entry.startDate),
-									end: parseISO(entry.endDate)
-								})
-								.filter(date => {
-									const dateStr = formatISO(date, { representation: "date" });
-									return !isWeekend(date) && !isHolidayFromISODate(dateStr);
-								})
-								.map(date => ({
-									start: formatISO(date, { representation: "date" }),
-									end: formatISO(date, { representation: "date" })
-								}))
+								// Create individual ranges for each scheduled workday in the PTO entry
+								...toDayRanges(PTOCalendarUtils.getChargeableDates(entry.startDate, entry.endDate, ptoConfig))
 							]
 						}
 						: group
 				),
 			};
 		});
+		get().pushHistory(`Added ${entry.hoursPerDay}h PTO on ${describeDates(entry.startDate, entry.endDate)}`, before);
 		get().saveToLocalStorage();
 	},
 
 	updatePTOEntry: (groupId, entryId, updates) => {
+		const before = takeHistorySnapshot(get());
 		set((state) => {
 			// Find the existing PTO entry to get old dates for range removal
 			const group = state.eventGroups.find(g => g.id === groupId);
@@ -660,15 +1059,22 @@ export const useStore = create<AppState>((set, get) => ({
 			
 			if (!existingEntry) return state;
 
-			const updatedEntry = { ...existingEntry, ...updates };
+			const updatedEntry = { ...existingEntry, ...updates, id: entryId };
+			if (isInClosedYear(group, existingEntry.startDate) || isInClosedYear(group, updatedEntry.startDate)) {
+				console.warn(`Cannot change PTO in a closed year: ${existingEntry.startDate}`);
+				return state;
+			}
+			const overlapping = findOverlappingEntry(group?.ptoEntries || [], updatedEntry);
+			if (overlapping) {
+				console.warn(`PTO on ${updatedEntry.startDate} - ${updatedEntry.endDate} overlaps PTO on ${overlapping.startDate} - ${overlapping.endDate}`);
+				return state;
+			}
 
-			// Recalculate totalHours if dates or hoursPerDay changed
-			if (updates.startDate || updates.endDate || updates.hoursPerDay) {
-				updatedEntry.totalHours = PTOCalendarUtils.calculateTotalPTOHours(
-					updatedEntry.startDate,
-					updatedEntry.endDate,
-					updatedEntry.hoursPerDay
-				);
+			// Split where the entry now spans days off; each piece has its totalHours recalculated
+			const updatedEntries = splitPTOEntry(updatedEntry, group?.ptoConfig);
+			if (updatedEntries.length === 0) {
+				console.warn(`No scheduled workdays in ${updatedEntry.startDate} - ${updatedEntry.endDate}`);
+				return state;
 			}
 
 			return {
@@ -677,19 +1083,16 @@ export const useStore = create<AppState>((set, get) => ({
 						? {
 							...group,
 							// Update PTO entry
-							ptoEntries: (group.ptoEntries || []).map((entry) =>
-								entry.id === entryId ? updatedEntry : entry
+							ptoEntries: (group.ptoEntries || []).flatMap((entry) =>
+								entry.id === entryId ? updatedEntries : [entry]
 							),
-							// Update corresponding calendar ranges (weekdays only)
+							// Update corresponding calendar ranges (scheduled workdays only)
 							ranges: [
 								// Remove old ranges for all days in old entry
 								...group.ranges.filter(r => {
 									const oldDays = eachDayOfInterval({
 										start: parseISO(existingEntry.startDate),
 										end: parseISO(existingEntry.endDate)
-									}).filter(date => {
-										const dateStr = formatISO(date, { representation: "date" });
-										return !isWeekend(date) && !isHolidayFromISODate(dateStr);
 									});
 
 									return !oldDays.some(date => {
@@ -697,34 +1100,29 @@ export const useStore = create<AppState>((set, get) => ({
 										return r.start === dayStr && r.end === dayStr;
 									});
 								}),
-								// Add new ranges for weekdays only, excluding holidays
-								...eachDayOfInterval({
-									start: parseISO(updatedEntry.startDate),
-									end: parseISO(updatedEntry.endDate)
-								})
-								.filter(date => {
-									const dateStr = formatISO(date, { representation: "date" });
-									return !isWeekend(date) && !isHolidayFromISODate(dateStr);
-								})
-								.map(date => ({
-									start: formatISO(date, { representation: "date" }),
-									end: formatISO(date, { representation: "date" })
-								}))
+								// Add new ranges for scheduled workdays only, excluding holidays
+								...toDayRanges(PTOCalendarUtils.getChargeableDates(updatedEntry.startDate, updatedEntry.endDate, group.ptoConfig))
 							]
 						}
 						: group
 				),
 			};
 		});
+		get().pushHistory(`Edited PTO on ${describePTOEntry(before, groupId, entryId)}`, before);
 		get().saveToLocalStorage();
 	},
 
 	deletePTOEntry: (groupId, entryId) => {
+		const before = takeHistorySnapshot(get());
 		set((state) => {
 			// Find the PTO entry to get its dates for removing the corresponding range
 			const group = state.eventGroups.find(g => g.id === groupId);
 			const ptoEntry = (group?.ptoEntries || []).find(entry => entry.id === entryId);
-			
+			if (ptoEntry && isInClosedYear(group, ptoEntry.startDate)) {
+				console.warn(`Cannot remove PTO from a closed year: ${ptoEntry.startDate}`);
+				return state;
+			}
+
 			return {
 				eventGroups: state.eventGroups.map((group) =>
 					group.id === groupId
@@ -732,18 +1130,15 @@ export const useStore = create<AppState>((set, get) => ({
 							...group,
 							// Remove PTO entry
 							ptoEntries: (group.ptoEntries || []).filter((entry) => entry.id !== entryId),
-							// Also remove corresponding regular event ranges (all weekdays in the PTO entry)
+							// Also remove corresponding regular event ranges (all days in the PTO entry)
 							ranges: ptoEntry
 								? group.ranges.filter(r => {
-									const ptoWeekdays = eachDayOfInterval({
+									const ptoDays = eachDayOfInterval({
 										start: parseISO(ptoEntry.startDate),
 										end: parseISO(ptoEntry.endDate)
-									}).filter(date => {
-										const dateStr = formatISO(date, { representation: "date" });
-										return !isWeekend(date) && !isHolidayFromISODate(dateStr);
 									});
 
-									return !ptoWeekdays.some(date => {
+									return !ptoDays.some(date => {
 										const dayStr = formatISO(date, { representation: "date" });
 										return r.start === dayStr && r.end === dayStr;
 									});
@@ -754,10 +1149,42 @@ export const useStore = create<AppState>((set, get) => ({
 				),
 			};
 		});
+		get().pushHistory(`Removed PTO on ${describePTOEntry(before, groupId, entryId)}`, before);
+		get().saveToLocalStorage();
+	},
+
+	removePTODay: (groupId, entryId, date) => {
+		const before = takeHistorySnapshot(get());
+		set((state) => {
+			const group = state.eventGroups.find(g => g.id === groupId);
+			const ptoEntry = (group?.ptoEntries || []).find(entry => entry.id === entryId);
+			if (!ptoEntry) return state;
+			if (isInClosedYear(group, ptoEntry.startDate)) {
+				console.warn(`Cannot remove PTO from a closed year: ${ptoEntry.startDate}`);
+				return state;
+			}
+
+			return {
+				eventGroups: state.eventGroups.map((group) =>
+					group.id === groupId
+						? {
+							...group,
+							// The rest of the entry stays booked, in pieces either side of the day
+							ptoEntries: (group.ptoEntries || []).flatMap((entry) =>
+								entry.id === entryId ? splitPTOEntry(entry, group.ptoConfig, date) : [entry]
+							),
+							ranges: group.ranges.filter(r => !(r.start === date && r.end === date))
+						}
+						: group
+				),
+			};
+		});
+		get().pushHistory(`Removed PTO on ${describeDates(date, date)}`, before);
 		get().saveToLocalStorage();
 	},
 
 	clearPTOEntries: (groupId) => {
+		const before = takeHistorySnapshot(get());
 		set((state) => ({
 			eventGroups: state.eventGroups.map((group) =>
 				group.id === groupId
@@ -770,6 +1197,7 @@ export const useStore = create<AppState>((set, get) => ({
 					: group
 			),
 		}));
+		get().pushHistory(`Cleared all PTO from '${groupName(before, groupId)}'`, before);
 		get().saveToLocalStorage();
 	},
 
@@ -784,36 +1212,48 @@ export const useStore = create<AppState>((set, get) => ({
 			};
 		}
 
-		if (isHolidayFromISODate(entry.startDate) || isHolidayFromISODate(entry.endDate)) {
+		if (isInClosedYear(group, entry.startDate)) {
+			return {
+				isValid: false,
+				warning: `${parseISO(entry.startDate).getFullYear()} is closed. Reopen it to change its PTO.`,
+			};
+		}
+		const regionId = group.ptoConfig.holidayRegion;
+		if (isHolidayFromISODate(entry.startDate, regionId) || isHolidayFromISODate(entry.endDate, regionId)) {
 			return {
 				isValid: false,
 				warning: "Cannot log PTO on company holidays",
 			};
 		}
-		if (!PTOCalendarUtils.isValidPTOHours(entry.hoursPerDay)) {
+		const overlapping = findOverlappingEntry(group.ptoEntries || [], entry);
+		if (overlapping) {
 			return {
 				isValid: false,
-				warning: "PTO hours per day must be 2, 4, or 8 hours",
+				warning: `Overlaps PTO already booked on ${describeDates(overlapping.startDate, overlapping.endDate)}`,
 			};
 		}
-
-		const totalHours = PTOCalendarUtils.calculateAnnualPTOHours(
-			group.ptoConfig.yearsOfService
-		);
-		const remainingHours = PTOCalendarUtils.calculateRemainingPTO(
-			group.ptoEntries || [],
-			totalHours,
-			group.ptoConfig.rolloverHours
-		);
-
-		if (entry.totalHours > remainingHours) {
+		if (!isValidEntryHours(entry.hoursPerDay, group.ptoConfig)) {
+			const increment = getHourIncrement(getPTOPolicy(group.ptoConfig));
+			return {
+				isValid: false,
+				warning: `PTO hours per day must be in ${increment}h steps, up to a full day`,
+			};
+		}
+		if (PTOCalendarUtils.calculateTotalPTOHours(entry.startDate, entry.endDate, entry.hoursPerDay, group.ptoConfig) === 0) {
 			return {
 				isValid: false,
-				warning: `Exceeds remaining PTO balance (${remainingHours}h available)`,
+				warning: "You aren't scheduled to work on these dates",
 			};
 		}
 
-		return { isValid: true };
+		// Simulate the running balance so PTO can't be booked before it's earned
+		const year = parseISO(entry.startDate).getFullYear();
+		return checkPTOBooking(
+			entry,
+			group.ptoEntries || [],
+			getPTOConfigForYear(group.ptoConfig, group.ptoEntries || [], year),
+			year
+		);
 	},
 
 	getPTOSummary: (groupId) => {
@@ -827,9 +1267,11 @@ export const useStore = create<AppState>((set, get) => ({
 		// Filter out any entries with 0 hours (shouldn't exist but safety check)
 		const validEntries = (group.ptoEntries || []).filter(entry => entry.totalHours > 0);
 
+		const year = state.startDate.getFullYear();
 		return PTOCalendarUtils.calculatePTOSummary(
 			validEntries,
-			group.ptoConfig
+			getPTOConfigForYear(group.ptoConfig, validEntries, year),
+			year
 		);
 	},
 
@@ -837,8 +1279,13 @@ export const useStore = create<AppState>((set, get) => ({
 	getSelectedGroupPTOConfig: () => {
 		const state = get();
 		if (!state.selectedGroupId) return null;
-		const group = state.eventGroups.find(g => g.id === state.selectedGroupId);
-		return group?.ptoConfig || null;
+		return get().getPTOConfigForYear(state.selectedGroupId, state.startDate.getFullYear());
+	},
+
+	getPTOConfigForYear: (groupId, year) => {
+		const group = get().eventGroups.find(g => g.id === groupId);
+		if (!group?.ptoConfig) return null;
+		return getPTOConfigForYear(group.ptoConfig, group.ptoEntries || [], year);
 	},
 
 	getSelectedGroupPTOEntries: () => {
@@ -863,39 +1310,22 @@ export const useStore = create<AppState>((set, get) => ({
 					return group;
 				}
 
-				// Filter out PTO entries that fall on weekends
-				const validPTOEntries = group.ptoEntries.filter((entry) => {
-					const startDate = parseISO(entry.startDate);
-					const endDate = parseISO(entry.endDate);
-					
-					// Check if any day in the entry range is a weekend
-					const dates = eachDayOfInterval({ start: startDate, end: endDate });
-					const hasWeekendDays = dates.some(date => isWeekend(date));
-					
-					if (hasWeekendDays) {
-						console.log(`Removing PTO entry with weekend days: ${entry.startDate} - ${entry.endDate}`);
-						hasChanges = true;
-						return false; // Remove this entry
+				// Split PTO entries that span days off (weekends, unless the work schedule says otherwise).
+				// Their mirrored ranges only cover scheduled workdays, so they stay as they are.
+				const validPTOEntries = group.ptoEntries.flatMap((entry) => {
+					if (isInClosedYear(group, entry.startDate)) return [entry];
+					const pieces = splitPTOEntry(entry, group.ptoConfig);
+					if (pieces.length === 1 && pieces[0].startDate === entry.startDate && pieces[0].endDate === entry.endDate) {
+						return [entry];
 					}
-					return true; // Keep this entry
-				});
-
-				// Also remove corresponding calendar ranges for deleted PTO entries
-				const validRanges = group.ranges.filter((range) => {
-					// Keep the range if there's a corresponding valid PTO entry
-					return validPTOEntries.some(entry => 
-						entry.startDate === range.start && entry.endDate === range.end
-					) || 
-					// Or if this range doesn't correspond to any PTO entry (regular calendar entry)
-					!(group.ptoEntries || []).some(entry => 
-						entry.startDate === range.start && entry.endDate === range.end
-					);
+					console.log(`Splitting PTO entry with days off: ${entry.startDate} - ${entry.endDate}`);
+					hasChanges = true;
+					return pieces;
 				});
 
 				return hasChanges ? {
 					...group,
-					ptoEntries: validPTOEntries,
-					ranges: validRanges
+					ptoEntries: validPTOEntries
 				} : group;
 			});
 
@@ -910,123 +1340,28 @@ export const useStore = create<AppState>((set, get) => ({
 	// Display helpers that merge holidays with eventGroups
 	getAllDisplayGroups: () => {
 		const state = get();
-		return [state.holidays, ...state.eventGroups];
-	},
-
-	getHolidaysGroup: () => {
-		const state = get();
-		return state.holidays;
+		return [...getHolidayCalendars(state), ...state.eventGroups];
 	},
 
-	generateShareableUrl: () => {
-		const state = get();
-		const startDate = state.startDate;
-
-		const compressedState: { 
-			s: string; 
-			w?: boolean; 
-			t?: boolean; 
-			g?: any[]; 
-		} = {
-			s: formatISO(startDate, { representation: "date" }),
-			w: state.includeWeekends ? undefined : false,
-			t: state.showToday ? undefined : false,
-			g: state.eventGroups.map((group) => {
-				const compressedGroup: any = {
-					n: group.name === `My PTO` ? undefined : group.name,
-					c: GROUP_COLORS.findIndex((c) => c.hex === group.color),
-					r: group.ranges.map((range) => [
-						differenceInDays(parseISO(range.start), startDate),
-						differenceInDays(parseISO(range.end), startDate),
-					]),
-					// Add per-group PTO data
-					pto: group.ptoConfig ? {
-						y: group.ptoConfig.yearsOfService,
-						r: group.ptoConfig.rolloverHours,
-						e: group.ptoConfig.isEnabled
-					} : undefined,
-					ptoEntries: (group.ptoEntries && group.ptoEntries.length > 0) ? 
-						group.ptoEntries.map(entry => ({
-							sd: differenceInDays(parseISO(entry.startDate), startDate),
-							ed: differenceInDays(parseISO(entry.endDate), startDate),
-							hpd: entry.hoursPerDay,
-							n: entry.name
-						})) : undefined
-				};
-				// Clean up undefined values
-				Object.keys(compressedGroup).forEach(
-					(key) =>
-						compressedGroup[key] === undefined && delete compressedGroup[key]
-				);
-				return compressedGroup;
-			}),
-		};
+	getHolidaysGroup: () => getHolidayCalendars(get())[0],
 
-		// Remove default values
-		if (compressedState.w === undefined) delete compressedState.w;
-		if (compressedState.t === undefined) delete compressedState.t;
-		if (compressedState.g?.length === 0) delete compressedState.g;
+	getHomeHolidayRegionId: () => getHomeRegionId(get()),
 
-		const compressed = LZString.compressToEncodedURIComponent(
-			JSON.stringify(compressedState)
-		);
+	generateShareableUrl: (options = {}) => {
+		const compressed = encodeState({
+			...get(),
+			eventGroups: getSharedGroups(get().eventGroups, options),
+			viewOnly: options.viewOnly,
+		});
 		return `${window.location.origin}${window.location.pathname}#${compressed}`;
 	},
 
 	saveToLocalStorage: () => {
+		// A shared view is only saved once it is copied into the user's calendars
+		if (get().isViewOnly) return;
 		try {
-			const state = get();
-			const startDate = state.startDate;
-
-			// Use same compressed format as URL sharing
-			const compressedState: {
-				s: string;
-				w?: boolean;
-				t?: boolean;
-				g?: any[];
-			} = {
-				s: formatISO(startDate, { representation: "date" }),
-				w: state.includeWeekends ? undefined : false,
-				t: state.showToday ? undefined : false,
-				g: state.eventGroups.map((group) => {
-					const compressedGroup: any = {
-						n: group.name === `My PTO` ? undefined : group.name,
-						c: GROUP_COLORS.findIndex((c) => c.hex === group.color),
-						r: group.ranges.map((range) => [
-							differenceInDays(parseISO(range.start), startDate),
-							differenceInDays(parseISO(range.end), startDate),
-						]),
-						pto: group.ptoConfig ? {
-							y: group.ptoConfig.yearsOfService,
-							r: group.ptoConfig.rolloverHours,
-							e: group.ptoConfig.isEnabled
-						} : undefined,
-						ptoEntries: (group.ptoEntries && group.ptoEntries.length > 0) ?
-							group.ptoEntries.map(entry => ({
-								sd: differenceInDays(parseISO(entry.startDate), startDate),
-								ed: differenceInDays(parseISO(entry.endDate), startDate),
-								hpd: entry.hoursPerDay,
-								n: entry.name
-							})) : undefined
-					};
-					// Clean up undefined values
-					Object.keys(compressedGroup).forEach(
-						(key) =>
-							compressedGroup[key] === undefined && delete compressedGroup[key]
-					);
-					return compressedGroup;
-				}),
-			};
-
-			// Remove default values
-			if (compressedState.w === undefined) delete compressedState.w;
-			if (compressedState.t === undefined) delete compressedState.t;
-			if (compressedState.g?.length === 0) delete compressedState.g;
-
-			const compressed = LZString.compressToEncodedURIComponent(
-				JSON.stringify(compressedState)
-			);
-			localStorage.setItem("pocketcal_calendar_state_v1", compressed);
+			// Same versioned format as URL sharing
+			localStorage.setItem(STORAGE_KEY, encodeState(get()));
 		} catch (error) {
 			// Handle quota exceeded or other localStorage errors
 			console.error("Failed to save to localStorage:", error);
@@ -1034,126 +1369,33 @@ export const useStore = create<AppState>((set, get) => ({
 	},
 
 	loadFromLocalStorage: () => {
-		try {
-			const stored = localStorage.getItem("pocketcal_calendar_state_v1");
-			if (!stored) return false;
-
-			// Decompress and parse (reuse same logic as getAppStateFromUrl)
-			const decompressed = LZString.decompressFromEncodedURIComponent(stored);
-			if (!decompressed) {
-				console.error("Failed to decompress localStorage data");
-				return false;
-			}
-
-			const decodedState = JSON.parse(decompressed);
-			if (!decodedState.s) return false;
-
-			// Parse the state using same logic as URL parsing
-			const parsedDate = parseISO(decodedState.s);
-			const savedYear = parsedDate.getFullYear();
-			const currentYear = new Date().getFullYear();
-			const yearToUse = savedYear < currentYear ? currentYear : savedYear;
-			const startDate = new Date(yearToUse, 0, 1);
-			const usedColorIndices = new Set<number>();
-
-			const validGroups = (decodedState.g || []).filter((g: any) => {
-				return g.c !== undefined && g.c >= 0 && g.c < GROUP_COLORS.length;
-			});
-
-			validGroups.forEach((g: any) => {
-				usedColorIndices.add(g.c);
-			});
-
-			const eventGroups = (decodedState.g || []).map(
-				(g: any, index: number) => {
-					let colorIndex = g.c;
-
-					if (
-						colorIndex === undefined ||
-						colorIndex < 0 ||
-						colorIndex >= GROUP_COLORS.length
-					) {
-						for (let i = 0; i < GROUP_COLORS.length; i++) {
-							if (!usedColorIndices.has(i)) {
-								colorIndex = i;
-								usedColorIndices.add(i);
-								break;
-							}
-						}
-						if (colorIndex === undefined) {
-							colorIndex = index % GROUP_COLORS.length;
-						}
-					}
-
-					const ptoConfig = g.pto ? {
-						yearsOfService: g.pto.y || 2,
-						rolloverHours: g.pto.r || 0,
-						isEnabled: g.pto.e !== undefined ? g.pto.e : false
-					} : undefined;
-
-					const ptoEntries = g.ptoEntries ?
-						g.ptoEntries.map((entry: any) => ({
-							id: `${entry.sd}-${entry.ed}-restored`,
-							startDate: formatISO(addDays(startDate, entry.sd), { representation: "date" }),
-							endDate: formatISO(addDays(startDate, entry.ed), { representation: "date" }),
-							hoursPerDay: entry.hpd,
-							totalHours: PTOCalendarUtils.calculateTotalPTOHours(
-								formatISO(addDays(startDate, entry.sd), { representation: "date" }),
-								formatISO(addDays(startDate, entry.ed), { representation: "date" }),
-								entry.hpd
-							),
-							name: entry.n
-						})) : undefined;
-
-					return {
-						id: nanoid(),
-						name: g.n || "My PTO",
-						color: GROUP_COLORS[colorIndex].hex,
-						ranges: (g.r || []).map((r: any) => ({
-							start: formatISO(addDays(startDate, r[0]), {
-								representation: "date",
-							}),
-							end: formatISO(addDays(startDate, r[1]), {
-								representation: "date",
-							}),
-						})),
-						ptoConfig,
-						ptoEntries
-					};
-				}
-			);
-
-			set({
-				startDate,
-				includeWeekends: decodedState.w ?? true,
-				showToday: decodedState.t ?? true,
-				eventGroups:
-					eventGroups.length > 0
-						? eventGroups
-						: [createDefaultEventGroup()],
-				selectedGroupId: eventGroups[0]?.id ?? null,
-				holidays: createHolidaysCalendar(yearToUse),
-			});
+		const stored = localStorage.getItem(STORAGE_KEY);
+		if (!stored) return false;
 
+		try {
+			set(applyPersistedState(decodeState(stored)));
 			return true;
 		} catch (error) {
 			console.error("Failed to load from localStorage:", error);
-			// Clear corrupted data
-			localStorage.removeItem("pocketcal_calendar_state_v1");
+			// Clear corrupted data, but keep data written by a newer version of the app
+			if (!(error instanceof StateDecodeError && error.reason === "unsupported-version")) {
+				localStorage.removeItem(STORAGE_KEY);
+			}
+			set({ loadError: `Your saved calendar could not be loaded. ${describeDecodeError(error)}` });
 			return false;
 		}
 	},
 
 	clearLocalStorage: () => {
 		try {
-			localStorage.removeItem("pocketcal_calendar_state_v1");
+			localStorage.removeItem(STORAGE_KEY);
 		} catch (error) {
 			console.error("Failed to clear localStorage:", error);
 		}
 	},
 
 	checkInitializationState: () => {
-		const hasLocalStorage = !!localStorage.getItem("pocketcal_calendar_state_v1");
+		const hasLocalStorage = !!localStorage.getItem(STORAGE_KEY);
 		const hasUrlHash = window.location.hash.length > 1;
 		return { hasLocalStorage, hasUrlHash };
 	},
@@ -1166,33 +1408,153 @@ export const useStore = create<AppState>((set, get) => ({
 		// Clear URL hash
 		window.history.replaceState(null, "", window.location.pathname + window.location.search);
 	},
+
+	loadSharedView: () => {
+		const hash = window.location.hash.substring(1);
+		if (!hash) return false;
+
+		try {
+			const persisted = decodeState(hash);
+			if (!persisted.viewOnly) return false;
+			set(applyPersistedState(persisted));
+			return true;
+		} catch {
+			// Links that can't be read are reported by the usual loading path
+			return false;
+		}
+	},
+
+	copySharedView: () => {
+		const shared = get().eventGroups;
+
+		// Without a saved calendar the shared one becomes it, as an editable link would
+		let skipped = 0;
+		if (!get().loadFromLocalStorage()) {
+			set({ isViewOnly: false });
+		} else {
+			skipped = get().mergeEventGroups(shared);
+		}
+
+		get().saveToLocalStorage();
+		window.history.replaceState(null, "", window.location.pathname + window.location.search);
+		return skipped;
+	},
+
+	mergeFromUrl: () => {
+		get().loadFromLocalStorage();
+
+		let skipped = 0;
+		try {
+			skipped = get().mergeEventGroups(decodeState(window.location.hash.substring(1)).eventGroups);
+		} catch (error) {
+			console.error("Failed to parse state from URL:", error);
+			set({ loadError: `The shared link could not be merged. ${describeDecodeError(error)}` });
+		}
+
+		get().saveToLocalStorage();
+		window.history.replaceState(null, "", window.location.pathname + window.location.search);
+		return skipped;
+	},
+
+	mergeEventGroups: (groups) => {
+		const before = takeHistorySnapshot(get());
+		const { groups: eventGroups, added, merged, skipped } = mergeSharedGroups(get().eventGroups, groups);
+		if (added + merged > 0) {
+			// Merged PTO entries are costed with this calendar's holidays
+			set({ eventGroups: recostPTOEntries(eventGroups) });
+			const count = added + merged;
+			get().pushHistory(`Merged ${count} shared calendar${count === 1 ? "" : "s"}`, before);
+			get().saveToLocalStorage();
+		}
+		return skipped;
+	},
 }));
 
+// Undo, redo and resets change the imported holidays without going through the actions above
+useStore.subscribe((state, previous) => {
+	if (state.customHolidays !== previous.customHolidays) {
+		applyCustomHolidays(state.customHolidays);
+	}
+});
+
+/**
+ * Lists the days a range covers within a window, one range per occurrence of a recurring series
+ * @param range Stored range
+ * @param windowStart First date of interest (ISO, inclusive)
+ * @param windowEnd Last date of interest (ISO, inclusive)
+ * @returns Occurrences touching the window, without the recurrence rule
+ */
+export const getRangeOccurrences = (
+	range: DateRange,
+	windowStart: string,
+	windowEnd: string
+): DateRange[] => {
+	if (!range.recurrence) {
+		return range.end >= windowStart && range.start <= windowEnd ? [range] : [];
+	}
+	return expandRecurringRange(range.start, range.end, range.recurrence, windowStart, windowEnd)
+		.filter((occurrence) => occurrence.end >= windowStart)
+		.map((occurrence) => ({
+			...occurrence,
+			...(range.description ? { description: range.description } : {}),
+		}));
+};
+
+/**
+ * Finds the occurrence of a range that covers a date
+ * @param date Date to look up
+ * @param range Stored range, possibly recurring
+ * @returns The covering occurrence, or null
+ */
+export const findOccurrenceForDate = (date: Date, range: DateRange): DateRange | null => {
+	const dateStr = formatISO(date, { representation: "date" });
+	return getRangeOccurrences(range, dateStr, dateStr)[0] || null;
+};
+
 export const isDateInRange = (date: Date, group: EventGroup): boolean => {
 	return group.ranges.some((range) =>
-		isWithinInterval(date, {
-			start: parseISO(range.start),
-			end: parseISO(range.end),
-		})
+		range.recurrence
+			? findOccurrenceForDate(date, range) !== null
+			: isWithinInterval(date, {
+				start: parseISO(range.start),
+				end: parseISO(range.end),
+			})
 	);
 };
 
+// Returns the stored range, so a recurring series is returned for any of its occurrences
 export const findRangeForDate = (
 	date: Date,
 	group: EventGroup
 ): DateRange | null => {
 	return (
 		group.ranges.find((range) =>
-			isWithinInterval(date, {
-				start: parseISO(range.start),
-				end: parseISO(range.end),
-			})
+			range.recurrence
+				? findOccurrenceForDate(date, range) !== null
+				: isWithinInterval(date, {
+					start: parseISO(range.start),
+					end: parseISO(range.end),
+				})
 		) || null
 	);
 };
 
-export const getCalendarDates = (startDate: Date): Date[] => {
-	const endDate = addMonths(startDate, 11);
+/**
+ * First month shown by a view mode. Month, quarter and rolling views remember their month
+ * in `viewDate` but stay in the plan year: changing the year keeps the month in the new one.
+ * @param viewMode Calendar view mode
+ * @param startDate January 1st of the plan year
+ * @param viewDate First day of the month the view was moved to
+ * @returns First day of the first displayed month
+ */
+export const getViewStart = (viewMode: ViewMode, startDate: Date, viewDate: Date): Date => {
+	if (viewMode === "year") return startDate;
+	const start = new Date(startDate.getFullYear(), viewDate.getMonth(), 1);
+	return viewMode === "quarter" ? startOfQuarter(start) : start;
+};
+
+export const getCalendarDates = (startDate: Date, months = 12): Date[] => {
+	const endDate = addMonths(startDate, months - 1);
 	const endOfMonthDate = new Date(
 		endDate.getFullYear(),
 		endDate.getMonth() + 1,
@@ -0,0 +1,64 @@
+/**
+ * Test suite for undo/redo history
+ * Testing bounded recording, undo/redo symmetry and redo invalidation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHistory, recordHistory, undoHistory, redoHistory } from './history';
+
+describe('history', () => {
+  describe('recordHistory', () => {
+    it('should append labelled snapshots', () => {
+      const history = recordHistory(createHistory<number>(), 'Added range', 1);
+      expect(history.past).toEqual([{ label: 'Added range', snapshot: 1 }]);
+      expect(history.future).toEqual([]);
+    });
+
+    it('should drop the oldest entries beyond the limit', () => {
+      let history = createHistory<number>();
+      for (let i = 0; i < 5; i++) {
+        history = recordHistory(history, `Change ${i}`, i, 3);
+      }
+      expect(history.past.map(e => e.snapshot)).toEqual([2, 3, 4]);
+    });
+
+    it('should clear the redo stack', () => {
+      const recorded = recordHistory(createHistory<number>(), 'First', 1);
+      const undone = undoHistory(recorded, 2)!.history;
+      expect(undone.future).toHaveLength(1);
+
+      expect(recordHistory(undone, 'Second', 1).future).toEqual([]);
+    });
+  });
+
+  describe('undoHistory', () => {
+    it('should return null when there is nothing to undo', () => {
+      expect(undoHistory(createHistory<number>(), 1)).toBeNull();
+    });
+
+    it('should restore the previous snapshot and keep the current state for redo', () => {
+      const history = recordHistory(createHistory<string>(), "Deleted calendar 'Team Offsite'", 'before');
+      const result = undoHistory(history, 'after')!;
+
+      expect(result.entry).toEqual({ label: "Deleted calendar 'Team Offsite'", snapshot: 'before' });
+      expect(result.history.past).toEqual([]);
+      expect(result.history.future).toEqual([{ label: "Deleted calendar 'Team Offsite'", snapshot: 'after' }]);
+    });
+  });
+
+  describe('redoHistory', () => {
+    it('should return null when there is nothing to redo', () => {
+      expect(redoHistory(createHistory<number>(), 1)).toBeNull();
+    });
+
+    it('should re-apply an undone change', () => {
+      const history = recordHistory(createHistory<string>(), 'Added range', 'before');
+      const undone = undoHistory(history, 'after')!;
+      const redone = redoHistory(undone.history, undone.entry.snapshot)!;
+
+      expect(redone.entry.snapshot).toBe('after');
+      expect(redone.history.past).toEqual([{ label: 'Added range', snapshot: 'before' }]);
+      expect(redone.history.future).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Undo/Redo History
+ * Bounded, labelled snapshot stacks for reversible state changes
+ */
+
+export const HISTORY_LIMIT = 50;
+
+export interface HistoryEntry<T> {
+  label: string; // Human-readable description, e.g. "Deleted calendar 'Team Offsite'"
+  snapshot: T;   // State to restore
+}
+
+export interface History<T> {
+  past: HistoryEntry<T>[];   // Oldest first; the last entry is undone next
+  future: HistoryEntry<T>[]; // Most recently undone last; the last entry is redone next
+}
+
+/**
+ * Creates an empty history
+ * @returns History with no undo or redo steps
+ */
+export const createHistory = <T>(): History<T> => ({ past: [], future: [] });
+
+/**
+ * Records a change, dropping the oldest entries beyond the limit
+ * @param history Current history
+ * @param label Description of the change being recorded
+ * @param snapshot State from before the change
+ * @param limit Maximum number of undo steps to keep
+ * @returns New history with an empty redo stack
+ */
+export const recordHistory = <T>(
+  history: History<T>,
+  label: string,
+  snapshot: T,
+  limit: number = HISTORY_LIMIT
+): History<T> => ({
+  past: [...history.past, { label, snapshot }].slice(-limit),
+  future: []
+});
+
+/**
+ * Steps back one change
+ * @param history Current history
+ * @param current State to keep for redo
+ * @returns The snapshot to restore and the new history, or null if there is nothing to undo
+ */
+export const undoHistory = <T>(
+  history: History<T>,
+  current: T
+): { entry: HistoryEntry<T>; history: History<T> } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+
+  return {
+    entry,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { label: entry.label, snapshot: current }]
+    }
+  };
+};
+
+/**
+ * Re-applies the most recently undone change
+ * @param history Current history
+ * @param current State to keep for undo
+ * @returns The snapshot to restore and the new history, or null if there is nothing to redo
+ */
+export const redoHistory = <T>(
+  history: History<T>,
+  current: T
+): { entry: HistoryEntry<T>; history: History<T> } | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+
+  return {
+    entry,
+    history: {
+      past: [...history.past, { label: entry.label, snapshot: current }],
+      future: history.future.slice(0, -1)
+    }
+  };
+};
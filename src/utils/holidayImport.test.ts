@@ -0,0 +1,88 @@
+/**
+ * Test suite for holiday list import
+ * Testing CSV and iCalendar holiday files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCSVLine, parseHolidayCSV, parseHolidayDate, parseHolidayFile, parseHolidayICS } from './holidayImport';
+
+const calendar = (...events: string[][]) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR'
+  ].join('\r\n');
+
+describe('holidayImport', () => {
+  describe('parseCSVLine', () => {
+    it('should keep commas inside quoted cells', () => {
+      expect(parseCSVLine('2025-12-26,"Boxing Day, observed"')).toEqual(['2025-12-26', 'Boxing Day, observed']);
+      expect(parseCSVLine('"a ""quoted"" name",x')).toEqual(['a "quoted" name', 'x']);
+    });
+  });
+
+  describe('parseHolidayDate', () => {
+    it('should accept ISO and US dates', () => {
+      expect(parseHolidayDate('2025-12-25')).toBe('2025-12-25');
+      expect(parseHolidayDate('7/4/2025')).toBe('2025-07-04');
+    });
+
+    it('should reject other values', () => {
+      expect(parseHolidayDate('Date')).toBeNull();
+      expect(parseHolidayDate('02/30/2025')).toBeNull();
+      expect(parseHolidayDate('2025-13-01')).toBeNull();
+    });
+  });
+
+  describe('parseHolidayCSV', () => {
+    it('should skip a header row and sort by date', () => {
+      const csv = 'Date,Holiday\r\n2025-12-25,Christmas\r\n\r\n1/1/2025,New Year\r\n';
+      expect(parseHolidayCSV(csv)).toEqual([
+        { date: '2025-01-01', name: 'New Year' },
+        { date: '2025-12-25', name: 'Christmas' }
+      ]);
+    });
+
+    it('should name unnamed holidays and drop repeated dates', () => {
+      expect(parseHolidayCSV('2025-05-05\n2025-05-05,Again')).toEqual([{ date: '2025-05-05', name: 'Holiday' }]);
+    });
+
+    it('should report the row of an invalid date', () => {
+      expect(() => parseHolidayCSV('Date,Name\n2025-01-01,A\nsoon,B')).toThrow('Row 3 has an invalid date: soon');
+    });
+
+    it('should reject a file without holidays', () => {
+      expect(() => parseHolidayCSV('Date,Name\n')).toThrow('No holidays found in this file');
+    });
+  });
+
+  describe('parseHolidayICS', () => {
+    it('should list every day of a multi-day event', () => {
+      const ics = calendar([
+        'DTSTART;VALUE=DATE:20251225',
+        'DTEND;VALUE=DATE:20251227',
+        'SUMMARY:Christmas Break'
+      ]);
+      expect(parseHolidayICS(ics, 2025)).toEqual([
+        { date: '2025-12-25', name: 'Christmas Break' },
+        { date: '2025-12-26', name: 'Christmas Break' }
+      ]);
+    });
+
+    it('should keep one-off events from other years and expand yearly ones', () => {
+      const ics = calendar(
+        ['DTSTART;VALUE=DATE:20260102', 'SUMMARY:Winter Day'],
+        ['DTSTART;VALUE=DATE:20200317', 'RRULE:FREQ=YEARLY', 'SUMMARY:Founders Day']
+      );
+      expect(parseHolidayICS(ics, 2025).map(h => h.date)).toEqual(['2020-03-17', '2025-03-17', '2026-01-02', '2026-03-17']);
+    });
+  });
+
+  describe('parseHolidayFile', () => {
+    it('should choose the parser from the file name', () => {
+      expect(parseHolidayFile('2025-01-01,A', 'holidays.CSV', 2025)).toHaveLength(1);
+      expect(() => parseHolidayFile('', 'holidays.xlsx', 2025)).toThrow('Holiday files must be .ics or .csv');
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Holiday Import Utilities
+ * Reads holiday lists published as .ics feeds or CSV spreadsheets
+ */
+
+import { eachDayOfInterval, formatISO, isValid, parseISO } from 'date-fns';
+import type { ImportedHoliday } from '../constants/holidays';
+import { expandICSEvents, parseICS } from './icsImport';
+
+const toISODate = (date: Date): string => formatISO(date, { representation: 'date' });
+
+/**
+ * Splits one CSV line into cells, honouring double-quoted cells
+ * @param line CSV line
+ * @returns Cell values with quotes removed
+ */
+export const parseCSVLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+/**
+ * Parses a spreadsheet date
+ * @param value Date such as 2025-12-25 or 12/25/2025 (US order)
+ * @returns ISO date, or null when the value is not a date
+ */
+export const parseHolidayDate = (value: string): string | null => {
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const date = us
+    ? new Date(Number(us[3]), Number(us[1]) - 1, Number(us[2]))
+    : /^\d{4}-\d{2}-\d{2}$/.test(value) ? parseISO(value) : null;
+  if (!date || !isValid(date)) return null;
+  // Reject days that roll over, e.g. 02/30
+  if (us && date.getDate() !== Number(us[2])) return null;
+  return toISODate(date);
+};
+
+// One holiday per date; the first name given for a date is kept
+const toHolidayList = (holidays: ImportedHoliday[]): ImportedHoliday[] => {
+  const byDate = new Map<string, ImportedHoliday>();
+  holidays.forEach(holiday => {
+    if (!byDate.has(holiday.date)) byDate.set(holiday.date, holiday);
+  });
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Parses a CSV holiday list with a date column followed by a name column.
+ * A header row is skipped when its first cell is not a date.
+ * @param content CSV file content
+ * @returns Holidays sorted by date
+ */
+export const parseHolidayCSV = (content: string): ImportedHoliday[] => {
+  const rows = content
+    .split(/\r?\n/)
+    .map((line, index) => ({ cells: parseCSVLine(line), row: index + 1 }))
+    .filter(({ cells }) => cells.some(cell => cell !== ''));
+
+  const holidays = rows.flatMap(({ cells, row }, index): ImportedHoliday[] => {
+    const date = parseHolidayDate(cells[0]);
+    if (!date) {
+      if (index === 0) return [];
+      throw new Error(`Row ${row} has an invalid date: ${cells[0]}`);
+    }
+    return [{ date, name: cells[1] || 'Holiday' }];
+  });
+
+  if (holidays.length === 0) {
+    throw new Error('No holidays found in this file');
+  }
+  return toHolidayList(holidays);
+};
+
+/**
+ * Parses an .ics holiday feed. Multi-day events become one holiday per day,
+ * and repeating events are expanded for every year the feed covers.
+ * @param content .ics file content
+ * @param year Displayed calendar year, always included in the expansion
+ * @returns Holidays sorted by date
+ */
+export const parseHolidayICS = (content: string, year: number): ImportedHoliday[] => {
+  const { events } = parseICS(content);
+  const years = new Set([year, ...events.map(event => parseISO(event.start).getFullYear())]);
+
+  const holidays = [...years].flatMap(feedYear =>
+    expandICSEvents(events, feedYear).flatMap(range =>
+      eachDayOfInterval({ start: parseISO(range.start), end: parseISO(range.end) }).map(day => ({
+        date: toISODate(day),
+        name: range.description || 'Holiday'
+      }))
+    )
+  );
+
+  if (holidays.length === 0) {
+    throw new Error('No holidays found in this file');
+  }
+  return toHolidayList(holidays);
+};
+
+/**
+ * Parses a holiday file, choosing the format from its name
+ * @param content File content
+ * @param fileName Name of the file, ending in .ics or .csv
+ * @param year Displayed calendar year
+ * @returns Holidays sorted by date
+ */
+export const parseHolidayFile = (content: string, fileName: string, year: number): ImportedHoliday[] => {
+  if (/\.ics$/i.test(fileName)) return parseHolidayICS(content, year);
+  if (/\.csv$/i.test(fileName)) return parseHolidayCSV(content);
+  throw new Error('Holiday files must be .ics or .csv');
+};
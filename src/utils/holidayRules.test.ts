@@ -0,0 +1,90 @@
+/**
+ * Test suite for the holiday rule engine
+ * Testing each rule type, weekend observance and year limits
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getEasterSunday, HolidayRule, resolveHolidays } from './holidayRules';
+
+describe('holidayRules', () => {
+  const dates = (rules: HolidayRule[], year: number) =>
+    resolveHolidays(rules, year).map(holiday => [holiday.date, holiday.name]);
+
+  describe('getEasterSunday', () => {
+    it('should find Easter Sunday', () => {
+      expect(getEasterSunday(2024)).toEqual(new Date(2024, 2, 31));
+      expect(getEasterSunday(2025)).toEqual(new Date(2025, 3, 20));
+      expect(getEasterSunday(2038)).toEqual(new Date(2038, 3, 25));
+    });
+  });
+
+  describe('resolveHolidays', () => {
+    it('should resolve fixed, nth and last weekday rules', () => {
+      expect(dates([
+        { type: 'fixed', name: 'Christmas', month: 12, day: 25 },
+        { type: 'nthWeekday', name: 'Thanksgiving', month: 11, weekday: 4, n: 4 },
+        { type: 'lastWeekday', name: 'Memorial Day', month: 5, weekday: 1 }
+      ], 2030)).toEqual([
+        ['2030-05-27', 'Memorial Day'],
+        ['2030-11-28', 'Thanksgiving'],
+        ['2030-12-25', 'Christmas']
+      ]);
+    });
+
+    it('should offset from another holiday', () => {
+      expect(dates([
+        { type: 'nthWeekday', name: 'Thanksgiving', month: 11, weekday: 4, n: 4 },
+        { type: 'offset', name: 'Day after Thanksgiving', from: 'Thanksgiving', days: 1 }
+      ], 2025)[1]).toEqual(['2025-11-28', 'Day after Thanksgiving']);
+    });
+
+    it('should count business days back from the observed date', () => {
+      const rules: HolidayRule[] = [
+        { type: 'fixed', name: 'Independence Day', month: 7, day: 4, observed: 'nearestWeekday' },
+        { type: 'offset', name: 'Eve', from: 'Independence Day', days: -1, businessDays: true }
+      ];
+      // Sunday July 4 2027 is observed on Monday; the eve skips back over the weekend
+      expect(dates(rules, 2027)).toEqual([['2027-07-02', 'Eve'], ['2027-07-05', 'Independence Day']]);
+    });
+
+    it('should move weekend holidays to the nearest weekday', () => {
+      const rules: HolidayRule[] = [{ type: 'fixed', name: 'Juneteenth', month: 6, day: 19, observed: 'nearestWeekday' }];
+      expect(resolveHolidays(rules, 2027)[0]).toEqual({ date: '2027-06-18', name: 'Juneteenth', actualDate: '2027-06-19' });
+      expect(dates(rules, 2022)[0][0]).toBe('2022-06-20');
+    });
+
+    it('should move weekend holidays to the next free weekday', () => {
+      const rules: HolidayRule[] = [
+        { type: 'fixed', name: 'Christmas Day', month: 12, day: 25, observed: 'followingWeekday' },
+        { type: 'fixed', name: 'Boxing Day', month: 12, day: 26, observed: 'followingWeekday' }
+      ];
+      // Saturday and Sunday: Monday and Tuesday
+      expect(dates(rules, 2021).map(([date]) => date)).toEqual(['2021-12-27', '2021-12-28']);
+      // Sunday and Monday: Boxing Day keeps Monday, Christmas moves to Tuesday
+      expect(dates(rules, 2022)).toEqual([['2022-12-26', 'Boxing Day'], ['2022-12-27', 'Christmas Day']]);
+    });
+
+    it('should only apply year-limited rules in those years', () => {
+      const rules: HolidayRule[] = [{ type: 'fixed', name: 'Gift Day', month: 12, day: 24, years: [2025] }];
+      expect(dates(rules, 2025)).toHaveLength(1);
+      expect(dates(rules, 2026)).toHaveLength(0);
+    });
+
+    it('should resolve Easter-based and on-or-before rules', () => {
+      expect(dates([
+        { type: 'easter', name: 'Good Friday', days: -2 },
+        { type: 'easter', name: 'Easter Monday', days: 1 },
+        { type: 'weekdayOnOrBefore', name: 'Victoria Day', month: 5, day: 24, weekday: 1 }
+      ], 2025)).toEqual([
+        ['2025-04-18', 'Good Friday'],
+        ['2025-04-21', 'Easter Monday'],
+        ['2025-05-19', 'Victoria Day']
+      ]);
+    });
+
+    it('should skip offsets from a holiday that does not occur', () => {
+      const rules: HolidayRule[] = [{ type: 'offset', name: 'Orphan', from: 'Missing', days: 1 }];
+      expect(dates(rules, 2025)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Holiday Rules
+ * Computes holiday dates for any year from declarative rules
+ */
+
+import { addDays, formatISO, isWeekend } from 'date-fns';
+import { getNthWeekdayOfMonth } from './recurrence';
+
+// How a holiday that falls on a weekend is moved to a workday
+// - nearestWeekday: Saturday to Friday, Sunday to Monday (US federal)
+// - followingWeekday: the next weekday not already taken by another holiday (UK bank holidays)
+export type ObservedShift = 'none' | 'nearestWeekday' | 'followingWeekday';
+
+interface HolidayRuleBase {
+  name: string;
+  observed?: ObservedShift; // No shift when omitted
+  years?: number[];         // Only these years, for one-off company days; every year when omitted
+}
+
+export type HolidayRule =
+  | HolidayRuleBase & { type: 'fixed'; month: number; day: number }                  // e.g. Dec 25
+  | HolidayRuleBase & { type: 'nthWeekday'; month: number; weekday: number; n: number } // e.g. 3rd Monday of January
+  | HolidayRuleBase & { type: 'lastWeekday'; month: number; weekday: number }         // e.g. last Monday of May
+  | HolidayRuleBase & { type: 'weekdayOnOrBefore'; month: number; day: number; weekday: number } // e.g. Monday on or before May 24
+  | HolidayRuleBase & { type: 'easter'; days: number }                                  // Days from Easter Sunday, e.g. -2 for Good Friday
+  | HolidayRuleBase & {
+      type: 'offset';
+      from: string;           // Name of an earlier rule; offsets count from its observed date
+      days: number;           // Negative for days before
+      businessDays?: boolean; // Count weekdays only, e.g. "the workday before"
+    };
+
+export interface ResolvedHoliday {
+  date: string;         // Observed ISO date
+  name: string;
+  actualDate: string;   // ISO date before any weekend shift
+}
+
+const toISODate = (date: Date): string => formatISO(date, { representation: 'date' });
+
+/**
+ * Finds Easter Sunday in the Gregorian calendar (anonymous Gregorian algorithm)
+ * @param year Full year
+ * @returns Easter Sunday
+ */
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+// Months in rules are 1-12; weekdays are 0 = Sunday
+const getRuleDate = (
+  rule: HolidayRule,
+  year: number,
+  resolved: Map<string, ResolvedHoliday>
+): Date | null => {
+  switch (rule.type) {
+    case 'fixed':
+      return new Date(year, rule.month - 1, rule.day);
+    case 'nthWeekday':
+      return getNthWeekdayOfMonth(year, rule.month - 1, rule.weekday, rule.n);
+    case 'lastWeekday':
+      return getNthWeekdayOfMonth(year, rule.month - 1, rule.weekday, -1);
+    case 'weekdayOnOrBefore': {
+      const date = new Date(year, rule.month - 1, rule.day);
+      return addDays(date, -((date.getDay() - rule.weekday + 7) % 7));
+    }
+    case 'easter':
+      return addDays(getEasterSunday(year), rule.days);
+    case 'offset': {
+      const base = resolved.get(rule.from);
+      if (!base) return null;
+      const [y, m, d] = base.date.split('-').map(Number);
+      let date = new Date(y, m - 1, d);
+      if (!rule.businessDays) return addDays(date, rule.days);
+      const step = rule.days < 0 ? -1 : 1;
+      for (let remaining = Math.abs(rule.days); remaining > 0;) {
+        date = addDays(date, step);
+        if (!isWeekend(date)) remaining--;
+      }
+      return date;
+    }
+  }
+};
+
+const shiftToObserved = (date: Date, shift: ObservedShift, taken: Set<string>): Date => {
+  if (shift === 'nearestWeekday') {
+    if (date.getDay() === 6) return addDays(date, -1);
+    if (date.getDay() === 0) return addDays(date, 1);
+    return date;
+  }
+  if (shift === 'followingWeekday' && isWeekend(date)) {
+    let observed = addDays(date, 1);
+    while (isWeekend(observed) || taken.has(toISODate(observed))) {
+      observed = addDays(observed, 1);
+    }
+    return observed;
+  }
+  return date;
+};
+
+/**
+ * Works out the holidays a rule set produces in a year.
+ * Rules are applied in order, so offset rules must come after the holiday they refer to.
+ * Weekend shifts can move a holiday into the neighbouring year (e.g. Jan 1 observed on Dec 31).
+ * @param rules Holiday rules
+ * @param year Calendar year the rules are evaluated for
+ * @returns Holidays sorted by observed date
+ */
+export const resolveHolidays = (rules: HolidayRule[], year: number): ResolvedHoliday[] => {
+  const activeRules = rules.filter(rule => !rule.years || rule.years.includes(year));
+  const resolved = new Map<string, ResolvedHoliday>();
+  const holidays: ResolvedHoliday[] = [];
+  // Holidays already on a weekday keep their date, so shifted ones must avoid them
+  const taken = new Set(
+    activeRules
+      .filter(rule => rule.type !== 'offset')
+      .map(rule => getRuleDate(rule, year, resolved))
+      .filter((date): date is Date => date !== null && !isWeekend(date))
+      .map(toISODate)
+  );
+
+  activeRules.forEach(rule => {
+    const date = getRuleDate(rule, year, resolved);
+    if (!date) return;
+
+    const observed = toISODate(shiftToObserved(date, rule.observed ?? 'none', taken));
+    const holiday = { date: observed, name: rule.name, actualDate: toISODate(date) };
+    taken.add(observed);
+    // Repeated names (e.g. several gift days) stay listed; offsets use the first
+    if (!resolved.has(rule.name)) resolved.set(rule.name, holiday);
+    holidays.push(holiday);
+  });
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+};
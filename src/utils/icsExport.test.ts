@@ -0,0 +1,205 @@
+/**
+ * Test suite for iCalendar export
+ * Testing RFC 5545 formatting, stable UIDs and PTO summaries
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  escapeICSText,
+  foldICSLine,
+  formatRRule,
+  generateICS,
+  getPTOEntrySummary,
+  getPTOEntryUID,
+  getRangeUID
+} from './icsExport';
+import { parseRRule } from './icsImport';
+import { expandRecurrence } from './recurrence';
+import type { EventGroup } from '../store';
+
+const NOW = new Date(Date.UTC(2025, 0, 2, 9, 30, 0));
+
+const getEvents = (ics: string) =>
+  ics.split('BEGIN:VEVENT').slice(1).map(event => event.split('END:VEVENT')[0]);
+
+describe('icsExport', () => {
+  const group: EventGroup = {
+    id: 'grp1',
+    name: 'Team Offsite',
+    color: '#24d05a',
+    ranges: [
+      { start: '2025-03-10', end: '2025-03-12', description: 'Planning, Q2; budget' },
+      { start: '2025-06-02', end: '2025-06-02' }
+    ]
+  };
+
+  const ptoGroup: EventGroup = {
+    id: 'grp2',
+    name: 'My PTO',
+    color: '#f44336',
+    ptoConfig: { yearsOfService: 2, rolloverHours: 0, isEnabled: true },
+    ptoEntries: [
+      { id: 'a', startDate: '2025-01-15', endDate: '2025-01-15', hoursPerDay: 4, totalHours: 4, name: 'Dentist' },
+      { id: 'b', startDate: '2025-02-03', endDate: '2025-02-04', hoursPerDay: 8, totalHours: 16 }
+    ],
+    // Mirrored single-day ranges created by addPTOEntry, plus one plain range
+    ranges: [
+      { start: '2025-01-15', end: '2025-01-15' },
+      { start: '2025-02-03', end: '2025-02-03' },
+      { start: '2025-02-04', end: '2025-02-04' },
+      { start: '2025-04-01', end: '2025-04-01', description: 'Offsite' }
+    ]
+  };
+
+  describe('escapeICSText', () => {
+    it('should escape backslashes, semicolons, commas and newlines', () => {
+      expect(escapeICSText('a\\b;c,d\ne')).toBe('a\\\\b\\;c\\,d\\ne');
+    });
+  });
+
+  describe('foldICSLine', () => {
+    it('should leave short lines untouched', () => {
+      expect(foldICSLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+    });
+
+    it('should fold long lines at 75 octets', () => {
+      const folded = foldICSLine(`SUMMARY:${'x'.repeat(200)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+      expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+      expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'x'.repeat(200)}`);
+    });
+
+    it('should not split multi-byte characters', () => {
+      const folded = foldICSLine(`SUMMARY:${'é'.repeat(60)}`);
+      expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+    });
+  });
+
+  describe('generateICS', () => {
+    it('should wrap events in a VCALENDAR with CRLF line endings', () => {
+      const ics = generateICS(group, NOW);
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(ics).toContain('X-WR-CALNAME:Team Offsite');
+      expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+    });
+
+    it('should export multi-day ranges as all-day events with an exclusive end date', () => {
+      const [event] = getEvents(generateICS(group, NOW));
+
+      expect(event).toContain('DTSTART;VALUE=DATE:20250310');
+      expect(event).toContain('DTEND;VALUE=DATE:20250313');
+      expect(event).toContain('DTSTAMP:20250102T093000Z');
+    });
+
+    it('should use range descriptions as the summary', () => {
+      const [described, plain] = getEvents(generateICS(group, NOW));
+
+      expect(described).toContain('SUMMARY:Planning\\, Q2\\; budget');
+      expect(described).toContain('DESCRIPTION:Planning\\, Q2\\; budget');
+      expect(plain).toContain('SUMMARY:Team Offsite');
+      expect(plain).not.toContain('DESCRIPTION:');
+    });
+
+    it('should export PTO entries once, skipping their mirrored ranges', () => {
+      const events = getEvents(generateICS(ptoGroup, NOW));
+
+      expect(events).toHaveLength(3);
+      expect(events.filter(e => e.includes('X-MICROSOFT-CDO-BUSYSTATUS:OOF'))).toHaveLength(2);
+      expect(events[0]).toContain('SUMMARY:Offsite');
+    });
+
+    it('should carry partial-day hours in the PTO summary', () => {
+      const ics = generateICS(ptoGroup, NOW);
+
+      expect(ics).toContain('SUMMARY:PTO: Dentist (4h)');
+      expect(ics).toContain('DESCRIPTION:16h of PTO from My PTO');
+    });
+
+    it('should not export PTO entries when PTO is disabled', () => {
+      const disabled = { ...ptoGroup, ptoConfig: { ...ptoGroup.ptoConfig!, isEnabled: false } };
+      expect(generateICS(disabled, NOW)).not.toContain('OOF');
+    });
+
+    it('should export recurring ranges as one event with RRULE and EXDATE', () => {
+      const rota: EventGroup = {
+        ...group,
+        ranges: [{
+          start: '2025-01-06',
+          end: '2025-01-10',
+          recurrence: { frequency: 'weekly', interval: 2, count: 6, exceptions: ['2025-02-03', '2025-01-20'] }
+        }]
+      };
+      const [event] = getEvents(generateICS(rota, NOW));
+
+      expect(event).toContain('UID:grp1-series-2025-01-06-2025-01-10@pocketcal');
+      expect(event).toContain('RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=6;WKST=SU\r\n');
+      expect(event).toContain('EXDATE;VALUE=DATE:20250203,20250120');
+    });
+
+    it('should produce the same UIDs on every export', () => {
+      const uids = (ics: string) => ics.match(/^UID:.*$/gm);
+      expect(uids(generateICS(ptoGroup, NOW))).toEqual(uids(generateICS(ptoGroup, new Date())));
+    });
+  });
+
+  describe('formatRRule', () => {
+    it('should write rules that import back unchanged', () => {
+      const rules = [
+        { frequency: 'weekly' as const, interval: 2, byWeekday: [1, 5] },
+        { frequency: 'weekly' as const, interval: 3, byWeekday: [0, 1], weekStart: 1 },
+        { frequency: 'monthly' as const, byNthWeekday: { n: -1, weekday: 1 }, until: '2025-12-31' },
+        { frequency: 'daily' as const, count: 10 }
+      ];
+      rules.forEach(rule => expect(parseRRule(formatRRule(rule))).toEqual(rule));
+    });
+
+    it('should keep Sunday-start weeks for rules that skip weeks', () => {
+      // Every 2 weeks on Sun, Mon from Sunday Jan 4
+      const rule = { frequency: 'weekly' as const, interval: 2, byWeekday: [0, 1] };
+      const value = formatRRule(rule);
+      const parsed = parseRRule(value)!;
+
+      expect(value).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,MO;WKST=SU');
+      expect(expandRecurrence('2026-01-04', parsed, '2026-01-01', '2026-01-31'))
+        .toEqual(['2026-01-04', '2026-01-05', '2026-01-18', '2026-01-19']);
+      expect(formatRRule({ frequency: 'weekly', byWeekday: [0, 1] })).not.toContain('WKST');
+    });
+  });
+
+  describe('UIDs and summaries', () => {
+    it('should derive range UIDs from the group id and range id, so moved ranges keep them', () => {
+      const range = { id: 'r1', start: '2025-03-10', end: '2025-03-12' };
+      expect(getRangeUID('grp1', range)).toBe('grp1-range-r1@pocketcal');
+      expect(getRangeUID('grp1', { ...range, start: '2025-03-17', end: '2025-03-19' })).toBe(getRangeUID('grp1', range));
+    });
+
+    it('should fall back to the dates for ranges without an id', () => {
+      expect(getRangeUID('grp1', { start: '2025-03-10', end: '2025-03-12' }))
+        .toBe('grp1-range-2025-03-10-2025-03-12@pocketcal');
+    });
+
+    it('should derive PTO UIDs from the group id and entry id, so moved entries keep them', () => {
+      const entry = { ...ptoGroup.ptoEntries![0], id: 'e1' };
+      expect(getPTOEntryUID('grp2', entry)).toBe('grp2-pto-e1@pocketcal');
+      expect(getPTOEntryUID('grp2', { ...entry, startDate: '2025-02-03', endDate: '2025-02-04' }))
+        .toBe(getPTOEntryUID('grp2', entry));
+    });
+
+    it('should fall back to the entry dates for PTO entries without an id', () => {
+      expect(getPTOEntryUID('grp2', { startDate: '2025-01-06', endDate: '2025-01-07', hoursPerDay: 8, totalHours: 16 }))
+        .toBe('grp2-pto-2025-01-06-2025-01-07@pocketcal');
+    });
+
+    it('should describe multi-day partial PTO per day', () => {
+      expect(getPTOEntrySummary({ startDate: '2025-01-06', endDate: '2025-01-07', hoursPerDay: 2, totalHours: 4 }))
+        .toBe('PTO (2h/day)');
+      expect(getPTOEntrySummary({ startDate: '2025-01-06', endDate: '2025-01-06', hoursPerDay: 8, totalHours: 8 }))
+        .toBe('PTO');
+    });
+  });
+});
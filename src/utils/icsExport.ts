@@ -0,0 +1,212 @@
+/**
+ * iCalendar Export Utilities
+ * RFC 5545 (.ics) export of calendar groups and their PTO entries
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+import type { DateRange, EventGroup } from '../store';
+import { LEAVE_TYPE_LABELS, PTOCalendarUtils, PTOEntry } from './ptoUtils';
+import { DEFAULT_PTO_POLICY } from './ptoPolicy';
+import { RecurrenceRule } from './recurrence';
+
+const PRODID = '-//Unispace//PTO Calculator//EN';
+const UID_DOMAIN = 'pocketcal';
+const MAX_LINE_OCTETS = 75;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Escapes a TEXT property value (RFC 5545 §3.3.11)
+ * @param text Raw text
+ * @returns Escaped text
+ */
+export const escapeICSText = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Folds a content line to at most 75 octets per line (RFC 5545 §3.1)
+ * @param line Unfolded content line
+ * @returns Folded line using CRLF + space continuations
+ */
+export const foldICSLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const toICSDate = (isoDate: string): string => isoDate.replace(/-/g, '');
+
+// DTEND of an all-day event is exclusive
+const toICSEndDate = (isoDate: string): string =>
+  format(addDays(parseISO(isoDate), 1), 'yyyyMMdd');
+
+const toICSTimestamp = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Builds the UID for a calendar range from its id, so moving or resizing the range updates
+ * the imported event instead of adding another. Ranges without an id (holidays) fall back
+ * to their dates.
+ * @param groupId Owning group id
+ * @param range Date range
+ * @returns UID that stays the same across exports of the same range
+ */
+export const getRangeUID = (groupId: string, range: DateRange): string =>
+  `${groupId}-${range.recurrence ? 'series' : 'range'}-${range.id ?? `${range.start}-${range.end}`}@${UID_DOMAIN}`;
+
+/**
+ * Formats a recurrence rule as an RRULE value (RFC 5545 §3.3.10).
+ * Weeks start on Sunday here unless the rule says otherwise, but on Monday by default in
+ * RFC 5545. That changes which days share a week when a weekly rule skips weeks, so those
+ * rules always carry WKST.
+ * @param rule Recurrence rule
+ * @returns Value such as FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;WKST=SU
+ */
+export const formatRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.until) parts.push(`UNTIL=${toICSDate(rule.until)}`);
+  else if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.frequency === 'weekly' && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${[...rule.byWeekday].sort().map(weekday => WEEKDAY_CODES[weekday]).join(',')}`);
+  } else if (rule.frequency === 'monthly' && rule.byNthWeekday) {
+    parts.push(`BYDAY=${rule.byNthWeekday.n}${WEEKDAY_CODES[rule.byNthWeekday.weekday]}`);
+  }
+  if (rule.frequency === 'weekly' && rule.interval && rule.interval > 1) {
+    parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart ?? 0]}`);
+  }
+  return parts.join(';');
+};
+
+/**
+ * Builds the UID for a PTO entry from its id, so moving or resizing the entry updates
+ * the imported event instead of adding another. Entries without an id fall back to
+ * their dates, which are unique within a group.
+ * @param groupId Owning group id
+ * @param entry PTO entry
+ * @returns UID that stays the same across exports of the same entry
+ */
+export const getPTOEntryUID = (groupId: string, entry: PTOEntry): string =>
+  `${groupId}-pto-${entry.id ?? `${entry.startDate}-${entry.endDate}`}@${UID_DOMAIN}`;
+
+/**
+ * Builds the summary line for a PTO entry; partial days carry their hours
+ * @param entry PTO entry
+ * @param fullDayHours Length of a full PTO day for the group
+ * @returns Summary such as "PTO: Dentist (4h)", "PTO (4h/day)" or "Sick: Flu"
+ */
+export const getPTOEntrySummary = (
+  entry: PTOEntry,
+  fullDayHours: number = DEFAULT_PTO_POLICY.hoursPerWorkday
+): string => {
+  const leaveType = PTOCalendarUtils.getLeaveType(entry);
+  const label = leaveType === 'vacation' ? 'PTO' : LEAVE_TYPE_LABELS[leaveType];
+  const base = entry.name ? `${label}: ${entry.name}` : label;
+  if (entry.hoursPerDay >= fullDayHours) return base;
+  const perDay = entry.startDate === entry.endDate ? '' : '/day';
+  return `${base} (${entry.hoursPerDay}h${perDay})`;
+};
+
+const buildEvent = (properties: string[]): string[] => [
+  'BEGIN:VEVENT',
+  ...properties,
+  'END:VEVENT'
+];
+
+/**
+ * Generates an iCalendar document for a group's ranges and PTO entries.
+ * PTO-enabled groups mirror each scheduled PTO day as a single-day range; those ranges
+ * are skipped so every day off is exported once, as its PTO event.
+ * @param group Event group to export
+ * @param now Timestamp written to DTSTAMP
+ * @returns .ics file content with CRLF line endings
+ */
+export const generateICS = (group: EventGroup, now: Date = new Date()): string => {
+  const stamp = `DTSTAMP:${toICSTimestamp(now)}`;
+  const ptoEntries = group.ptoConfig?.isEnabled ? (group.ptoEntries || []) : [];
+  const workdayHours = PTOCalendarUtils.getWorkdayHours(group.ptoConfig);
+
+  const isCoveredByPTO = (range: DateRange) =>
+    ptoEntries.some(entry => range.start >= entry.startDate && range.end <= entry.endDate);
+
+  const rangeEvents = group.ranges
+    .filter(range => !isCoveredByPTO(range))
+    .flatMap(range => buildEvent([
+      `UID:${getRangeUID(group.id, range)}`,
+      stamp,
+      `DTSTART;VALUE=DATE:${toICSDate(range.start)}`,
+      `DTEND;VALUE=DATE:${toICSEndDate(range.end)}`,
+      `SUMMARY:${escapeICSText(range.description || group.name)}`,
+      ...(range.description ? [`DESCRIPTION:${escapeICSText(range.description)}`] : []),
+      `CATEGORIES:${escapeICSText(group.name)}`,
+      'TRANSP:TRANSPARENT',
+      ...(range.recurrence ? [`RRULE:${formatRRule(range.recurrence)}`] : []),
+      ...(range.recurrence?.exceptions?.length
+        ? [`EXDATE;VALUE=DATE:${range.recurrence.exceptions.map(toICSDate).join(',')}`]
+        : [])
+    ]));
+
+  const ptoEvents = ptoEntries.flatMap(entry => buildEvent([
+    `UID:${getPTOEntryUID(group.id, entry)}`,
+    stamp,
+    `DTSTART;VALUE=DATE:${toICSDate(entry.startDate)}`,
+    `DTEND;VALUE=DATE:${toICSEndDate(entry.endDate)}`,
+    `SUMMARY:${escapeICSText(getPTOEntrySummary(entry, workdayHours))}`,
+    `DESCRIPTION:${escapeICSText(`${entry.totalHours}h of PTO from ${group.name}`)}`,
+    `CATEGORIES:${escapeICSText(group.name)}`,
+    'TRANSP:OPAQUE',
+    'X-MICROSOFT-CDO-BUSYSTATUS:OOF'
+  ]));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICSText(group.name)}`,
+    ...rangeEvents,
+    ...ptoEvents,
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldICSLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Export a group as an .ics file for Outlook, Google Calendar or Apple Calendar
+ * @param group Event group to export
+ */
+export const exportGroupAsICS = (group: EventGroup): void => {
+  const blob = new Blob([generateICS(group)], { type: 'text/calendar;charset=utf-8' });
+  const fileName = group.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'calendar';
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${fileName}-${format(new Date(), 'yyyy-MM-dd')}.ics`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
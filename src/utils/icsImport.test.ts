@@ -0,0 +1,216 @@
+/**
+ * Test suite for iCalendar import
+ * Testing parsing, recurrence expansion and overlap detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildImportPreview,
+  expandICSEvents,
+  parseICS,
+  parseRRule,
+  unescapeICSText
+} from './icsImport';
+import { generateICS } from './icsExport';
+import type { EventGroup } from '../store';
+
+const calendar = (...events: string[][]) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'X-WR-CALNAME:Team OOO',
+    ...events.flatMap(lines => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR'
+  ].join('\r\n');
+
+describe('icsImport', () => {
+  describe('parseICS', () => {
+    it('should reject content that is not an iCalendar file', () => {
+      expect(() => parseICS('name,start\nBob,2025-01-01')).toThrow('not an iCalendar');
+    });
+
+    it('should read the calendar name', () => {
+      expect(parseICS(calendar()).name).toBe('Team OOO');
+    });
+
+    it('should treat all-day DTEND as exclusive', () => {
+      const { events } = parseICS(calendar([
+        'DTSTART;VALUE=DATE:20250310',
+        'DTEND;VALUE=DATE:20250313',
+        'SUMMARY:Offsite'
+      ]));
+      expect(events).toEqual([{ start: '2025-03-10', end: '2025-03-12', summary: 'Offsite' }]);
+    });
+
+    it('should map timed events to the days they cover', () => {
+      const { events } = parseICS(calendar(
+        ['DTSTART;TZID=Europe/London:20250401T090000', 'DTEND;TZID=Europe/London:20250402T170000'],
+        ['DTSTART:20250405T220000', 'DTEND:20250406T000000']
+      ));
+      expect(events.map(e => [e.start, e.end])).toEqual([
+        ['2025-04-01', '2025-04-02'],
+        ['2025-04-05', '2025-04-05']
+      ]);
+    });
+
+    it('should use DURATION when DTEND is missing', () => {
+      const { events } = parseICS(calendar(['DTSTART;VALUE=DATE:20250501', 'DURATION:P3D']));
+      expect(events[0].end).toBe('2025-05-03');
+    });
+
+    it('should unfold long lines and unescape the summary', () => {
+      const { events } = parseICS(calendar([
+        'DTSTART;VALUE=DATE:20250501',
+        'SUMMARY:Conference\\, Berlin\\; day',
+        '  one'
+      ]));
+      expect(events[0].summary).toBe('Conference, Berlin; day one');
+    });
+
+    it('should skip cancelled events and nested alarms', () => {
+      const { events } = parseICS(calendar(
+        ['DTSTART;VALUE=DATE:20250501', 'STATUS:CANCELLED'],
+        ['DTSTART;VALUE=DATE:20250502', 'BEGIN:VALARM', 'TRIGGER:-PT15M', 'DESCRIPTION:Reminder', 'END:VALARM']
+      ));
+      expect(events).toEqual([{ start: '2025-05-02', end: '2025-05-02' }]);
+    });
+
+    it('should collect EXDATEs and RECURRENCE-ID overrides as exceptions', () => {
+      const { events } = parseICS(calendar(
+        ['UID:standup', 'DTSTART;VALUE=DATE:20250106', 'RRULE:FREQ=WEEKLY;COUNT=4', 'EXDATE;VALUE=DATE:20250113,20250120'],
+        ['UID:standup', 'RECURRENCE-ID;VALUE=DATE:20250127', 'DTSTART;VALUE=DATE:20250128', 'SUMMARY:Moved']
+      ));
+      expect(events[0].recurrence?.exceptions).toEqual(['2025-01-13', '2025-01-20', '2025-01-27']);
+      expect(events[1]).toEqual({ uid: 'standup', start: '2025-01-28', end: '2025-01-28', summary: 'Moved' });
+    });
+
+    it('should import events with unsupported rules once and flag them', () => {
+      const { events } = parseICS(calendar(['DTSTART;VALUE=DATE:20250101', 'SUMMARY:Payday', 'RRULE:FREQ=MONTHLY;BYMONTHDAY=1,15']));
+
+      expect(events[0]).toEqual({ start: '2025-01-01', end: '2025-01-01', summary: 'Payday', unsupportedRecurrence: true });
+      expect(expandICSEvents(events, 2025)).toEqual([{ start: '2025-01-01', end: '2025-01-01', description: 'Payday' }]);
+    });
+
+    it('should round-trip calendars exported by PocketCal', () => {
+      const group: EventGroup = {
+        id: 'grp1',
+        name: 'Team Offsite',
+        color: '#24d05a',
+        ranges: [{ start: '2025-03-10', end: '2025-03-12', description: 'Planning, Q2' }]
+      };
+      const { events } = parseICS(generateICS(group));
+      expect(expandICSEvents(events, 2025)).toEqual(group.ranges);
+    });
+  });
+
+  describe('parseRRule', () => {
+    it('should parse weekly rules with weekdays', () => {
+      expect(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20250630T235959Z')).toEqual({
+        frequency: 'weekly',
+        interval: 2,
+        until: expect.stringMatching(/^2025-0(6-30|7-01)$/),
+        byWeekday: [1, 3],
+        weekStart: 1
+      });
+    });
+
+    it('should count skipped weeks from WKST, or from Monday when it is missing', () => {
+      expect(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,MO;WKST=SU')).toEqual({ frequency: 'weekly', interval: 2, byWeekday: [0, 1] });
+      expect(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,MO;WKST=WE')?.weekStart).toBe(3);
+      expect(parseRRule('FREQ=WEEKLY;BYDAY=SU,MO')).toEqual({ frequency: 'weekly', byWeekday: [0, 1] });
+    });
+
+    it('should parse monthly nth-weekday rules', () => {
+      expect(parseRRule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=6')).toEqual({
+        frequency: 'monthly',
+        count: 6,
+        byNthWeekday: { n: -1, weekday: 5 }
+      });
+    });
+
+    it('should parse nth weekdays written with BYSETPOS', () => {
+      expect(parseRRule('FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2')).toEqual({ frequency: 'monthly', byNthWeekday: { n: 2, weekday: 2 } });
+    });
+
+    it('should accept parts that repeat the first occurrence', () => {
+      expect(parseRRule('FREQ=MONTHLY;BYMONTHDAY=15', '2025-01-15')).toEqual({ frequency: 'monthly' });
+      expect(parseRRule('FREQ=YEARLY;BYMONTH=3;BYMONTHDAY=10', '2025-03-10')).toEqual({ frequency: 'yearly' });
+      expect(parseRRule('FREQ=DAILY;BYHOUR=9;COUNT=3', '2025-03-10')).toEqual({ frequency: 'daily', count: 3 });
+    });
+
+    it('should reject rules it would repeat on the wrong dates', () => {
+      [
+        'FREQ=MONTHLY;BYMONTHDAY=1,15',
+        'FREQ=MONTHLY;BYMONTHDAY=20',
+        'FREQ=YEARLY;BYMONTH=11;BYDAY=4TH',
+        'FREQ=MONTHLY;BYDAY=MO,TU',
+        'FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13',
+        'FREQ=WEEKLY;BYDAY=MO;BYSETPOS=1',
+        'FREQ=DAILY;BYDAY=MO,WE',
+        'FREQ=YEARLY;BYWEEKNO=20'
+      ].forEach(value => expect(parseRRule(value, '2025-01-15')).toBeNull());
+    });
+
+    it('should ignore frequencies finer than a day', () => {
+      expect(parseRRule('FREQ=HOURLY;COUNT=3')).toBeNull();
+    });
+  });
+
+  describe('expandICSEvents', () => {
+    it('should expand recurring events within the displayed year', () => {
+      const { events } = parseICS(calendar([
+        'DTSTART;VALUE=DATE:20241230',
+        'DTEND;VALUE=DATE:20241231',
+        'RRULE:FREQ=MONTHLY;BYDAY=-1MO',
+        'EXDATE;VALUE=DATE:20250331',
+        'SUMMARY:Focus day'
+      ]));
+      const ranges = expandICSEvents(events, 2025);
+
+      expect(ranges).toHaveLength(11);
+      expect(ranges[0]).toEqual({ start: '2025-01-27', end: '2025-01-27', description: 'Focus day' });
+      expect(ranges.map(r => r.start)).not.toContain('2025-03-31');
+      expect(ranges[10].start).toBe('2025-12-29');
+    });
+
+    it('should keep multi-day occurrences that start before the year', () => {
+      const { events } = parseICS(calendar([
+        'DTSTART;VALUE=DATE:20231230',
+        'DTEND;VALUE=DATE:20240103',
+        'RRULE:FREQ=YEARLY'
+      ]));
+      expect(expandICSEvents(events, 2025)).toEqual([
+        { start: '2024-12-30', end: '2025-01-02' },
+        { start: '2025-12-30', end: '2026-01-02' }
+      ]);
+    });
+
+    it('should drop one-off events outside the year and sort the rest', () => {
+      const { events } = parseICS(calendar(
+        ['DTSTART;VALUE=DATE:20250901'],
+        ['DTSTART;VALUE=DATE:20240901'],
+        ['DTSTART;VALUE=DATE:20250105']
+      ));
+      expect(expandICSEvents(events, 2025).map(r => r.start)).toEqual(['2025-01-05', '2025-09-01']);
+    });
+  });
+
+  describe('buildImportPreview', () => {
+    it('should flag ranges that share a day with existing ranges', () => {
+      const preview = buildImportPreview(
+        [
+          { start: '2025-03-10', end: '2025-03-12' },
+          { start: '2025-03-13', end: '2025-03-14' }
+        ],
+        [{ start: '2025-03-12', end: '2025-03-12' }]
+      );
+      expect(preview.map(item => item.overlaps)).toEqual([true, false]);
+    });
+  });
+
+  describe('unescapeICSText', () => {
+    it('should restore escaped characters and newlines', () => {
+      expect(unescapeICSText('a\\\\b\\;c\\,d\\ne')).toBe('a\\b;c,d\ne');
+    });
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * iCalendar Import Utilities
+ * Parses RFC 5545 (.ics) files into calendar date ranges
+ */
+
+import { addDays, differenceInCalendarDays, format, formatISO, parseISO } from 'date-fns';
+import type { DateRange } from '../store';
+import { expandRecurrence, RecurrenceFrequency, RecurrenceRule } from './recurrence';
+
+export interface ICSEvent {
+  uid?: string;
+  summary?: string;
+  start: string;                // ISO date of the first day
+  end: string;                  // ISO date of the last day (inclusive)
+  recurrence?: RecurrenceRule;
+  unsupportedRecurrence?: boolean; // Has an RRULE this app can't repeat, so only its first date is kept
+}
+
+export interface ICSCalendar {
+  name?: string;                // X-WR-CALNAME, when the file provides one
+  events: ICSEvent[];
+}
+
+export interface ICSImportItem {
+  range: DateRange;
+  overlaps: boolean;            // Shares at least one day with an existing range
+}
+
+interface ICSProperty {
+  name: string;
+  value: string;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly'
+};
+
+const toISODate = (date: Date): string => formatISO(date, { representation: 'date' });
+
+/**
+ * Reverses TEXT escaping (RFC 5545 §3.3.11)
+ * @param text Escaped property value
+ * @returns Plain text
+ */
+export const unescapeICSText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Splits "NAME;PARAM="a:b":value" into name and value; parameters are not needed
+const parseProperty = (line: string): ICSProperty | null => {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const name = line.slice(0, colon).split(';')[0];
+  return { name: name.toUpperCase(), value: line.slice(colon + 1) };
+};
+
+/**
+ * Parses a DATE or DATE-TIME value into an ISO date.
+ * UTC times (trailing Z) are converted to the local day; times with a TZID are
+ * taken at face value, since only the calendar day matters here.
+ * @param value Value such as 20250310, 20250310T090000 or 20250310T090000Z
+ * @returns ISO date and whether the value carried a time of midnight
+ */
+const parseICSDate = (value: string): { date: string; isMidnight: boolean } | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (!hours) {
+    return { date: `${year}-${month}-${day}`, isMidnight: true };
+  }
+
+  const date = utc
+    ? new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+    : new Date(+year, +month - 1, +day, +hours, +minutes, +seconds);
+  return {
+    date: toISODate(date),
+    isMidnight: date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0
+  };
+};
+
+// Whole days covered by a DURATION such as P3D, P1W or PT4H (rounded up)
+const parseDurationDays = (value: string): number => {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return 0;
+  const [, weeks, days, hours, minutes, seconds] = match.map(part => Number(part) || 0);
+  const timeDays = (hours * 3600 + minutes * 60 + seconds) / 86400;
+  return weeks * 7 + days + Math.ceil(timeDays);
+};
+
+// Parts that only pick times within a day, which don't change the days an event falls on
+const TIME_PARTS = ['BYHOUR', 'BYMINUTE', 'BYSECOND'];
+
+/**
+ * Parses an RRULE value into a recurrence rule.
+ * Rules this app can't repeat exactly, such as several days of the month or the 4th Thursday
+ * of November, return null rather than being expanded on the wrong dates. Parts that only
+ * repeat the first occurrence's day or month are accepted.
+ * @param value RRULE value, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE
+ * @param startDate First occurrence (ISO date), used to check BYMONTHDAY and BYMONTH
+ * @returns Recurrence rule, or null for frequencies finer than a day and unsupported rules
+ */
+export const parseRRule = (value: string, startDate?: string): RecurrenceRule | null => {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, val] = part.split('=');
+    if (key && val) parts[key.toUpperCase()] = val.toUpperCase();
+  });
+
+  const frequency = FREQUENCIES[parts.FREQ];
+  if (!frequency) return null;
+
+  const supported = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYSETPOS', 'BYMONTHDAY', 'BYMONTH', 'WKST', ...TIME_PARTS];
+  if (Object.keys(parts).some(key => !supported.includes(key))) return null;
+
+  const start = startDate ? parseISO(startDate) : null;
+  // Day of the month or month that is the same as the first occurrence's
+  const repeatsStart = (part: string | undefined, startValue: number | undefined) =>
+    part === undefined || (startValue !== undefined && parseInt(part, 10) === startValue && /^\d+$/.test(part));
+  if (parts.BYMONTHDAY && frequency !== 'monthly' && frequency !== 'yearly') return null;
+  if (parts.BYMONTH && frequency !== 'yearly') return null;
+  if (!repeatsStart(parts.BYMONTHDAY, start?.getDate()) || !repeatsStart(parts.BYMONTH, start ? start.getMonth() + 1 : undefined)) {
+    return null;
+  }
+
+  const rule: RecurrenceRule = { frequency };
+  if (parts.INTERVAL) rule.interval = parseInt(parts.INTERVAL, 10);
+  if (parts.COUNT) rule.count = parseInt(parts.COUNT, 10);
+  if (parts.UNTIL) {
+    const until = parseICSDate(parts.UNTIL);
+    if (until) rule.until = until.date;
+  }
+
+  const days = (parts.BYDAY ? parts.BYDAY.split(',') : []).map(day => {
+    const match = day.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+    return match ? { n: match[1] ? parseInt(match[1], 10) : 0, weekday: WEEKDAY_CODES.indexOf(match[2]) } : null;
+  });
+  if (days.some(day => day === null)) return null;
+  const weekdays = days as { n: number; weekday: number }[];
+  const setPosition = parts.BYSETPOS ? Number(parts.BYSETPOS) : undefined;
+
+  if (frequency === 'weekly') {
+    if (setPosition !== undefined || weekdays.some(day => day.n !== 0)) return null;
+    if (weekdays.length > 0) rule.byWeekday = weekdays.map(day => day.weekday);
+    // RFC 5545 weeks start on Monday unless WKST says otherwise; it only matters when weeks are skipped
+    const weekStart = parts.WKST ? WEEKDAY_CODES.indexOf(parts.WKST) : 1;
+    if (weekStart < 0) return null;
+    if ((rule.interval ?? 1) > 1 && weekStart !== 0) rule.weekStart = weekStart;
+  } else if (frequency === 'monthly' && weekdays.length > 0) {
+    // One nth weekday, written as BYDAY=2TU or as BYDAY=TU;BYSETPOS=2
+    const [day] = weekdays;
+    const n = day.n !== 0 ? day.n : setPosition;
+    if (weekdays.length !== 1 || parts.BYMONTHDAY || (day.n !== 0 && setPosition !== undefined)) return null;
+    if (n === undefined || !Number.isInteger(n) || n === 0 || Math.abs(n) > 5) return null;
+    rule.byNthWeekday = { n, weekday: day.weekday };
+  } else if (weekdays.length > 0 || setPosition !== undefined) {
+    return null;
+  }
+
+  return rule;
+};
+
+const buildEvent = (properties: ICSProperty[]): ICSEvent | null => {
+  const get = (name: string) => properties.find(p => p.name === name);
+
+  if (get('STATUS')?.value.toUpperCase() === 'CANCELLED') return null;
+
+  const dtstart = get('DTSTART');
+  const start = dtstart && parseICSDate(dtstart.value);
+  if (!start) return null;
+
+  let end = start.date;
+  const dtend = get('DTEND');
+  const duration = get('DURATION');
+  const endDate = dtend && parseICSDate(dtend.value);
+  if (endDate) {
+    // All-day DTEND is exclusive, as is a timed event ending at midnight
+    end = endDate.isMidnight && endDate.date > start.date
+      ? toISODate(addDays(parseISO(endDate.date), -1))
+      : endDate.date;
+  } else if (duration) {
+    const days = parseDurationDays(duration.value);
+    if (days > 0) end = toISODate(addDays(parseISO(start.date), days - 1));
+  }
+  if (end < start.date) end = start.date;
+
+  const event: ICSEvent = { start: start.date, end };
+
+  const uid = get('UID');
+  if (uid) event.uid = uid.value;
+
+  const summary = get('SUMMARY');
+  if (summary && summary.value.trim()) event.summary = unescapeICSText(summary.value).trim();
+
+  const rrule = get('RRULE');
+  const recurrence = rrule && !get('RECURRENCE-ID') ? parseRRule(rrule.value, start.date) : null;
+  // Imported on its first date only
+  if (rrule && !get('RECURRENCE-ID') && !recurrence) event.unsupportedRecurrence = true;
+  if (recurrence) {
+    const exceptions = properties
+      .filter(p => p.name === 'EXDATE')
+      .flatMap(p => p.value.split(','))
+      .map(value => parseICSDate(value)?.date)
+      .filter((date): date is string => !!date);
+    if (exceptions.length > 0) recurrence.exceptions = exceptions;
+    event.recurrence = recurrence;
+  }
+
+  return event;
+};
+
+/**
+ * Parses the VEVENTs of an iCalendar file.
+ * Cancelled events are dropped; RECURRENCE-ID overrides replace the occurrence
+ * they modify in their series.
+ * @param content .ics file content
+ * @returns Calendar name and events
+ * @throws Error if the content is not an iCalendar file
+ */
+export const parseICS = (content: string): ICSCalendar => {
+  // Unfold continuation lines (RFC 5545 §3.1)
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('This file is not an iCalendar (.ics) file');
+  }
+
+  const calendar: ICSCalendar = { events: [] };
+  const overrides: { uid?: string; date: string }[] = [];
+  let current: ICSProperty[] | null = null;
+  let depth = 0; // Nested components inside a VEVENT, such as VALARM
+
+  lines.forEach(line => {
+    const property = parseProperty(line);
+    if (!property) return;
+
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      current = [];
+      depth = 0;
+      return;
+    }
+
+    if (!current) {
+      if (property.name === 'X-WR-CALNAME') calendar.name = unescapeICSText(property.value);
+      return;
+    }
+
+    if (property.name === 'BEGIN') {
+      depth++;
+    } else if (property.name === 'END' && depth > 0) {
+      depth--;
+    } else if (property.name === 'END' && property.value.toUpperCase() === 'VEVENT') {
+      const event = buildEvent(current);
+      const recurrenceId = current.find(p => p.name === 'RECURRENCE-ID');
+      const overrideDate = recurrenceId && parseICSDate(recurrenceId.value);
+      if (overrideDate) overrides.push({ uid: event?.uid, date: overrideDate.date });
+      if (event) calendar.events.push(event);
+      current = null;
+    } else if (depth === 0) {
+      current.push(property);
+    }
+  });
+
+  // Overridden occurrences are replaced by their override event
+  overrides.forEach(({ uid, date }) => {
+    const series = calendar.events.find(event => event.recurrence && event.uid === uid);
+    if (series?.recurrence) {
+      series.recurrence.exceptions = [...(series.recurrence.exceptions || []), date];
+    }
+  });
+
+  return calendar;
+};
+
+/**
+ * Expands parsed events into date ranges for one calendar year.
+ * Recurring events produce one range per occurrence; events that do not touch
+ * the year are left out.
+ * @param events Parsed events
+ * @param year Displayed calendar year
+ * @returns Date ranges sorted by start date, with SUMMARY as the description
+ */
+export const expandICSEvents = (events: ICSEvent[], year: number): DateRange[] => {
+  const yearStart = `${year}-01-01`;
+  const yearEnd = `${year}-12-31`;
+
+  const ranges = events.flatMap(event => {
+    const length = differenceInCalendarDays(parseISO(event.end), parseISO(event.start));
+    const toRange = (start: string): DateRange => ({
+      start,
+      end: toISODate(addDays(parseISO(start), length)),
+      ...(event.summary ? { description: event.summary } : {})
+    });
+
+    if (!event.recurrence) {
+      return [toRange(event.start)];
+    }
+
+    // Occurrences starting shortly before the year can still run into it
+    const windowStart = toISODate(addDays(parseISO(yearStart), -length));
+    return expandRecurrence(event.start, event.recurrence, windowStart, yearEnd).map(toRange);
+  });
+
+  return ranges
+    .filter(range => range.end >= yearStart && range.start <= yearEnd)
+    .sort((a, b) => a.start.localeCompare(b.start) || a.end.localeCompare(b.end));
+};
+
+/**
+ * Checks whether two ranges share at least one day
+ * @param a First range
+ * @param b Second range
+ * @returns True if the ranges overlap
+ */
+export const rangesOverlap = (a: DateRange, b: DateRange): boolean =>
+  a.start <= b.end && b.start <= a.end;
+
+/**
+ * Builds the import preview, flagging ranges that overlap the target group
+ * @param ranges Ranges to import
+ * @param existing Ranges already on the target group
+ * @returns Preview items
+ */
+export const buildImportPreview = (ranges: DateRange[], existing: DateRange[]): ICSImportItem[] =>
+  ranges.map(range => ({
+    range,
+    overlaps: existing.some(other => rangesOverlap(range, other))
+  }));
+
+/**
+ * Formats a range for the import preview
+ * @param range Date range
+ * @returns Label such as "Mar 10" or "Mar 10 – Mar 12"
+ */
+export const formatImportRange = (range: DateRange): string => {
+  const start = format(parseISO(range.start), 'MMM d');
+  return range.start === range.end ? start : `${start} – ${format(parseISO(range.end), 'MMM d')}`;
+};
+
+/**
+ * Read an .ics file selected by the user
+ * @param file File from an input element
+ * @returns File content
+ */
+export const readICSFile = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(String(e.target?.result ?? ''));
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.readAsText(file);
+  });
@@ -0,0 +1,274 @@
+/**
+ * Test suite for the PTO balance simulation
+ * Testing accrual schedules, running balances and booking checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkPTOBooking,
+  getAccrualEvents,
+  getBalanceChanges,
+  getBalanceDips,
+  getLeaveBalances,
+  getPTOConfigForYear,
+  simulatePTOBalance,
+  validateAccrualSchedule
+} from './ptoBalance';
+import { PTOCalendarUtils, PTOConfig } from './ptoUtils';
+import { UNISPACE_POLICY } from './ptoPolicy';
+
+describe('ptoBalance', () => {
+  // 168h a year accrues 168 / 365 hours per day in 2025
+  const dailyRate = 168 / 365;
+  const config: PTOConfig = { yearsOfService: 2, rolloverHours: 0, isEnabled: true };
+  const day = (date: string, hours = 8) => PTOCalendarUtils.createSingleDayEntry(date, hours);
+
+  describe('getAccrualEvents', () => {
+    it('should credit every day of the year for daily accrual', () => {
+      const events = getAccrualEvents({ frequency: 'daily' }, 168, 2025);
+      expect(events).toHaveLength(365);
+      expect(events[0].date).toBe('2025-01-01');
+      expect(events.reduce((sum, e) => sum + e.hours, 0)).toBeCloseTo(168, 6);
+    });
+
+    it('should split the allowance across bi-weekly paydays', () => {
+      const events = getAccrualEvents({ frequency: 'biweekly', anchorDate: '2024-12-27' }, 168, 2025);
+      expect(events).toHaveLength(26);
+      expect(events[0]).toEqual({ date: '2025-01-10', hours: 168 / 26 });
+      expect(events[25].date).toBe('2025-12-26');
+    });
+
+    it('should follow the cadence of an anchor later in the year', () => {
+      const events = getAccrualEvents({ frequency: 'biweekly', anchorDate: '2025-05-30' }, 168, 2025);
+      expect(events[0].date).toBe('2025-01-10');
+    });
+
+    it('should credit weekly paydays', () => {
+      const events = getAccrualEvents({ frequency: 'weekly', anchorDate: '2025-01-03' }, 156, 2025);
+      expect(events).toHaveLength(52);
+      expect(events.slice(0, 2).map(e => e.date)).toEqual(['2025-01-03', '2025-01-10']);
+      expect(events[0].hours).toBe(3);
+    });
+
+    it('should credit semi-monthly on the 15th and the last day', () => {
+      const events = getAccrualEvents({ frequency: 'semimonthly' }, 168, 2024);
+      expect(events).toHaveLength(24);
+      expect(events.slice(2, 4).map(e => e.date)).toEqual(['2024-02-15', '2024-02-29']);
+      expect(events[0].hours).toBe(7);
+    });
+
+    it('should credit monthly on the last day', () => {
+      const events = getAccrualEvents({ frequency: 'monthly' }, 168, 2025);
+      expect(events.map(e => e.date).slice(0, 3)).toEqual(['2025-01-31', '2025-02-28', '2025-03-31']);
+      expect(events[11]).toEqual({ date: '2025-12-31', hours: 14 });
+    });
+
+    it('should credit a lump sum on Jan 1', () => {
+      expect(getAccrualEvents({ frequency: 'lumpsum' }, 168, 2025)).toEqual([{ date: '2025-01-01', hours: 168 }]);
+    });
+  });
+
+  describe('simulatePTOBalance', () => {
+    it('should start from the carryover and add accruals', () => {
+      const timeline = simulatePTOBalance([], { ...config, rolloverHours: 16 }, 2025);
+      expect(timeline).toHaveLength(365);
+      expect(timeline[30].balance).toBeCloseTo(16 + 31 * dailyRate, 6);
+      expect(timeline[364].balance).toBeCloseTo(184, 6);
+    });
+
+    it('should draw multi-day entries one workday at a time', () => {
+      const entry = PTOCalendarUtils.createMultiDayEntry('2025-02-07', '2025-02-10', 8);
+      const timeline = simulatePTOBalance([entry], config, 2025);
+      const used = timeline.filter(d => d.used > 0).map(d => [d.date, d.used]);
+      expect(used).toEqual([['2025-02-07', 8], ['2025-02-10', 8]]);
+    });
+
+    it('should draw each day at the hours scheduled that day', () => {
+      const entry = PTOCalendarUtils.createMultiDayEntry('2025-02-06', '2025-02-10', 10);
+      const schedule: PTOConfig = { ...config, workdayHours: 10, workSchedule: [0, 10, 10, 10, 10, 0, 0] };
+      const used = simulatePTOBalance([entry], schedule, 2025).filter(d => d.used > 0).map(d => [d.date, d.used]);
+      expect(used).toEqual([['2025-02-06', 10], ['2025-02-10', 10]]);
+    });
+
+    it('should forfeit unused carryover the day after it expires', () => {
+      const policy = { ...UNISPACE_POLICY, carryoverExpiry: '03-31' };
+      const timeline = simulatePTOBalance([day('2025-03-03'), day('2025-03-04')], { ...config, rolloverHours: 40, policy }, 2025);
+      expect(timeline.find(d => d.date === '2025-04-01')?.forfeited).toBe(24);
+      expect(timeline.filter(d => d.forfeited > 0)).toHaveLength(1);
+    });
+  });
+
+  describe('getBalanceChanges', () => {
+    it('should list only the days the balance changes', () => {
+      const schedule = { frequency: 'monthly' as const };
+      const timeline = simulatePTOBalance([day('2025-02-03')], { ...config, accrual: schedule }, 2025);
+      const changes = getBalanceChanges(timeline, schedule);
+
+      expect(changes.slice(0, 3).map(c => [c.date, c.accrued, c.used, c.balance])).toEqual([
+        ['2025-01-31', 14, 0, 14],
+        ['2025-02-03', 0, 8, 6],
+        ['2025-02-28', 14, 0, 20]
+      ]);
+    });
+
+    it('should group daily accrual by month', () => {
+      const timeline = simulatePTOBalance([], config, 2025);
+      const changes = getBalanceChanges(timeline, { frequency: 'daily' });
+
+      expect(changes).toHaveLength(12);
+      expect(changes[1]).toMatchObject({ date: '2025-02-01', endDate: '2025-02-28' });
+      expect(changes[1].accrued).toBeCloseTo(28 * dailyRate, 6);
+      expect(changes[11].balance).toBeCloseTo(168, 6);
+    });
+  });
+
+  describe('getBalanceDips', () => {
+    const schedule = { frequency: 'monthly' as const };
+
+    it('should find the stretches spent below zero', () => {
+      const timeline = simulatePTOBalance([day('2025-01-06'), day('2025-01-07')], { ...config, accrual: schedule }, 2025);
+
+      expect(getBalanceDips(timeline)).toEqual([{ startDate: '2025-01-06', endDate: '2025-02-27', lowest: -16 }]);
+    });
+
+    it('should compare against a floor', () => {
+      const timeline = simulatePTOBalance([day('2025-02-03')], { ...config, accrual: schedule }, 2025);
+
+      expect(getBalanceDips(timeline)).toEqual([]);
+      expect(getBalanceDips(timeline, 10)).toEqual([
+        { startDate: '2025-01-01', endDate: '2025-01-30', lowest: 0 },
+        { startDate: '2025-02-03', endDate: '2025-02-27', lowest: 6 }
+      ]);
+    });
+  });
+
+  describe('checkPTOBooking', () => {
+    it('should flag a booking made before enough hours have accrued', () => {
+      const result = checkPTOBooking(day('2025-01-06'), [], config, 2025);
+      expect(result.isValid).toBe(false);
+      expect(result.warning).toContain('Jan 6');
+      expect(result.projectedBalance).toBeCloseTo(6 * dailyRate - 8, 6);
+    });
+
+    it('should allow the booking when carryover covers it', () => {
+      const result = checkPTOBooking(day('2025-01-06'), [], { ...config, rolloverHours: 16 }, 2025);
+      expect(result.isValid).toBe(true);
+      expect(result.projectedBalance).toBeCloseTo(16 + 6 * dailyRate - 8, 6);
+    });
+
+    it('should honour the policy\'s negative balance allowance', () => {
+      const policy = { ...UNISPACE_POLICY, negativeBalanceAllowance: 8 };
+      expect(checkPTOBooking(day('2025-01-06'), [], { ...config, policy }, 2025).isValid).toBe(true);
+      expect(checkPTOBooking(day('2025-01-02'), [day('2025-01-03')], { ...config, policy }, 2025).isValid).toBe(false);
+    });
+
+    it('should flag a booking that leaves a later entry short', () => {
+      const result = checkPTOBooking(day('2025-01-27'), [day('2025-02-03')], config, 2025);
+      expect(result.isValid).toBe(false);
+      expect(result.warning).toContain('Feb 3');
+    });
+
+    it('should ignore shortfalls before the booking', () => {
+      const result = checkPTOBooking(day('2025-06-02', 2), [day('2025-01-02')], config, 2025);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should treat an entry on the same date as replaced', () => {
+      const result = checkPTOBooking(day('2025-01-27'), [day('2025-01-27')], config, 2025);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should allow booking the whole allowance early with a lump sum', () => {
+      const lumpSum: PTOConfig = { ...config, accrual: { frequency: 'lumpsum' } };
+      expect(checkPTOBooking(day('2025-01-02', 8), [], lumpSum, 2025).isValid).toBe(true);
+    });
+
+    it('should wait for payday with bi-weekly accrual', () => {
+      const biweekly: PTOConfig = { ...config, accrual: { frequency: 'biweekly', anchorDate: '2024-12-27' } };
+      expect(checkPTOBooking(day('2025-01-09', 4), [], biweekly, 2025).isValid).toBe(false);
+      expect(checkPTOBooking(day('2025-01-10', 4), [], biweekly, 2025).isValid).toBe(true);
+    });
+  });
+
+  describe('leave buckets', () => {
+    const sickDay = (date: string) => PTOCalendarUtils.createSingleDayEntry(date, 8, undefined, 'sick');
+
+    it('should keep vacation and sick balances apart', () => {
+      const entries = [sickDay('2025-01-06'), day('2025-01-07', 2)];
+      const vacation = simulatePTOBalance(entries, config, 2025);
+      const sick = simulatePTOBalance(entries, config, 2025, 'sick');
+
+      expect(vacation[6].used).toBe(2);
+      expect(vacation[5].used).toBe(0);
+      expect(sick[0].balance).toBe(40);
+      expect(sick[5].balance).toBe(32);
+    });
+
+    it('should cap bucket rollover at the bucket\'s limit', () => {
+      const withRollover = { ...config, leaveRolloverHours: { sick: 60, floating: 8 } };
+      expect(getLeaveBalances([], withRollover, 2025)).toEqual([
+        { type: 'sick', usedHours: 0, allowanceHours: 80, remainingHours: 80 },
+        { type: 'floating', usedHours: 0, allowanceHours: 8, remainingHours: 8 },
+        { type: 'unpaid', usedHours: 0 }
+      ]);
+    });
+
+    it('should flag sick leave beyond the bucket', () => {
+      const entries = [1, 2, 3, 4, 5].map(d => sickDay(`2025-02-0${d + 2}`));
+      const result = checkPTOBooking(sickDay('2025-02-10'), entries, config, 2025);
+      expect(result.isValid).toBe(false);
+      expect(result.warning).toContain('Not enough sick hours accrued');
+    });
+
+    it('should not limit untracked leave', () => {
+      const result = checkPTOBooking(PTOCalendarUtils.createSingleDayEntry('2025-01-02', 8, undefined, 'unpaid'), [], config, 2025);
+      expect(result).toEqual({ isValid: true });
+    });
+  });
+
+  describe('getPTOConfigForYear', () => {
+    const plan: PTOConfig = { ...config, firstYear: 2025, accrual: { frequency: 'lumpsum' } };
+    const entries = [
+      day('2025-03-03'),
+      day('2025-03-04'),
+      PTOCalendarUtils.createSingleDayEntry('2025-02-03', 8, undefined, 'sick')
+    ];
+
+    it('should carry the closing balances into the next year', () => {
+      const nextYear = getPTOConfigForYear(plan, entries, 2026);
+
+      expect(nextYear.yearsOfService).toBe(3);
+      expect(nextYear.rolloverHours).toBe(152); // 168 - 16 used
+      expect(nextYear.leaveRolloverHours).toEqual({ sick: 32, floating: 8 });
+    });
+
+    it('should follow on from a year whose settings were changed', () => {
+      const withOverride = { ...plan, years: { 2026: { yearsOfService: 6, rolloverHours: 10 } } };
+
+      expect(getPTOConfigForYear(withOverride, entries, 2026).rolloverHours).toBe(10);
+      const later = getPTOConfigForYear(withOverride, entries, 2027);
+      expect(later.yearsOfService).toBe(7);
+      expect(later.rolloverHours).toBe(218); // 10 + 208 for five or more years
+    });
+
+    it('should start earlier years without rollover', () => {
+      const earlier = getPTOConfigForYear({ ...plan, rolloverHours: 40 }, entries, 2024);
+
+      expect(earlier.yearsOfService).toBe(1);
+      expect(earlier.rolloverHours).toBe(0);
+    });
+
+    it('should treat every year as the first without a first plan year', () => {
+      expect(getPTOConfigForYear(config, entries, 2030)).toEqual({ ...config, yearsOfService: 2, rolloverHours: 0 });
+    });
+  });
+
+  describe('validateAccrualSchedule', () => {
+    it('should require a payday for bi-weekly accrual', () => {
+      expect(validateAccrualSchedule({ frequency: 'daily' })).toBeNull();
+      expect(validateAccrualSchedule({ frequency: 'monthly' })).toBeNull();
+      expect(validateAccrualSchedule({ frequency: 'biweekly', anchorDate: 'soon' }))
+        .toBe('Weekly and bi-weekly accrual need a payday date');
+    });
+  });
+});
@@ -0,0 +1,420 @@
+/**
+ * PTO Balance Simulation
+ * Day-by-day running balance from accruals, bookings and carryover expiry
+ */
+
+import { addDays, differenceInCalendarDays, format, getDaysInYear, isValid, parseISO } from 'date-fns';
+import { LEAVE_TYPE_LABELS, LeaveType, PTOCalendarUtils, PTOConfig, PTOEntry } from './ptoUtils';
+import {
+  getCarryoverExpiryDate,
+  getCarryoverHours,
+  getLeaveBuckets,
+  getPTOPolicy,
+  getTenureBand
+} from './ptoPolicy';
+
+export type AccrualSchedule =
+  | { frequency: 'daily' }                                   // Each day's share is credited at the end of that day
+  | { frequency: 'weekly' | 'biweekly'; anchorDate: string } // Credited on paydays every 7 or 14 days from anchorDate
+  | { frequency: 'semimonthly' }                             // Credited on the 15th and the last day of each month
+  | { frequency: 'monthly' }                                 // Credited on the last day of each month
+  | { frequency: 'lumpsum' };                                // The whole allowance is credited on Jan 1
+
+export type AccrualFrequency = AccrualSchedule['frequency'];
+
+export const DEFAULT_ACCRUAL_SCHEDULE: AccrualSchedule = { frequency: 'daily' };
+
+export interface AccrualEvent {
+  date: string;  // ISO date the hours become available
+  hours: number;
+}
+
+export interface BalanceDay {
+  date: string;      // ISO date
+  accrued: number;   // Hours credited on this date
+  used: number;      // Hours drawn by PTO on this date
+  forfeited: number; // Carried-over hours lost at expiry
+  balance: number;   // Balance at the end of the day
+}
+
+export interface BalanceChange extends BalanceDay {
+  endDate: string; // Last day covered; later than date when daily accrual is grouped by month
+}
+
+export interface BalanceDip {
+  startDate: string; // First day below the floor
+  endDate: string;   // Last day below the floor
+  lowest: number;    // Lowest balance reached
+}
+
+export interface LeaveBalance {
+  type: LeaveType;
+  usedHours: number;        // Hours booked this year
+  allowanceHours?: number;  // Annual hours plus carryover; omitted for untracked leave
+  remainingHours?: number;  // Balance left at the end of the year; omitted for untracked leave
+}
+
+export interface PTOBookingCheck {
+  isValid: boolean;
+  warning?: string;
+  projectedBalance?: number; // Balance at the end of the entry's last day; omitted for untracked leave
+}
+
+interface BucketRules {
+  annualHours: number;
+  accrual: AccrualSchedule;
+  carryover: number;
+  expiryDate: string | null;
+  negativeAllowance: number;
+}
+
+const toISO = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+const CADENCE_DAYS = { weekly: 7, biweekly: 14 };
+const FREQUENCIES: AccrualFrequency[] = ['daily', 'weekly', 'biweekly', 'semimonthly', 'monthly', 'lumpsum'];
+
+/**
+ * Resolves the accrual schedule for a PTO configuration
+ * @param config PTO configuration (may be missing)
+ * @returns The configured schedule, or daily accrual
+ */
+export const getAccrualSchedule = (config?: Pick<PTOConfig, 'accrual'> | null): AccrualSchedule =>
+  config?.accrual ?? DEFAULT_ACCRUAL_SCHEDULE;
+
+/**
+ * Checks that an accrual schedule can be used for calculations
+ * @param schedule Schedule to check
+ * @returns A description of the problem, or null when valid
+ */
+export const validateAccrualSchedule = (schedule: AccrualSchedule): string | null => {
+  if (!FREQUENCIES.includes(schedule.frequency)) return 'Unknown accrual frequency';
+  if (schedule.frequency === 'weekly' || schedule.frequency === 'biweekly') {
+    return typeof schedule.anchorDate === 'string' && isValid(parseISO(schedule.anchorDate))
+      ? null
+      : 'Weekly and bi-weekly accrual need a payday date';
+  }
+  return null;
+};
+
+/**
+ * Describes an accrual schedule
+ * @param schedule Accrual schedule
+ * @returns Label such as "Daily" or "Every two weeks from Jan 3, 2025"
+ */
+export const getAccrualScheduleLabel = (schedule: AccrualSchedule): string => {
+  switch (schedule.frequency) {
+    case 'weekly':
+      return `Weekly from ${format(parseISO(schedule.anchorDate), 'MMM d, yyyy')}`;
+    case 'biweekly':
+      return `Every two weeks from ${format(parseISO(schedule.anchorDate), 'MMM d, yyyy')}`;
+    case 'semimonthly':
+      return 'Twice a month (15th and last day)';
+    case 'monthly':
+      return 'Monthly (last day)';
+    case 'lumpsum':
+      return 'All at once on Jan 1';
+    default:
+      return 'Daily';
+  }
+};
+
+/**
+ * Lists when allowance hours are credited during a year
+ * @param schedule Accrual schedule
+ * @param annualHours Hours earned over the whole year
+ * @param year Calendar year
+ * @returns Accrual events in date order, all within the year
+ */
+export const getAccrualEvents = (
+  schedule: AccrualSchedule,
+  annualHours: number,
+  year: number
+): AccrualEvent[] => {
+  const yearStart = new Date(year, 0, 1);
+  const daysInYear = getDaysInYear(yearStart);
+
+  // Splits the allowance evenly across the year's paydays
+  const perPayday = (paydays: Date[]): AccrualEvent[] =>
+    paydays.map(date => ({ date: toISO(date), hours: annualHours / paydays.length }));
+
+  switch (schedule.frequency) {
+    case 'weekly':
+    case 'biweekly': {
+      // First payday on or after Jan 1 in the anchor's cadence
+      const cadence = CADENCE_DAYS[schedule.frequency];
+      const offset = differenceInCalendarDays(yearStart, parseISO(schedule.anchorDate));
+      let payday = addDays(yearStart, (cadence - (offset % cadence)) % cadence);
+      const paydays: Date[] = [];
+      while (payday.getFullYear() === year) {
+        paydays.push(payday);
+        payday = addDays(payday, cadence);
+      }
+      return perPayday(paydays);
+    }
+    case 'semimonthly':
+      return perPayday(Array.from({ length: 12 }, (_, month) => [
+        new Date(year, month, 15),
+        new Date(year, month + 1, 0)
+      ]).flat());
+    case 'monthly':
+      return perPayday(Array.from({ length: 12 }, (_, month) => new Date(year, month + 1, 0)));
+    case 'lumpsum':
+      return perPayday([yearStart]);
+    default:
+      return Array.from({ length: daysInYear }, (_, i) => ({
+        date: toISO(addDays(yearStart, i)),
+        hours: annualHours / daysInYear
+      }));
+  }
+};
+
+// Returns null for leave types that aren't tracked against a balance
+const getBucketRules = (config: PTOConfig, year: number, leaveType: LeaveType): BucketRules | null => {
+  const policy = getPTOPolicy(config);
+  if (leaveType === 'vacation') {
+    return {
+      annualHours: getTenureBand(policy, config.yearsOfService).annualHours,
+      accrual: getAccrualSchedule(config),
+      carryover: getCarryoverHours(policy, config.rolloverHours),
+      expiryDate: getCarryoverExpiryDate(policy, year),
+      negativeAllowance: policy.negativeBalanceAllowance ?? 0
+    };
+  }
+
+  const bucket = getLeaveBuckets(policy).find(b => b.type === leaveType);
+  if (bucket?.annualHours === undefined) return null;
+  const rollover = config.leaveRolloverHours?.[leaveType] ?? 0;
+  return {
+    annualHours: bucket.annualHours,
+    accrual: bucket.accrual ?? { frequency: 'lumpsum' },
+    carryover: bucket.maxCarryoverHours !== undefined ? Math.min(rollover, bucket.maxCarryoverHours) : rollover,
+    expiryDate: null,
+    negativeAllowance: 0
+  };
+};
+
+/**
+ * Simulates the running balance of one leave bucket for every day of a year
+ * @param entries PTO entries (other leave types and entries outside the year are ignored)
+ * @param config PTO configuration
+ * @param year Calendar year
+ * @param leaveType Bucket to simulate
+ * @returns One record per day from Jan 1 to Dec 31, or none for untracked leave types
+ */
+export const simulatePTOBalance = (
+  entries: PTOEntry[],
+  config: PTOConfig,
+  year: number,
+  leaveType: LeaveType = 'vacation'
+): BalanceDay[] => {
+  const rules = getBucketRules(config, year, leaveType);
+  if (!rules) return [];
+  const { carryover, expiryDate } = rules;
+
+  const accruals = new Map<string, number>();
+  getAccrualEvents(rules.accrual, rules.annualHours, year).forEach(event => {
+    accruals.set(event.date, (accruals.get(event.date) ?? 0) + event.hours);
+  });
+
+  // Bookings are drawn one scheduled day at a time, in date order
+  const usage = new Map<string, number>();
+  entries.filter(entry => PTOCalendarUtils.getLeaveType(entry) === leaveType).forEach(entry => {
+    PTOCalendarUtils.getChargedDays(entry.startDate, entry.endDate || entry.startDate, entry.hoursPerDay, config)
+      .forEach(({ date, hours }) => usage.set(date, (usage.get(date) ?? 0) + hours));
+  });
+
+  const days: BalanceDay[] = [];
+  let balance = carryover;
+  let usedThroughExpiry = 0;
+  const yearStart = new Date(year, 0, 1);
+  for (let i = 0; i < getDaysInYear(yearStart); i++) {
+    const date = toISO(addDays(yearStart, i));
+    const accrued = accruals.get(date) ?? 0;
+    const used = usage.get(date) ?? 0;
+    // Carried-over hours are used first; whatever is left lapses the day after expiry
+    const forfeited = expiryDate && date === toISO(addDays(parseISO(expiryDate), 1))
+      ? Math.max(0, carryover - usedThroughExpiry)
+      : 0;
+
+    balance += accrued - used - forfeited;
+    if (expiryDate && date <= expiryDate) usedThroughExpiry += used;
+    days.push({ date, accrued, used, forfeited, balance });
+  }
+
+  return days;
+};
+
+/**
+ * Reduces a balance timeline to the days the balance changes
+ * @param timeline Output of simulatePTOBalance
+ * @param schedule Accrual schedule the timeline was simulated with
+ * @returns Changes in date order; daily accrual is grouped into one row per month
+ */
+export const getBalanceChanges = (timeline: BalanceDay[], schedule: AccrualSchedule): BalanceChange[] => {
+  if (schedule.frequency !== 'daily') {
+    return timeline
+      .filter(day => day.accrued > 0 || day.used > 0 || day.forfeited > 0)
+      .map(day => ({ ...day, endDate: day.date }));
+  }
+
+  const months = new Map<string, BalanceChange>();
+  timeline.forEach(day => {
+    const key = day.date.slice(0, 7);
+    const month = months.get(key);
+    if (!month) {
+      months.set(key, { ...day, endDate: day.date });
+      return;
+    }
+    month.accrued += day.accrued;
+    month.used += day.used;
+    month.forfeited += day.forfeited;
+    month.balance = day.balance;
+    month.endDate = day.date;
+  });
+  return [...months.values()];
+};
+
+/**
+ * Finds the stretches of a year the balance is below a floor
+ * @param timeline Output of simulatePTOBalance
+ * @param floor Lowest balance planned PTO should leave (0 flags only overdrawn days)
+ * @returns Stretches in date order
+ */
+export const getBalanceDips = (timeline: BalanceDay[], floor: number = 0): BalanceDip[] => {
+  const dips: BalanceDip[] = [];
+  let current: BalanceDip | null = null;
+  timeline.forEach(day => {
+    // Daily accrual leaves rounding noise on balances that are exactly at the floor
+    if (day.balance >= floor - 1e-9) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { startDate: day.date, endDate: day.date, lowest: day.balance };
+      dips.push(current);
+      return;
+    }
+    current.endDate = day.date;
+    current.lowest = Math.min(current.lowest, day.balance);
+  });
+  return dips;
+};
+
+/**
+ * Summarizes the leave buckets other than vacation
+ * @param entries PTO entries
+ * @param config PTO configuration
+ * @param year Calendar year
+ * @returns One balance per bucket in the policy
+ */
+export const getLeaveBalances = (entries: PTOEntry[], config: PTOConfig, year: number): LeaveBalance[] =>
+  getLeaveBuckets(getPTOPolicy(config)).map(bucket => {
+    const usedHours = entries
+      .filter(entry => PTOCalendarUtils.getLeaveType(entry) === bucket.type && entry.startDate.startsWith(`${year}-`))
+      .reduce((sum, entry) => sum + entry.totalHours, 0);
+    const rules = getBucketRules(config, year, bucket.type);
+    if (!rules) return { type: bucket.type, usedHours };
+
+    const timeline = simulatePTOBalance(entries, config, year, bucket.type);
+    return {
+      type: bucket.type,
+      usedHours,
+      allowanceHours: rules.annualHours + rules.carryover,
+      remainingHours: timeline[timeline.length - 1].balance
+    };
+  });
+
+/**
+ * Checks whether a PTO entry can be booked against the running balance
+ * @param entry Entry being booked
+ * @param entries Existing entries; any with the same dates or id are treated as replaced
+ * @param config PTO configuration
+ * @param year Calendar year
+ * @returns Whether the balance stays within the policy's negative allowance, and the balance after the entry
+ */
+export const checkPTOBooking = (
+  entry: PTOEntry,
+  entries: PTOEntry[],
+  config: PTOConfig,
+  year: number
+): PTOBookingCheck => {
+  const endDate = entry.endDate || entry.startDate;
+  const others = entries.filter(existing =>
+    !(entry.id && existing.id === entry.id) &&
+    !(existing.startDate === entry.startDate && (existing.endDate || existing.startDate) === endDate)
+  );
+  const leaveType = PTOCalendarUtils.getLeaveType(entry);
+  const rules = getBucketRules(config, year, leaveType);
+  if (!rules) return { isValid: true };
+
+  const timeline = simulatePTOBalance([...others, entry], config, year, leaveType);
+  const baseline = simulatePTOBalance(others, config, year, leaveType);
+  const allowance = rules.negativeAllowance;
+  // Tolerates rounding in fractional daily accrual
+  const floor = -allowance - 1e-9;
+
+  const projectedBalance = timeline.find(day => day.date === endDate)?.balance
+    ?? timeline[timeline.length - 1].balance;
+
+  // Flag the entry's own days, and later days that only go short because of it
+  const shortfall = timeline.find((day, i) =>
+    day.date >= entry.startDate &&
+    day.balance < floor &&
+    (day.date <= endDate || baseline[i].balance >= floor)
+  );
+  if (shortfall) {
+    const hours = Math.round(shortfall.balance * 100) / 100;
+    const what = leaveType === 'vacation' ? 'PTO' : `${LEAVE_TYPE_LABELS[leaveType].toLowerCase()} hours`;
+    const allowed = allowance > 0 ? ` (up to ${allowance}h below zero is allowed)` : '';
+    return {
+      isValid: false,
+      warning: `Not enough ${what} accrued: balance would be ${hours}h on ${format(parseISO(shortfall.date), 'MMM d')}${allowed}`,
+      projectedBalance
+    };
+  }
+
+  return { isValid: true, projectedBalance };
+};
+
+/**
+ * Resolves the PTO configuration for one plan year.
+ * Each year after the first starts one year further into service, with the previous
+ * year's closing balances carried over, unless the year's settings override them.
+ * @param config PTO configuration as saved
+ * @param entries PTO entries for every year
+ * @param year Plan year
+ * @returns Configuration with that year's years of service and rollover hours
+ */
+export const getPTOConfigForYear = (config: PTOConfig, entries: PTOEntry[], year: number): PTOConfig => {
+  const overrides = config.years?.[year] ?? {};
+  const firstYear = config.firstYear ?? year;
+
+  if (year <= firstYear) {
+    // Years before the plan started have no balance to carry in
+    return {
+      ...config,
+      yearsOfService: overrides.yearsOfService ?? Math.max(0, config.yearsOfService - (firstYear - year)),
+      rolloverHours: overrides.rolloverHours ?? (year === firstYear ? config.rolloverHours : 0),
+      ...(year < firstYear ? { leaveRolloverHours: {} } : {})
+    };
+  }
+
+  const previous = getPTOConfigForYear(config, entries, year - 1);
+  const closingBalance = (leaveType: LeaveType): number => {
+    const timeline = simulatePTOBalance(entries, previous, year - 1, leaveType);
+    if (timeline.length === 0) return 0;
+    // Rounded so fractional daily accrual doesn't leave 167.99999h
+    return Math.max(0, Math.round(timeline[timeline.length - 1].balance * 100) / 100);
+  };
+
+  return {
+    ...config,
+    yearsOfService: overrides.yearsOfService ?? previous.yearsOfService + 1,
+    rolloverHours: overrides.rolloverHours ?? closingBalance('vacation'),
+    leaveRolloverHours: Object.fromEntries(
+      getLeaveBuckets(getPTOPolicy(config))
+        .filter(bucket => bucket.annualHours !== undefined)
+        .map(bucket => [bucket.type, closingBalance(bucket.type)])
+    )
+  };
+};
@@ -11,9 +11,11 @@ import {
   importPTODataFromJSON,
   generatePTOSummaryReport,
   exportPTOSummaryReportAsHTML,
+  summarizePTOImport,
   ExportData
 } from './ptoExport';
 import { PTOEntry, PTOConfig } from './ptoUtils';
+import { closePTOYear } from './ptoYearEnd';
 
 // Mock DOM APIs for testing
 const mockCreateElement = vi.fn();
@@ -145,6 +147,15 @@ describe('PTO Export Functions', () => {
       expect(csvContent).toContain('"2"');
     });
 
+    it('should use a pay code per leave type', () => {
+      exportForADP([{ ...mockPTOEntries[0], leaveType: 'sick' }]);
+
+      expect(globalThis.Blob).toHaveBeenCalledWith(
+        [expect.stringContaining('"SICK"')],
+        expect.anything()
+      );
+    });
+
     it('should generate ADP filename', () => {
       exportForADP(mockPTOEntries);
 
@@ -183,7 +194,7 @@ describe('PTO Export Functions', () => {
     it('should reject invalid PTO hours', async () => {
       const invalidData = {
         ...mockValidData,
-        ptoEntries: [{ startDate: '2025-01-01', endDate: '2025-01-01', hoursPerDay: 6, totalHours: 6 }] // Invalid hours (must be 2, 4, or 8)
+        ptoEntries: [{ startDate: '2025-01-01', endDate: '2025-01-01', hoursPerDay: 1.1, totalHours: 1.1 }] // Not in quarter hours
       };
 
       const mockFile = new File([JSON.stringify(invalidData)], 'test.json');
@@ -191,6 +202,29 @@ describe('PTO Export Functions', () => {
       await expect(importPTODataFromJSON(mockFile)).rejects.toThrow('Invalid PTO hours');
     });
 
+    it('should accept part-time days and appointment hours', async () => {
+      const partTimeData = {
+        ...mockValidData,
+        config: { ...mockPTOConfig, workdayHours: 6 },
+        ptoEntries: [
+          { startDate: '2025-01-06', endDate: '2025-01-06', hoursPerDay: 6, totalHours: 6 },
+          { startDate: '2025-01-07', endDate: '2025-01-07', hoursPerDay: 1.5, totalHours: 1.5 }
+        ]
+      };
+
+      const mockFile = new File([JSON.stringify(partTimeData)], 'test.json');
+
+      await expect(importPTODataFromJSON(mockFile)).resolves.toEqual(partTimeData);
+    });
+
+    it('should reject a malformed work schedule', async () => {
+      const invalidData = { ...mockValidData, config: { ...mockPTOConfig, workSchedule: [8, 8] } };
+
+      const mockFile = new File([JSON.stringify(invalidData)], 'test.json');
+
+      await expect(importPTODataFromJSON(mockFile)).rejects.toThrow('Invalid work schedule');
+    });
+
     it('should reject malformed JSON', async () => {
       const mockFile = new File(['invalid json'], 'test.json');
       
@@ -206,9 +240,85 @@ describe('PTO Export Functions', () => {
     });
   });
 
+  describe('summarizePTOImport', () => {
+    const importData = (ptoEntries: PTOEntry[], config: PTOConfig = mockPTOConfig): ExportData => ({
+      ptoEntries,
+      config,
+      exportDate: '2025-01-01T00:00:00.000Z',
+      version: '1.0'
+    });
+
+    it('should split imported entries into new, duplicate and conflicting', () => {
+      const summary = summarizePTOImport(mockPTOEntries, mockPTOConfig, importData([
+        { startDate: '2025-01-15', endDate: '2025-01-15', hoursPerDay: 8, totalHours: 8 },
+        { startDate: '2025-02-10', endDate: '2025-02-11', hoursPerDay: 8, totalHours: 16 },
+        { startDate: '2025-04-01', endDate: '2025-04-01', hoursPerDay: 4, totalHours: 4 }
+      ]));
+
+      expect(summary.duplicateEntries.map(e => e.startDate)).toEqual(['2025-01-15']);
+      expect(summary.conflictingEntries.map(e => e.startDate)).toEqual(['2025-02-10']);
+      expect(summary.newEntries.map(e => e.startDate)).toEqual(['2025-04-01']);
+    });
+
+    it('should treat a different hour amount on the same day as a conflict', () => {
+      const summary = summarizePTOImport(mockPTOEntries, mockPTOConfig, importData([
+        { startDate: '2025-03-05', endDate: '2025-03-05', hoursPerDay: 8, totalHours: 8 }
+      ]));
+
+      expect(summary.conflictingEntries).toHaveLength(1);
+    });
+
+    it('should set aside entries in closed years', () => {
+      const closedYear = closePTOYear(mockPTOEntries, mockPTOConfig, 2024, '2025-01-05');
+      const summary = summarizePTOImport([
+        { id: 'old', startDate: '2024-12-23', endDate: '2024-12-23', hoursPerDay: 8, totalHours: 8 },
+        ...mockPTOEntries
+      ], mockPTOConfig, importData([
+        { startDate: '2024-12-30', endDate: '2024-12-30', hoursPerDay: 8, totalHours: 8 },
+        { startDate: '2025-04-01', endDate: '2025-04-01', hoursPerDay: 4, totalHours: 4 }
+      ]), [closedYear]);
+
+      expect(summary.closedYearEntries.map(e => e.startDate)).toEqual(['2024-12-30']);
+      expect(summary.keptClosedEntries.map(e => e.id)).toEqual(['old']);
+      expect(summary.newEntries.map(e => e.startDate)).toEqual(['2025-04-01']);
+    });
+
+    it('should list settings that would change', () => {
+      const summary = summarizePTOImport([], mockPTOConfig, importData([], {
+        yearsOfService: 5,
+        rolloverHours: 20,
+        isEnabled: true
+      }));
+
+      expect(summary.configChanges).toEqual(['Years of service: 3 → 5']);
+    });
+
+    it('should list a change of work schedule', () => {
+      const summary = summarizePTOImport([], mockPTOConfig, importData([], {
+        ...mockPTOConfig,
+        workSchedule: [0, 10, 10, 10, 10, 0, 0]
+      }));
+
+      expect(summary.configChanges).toEqual(['Work schedule: Mon–Fri 8h → Mon–Thu 10h']);
+    });
+
+    it('should list a change of holiday region', () => {
+      const summary = summarizePTOImport([], mockPTOConfig, importData([], { ...mockPTOConfig, holidayRegion: 'uk' }));
+
+      expect(summary.configChanges).toEqual(['Holiday region: United States → United Kingdom']);
+    });
+
+    it('should compare against defaults when the group has no PTO settings', () => {
+      const summary = summarizePTOImport([], undefined, importData(mockPTOEntries));
+
+      expect(summary.newEntries).toHaveLength(3);
+      expect(summary.configChanges).toEqual(['Years of service: 0 → 3', 'Rollover hours: 0 → 20']);
+    });
+  });
+
   describe('generatePTOSummaryReport', () => {
     it('should generate comprehensive HTML report', () => {
-      const html = generatePTOSummaryReport(mockPTOEntries, mockPTOConfig);
+      const html = generatePTOSummaryReport(mockPTOEntries, mockPTOConfig, 2025);
 
       expect(html).toContain('PTO Summary Report');
       expect(html).toContain('Years of Service');
@@ -220,28 +330,47 @@ describe('PTO Export Functions', () => {
     });
 
     it('should group entries by month', () => {
-      const html = generatePTOSummaryReport(mockPTOEntries, mockPTOConfig);
+      const html = generatePTOSummaryReport(mockPTOEntries, mockPTOConfig, 2025);
 
       expect(html).toContain('Jan 2025 - 8 hours');
       expect(html).toContain('Feb 2025 - 4 hours');
       expect(html).toContain('Mar 2025 - 2 hours');
     });
 
+    it('should read the allowance and day length from the policy', () => {
+      const html = generatePTOSummaryReport(mockPTOEntries, {
+        ...mockPTOConfig,
+        policy: { id: 'uk', name: 'London office', hoursPerWorkday: 7.5, tenureBands: [{ minYears: 0, annualHours: 187.5 }] }
+      }, 2025);
+
+      expect(html).toContain('London office (7.5-hour days)');
+      expect(html).toContain('Annual PTO:</strong> 187.5 hours (25 days)');
+    });
+
     it('should include individual entry details', () => {
-      const html = generatePTOSummaryReport(mockPTOEntries, mockPTOConfig);
+      const html = generatePTOSummaryReport(mockPTOEntries, mockPTOConfig, 2025);
 
       expect(html).toContain('Vacation Day');
       expect(html).toContain('Doctor Appointment');
     });
 
+    it('should only report the given year', () => {
+      const nextYear: PTOEntry = { startDate: '2026-01-05', endDate: '2026-01-05', hoursPerDay: 8, totalHours: 8 };
+      const html = generatePTOSummaryReport([...mockPTOEntries, nextYear], mockPTOConfig, 2025);
+
+      expect(html).toContain('PTO Summary Report - 2025');
+      expect(html).toContain('Used:</strong> 14 hours');
+      expect(html).not.toContain('Jan 2026');
+    });
+
     it('should handle entries without names', () => {
-      const html = generatePTOSummaryReport(mockPTOEntries, mockPTOConfig);
+      const html = generatePTOSummaryReport(mockPTOEntries, mockPTOConfig, 2025);
 
       expect(html).toContain('<td style="padding: 8px; border: 1px solid #ddd;">-</td>');
     });
 
     it('should include generation timestamp', () => {
-      const html = generatePTOSummaryReport(mockPTOEntries, mockPTOConfig);
+      const html = generatePTOSummaryReport(mockPTOEntries, mockPTOConfig, 2025);
 
       expect(html).toContain('Report generated on');
       expect(html).toContain('Generated by Unispace PTO Calculator PTO Tracker');
@@ -4,7 +4,19 @@
  */
 
 import { format } from "date-fns";
-import { PTOEntry, PTOConfig } from "./ptoUtils";
+import { PTOEntry, PTOConfig, PTOCalendarUtils, LEAVE_TYPES, LEAVE_TYPE_LABELS, LeaveType } from "./ptoUtils";
+import { getCarryoverHours, getHourIncrement, getPTOPolicy, validatePTOPolicy } from "./ptoPolicy";
+import { getAccrualSchedule, getAccrualScheduleLabel, validateAccrualSchedule } from "./ptoBalance";
+import { getClosedYear, ClosedPTOYear } from "./ptoYearEnd";
+import { getHolidayRegion, HOLIDAY_REGIONS } from "../constants/holidays";
+
+// ADP earning codes for each leave type
+const ADP_PAY_CODES: Record<LeaveType, string> = {
+  vacation: 'PTO',
+  sick: 'SICK',
+  floating: 'FLOAT',
+  unpaid: 'UNPAID'
+};
 
 export interface ExportData {
   ptoEntries: PTOEntry[];
@@ -50,9 +62,10 @@ export const exportPTODataAsJSON = (
  */
 export const exportPTODataAsCSV = (
   ptoEntries: PTOEntry[], 
-  _config: PTOConfig
+  config: PTOConfig
 ): void => {
-  const headers = ['Date', 'Hours', 'Description', 'Day Fraction'];
+  const workdayHours = PTOCalendarUtils.getWorkdayHours(config);
+  const headers = ['Date', 'Hours', 'Description', 'Day Fraction', 'Leave Type'];
   
   // Convert new multi-day structure to individual day entries for export compatibility
   const rows: string[][] = [];
@@ -69,7 +82,8 @@ export const exportPTODataAsCSV = (
         format(date, 'yyyy-MM-dd'),
         entry.hoursPerDay.toString(),
         entry.name || '',
-        (entry.hoursPerDay / 8).toString() // Day fraction for ADP
+        (entry.hoursPerDay / workdayHours).toString(), // Day fraction for ADP
+        LEAVE_TYPE_LABELS[PTOCalendarUtils.getLeaveType(entry)]
       ]);
     }
   });
@@ -96,7 +110,7 @@ export const exportPTODataAsCSV = (
  */
 export const exportForADP = (ptoEntries: PTOEntry[]): void => {
   const adpData = ptoEntries.map(entry => ({
-    'Pay Code': 'PTO',
+    'Pay Code': ADP_PAY_CODES[PTOCalendarUtils.getLeaveType(entry)],
     'Date': entry.startDate === entry.endDate ? 
       format(new Date(entry.startDate), 'MM/dd/yyyy') :
       `${format(new Date(entry.startDate), 'MM/dd/yyyy')} - ${format(new Date(entry.endDate), 'MM/dd/yyyy')}`,
@@ -150,14 +164,49 @@ export const importPTODataFromJSON = (file: File): Promise<ExportData | null> =>
         if (!data.config || typeof data.config !== 'object') {
           throw new Error('Invalid PTO config data');
         }
+
+        const policyProblem = data.config.policy && validatePTOPolicy(data.config.policy);
+        if (policyProblem) {
+          throw new Error(`Invalid PTO policy: ${policyProblem}`);
+        }
+        const accrualProblem = data.config.accrual && validateAccrualSchedule(data.config.accrual);
+        if (accrualProblem) {
+          throw new Error(`Invalid PTO accrual: ${accrualProblem}`);
+        }
+        const { workdayHours, workSchedule } = data.config;
+        if (
+          (workdayHours !== undefined && !(workdayHours > 0 && workdayHours <= 24)) ||
+          (workSchedule !== undefined && !(
+            Array.isArray(workSchedule) &&
+            workSchedule.length === 7 &&
+            workSchedule.every(hours => hours >= 0 && hours <= 24)
+          ))
+        ) {
+          throw new Error('Invalid work schedule');
+        }
+        const { holidayRegion } = data.config;
+        if (holidayRegion !== undefined && !HOLIDAY_REGIONS.some(region => region.id === holidayRegion)) {
+          throw new Error(`Unknown holiday region: ${holidayRegion}`);
+        }
+        const { firstYear, years } = data.config;
+        if (
+          (firstYear !== undefined && !Number.isInteger(firstYear)) ||
+          (years !== undefined && (typeof years !== 'object' || years === null))
+        ) {
+          throw new Error('Invalid plan year settings');
+        }
         
         // Validate each PTO entry
+        const increment = getHourIncrement(getPTOPolicy(data.config));
         for (const entry of data.ptoEntries) {
           if (!entry.startDate || !entry.hoursPerDay) {
             throw new Error('Invalid PTO entry format');
           }
-          if (![2, 4, 8].includes(entry.hoursPerDay)) {
-            throw new Error('Invalid PTO hours (must be 2, 4, or 8)');
+          if (!PTOCalendarUtils.isValidPTOHours(entry.hoursPerDay, increment)) {
+            throw new Error(`Invalid PTO hours: ${entry.hoursPerDay} (must be in ${increment}h steps)`);
+          }
+          if (entry.leaveType !== undefined && !LEAVE_TYPES.includes(entry.leaveType)) {
+            throw new Error(`Invalid leave type: ${entry.leaveType}`);
           }
         }
         
@@ -172,19 +221,113 @@ export const importPTODataFromJSON = (file: File): Promise<ExportData | null> =>
   });
 };
 
+export interface PTOImportSummary {
+  newEntries: PTOEntry[];         // Imported entries that don't touch existing PTO
+  duplicateEntries: PTOEntry[];   // Same dates and hours as an existing entry
+  conflictingEntries: PTOEntry[]; // Overlap existing PTO with different dates or hours
+  closedYearEntries: PTOEntry[];  // Imported entries in closed years, which neither merge nor replace adds
+  keptClosedEntries: PTOEntry[];  // Existing entries in closed years, which replace keeps
+  configChanges: string[];        // Settings that differ, e.g. "Rollover hours: 0 → 16"
+}
+
+/**
+ * Compare imported PTO data with a group's current PTO before applying it
+ * @param existingEntries The group's current PTO entries
+ * @param existingConfig The group's current PTO configuration
+ * @param data Imported data
+ * @param closedYears The group's closed plan years, whose entries can't change
+ * @returns What a merge would add and skip, and what replace would keep and change
+ */
+export const summarizePTOImport = (
+  existingEntries: PTOEntry[],
+  existingConfig: PTOConfig | undefined,
+  data: ExportData,
+  closedYears?: ClosedPTOYear[]
+): PTOImportSummary => {
+  const isClosed = (entry: PTOEntry) =>
+    getClosedYear(closedYears, Number(entry.startDate.slice(0, 4))) !== null;
+  const summary: PTOImportSummary = {
+    newEntries: [],
+    duplicateEntries: [],
+    conflictingEntries: [],
+    closedYearEntries: data.ptoEntries.filter(isClosed),
+    keptClosedEntries: existingEntries.filter(isClosed),
+    configChanges: []
+  };
+
+  data.ptoEntries.filter(entry => !isClosed(entry)).forEach(entry => {
+    const endDate = entry.endDate || entry.startDate;
+    const overlapping = existingEntries.filter(existing =>
+      existing.startDate <= endDate && entry.startDate <= existing.endDate
+    );
+
+    if (overlapping.length === 0) {
+      summary.newEntries.push(entry);
+    } else if (overlapping.some(existing =>
+      existing.startDate === entry.startDate &&
+      existing.endDate === endDate &&
+      existing.hoursPerDay === entry.hoursPerDay &&
+      PTOCalendarUtils.getLeaveType(existing) === PTOCalendarUtils.getLeaveType(entry)
+    )) {
+      summary.duplicateEntries.push(entry);
+    } else {
+      summary.conflictingEntries.push(entry);
+    }
+  });
+
+  const yearsOfService = existingConfig?.yearsOfService ?? 0;
+  const rolloverHours = existingConfig?.rolloverHours ?? 0;
+  if (data.config.yearsOfService !== yearsOfService) {
+    summary.configChanges.push(`Years of service: ${yearsOfService} → ${data.config.yearsOfService}`);
+  }
+  if (data.config.rolloverHours !== rolloverHours) {
+    summary.configChanges.push(`Rollover hours: ${rolloverHours} → ${data.config.rolloverHours}`);
+  }
+  const currentPolicy = getPTOPolicy(existingConfig);
+  const importedPolicy = getPTOPolicy(data.config);
+  if (JSON.stringify(importedPolicy) !== JSON.stringify(currentPolicy)) {
+    summary.configChanges.push(`PTO policy: ${currentPolicy.name} → ${importedPolicy.name}`);
+  }
+  const currentAccrual = getAccrualScheduleLabel(getAccrualSchedule(existingConfig));
+  const importedAccrual = getAccrualScheduleLabel(getAccrualSchedule(data.config));
+  if (importedAccrual !== currentAccrual) {
+    summary.configChanges.push(`Accrual: ${currentAccrual} → ${importedAccrual}`);
+  }
+  const currentSchedule = PTOCalendarUtils.getWorkScheduleLabel(existingConfig);
+  const importedSchedule = PTOCalendarUtils.getWorkScheduleLabel(data.config);
+  if (importedSchedule !== currentSchedule) {
+    summary.configChanges.push(`Work schedule: ${currentSchedule} → ${importedSchedule}`);
+  }
+  const currentRegion = getHolidayRegion(existingConfig?.holidayRegion);
+  const importedRegion = getHolidayRegion(data.config.holidayRegion);
+  if (importedRegion !== currentRegion) {
+    summary.configChanges.push(`Holiday region: ${currentRegion.name} → ${importedRegion.name}`);
+  }
+
+  return summary;
+};
+
 /**
  * Create a summary report of PTO usage
- * @param ptoEntries Array of PTO entries
- * @param config PTO configuration
+ * @param allEntries Array of PTO entries (only those starting in the year are reported)
+ * @param config PTO configuration for the year
+ * @param year Plan year (defaults to the current year)
  * @returns HTML string for the report
  */
 export const generatePTOSummaryReport = (
-  ptoEntries: PTOEntry[], 
-  config: PTOConfig
+  allEntries: PTOEntry[], 
+  config: PTOConfig,
+  year: number = new Date().getFullYear()
 ): string => {
-  const totalHours = config.yearsOfService < 5 ? 168 : 208;
-  const totalAvailable = totalHours + config.rolloverHours;
-  const usedHours = ptoEntries.reduce((sum, entry) => sum + entry.totalHours, 0);
+  const ptoEntries = allEntries.filter(entry => entry.startDate.startsWith(`${year}-`));
+  const policy = getPTOPolicy(config);
+  const toDays = (hours: number) => hours / PTOCalendarUtils.getWorkdayHours(config);
+  const totalHours = PTOCalendarUtils.calculateAnnualPTOHours(config.yearsOfService, policy);
+  const carryoverHours = getCarryoverHours(policy, config.rolloverHours);
+  const totalAvailable = totalHours + carryoverHours;
+  const usedHours = ptoEntries
+    .filter(entry => PTOCalendarUtils.getLeaveType(entry) === 'vacation')
+    .reduce((sum, entry) => sum + entry.totalHours, 0);
   const remainingHours = totalAvailable - usedHours;
   
   const entriesByMonth = ptoEntries.reduce((acc, entry) => {
@@ -196,15 +339,19 @@ export const generatePTOSummaryReport = (
 
   let html = `
     <div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px;">
-      <h1>PTO Summary Report - ${new Date().getFullYear()}</h1>
+      <h1>PTO Summary Report - ${year}</h1>
       <div style="background: #f5f5f5; padding: 15px; border-radius: 8px; margin-bottom: 20px;">
         <h3>PTO Balance</h3>
+        <p><strong>Policy:</strong> ${policy.name} (${policy.hoursPerWorkday}-hour days)</p>
+        <p><strong>Accrual:</strong> ${getAccrualScheduleLabel(getAccrualSchedule(config))}</p>
+        <p><strong>Work Schedule:</strong> ${PTOCalendarUtils.getWorkScheduleLabel(config)}</p>
+        <p><strong>Holidays:</strong> ${getHolidayRegion(config.holidayRegion).calendarName}</p>
         <p><strong>Years of Service:</strong> ${config.yearsOfService}</p>
-        <p><strong>Annual PTO:</strong> ${totalHours} hours (${totalHours/8} days)</p>
-        <p><strong>Rollover Hours:</strong> ${config.rolloverHours} hours</p>
-        <p><strong>Total Available:</strong> ${totalAvailable} hours (${totalAvailable/8} days)</p>
-        <p><strong>Used:</strong> ${usedHours} hours (${usedHours/8} days)</p>
-        <p><strong>Remaining:</strong> ${remainingHours} hours (${remainingHours/8} days)</p>
+        <p><strong>Annual PTO:</strong> ${totalHours} hours (${toDays(totalHours)} days)</p>
+        <p><strong>Rollover Hours:</strong> ${carryoverHours} hours${carryoverHours < config.rolloverHours ? ` (capped from ${config.rolloverHours})` : ''}</p>
+        <p><strong>Total Available:</strong> ${totalAvailable} hours (${toDays(totalAvailable)} days)</p>
+        <p><strong>Used:</strong> ${usedHours} hours (${toDays(usedHours)} days)</p>
+        <p><strong>Remaining:</strong> ${remainingHours} hours (${toDays(remainingHours)} days)</p>
       </div>
       
       <h3>PTO Entries by Month</h3>
@@ -216,12 +363,13 @@ export const generatePTOSummaryReport = (
     
     html += `
       <div style="margin-bottom: 20px; border-left: 3px solid #007cba; padding-left: 15px;">
-        <h4>${month} - ${monthTotal} hours (${monthTotal/8} days)</h4>
+        <h4>${month} - ${monthTotal} hours (${toDays(monthTotal)} days)</h4>
         <table style="width: 100%; border-collapse: collapse;">
           <tr style="background: #f0f0f0;">
             <th style="text-align: left; padding: 8px; border: 1px solid #ddd;">Date</th>
             <th style="text-align: left; padding: 8px; border: 1px solid #ddd;">Hours</th>
             <th style="text-align: left; padding: 8px; border: 1px solid #ddd;">Description</th>
+            <th style="text-align: left; padding: 8px; border: 1px solid #ddd;">Type</th>
           </tr>
     `;
     
@@ -233,6 +381,7 @@ export const generatePTOSummaryReport = (
             `${format(new Date(entry.startDate), 'MMM dd')} - ${format(new Date(entry.endDate), 'MMM dd, yyyy')}`}</td>
           <td style="padding: 8px; border: 1px solid #ddd;">${entry.totalHours}</td>
           <td style="padding: 8px; border: 1px solid #ddd;">${entry.name || '-'}</td>
+          <td style="padding: 8px; border: 1px solid #ddd;">${LEAVE_TYPE_LABELS[PTOCalendarUtils.getLeaveType(entry)]}</td>
         </tr>
       `;
     });
@@ -254,13 +403,15 @@ export const generatePTOSummaryReport = (
 /**
  * Export PTO summary report as HTML file
  * @param ptoEntries Array of PTO entries
- * @param config PTO configuration
+ * @param config PTO configuration for the year
+ * @param year Plan year (defaults to the current year)
  */
 export const exportPTOSummaryReportAsHTML = (
   ptoEntries: PTOEntry[], 
-  config: PTOConfig
+  config: PTOConfig,
+  year?: number
 ): void => {
-  const html = generatePTOSummaryReport(ptoEntries, config);
+  const html = generatePTOSummaryReport(ptoEntries, config, year);
   
   const blob = new Blob([html], { type: 'text/html' });
   const url = URL.createObjectURL(blob);
@@ -0,0 +1,76 @@
+/**
+ * Test suite for the PTO optimizer
+ * Testing bridge day ranking, the budget and PTO already booked
+ */
+
+import { describe, it, expect } from 'vitest';
+import { suggestBreaks, getBreakEfficiency } from './ptoOptimizer';
+
+describe('ptoOptimizer', () => {
+  describe('suggestBreaks', () => {
+    it('should rank bridge days by days off per hour', () => {
+      const suggestions = suggestBreaks({ year: 2025, budgetHours: 80, fromDate: '2025-01-01' });
+
+      // Dec 29 sits between Christmas, the gift days and New Year's Day
+      expect(suggestions[0]).toMatchObject({
+        startDate: '2025-12-29',
+        endDate: '2025-12-29',
+        hours: 8,
+        breakStart: '2025-12-25',
+        breakEnd: '2026-01-01',
+        daysOff: 8
+      });
+      // Jan 2 joins last year's gift days and New Year's Day
+      expect(suggestions[1]).toMatchObject({ startDate: '2025-01-02', breakStart: '2024-12-28', daysOff: 6 });
+      // Jul 2 turns Independence Day and its eve into a 5-day weekend
+      expect(suggestions[2]).toMatchObject({
+        startDate: '2025-07-02',
+        breakStart: '2025-07-02',
+        breakEnd: '2025-07-06',
+        daysOff: 5,
+        holidays: ['Independence Day Eve', 'Independence Day']
+      });
+      expect(suggestions[3]).toMatchObject({ startDate: '2025-11-26', daysOff: 5 });
+
+      const efficiencies = suggestions.map(getBreakEfficiency);
+      expect(efficiencies).toEqual([...efficiencies].sort((a, b) => b - a));
+    });
+
+    it('should stay within the budget', () => {
+      const suggestions = suggestBreaks({ year: 2025, budgetHours: 24, fromDate: '2025-01-01' });
+
+      expect(suggestions.map(s => s.startDate)).toEqual(['2025-12-29', '2025-01-02', '2025-07-02']);
+      expect(suggestBreaks({ year: 2025, budgetHours: 4 })).toEqual([]);
+    });
+
+    it('should not suggest overlapping breaks', () => {
+      const suggestions = suggestBreaks({ year: 2025, budgetHours: 200, fromDate: '2025-01-01', limit: 40 });
+      const sorted = [...suggestions].sort((a, b) => a.breakStart.localeCompare(b.breakStart));
+
+      sorted.slice(1).forEach((suggestion, index) => {
+        expect(suggestion.breakStart > sorted[index].breakEnd).toBe(true);
+      });
+    });
+
+    it('should build on PTO already booked', () => {
+      const suggestions = suggestBreaks({ year: 2025, budgetHours: 80, fromDate: '2025-06-01', bookedDates: ['2025-07-02'] });
+
+      expect(suggestions.some(s => s.startDate <= '2025-07-02' && s.endDate >= '2025-07-02')).toBe(false);
+      expect(suggestions.find(s => s.startDate === '2025-07-01'))
+        .toMatchObject({ endDate: '2025-07-01', breakStart: '2025-07-01', breakEnd: '2025-07-06', daysOff: 6 });
+    });
+
+    it('should not suggest dates before the earliest booking date', () => {
+      const suggestions = suggestBreaks({ year: 2025, budgetHours: 200, fromDate: '2025-08-01', limit: 40 });
+      expect(suggestions.every(s => s.startDate >= '2025-08-01')).toBe(true);
+    });
+
+    it('should charge the hours scheduled on part-time days', () => {
+      const config = { workSchedule: [0, 8, 8, 8, 8, 4, 0] };
+      const suggestions = suggestBreaks({ year: 2025, budgetHours: 80, fromDate: '2025-01-01', config });
+      const friday = suggestions.find(s => s.startDate === '2025-06-20');
+
+      expect(friday).toMatchObject({ hours: 4, daysOff: 4 });
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * PTO Optimizer
+ * Suggests bridge days that join weekends and holidays into the longest breaks
+ */
+
+import { addDays, differenceInCalendarDays, formatISO, parseISO } from 'date-fns';
+import { getHolidayFromISODate } from '../constants/holidays';
+import { PTOCalendarUtils, WorkHoursConfig } from './ptoUtils';
+
+// Longest run of workdays one suggestion books
+export const DEFAULT_MAX_BRIDGE_DAYS = 5;
+
+// Breaks may run into the days around the plan year, e.g. over New Year
+const YEAR_PADDING_DAYS = 14;
+
+export interface BreakSuggestion {
+  startDate: string;  // first day to book (ISO)
+  endDate: string;    // last day to book (ISO)
+  hours: number;      // PTO hours the booking costs
+  breakStart: string; // first day off, counting the weekends and holidays around the booking
+  breakEnd: string;   // last day off
+  daysOff: number;    // consecutive days off
+  holidays: string[]; // holidays the break is built around
+}
+
+export interface BreakPlanOptions {
+  year: number;
+  budgetHours: number;
+  config?: WorkHoursConfig | null;
+  bookedDates?: string[]; // days already off on PTO; breaks can build on them
+  fromDate?: string;      // earliest date to book, usually today
+  maxWorkdays?: number;   // defaults to DEFAULT_MAX_BRIDGE_DAYS
+  limit?: number;         // most suggestions returned (defaults to 10)
+}
+
+const shiftDate = (date: string, days: number): string =>
+  formatISO(addDays(parseISO(date), days), { representation: 'date' });
+
+/**
+ * Days off gained per PTO hour spent
+ * @param suggestion Suggested booking
+ * @returns Days off per hour
+ */
+export const getBreakEfficiency = (suggestion: Pick<BreakSuggestion, 'daysOff' | 'hours'>): number =>
+  suggestion.daysOff / suggestion.hours;
+
+/**
+ * Proposes bookings that turn the fewest PTO hours into the longest breaks.
+ * Every run of up to `maxWorkdays` consecutive workdays is a candidate; its break runs
+ * through the days off on either side. Candidates are ranked by days off per hour, then
+ * by length, and picked without overlapping until the budget is spent.
+ * @param options Plan year, budget, work schedule and PTO already booked
+ * @returns Suggestions in rank order, together costing at most the budget
+ */
+export const suggestBreaks = ({
+  year,
+  budgetHours,
+  config,
+  bookedDates = [],
+  fromDate,
+  maxWorkdays = DEFAULT_MAX_BRIDGE_DAYS,
+  limit = 10
+}: BreakPlanOptions): BreakSuggestion[] => {
+  const yearStart = `${year}-01-01`;
+  const yearEnd = `${year}-12-31`;
+  const earliest = fromDate && fromDate > yearStart ? fromDate : yearStart;
+  const booked = new Set(bookedDates);
+
+  // Every day around the plan year, with what a day of PTO on it costs (0 when already off)
+  const first = addDays(new Date(year, 0, 1), -YEAR_PADDING_DAYS);
+  const days = Array.from(
+    { length: differenceInCalendarDays(new Date(year, 11, 31), first) + 1 + YEAR_PADDING_DAYS * 2 },
+    (_, index) => {
+      const date = formatISO(addDays(first, index), { representation: 'date' });
+      return { date, cost: booked.has(date) ? 0 : PTOCalendarUtils.getScheduledHours(date, config) };
+    }
+  );
+  const workdays = days.flatMap((day, index) => (day.cost > 0 ? [index] : []));
+
+  const candidates: BreakSuggestion[] = [];
+  workdays.forEach((startIndex, position) => {
+    if (days[startIndex].date < earliest) return;
+
+    let hours = 0;
+    for (let count = 1; count <= maxWorkdays && position + count <= workdays.length; count++) {
+      const endIndex = workdays[position + count - 1];
+      hours += days[endIndex].cost;
+      if (days[endIndex].date > yearEnd || hours > budgetHours) break;
+      // A booking can't cover PTO that is already booked
+      if (days.slice(startIndex, endIndex + 1).some(day => booked.has(day.date))) break;
+
+      const breakStartIndex = position > 0 ? workdays[position - 1] + 1 : 0;
+      const breakEndIndex = position + count < workdays.length ? workdays[position + count] - 1 : days.length - 1;
+      const daysOff = breakEndIndex - breakStartIndex + 1;
+      // Only bookings that join up with days off are worth suggesting
+      if (daysOff <= count) continue;
+
+      const breakDays = days.slice(breakStartIndex, breakEndIndex + 1);
+      candidates.push({
+        startDate: days[startIndex].date,
+        endDate: days[endIndex].date,
+        hours,
+        breakStart: breakDays[0].date,
+        breakEnd: breakDays[breakDays.length - 1].date,
+        daysOff,
+        holidays: [...new Set(breakDays.flatMap(day => {
+          const holiday = getHolidayFromISODate(day.date, config?.holidayRegion);
+          return holiday ? [holiday] : [];
+        }))]
+      });
+    }
+  });
+
+  candidates.sort((a, b) =>
+    getBreakEfficiency(b) - getBreakEfficiency(a) ||
+    b.daysOff - a.daysOff ||
+    a.startDate.localeCompare(b.startDate)
+  );
+
+  // Breaks that overlap or touch would merge into one, so only the better one is kept
+  const suggestions: BreakSuggestion[] = [];
+  let remaining = budgetHours;
+  for (const candidate of candidates) {
+    if (suggestions.length >= limit) break;
+    if (candidate.hours > remaining) continue;
+    const overlaps = suggestions.some(picked =>
+      candidate.breakStart <= shiftDate(picked.breakEnd, 1) && candidate.breakEnd >= shiftDate(picked.breakStart, -1)
+    );
+    if (overlaps) continue;
+    suggestions.push(candidate);
+    remaining -= candidate.hours;
+  }
+
+  return suggestions;
+};
@@ -0,0 +1,125 @@
+/**
+ * Test suite for PTO policies
+ * Testing tenure band lookup, labels and policy validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_LEAVE_BUCKETS,
+  DEFAULT_PTO_POLICY,
+  getLeaveBuckets,
+  getLeaveTypes,
+  getCarryoverExpiryDate,
+  getCarryoverHours,
+  getPTOPolicy,
+  getTenureBand,
+  getTenureBandLabel,
+  PTOPolicy,
+  UNISPACE_POLICY,
+  validatePTOPolicy
+} from './ptoPolicy';
+
+describe('ptoPolicy', () => {
+  const tieredPolicy: PTOPolicy = {
+    id: 'uk',
+    name: 'London office',
+    hoursPerWorkday: 7.5,
+    tenureBands: [
+      { minYears: 10, annualHours: 225 },
+      { minYears: 0, annualHours: 187.5 },
+      { minYears: 3, annualHours: 202.5 }
+    ]
+  };
+
+  describe('getLeaveTypes', () => {
+    it('should list vacation and the default buckets', () => {
+      expect(getLeaveTypes(UNISPACE_POLICY)).toEqual(['vacation', 'sick', 'floating', 'unpaid']);
+      expect(getLeaveBuckets(UNISPACE_POLICY)).toBe(DEFAULT_LEAVE_BUCKETS);
+    });
+
+    it('should use the policy\'s own buckets', () => {
+      expect(getLeaveTypes({ ...tieredPolicy, leaveBuckets: [{ type: 'sick', annualHours: 56 }] })).toEqual(['vacation', 'sick']);
+    });
+  });
+
+  describe('getPTOPolicy', () => {
+    it('should fall back to the Unispace preset', () => {
+      expect(getPTOPolicy(undefined)).toBe(UNISPACE_POLICY);
+      expect(getPTOPolicy({})).toBe(DEFAULT_PTO_POLICY);
+    });
+
+    it('should return the configured policy', () => {
+      expect(getPTOPolicy({ policy: tieredPolicy })).toBe(tieredPolicy);
+    });
+  });
+
+  describe('getTenureBand', () => {
+    it('should pick the highest band reached, regardless of declaration order', () => {
+      expect(getTenureBand(tieredPolicy, 0).annualHours).toBe(187.5);
+      expect(getTenureBand(tieredPolicy, 3).annualHours).toBe(202.5);
+      expect(getTenureBand(tieredPolicy, 9).annualHours).toBe(202.5);
+      expect(getTenureBand(tieredPolicy, 12).annualHours).toBe(225);
+    });
+
+    it('should use the lowest band below the first threshold', () => {
+      const policy = { ...tieredPolicy, tenureBands: [{ minYears: 1, annualHours: 80 }] };
+      expect(getTenureBand(policy, 0).annualHours).toBe(80);
+    });
+  });
+
+  describe('getTenureBandLabel', () => {
+    it('should describe the Unispace bands as before', () => {
+      const [junior, senior] = UNISPACE_POLICY.tenureBands;
+      expect(getTenureBandLabel(UNISPACE_POLICY, junior)).toBe('1 – 4 years');
+      expect(getTenureBandLabel(UNISPACE_POLICY, senior)).toBe('5+ years');
+    });
+  });
+
+  describe('carryover rules', () => {
+    it('should cap rollover at the policy maximum', () => {
+      expect(getCarryoverHours({ ...tieredPolicy, maxCarryoverHours: 40 }, 60)).toBe(40);
+      expect(getCarryoverHours({ ...tieredPolicy, maxCarryoverHours: 40 }, 16)).toBe(16);
+      expect(getCarryoverHours(tieredPolicy, 60)).toBe(60);
+    });
+
+    it('should resolve the expiry date for a year', () => {
+      expect(getCarryoverExpiryDate({ ...tieredPolicy, carryoverExpiry: '03-31' }, 2025)).toBe('2025-03-31');
+      expect(getCarryoverExpiryDate(tieredPolicy, 2025)).toBeNull();
+    });
+
+    it('should move a Feb 29 expiry to Feb 28 outside leap years', () => {
+      const policy = { ...tieredPolicy, carryoverExpiry: '02-29' };
+      expect(getCarryoverExpiryDate(policy, 2025)).toBe('2025-02-28');
+      expect(getCarryoverExpiryDate(policy, 2028)).toBe('2028-02-29');
+    });
+  });
+
+  describe('validatePTOPolicy', () => {
+    it('should accept the presets', () => {
+      expect(validatePTOPolicy(UNISPACE_POLICY)).toBeNull();
+      expect(validatePTOPolicy(tieredPolicy)).toBeNull();
+    });
+
+    it('should reject policies without bands or with bad workdays', () => {
+      expect(validatePTOPolicy({ ...tieredPolicy, tenureBands: [] })).toMatch(/tenure band/);
+      expect(validatePTOPolicy({ ...tieredPolicy, hoursPerWorkday: 0 })).toMatch(/workday/);
+    });
+
+    it('should reject duplicate band thresholds', () => {
+      const policy = { ...tieredPolicy, tenureBands: [{ minYears: 0, annualHours: 1 }, { minYears: 0, annualHours: 2 }] };
+      expect(validatePTOPolicy(policy)).toMatch(/different years/);
+    });
+
+    it('should reject bad leave buckets', () => {
+      expect(validatePTOPolicy({ ...tieredPolicy, leaveBuckets: [{ type: 'sick' }, { type: 'sick' }] })).toMatch(/one bucket/);
+      expect(validatePTOPolicy({ ...tieredPolicy, leaveBuckets: [{ type: 'sick', annualHours: -1 }] })).toMatch(/negative hours/);
+      expect(validatePTOPolicy({ ...tieredPolicy, leaveBuckets: [{ type: 'vacation' as 'sick' }] })).toMatch(/sick, floating or unpaid/);
+    });
+
+    it('should reject bad carryover rules', () => {
+      expect(validatePTOPolicy({ ...tieredPolicy, maxCarryoverHours: -8 })).toMatch(/carryover/);
+      expect(validatePTOPolicy({ ...tieredPolicy, carryoverExpiry: '13-01' })).toMatch(/MM-DD/);
+      expect(validatePTOPolicy({ ...tieredPolicy, carryoverExpiry: '02-29' })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * PTO Policy
+ * Declarative PTO allowance rules (tenure bands and workday length) per office
+ */
+
+import type { LeaveType, PTOConfig } from './ptoUtils';
+import { AccrualSchedule, validateAccrualSchedule } from './ptoBalance';
+
+export interface TenureBand {
+  minYears: number;    // Inclusive lower bound on years of service
+  annualHours: number; // PTO hours granted per year
+}
+
+export interface LeaveBucket {
+  type: Exclude<LeaveType, 'vacation'>; // Vacation uses the policy's tenure bands
+  annualHours?: number;        // Allowance per year; not tracked against a balance when omitted
+  accrual?: AccrualSchedule;   // Lump sum on Jan 1 when omitted
+  maxCarryoverHours?: number;  // Most hours that may carry into a new year; unlimited when omitted
+}
+
+export interface PTOPolicy {
+  id: string;
+  name: string;
+  hoursPerWorkday: number;  // Length of a full PTO day
+  hourIncrement?: number;   // Smallest bookable step in hours; DEFAULT_HOUR_INCREMENT when omitted
+  tenureBands: TenureBand[];
+  maxCarryoverHours?: number; // Most hours that may carry into a new year; unlimited when omitted
+  carryoverExpiry?: string;   // MM-DD after which unused carried-over hours are forfeited
+  negativeBalanceAllowance?: number; // Hours the vacation balance may dip below zero; none when omitted
+  leaveBuckets?: LeaveBucket[];      // Leave types besides vacation; DEFAULT_LEAVE_BUCKETS when omitted
+}
+
+/**
+ * Buckets for policies that don't define their own: a week of sick leave
+ * that carries over, one floating holiday that doesn't, and untracked unpaid leave
+ */
+export const DEFAULT_LEAVE_BUCKETS: LeaveBucket[] = [
+  { type: 'sick', annualHours: 40, maxCarryoverHours: 40 },
+  { type: 'floating', annualHours: 8, maxCarryoverHours: 0 },
+  { type: 'unpaid' }
+];
+
+/**
+ * Unispace US policy: 1–4 years of service earn 21 days (168h),
+ * 5+ years earn 26 days (208h)
+ */
+export const UNISPACE_POLICY: PTOPolicy = {
+  id: 'unispace-us',
+  name: 'Unispace (US)',
+  hoursPerWorkday: 8,
+  tenureBands: [
+    { minYears: 0, annualHours: 168 },
+    { minYears: 5, annualHours: 208 }
+  ]
+};
+
+export const DEFAULT_PTO_POLICY = UNISPACE_POLICY;
+
+// Quarter hours, fine enough for appointments booked by the clock
+export const DEFAULT_HOUR_INCREMENT = 0.25;
+
+/**
+ * Resolves the policy that applies to a PTO configuration
+ * @param config PTO configuration (may be missing)
+ * @returns The configured policy, or the default preset
+ */
+export const getPTOPolicy = (config?: Pick<PTOConfig, 'policy'> | null): PTOPolicy =>
+  config?.policy ?? DEFAULT_PTO_POLICY;
+
+/**
+ * Resolves the smallest number of hours a policy lets people book
+ * @param policy PTO policy
+ * @returns The policy's increment, or the default
+ */
+export const getHourIncrement = (policy: PTOPolicy): number =>
+  policy.hourIncrement ?? DEFAULT_HOUR_INCREMENT;
+
+/**
+ * Lists the policy's leave buckets other than vacation
+ * @param policy PTO policy
+ * @returns The policy's buckets, or the defaults
+ */
+export const getLeaveBuckets = (policy: PTOPolicy): LeaveBucket[] =>
+  policy.leaveBuckets ?? DEFAULT_LEAVE_BUCKETS;
+
+/**
+ * Lists the leave types that can be booked under a policy
+ * @param policy PTO policy
+ * @returns Vacation followed by the policy's other buckets
+ */
+export const getLeaveTypes = (policy: PTOPolicy): LeaveType[] =>
+  ['vacation', ...getLeaveBuckets(policy).map(bucket => bucket.type)];
+
+/**
+ * Finds the tenure band for a number of years of service
+ * @param policy PTO policy
+ * @param yearsOfService Years of service
+ * @returns The band with the highest lower bound not above yearsOfService
+ */
+export const getTenureBand = (policy: PTOPolicy, yearsOfService: number): TenureBand => {
+  const bands = [...policy.tenureBands].sort((a, b) => a.minYears - b.minYears);
+  return bands.filter(band => band.minYears <= yearsOfService).pop() ?? bands[0];
+};
+
+/**
+ * Describes the years of service a band covers
+ * @param policy PTO policy
+ * @param band One of the policy's bands
+ * @returns Label such as "1 – 4 years" or "5+ years"
+ */
+export const getTenureBandLabel = (policy: PTOPolicy, band: TenureBand): string => {
+  const next = policy.tenureBands
+    .filter(other => other.minYears > band.minYears)
+    .sort((a, b) => a.minYears - b.minYears)[0];
+  const from = Math.max(band.minYears, 1);
+  if (!next) return `${from}+ years`;
+  const to = next.minYears - 1;
+  return to <= from ? `${from} ${from === 1 ? 'year' : 'years'}` : `${from} – ${to} years`;
+};
+
+/**
+ * Applies the policy's carryover cap to the hours brought into the year
+ * @param policy PTO policy
+ * @param rolloverHours Hours carried over from the previous year
+ * @returns Hours that may be carried over
+ */
+export const getCarryoverHours = (policy: PTOPolicy, rolloverHours: number): number =>
+  policy.maxCarryoverHours !== undefined
+    ? Math.min(rolloverHours, policy.maxCarryoverHours)
+    : rolloverHours;
+
+/**
+ * Resolves the date carried-over hours expire in a given year
+ * @param policy PTO policy
+ * @param year Calendar year
+ * @returns Last ISO date carried-over hours can be used, or null if they never expire
+ */
+export const getCarryoverExpiryDate = (policy: PTOPolicy, year: number): string | null => {
+  if (!policy.carryoverExpiry) return null;
+  const [month, day] = policy.carryoverExpiry.split('-').map(Number);
+  // 02-29 falls back to Feb 28 outside leap years
+  const lastDay = new Date(year, month, 0).getDate();
+  return `${year}-${String(month).padStart(2, '0')}-${String(Math.min(day, lastDay)).padStart(2, '0')}`;
+};
+
+// Accepts MM-DD days that exist in a leap year
+const isValidMonthDay = (value: string): boolean => {
+  const match = value.match(/^(\d{2})-(\d{2})$/);
+  if (!match) return false;
+  const date = new Date(2024, Number(match[1]) - 1, Number(match[2]));
+  return date.getMonth() === Number(match[1]) - 1 && date.getDate() === Number(match[2]);
+};
+
+/**
+ * Checks that a policy can be used for calculations
+ * @param policy Policy to check
+ * @returns A description of the first problem, or null when valid
+ */
+export const validatePTOPolicy = (policy: PTOPolicy): string | null => {
+  if (!(policy.hoursPerWorkday > 0 && policy.hoursPerWorkday <= 24)) {
+    return 'Hours per workday must be between 0 and 24';
+  }
+  if (policy.hourIncrement !== undefined && !(policy.hourIncrement > 0 && policy.hourIncrement <= policy.hoursPerWorkday)) {
+    return 'Hour increment must be more than 0 and at most a workday';
+  }
+  if (policy.tenureBands.length === 0) {
+    return 'At least one tenure band is required';
+  }
+  if (policy.tenureBands.some(band => band.minYears < 0 || band.annualHours < 0)) {
+    return 'Tenure bands cannot have negative years or hours';
+  }
+  if (new Set(policy.tenureBands.map(band => band.minYears)).size !== policy.tenureBands.length) {
+    return 'Tenure bands must start at different years of service';
+  }
+  if (policy.maxCarryoverHours !== undefined && !(policy.maxCarryoverHours >= 0)) {
+    return 'Maximum carryover cannot be negative';
+  }
+  if (policy.carryoverExpiry !== undefined && !isValidMonthDay(policy.carryoverExpiry)) {
+    return 'Carryover expiry must be a month and day (MM-DD)';
+  }
+  if (policy.negativeBalanceAllowance !== undefined && !(policy.negativeBalanceAllowance >= 0)) {
+    return 'Negative balance allowance cannot be negative';
+  }
+  const buckets = policy.leaveBuckets ?? [];
+  if (buckets.some(bucket => !['sick', 'floating', 'unpaid'].includes(bucket.type))) {
+    return 'Leave buckets must be sick, floating or unpaid';
+  }
+  if (new Set(buckets.map(bucket => bucket.type)).size !== buckets.length) {
+    return 'Each leave type can only have one bucket';
+  }
+  if (buckets.some(bucket =>
+    (bucket.annualHours !== undefined && !(bucket.annualHours >= 0)) ||
+    (bucket.maxCarryoverHours !== undefined && !(bucket.maxCarryoverHours >= 0))
+  )) {
+    return 'Leave buckets cannot have negative hours';
+  }
+  const accrualProblem = buckets
+    .map(bucket => bucket.accrual && validateAccrualSchedule(bucket.accrual))
+    .find(Boolean);
+  if (accrualProblem) {
+    return accrualProblem;
+  }
+  return null;
+};
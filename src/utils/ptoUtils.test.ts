@@ -7,80 +7,6 @@ import { describe, it, expect } from 'vitest';
 import { PTOCalendarUtils, PTOEntry, PTOConfig } from './ptoUtils';
 
 describe('PTOCalendarUtils', () => {
-  describe('calculateAccruedPTO', () => {
-    it('should calculate accrued PTO correctly for January 1st', () => {
-      const result = PTOCalendarUtils.calculateAccruedPTO(101, 0, 168);
-      expect(result).toBe(0); // No days elapsed on Jan 1st
-    });
-
-    it('should calculate accrued PTO correctly for mid-year (July 1st)', () => {
-      const result = PTOCalendarUtils.calculateAccruedPTO(701, 0, 168);
-      // July 1st is day 182 of year (181 days elapsed from Jan 1)
-      const expected = Math.floor(181 * (168 / 365));
-      expect(result).toBe(expected);
-    });
-
-    it('should include rollover hours in calculation', () => {
-      const rollover = 40;
-      const result = PTOCalendarUtils.calculateAccruedPTO(701, rollover, 168);
-      const basePTO = Math.floor(181 * (168 / 365));
-      expect(result).toBe(basePTO + rollover);
-    });
-
-    it('should handle end of year correctly', () => {
-      const result = PTOCalendarUtils.calculateAccruedPTO(1231, 0, 168);
-      // Dec 31st should give nearly full PTO (364 days elapsed)
-      const expected = Math.floor(364 * (168 / 365));
-      expect(result).toBe(expected);
-    });
-
-    it('should handle leap year calculations (non-leap year 2025)', () => {
-      const result = PTOCalendarUtils.calculateAccruedPTO(301, 0, 168);
-      // March 1st is day 60 (59 days elapsed) in non-leap year
-      const expected = Math.floor(59 * (168 / 365));
-      expect(result).toBe(expected);
-    });
-  });
-
-  describe('validatePTORequest', () => {
-    it('should validate successful PTO request', () => {
-      const ptoHours = { 501: 8, 502: 4 }; // 12 hours used
-      const result = PTOCalendarUtils.validatePTORequest(
-        503, // May 3rd
-        8,   // Request 8 hours
-        ptoHours,
-        168, // Total hours
-        0    // No rollover
-      );
-      expect(result.isValid).toBe(true);
-    });
-
-    it('should reject PTO request exceeding total allowance', () => {
-      const ptoHours = { 501: 80, 502: 80 }; // 160 hours used
-      const result = PTOCalendarUtils.validatePTORequest(
-        503, // May 3rd
-        16,  // Request 16 hours (would exceed 168 total)
-        ptoHours,
-        168, // Total hours
-        0    // No rollover
-      );
-      expect(result.isValid).toBe(false);
-      expect(result.warning).toContain('Exceeds total PTO allowance');
-    });
-
-    it('should account for rollover hours in validation', () => {
-      const ptoHours = { 501: 160 }; // 160 hours used
-      const result = PTOCalendarUtils.validatePTORequest(
-        502, // May 2nd
-        8,   // Request 8 hours
-        ptoHours,
-        168, // Total hours
-        40   // Rollover hours (208 total available)
-      );
-      expect(result.isValid).toBe(true);
-    });
-  });
-
   describe('calculateAnnualPTOHours', () => {
     it('should return 168 hours for less than 5 years of service', () => {
       expect(PTOCalendarUtils.calculateAnnualPTOHours(0)).toBe(168);
@@ -93,6 +19,24 @@ describe('PTOCalendarUtils', () => {
       expect(PTOCalendarUtils.calculateAnnualPTOHours(10)).toBe(208);
       expect(PTOCalendarUtils.calculateAnnualPTOHours(25)).toBe(208);
     });
+
+    it('should read tenure bands from a custom policy', () => {
+      const customPolicy = {
+        id: 'ca',
+        name: 'Toronto office',
+        hoursPerWorkday: 7.5,
+        tenureBands: [
+          { minYears: 0, annualHours: 112.5 },
+          { minYears: 2, annualHours: 150 },
+          { minYears: 8, annualHours: 187.5 }
+        ]
+      };
+
+      expect(PTOCalendarUtils.calculateAnnualPTOHours(1, customPolicy)).toBe(112.5);
+      expect(PTOCalendarUtils.calculateAnnualPTOHours(5, customPolicy)).toBe(150);
+      expect(PTOCalendarUtils.calculateAnnualPTOHours(8, customPolicy)).toBe(187.5);
+      expect(PTOCalendarUtils.calculateTotalPTODays(8, customPolicy)).toBe(25);
+    });
   });
 
   describe('calculateTotalPTOHours (multi-day)', () => {
@@ -131,6 +75,33 @@ describe('PTOCalendarUtils', () => {
       const result = PTOCalendarUtils.calculateTotalPTOHours('2025-01-11', '2025-01-12', 8);
       expect(result).toBe(0); // 0 weekdays * 8 hours
     });
+
+    it('should charge a full day at the hours scheduled that day', () => {
+      // Mon–Thu 10h: Friday off
+      const config = { workdayHours: 10, workSchedule: [0, 10, 10, 10, 10, 0, 0] };
+      expect(PTOCalendarUtils.calculateTotalPTOHours('2025-01-06', '2025-01-10', 10, config)).toBe(40);
+      expect(PTOCalendarUtils.calculateTotalPTOHours('2025-01-10', '2025-01-10', 10, config)).toBe(0);
+    });
+
+    it('should not charge a partial day beyond the scheduled hours', () => {
+      const config = { workSchedule: [0, 8, 8, 4, 8, 8, 0] };
+      // Tue 6h, Wed 4h (short day), Thu 6h
+      expect(PTOCalendarUtils.calculateTotalPTOHours('2025-01-07', '2025-01-09', 6, config)).toBe(16);
+      // A full day on Wednesday costs only the 4 scheduled hours
+      expect(PTOCalendarUtils.calculateTotalPTOHours('2025-01-08', '2025-01-08', 8, config)).toBe(4);
+    });
+
+    it('should default the schedule to the configured workday', () => {
+      expect(PTOCalendarUtils.calculateTotalPTOHours('2025-01-06', '2025-01-10', 6, { workdayHours: 6 })).toBe(30);
+    });
+  });
+
+  describe('getWorkScheduleLabel', () => {
+    it('should group neighbouring days with the same hours', () => {
+      expect(PTOCalendarUtils.getWorkScheduleLabel()).toBe('Mon–Fri 8h');
+      expect(PTOCalendarUtils.getWorkScheduleLabel({ workSchedule: [0, 10, 10, 10, 10, 0, 0] })).toBe('Mon–Thu 10h');
+      expect(PTOCalendarUtils.getWorkScheduleLabel({ workSchedule: [6, 0, 0, 8, 8, 8, 6] })).toBe('Wed–Fri 8h, Sat–Sun 6h');
+    });
   });
 
   describe('calculateTotalPTODays', () => {
@@ -150,11 +121,21 @@ describe('PTOCalendarUtils', () => {
       expect(PTOCalendarUtils.isValidPTOHours(8)).toBe(true);
     });
 
-    it('should reject invalid PTO hour increments', () => {
-      expect(PTOCalendarUtils.isValidPTOHours(1)).toBe(false);
-      expect(PTOCalendarUtils.isValidPTOHours(3)).toBe(false);
-      expect(PTOCalendarUtils.isValidPTOHours(6)).toBe(false);
-      expect(PTOCalendarUtils.isValidPTOHours(12)).toBe(false);
+    it('should accept part-day and appointment hours in quarter-hour steps', () => {
+      expect(PTOCalendarUtils.isValidPTOHours(1.5)).toBe(true);
+      expect(PTOCalendarUtils.isValidPTOHours(6)).toBe(true);
+      expect(PTOCalendarUtils.isValidPTOHours(0.75)).toBe(true);
+    });
+
+    it('should reject hours off the policy increment', () => {
+      expect(PTOCalendarUtils.isValidPTOHours(1.1)).toBe(false);
+      expect(PTOCalendarUtils.isValidPTOHours(3, 2)).toBe(false);
+      expect(PTOCalendarUtils.isValidPTOHours(1.5, 0.5)).toBe(true);
+    });
+
+    it('should reject hours above the day limit', () => {
+      expect(PTOCalendarUtils.isValidPTOHours(12, 1, 10)).toBe(false);
+      expect(PTOCalendarUtils.isValidPTOHours(25)).toBe(false);
     });
   });
 
@@ -165,8 +146,14 @@ describe('PTOCalendarUtils', () => {
       expect(PTOCalendarUtils.hoursToDayFraction(8)).toBe(1.0);
     });
 
+    it('should convert against the workday length', () => {
+      expect(PTOCalendarUtils.hoursToDayFraction(6)).toBe(0.75);
+      expect(PTOCalendarUtils.hoursToDayFraction(6, 6)).toBe(1);
+    });
+
     it('should throw error for invalid hours', () => {
-      expect(() => PTOCalendarUtils.hoursToDayFraction(6)).toThrow();
+      expect(() => PTOCalendarUtils.hoursToDayFraction(0)).toThrow();
+      expect(() => PTOCalendarUtils.hoursToDayFraction(10)).toThrow();
     });
   });
 
@@ -177,8 +164,37 @@ describe('PTOCalendarUtils', () => {
       expect(PTOCalendarUtils.dayFractionToHours(1.0)).toBe(8);
     });
 
+    it('should convert against the workday length', () => {
+      expect(PTOCalendarUtils.dayFractionToHours(0.75)).toBe(6);
+      expect(PTOCalendarUtils.dayFractionToHours(0.5, 10)).toBe(5);
+    });
+
     it('should throw error for invalid fractions', () => {
-      expect(() => PTOCalendarUtils.dayFractionToHours(0.75)).toThrow();
+      expect(() => PTOCalendarUtils.dayFractionToHours(0)).toThrow();
+      expect(() => PTOCalendarUtils.dayFractionToHours(1.5)).toThrow();
+    });
+  });
+
+  describe('splitAtDaysOff', () => {
+    // Thursday to the following Tuesday
+    const entry: PTOEntry = { id: 'e1', startDate: '2025-01-09', endDate: '2025-01-14', hoursPerDay: 8, totalHours: 32, name: 'Trip' };
+
+    it('should split an entry at the weekend', () => {
+      expect(PTOCalendarUtils.splitAtDaysOff(entry)).toEqual([
+        { id: 'e1', startDate: '2025-01-09', endDate: '2025-01-10', hoursPerDay: 8, totalHours: 16, name: 'Trip' },
+        { startDate: '2025-01-13', endDate: '2025-01-14', hoursPerDay: 8, totalHours: 16, name: 'Trip' }
+      ]);
+    });
+
+    it('should leave out a removed day', () => {
+      expect(PTOCalendarUtils.splitAtDaysOff(entry, null, '2025-01-13').map(e => [e.startDate, e.endDate]))
+        .toEqual([['2025-01-09', '2025-01-10'], ['2025-01-14', '2025-01-14']]);
+      expect(PTOCalendarUtils.splitAtDaysOff({ ...entry, endDate: '2025-01-09' }, null, '2025-01-09')).toEqual([]);
+    });
+
+    it('should keep an entry without days off whole', () => {
+      const week = { ...entry, startDate: '2025-01-13', endDate: '2025-01-17', totalHours: 40 };
+      expect(PTOCalendarUtils.splitAtDaysOff(week)).toEqual([week]);
     });
   });
 
@@ -213,7 +229,7 @@ describe('PTOCalendarUtils', () => {
     ];
 
     it('should calculate comprehensive PTO summary', () => {
-      const summary = PTOCalendarUtils.calculatePTOSummary(entries, config);
+      const summary = PTOCalendarUtils.calculatePTOSummary(entries, config, 2025);
       
       expect(summary.totalHours).toBe(188); // 168 + 20 rollover
       expect(summary.usedHours).toBe(12);
@@ -224,6 +240,14 @@ describe('PTOCalendarUtils', () => {
       expect(summary.accrualRate).toBe(188 / 365);
     });
 
+    it('should only count vacation against the allowance', () => {
+      const withSickDay: PTOEntry[] = [
+        ...entries,
+        { startDate: '2025-03-03', endDate: '2025-03-03', hoursPerDay: 8, totalHours: 8, leaveType: 'sick' }
+      ];
+      expect(PTOCalendarUtils.calculatePTOSummary(withSickDay, config, 2025).usedHours).toBe(12);
+    });
+
     it('should handle senior employee PTO calculation', () => {
       const seniorConfig: PTOConfig = {
         yearsOfService: 7,
@@ -236,14 +260,81 @@ describe('PTOCalendarUtils', () => {
       expect(summary.totalHours).toBe(238); // 208 + 30 rollover
       expect(summary.totalDays).toBe(29.75); // 238 / 8
     });
+
+    it('should use the configured policy for allowance and day length', () => {
+      const summary = PTOCalendarUtils.calculatePTOSummary(entries, {
+        ...config,
+        policy: {
+          id: 'uk',
+          name: 'London office',
+          hoursPerWorkday: 7.5,
+          tenureBands: [{ minYears: 0, annualHours: 187.5 }]
+        }
+      }, 2025);
+
+      expect(summary.totalHours).toBe(207.5); // 187.5 + 20 rollover
+      expect(summary.totalDays).toBeCloseTo(27.67, 2); // 207.5 / 7.5
+      expect(summary.usedDays).toBe(1.6); // 12 / 7.5
+    });
+
+    it('should only count PTO taken in the year', () => {
+      const nextYear: PTOEntry = { startDate: '2026-01-05', endDate: '2026-01-05', hoursPerDay: 8, totalHours: 8 };
+
+      expect(PTOCalendarUtils.calculatePTOSummary([...entries, nextYear], config, 2025).usedHours).toBe(12);
+      expect(PTOCalendarUtils.calculatePTOSummary([...entries, nextYear], config, 2026).usedHours).toBe(8);
+    });
   });
 
-  describe('Edge Cases and Boundary Conditions', () => {
-    it('should handle February 29th in non-leap year gracefully', () => {
-      // Should not throw error even though Feb 29 doesn't exist in 2025
-      expect(() => PTOCalendarUtils.calculateAccruedPTO(229, 0, 168)).not.toThrow();
+  describe('carryover cap and expiry', () => {
+    const policy = {
+      id: 'capped',
+      name: 'Capped',
+      hoursPerWorkday: 8,
+      tenureBands: [{ minYears: 0, annualHours: 168 }],
+      maxCarryoverHours: 40,
+      carryoverExpiry: '03-31'
+    };
+    const config: PTOConfig = { yearsOfService: 2, rolloverHours: 56, isEnabled: true, policy };
+
+    // Thu Mar 27 – Wed Apr 2: three weekdays fall on or before Mar 31
+    const spanningEntry: PTOEntry = {
+      startDate: '2025-03-27', endDate: '2025-04-02', hoursPerDay: 8, totalHours: 40
+    };
+
+    it('should only count hours booked on or before a date', () => {
+      expect(PTOCalendarUtils.calculateHoursBookedThrough([spanningEntry], '2025-03-31')).toBe(24);
+      expect(PTOCalendarUtils.calculateHoursBookedThrough([spanningEntry], '2025-03-01')).toBe(0);
+    });
+
+    it('should cap rollover and report what is forfeited', () => {
+      const summary = PTOCalendarUtils.calculatePTOSummary([], config, 2025);
+
+      expect(summary.carryoverHours).toBe(40);
+      expect(summary.forfeitedCarryoverHours).toBe(16);
+      expect(summary.totalHours).toBe(208); // 168 + 40 capped rollover
+    });
+
+    it('should report carried-over hours not planned before expiry', () => {
+      const summary = PTOCalendarUtils.calculatePTOSummary([spanningEntry], config, 2025);
+
+      expect(summary.expiringHours).toBe(16); // 40 carried over - 24 used by Mar 31
+      expect(summary.carryoverExpiryDate).toBe('2025-03-31');
     });
 
+    it('should report nothing at risk once enough PTO is planned in time', () => {
+      const early: PTOEntry = { startDate: '2025-03-03', endDate: '2025-03-07', hoursPerDay: 8, totalHours: 40 };
+      expect(PTOCalendarUtils.calculatePTOSummary([early], config, 2025).expiringHours).toBe(0);
+    });
+
+    it('should report nothing at risk without an expiry rule', () => {
+      const summary = PTOCalendarUtils.calculatePTOSummary([], { ...config, policy: { ...policy, carryoverExpiry: undefined } }, 2025);
+
+      expect(summary.expiringHours).toBe(0);
+      expect(summary.carryoverExpiryDate).toBeNull();
+    });
+  });
+
+  describe('Edge Cases and Boundary Conditions', () => {
     it('should handle maximum rollover scenarios', () => {
       const result = PTOCalendarUtils.calculateRemainingPTO([], 208, 208);
       expect(result).toBe(416); // Maximum possible PTO
@@ -325,6 +416,14 @@ describe('PTOCalendarUtils', () => {
       expect(result).toBe(16); // 2 weekdays * 8 hours
     });
 
+    it('should exclude only the home region\'s holidays', () => {
+      // July 1-7, 2025 for a UK office: no holidays, so all five weekdays count
+      expect(PTOCalendarUtils.calculateTotalPTOHours('2025-07-01', '2025-07-07', 8, { holidayRegion: 'uk' })).toBe(40);
+      // Easter week, 2025: Good Friday (4/18) and Easter Monday (4/21) are UK bank holidays
+      expect(PTOCalendarUtils.calculateTotalPTOHours('2025-04-17', '2025-04-22', 8, { holidayRegion: 'uk' })).toBe(16);
+      expect(PTOCalendarUtils.calculateTotalPTOHours('2025-04-17', '2025-04-22', 8)).toBe(32);
+    });
+
     it('should work correctly for single-day PTO on non-holiday', () => {
       // Single day that is not a holiday
       const result = PTOCalendarUtils.calculateTotalPTOHours('2025-06-16', '2025-06-16', 8);
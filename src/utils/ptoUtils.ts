@@ -3,22 +3,83 @@
  * Mathematical precision functions for PTO calculation and validation
  */
 
-import { isWeekend, parseISO, format } from 'date-fns';
+import { addDays, parseISO, format } from 'date-fns';
 import { isHolidayFromISODate } from '../constants/holidays';
+import type { AccrualSchedule } from './ptoBalance';
+import {
+  DEFAULT_HOUR_INCREMENT,
+  DEFAULT_PTO_POLICY,
+  getCarryoverExpiryDate,
+  getCarryoverHours,
+  getPTOPolicy,
+  getTenureBand,
+  PTOPolicy
+} from './ptoPolicy';
+
+export type LeaveType = 'vacation' | 'sick' | 'floating' | 'unpaid';
+
+export const LEAVE_TYPES: LeaveType[] = ['vacation', 'sick', 'floating', 'unpaid'];
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  vacation: 'Vacation',
+  sick: 'Sick',
+  floating: 'Floating Holiday',
+  unpaid: 'Unpaid'
+};
 
 export interface PTOEntry {
   id?: string;         // Unique identifier for the entry
   startDate: string;   // ISO date format (YYYY-MM-DD)
   endDate: string;     // ISO date format (YYYY-MM-DD) - same as startDate for single day
-  hoursPerDay: number; // 2, 4, or 8 hours per day
+  hoursPerDay: number; // Hours per day, in the policy's increments; a full day when >= the workday
   totalHours: number;  // calculated: hoursPerDay * number of days
   name?: string;       // Optional description
+  leaveType?: LeaveType; // Bucket the hours are drawn from; vacation when omitted
 }
 
 export interface PTOConfig {
   yearsOfService: number;
   rolloverHours: number;
   isEnabled: boolean;
+  policy?: PTOPolicy;  // Allowance rules; the Unispace preset when omitted
+  accrual?: AccrualSchedule; // When allowance hours are earned; daily when omitted
+  leaveRolloverHours?: Partial<Record<LeaveType, number>>; // Hours carried into non-vacation buckets
+  workdayHours?: number; // Length of this person's full PTO day; the policy's hoursPerWorkday when omitted
+  workSchedule?: number[]; // Hours worked each weekday, Sunday first; workdayHours Monday–Friday when omitted
+  holidayRegion?: string;  // Home holiday region, whose holidays aren't charged; the US office when omitted
+  firstYear?: number;      // Plan year yearsOfService and rolloverHours describe; every year is treated as the first when omitted
+  years?: Record<number, PTOYearSettings>; // Settings changed for later plan years, keyed by year
+  balanceFloorHours?: number; // Lowest balance planned PTO should leave; zero when omitted
+}
+
+// Overrides for one plan year; anything omitted follows on from the year before
+export interface PTOYearSettings {
+  yearsOfService?: number;
+  rolloverHours?: number;  // Replaces the previous year's closing balance
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// The parts of a PTO configuration that decide how many hours a day off costs
+export type WorkHoursConfig = Pick<PTOConfig, 'policy' | 'workdayHours' | 'workSchedule' | 'holidayRegion'>;
+
+export interface ChargedDay {
+  date: string;  // ISO date
+  hours: number; // Hours drawn from the balance that day
+}
+
+export interface PTOSummary {
+  totalHours: number;
+  usedHours: number;
+  remainingHours: number;
+  totalDays: number;
+  usedDays: number;
+  remainingDays: number;
+  accrualRate: number;
+  carryoverHours: number;          // Rollover after the policy's cap
+  forfeitedCarryoverHours: number; // Rollover above the cap, lost at the start of the year
+  expiringHours: number;           // Carried-over hours not yet planned before they expire
+  carryoverExpiryDate: string | null; // Last day carried-over hours can be used
 }
 
 export class PTOCalendarUtils {
@@ -34,198 +95,302 @@ export class PTOCalendarUtils {
   }
 
   /**
-   * Calculates accrued PTO based on the current date
-   * @param date Date in MMDD format
-   * @param rollover Rollover hours from previous year
-   * @param totalHours Total hours for the year
-   * @returns Accrued PTO hours (floored)
+   * Calculates annual PTO hours allowance for a given years of service
+   * @param yearsOfService Number of years of service
+   * @param policy PTO policy (defaults to the Unispace preset)
+   * @returns Annual PTO hours for the year
    */
-  static calculateAccruedPTO(
-    date: number,       // Date in MMDD format
-    rollover: number,   // Rollover hours from previous year
-    totalHours: number  // Total hours for the year
+  static calculateAnnualPTOHours(
+    yearsOfService: number,
+    policy: PTOPolicy = DEFAULT_PTO_POLICY
   ): number {
-    const currentYear = new Date().getFullYear();
-    const start = new Date(currentYear, 0, 1);
-    const target = new Date(currentYear, Math.floor(date / 100) - 1, date % 100);
-
-    // Calculate days that have completed (not including current day)
-    // For July 1, we want days from Jan 1 through June 30 (180 days)
-    const dayBefore = new Date(target);
-    dayBefore.setDate(dayBefore.getDate() - 1);
-
-    // If target is Jan 1, dayBefore is Dec 31 prev year, so return 0
-    if (dayBefore < start) {
-      return Math.floor(rollover);
-    }
+    return getTenureBand(policy, yearsOfService).annualHours;
+  }
 
-    // Use UTC to avoid DST issues affecting day count
-    const days = Math.floor((Date.UTC(dayBefore.getFullYear(), dayBefore.getMonth(), dayBefore.getDate()) -
-                             Date.UTC(start.getFullYear(), start.getMonth(), start.getDate())) /
-                            (1000 * 60 * 60 * 24)) + 1;
+  /**
+   * Calculates total PTO days for a given years of service
+   * @param yearsOfService Number of years of service
+   * @param policy PTO policy (defaults to the Unispace preset)
+   * @returns Total PTO days for the year
+   */
+  static calculateTotalPTODays(
+    yearsOfService: number,
+    policy: PTOPolicy = DEFAULT_PTO_POLICY
+  ): number {
+    return this.calculateAnnualPTOHours(yearsOfService, policy) / policy.hoursPerWorkday;
+  }
 
-    // Use actual days in year (365 or 366 for leap years)
-    const daysInYear = this.getDaysInYear(currentYear);
-    return Math.floor(rollover + (days * (totalHours / daysInYear)));
+  /**
+   * Resolves the length of a full PTO day
+   * @param config PTO configuration (may be missing)
+   * @returns The configured workday, or the policy's
+   */
+  static getWorkdayHours(config?: WorkHoursConfig | null): number {
+    return config?.workdayHours ?? getPTOPolicy(config).hoursPerWorkday;
   }
 
   /**
-   * Validates a PTO request against available hours
-   * @param date Date in MMDD format
-   * @param hours Hours to request (2, 4, or 8)
-   * @param ptoHours Record of existing PTO hours by date
-   * @param totalHours Total hours for the year
-   * @param rollover Rollover hours from previous year
-   * @returns Validation result with warning if invalid
+   * Resolves the hours worked on each day of the week
+   * @param config PTO configuration (may be missing)
+   * @returns Seven hour counts, Sunday first
    */
-  static validatePTORequest(
-    _date: number,
-    hours: number,
-    ptoHours: Record<number, number>,
-    totalHours: number,
-    rollover: number
-  ): { isValid: boolean; warning?: string } {
-    const totalAvailable = totalHours + rollover;
-    const totalPlanned = Object.values(ptoHours).reduce((sum, h) => sum + h, 0) + hours;
-    
-    if (totalPlanned > totalAvailable) {
-      return {
-        isValid: false,
-        warning: `Exceeds total PTO allowance for the year (${totalAvailable}h)`
-      };
-    }
-    
-    return { isValid: true };
+  static getWorkSchedule(config?: WorkHoursConfig | null): number[] {
+    if (config?.workSchedule) return config.workSchedule;
+    const workday = this.getWorkdayHours(config);
+    return [0, workday, workday, workday, workday, workday, 0];
   }
 
   /**
-   * Calculates annual PTO hours allowance for a given years of service
-   * @param yearsOfService Number of years of service
-   * @returns Annual PTO hours for the year
+   * Describes a work schedule, grouping neighbouring days with the same hours
+   * @param config PTO configuration (may be missing)
+   * @returns Label such as "Mon–Fri 8h" or "Mon–Thu 10h"
    */
-  static calculateAnnualPTOHours(yearsOfService: number): number {
-    // < 5 years: 21 days (168 hours)
-    // 5+ years: 26 days (208 hours)
-    return yearsOfService < 5 ? 168 : 208;
+  static getWorkScheduleLabel(config?: WorkHoursConfig | null): string {
+    const schedule = this.getWorkSchedule(config);
+    const groups: { from: number; to: number; hours: number }[] = [];
+    // Monday first, Sunday last
+    [1, 2, 3, 4, 5, 6, 0].forEach(day => {
+      const hours = schedule[day];
+      const last = groups[groups.length - 1];
+      if (hours > 0 && last && last.hours === hours && (last.to + 1) % 7 === day) {
+        last.to = day;
+      } else if (hours > 0) {
+        groups.push({ from: day, to: day, hours });
+      }
+    });
+    if (groups.length === 0) return 'No workdays';
+    return groups
+      .map(({ from, to, hours }) => from === to
+        ? `${WEEKDAY_LABELS[from]} ${hours}h`
+        : `${WEEKDAY_LABELS[from]}–${WEEKDAY_LABELS[to]} ${hours}h`)
+      .join(', ');
   }
 
   /**
-   * Calculates total PTO days for a given years of service
-   * @param yearsOfService Number of years of service
-   * @returns Total PTO days for the year
+   * Looks up the hours scheduled on a date
+   * @param date Date in ISO format
+   * @param config PTO configuration (may be missing)
+   * @returns Scheduled hours, or 0 on days off and the home region's holidays
    */
-  static calculateTotalPTODays(yearsOfService: number): number {
-    return yearsOfService < 5 ? 21 : 26;
+  static getScheduledHours(date: string, config?: WorkHoursConfig | null): number {
+    if (isHolidayFromISODate(date, config?.holidayRegion)) return 0;
+    return this.getWorkSchedule(config)[parseISO(date).getDay()] ?? 0;
   }
 
   /**
-   * Validates PTO hours (must be 2, 4, or 8)
+   * Validates PTO hours against a booking increment
    * @param hours Hours to validate
-   * @returns True if valid PTO hours increment
+   * @param increment Smallest bookable step (defaults to quarter hours)
+   * @param maxHours Most hours that can be booked on one day
+   * @returns True if hours is a positive multiple of the increment up to maxHours
    */
-  static isValidPTOHours(hours: number): boolean {
-    return hours === 2 || hours === 4 || hours === 8;
+  static isValidPTOHours(
+    hours: number,
+    increment: number = DEFAULT_HOUR_INCREMENT,
+    maxHours: number = 24
+  ): boolean {
+    if (!(hours > 0 && hours <= maxHours)) return false;
+    const steps = hours / increment;
+    return Math.abs(steps - Math.round(steps)) < 1e-9;
   }
 
   /**
    * Converts PTO hours to fraction of day
-   * @param hours PTO hours (2, 4, or 8)
-   * @returns Fraction of day (0.25, 0.5, or 1.0)
+   * @param hours PTO hours, up to a full workday
+   * @param workdayHours Length of a full day (defaults to the Unispace preset's)
+   * @returns Fraction of day (e.g. 0.75 for 6 of 8 hours)
    */
-  static hoursToDayFraction(hours: number): number {
-    switch (hours) {
-      case 2: return 0.25;
-      case 4: return 0.5;
-      case 8: return 1.0;
-      default: throw new Error(`Invalid PTO hours: ${hours}`);
+  static hoursToDayFraction(
+    hours: number,
+    workdayHours: number = DEFAULT_PTO_POLICY.hoursPerWorkday
+  ): number {
+    if (!(hours > 0 && hours <= workdayHours)) {
+      throw new Error(`Invalid PTO hours: ${hours}`);
     }
+    return hours / workdayHours;
   }
 
   /**
    * Converts day fraction to PTO hours
-   * @param fraction Fraction of day (0.25, 0.5, or 1.0)
-   * @returns PTO hours (2, 4, or 8)
+   * @param fraction Fraction of day, up to 1
+   * @param workdayHours Length of a full day (defaults to the Unispace preset's)
+   * @returns PTO hours
    */
-  static dayFractionToHours(fraction: number): number {
-    switch (fraction) {
-      case 0.25: return 2;
-      case 0.5: return 4;
-      case 1.0: return 8;
-      default: throw new Error(`Invalid day fraction: ${fraction}`);
+  static dayFractionToHours(
+    fraction: number,
+    workdayHours: number = DEFAULT_PTO_POLICY.hoursPerWorkday
+  ): number {
+    if (!(fraction > 0 && fraction <= 1)) {
+      throw new Error(`Invalid day fraction: ${fraction}`);
     }
+    return fraction * workdayHours;
   }
 
   /**
-   * Calculates total hours for a multi-day PTO entry
+   * Lists the days of a PTO entry that are charged against the balance
    * @param startDate Start date in ISO format
    * @param endDate End date in ISO format
-   * @param hoursPerDay Hours per day (2, 4, or 8)
-   * @returns Total hours for the PTO entry (excluding weekends and company holidays)
+   * @param config PTO configuration whose work schedule applies (Monday–Friday when omitted)
+   * @returns ISO dates between start and end (inclusive), excluding days off and company holidays
    */
-  static calculateTotalPTOHours(
+  static getChargeableDates(
     startDate: string,
     endDate: string,
-    hoursPerDay: number
-  ): number {
+    config?: WorkHoursConfig | null
+  ): string[] {
     const start = parseISO(startDate);
     const end = parseISO(endDate);
 
-    // Count only weekdays that are not company holidays between start and end dates (inclusive)
-    let workDays = 0;
+    const dates: string[] = [];
     const current = new Date(start);
 
     while (current <= end) {
       const currentDateStr = format(current, 'yyyy-MM-dd');
-      // Only count if it's not a weekend AND not a company holiday
-      if (!isWeekend(current) && !isHolidayFromISODate(currentDateStr)) {
-        workDays++;
+      // Only count days the person is scheduled to work that aren't company holidays
+      if (this.getScheduledHours(currentDateStr, config) > 0) {
+        dates.push(currentDateStr);
       }
       current.setDate(current.getDate() + 1);
     }
 
-    return workDays * hoursPerDay;
+    return dates;
+  }
+
+  /**
+   * Works out the hours a PTO entry draws on each of its days.
+   * A full day costs whatever is scheduled that day; shorter bookings
+   * never cost more than the day's scheduled hours.
+   * @param startDate Start date in ISO format
+   * @param endDate End date in ISO format
+   * @param hoursPerDay Hours booked per day
+   * @param config PTO configuration whose work schedule applies
+   * @returns Charged hours for each chargeable day
+   */
+  static getChargedDays(
+    startDate: string,
+    endDate: string,
+    hoursPerDay: number,
+    config?: WorkHoursConfig | null
+  ): ChargedDay[] {
+    const isFullDay = hoursPerDay >= this.getWorkdayHours(config);
+    return this.getChargeableDates(startDate, endDate, config).map(date => {
+      const scheduled = this.getScheduledHours(date, config);
+      return { date, hours: isFullDay ? scheduled : Math.min(hoursPerDay, scheduled) };
+    });
+  }
+
+  /**
+   * Calculates total hours for a multi-day PTO entry
+   * @param startDate Start date in ISO format
+   * @param endDate End date in ISO format
+   * @param hoursPerDay Hours booked per day
+   * @param config PTO configuration whose work schedule applies (8-hour weekdays when omitted)
+   * @returns Total hours for the PTO entry (excluding days off and company holidays)
+   */
+  static calculateTotalPTOHours(
+    startDate: string,
+    endDate: string,
+    hoursPerDay: number,
+    config?: WorkHoursConfig | null
+  ): number {
+    return this.getChargedDays(startDate, endDate, hoursPerDay, config)
+      .reduce((sum, day) => sum + day.hours, 0);
   }
 
   /**
    * Creates a single-day PTO entry
    * @param date Date in ISO format
-   * @param hours Hours (2, 4, or 8)
+   * @param hours Hours booked
    * @param name Optional description
+   * @param leaveType Bucket the hours are drawn from
    * @returns PTOEntry for single day
    */
-  static createSingleDayEntry(date: string, hours: number, name?: string): PTOEntry {
+  static createSingleDayEntry(
+    date: string,
+    hours: number,
+    name?: string,
+    leaveType: LeaveType = 'vacation'
+  ): PTOEntry {
     return {
       startDate: date,
       endDate: date,
       hoursPerDay: hours,
       totalHours: hours,
-      name
+      name,
+      ...(leaveType !== 'vacation' ? { leaveType } : {})
     };
   }
 
+  /**
+   * Resolves the leave type of an entry
+   * @param entry PTO entry
+   * @returns The entry's leave type, or vacation for entries saved before leave types existed
+   */
+  static getLeaveType(entry: Pick<PTOEntry, 'leaveType'>): LeaveType {
+    return entry.leaveType ?? 'vacation';
+  }
+
   /**
    * Creates a multi-day PTO entry
    * @param startDate Start date in ISO format
    * @param endDate End date in ISO format
-   * @param hoursPerDay Hours per day (2, 4, or 8)
+   * @param hoursPerDay Hours booked per day
    * @param name Optional description
+   * @param config PTO configuration whose work schedule applies
    * @returns PTOEntry for date range
    */
   static createMultiDayEntry(
     startDate: string, 
     endDate: string, 
     hoursPerDay: number, 
-    name?: string
+    name?: string,
+    config?: WorkHoursConfig | null
   ): PTOEntry {
     return {
       startDate,
       endDate,
       hoursPerDay,
-      totalHours: this.calculateTotalPTOHours(startDate, endDate, hoursPerDay),
+      totalHours: this.calculateTotalPTOHours(startDate, endDate, hoursPerDay, config),
       name
     };
   }
 
+  /**
+   * Splits an entry into runs of consecutive chargeable days, so no entry spans a day off
+   * @param entry PTO entry
+   * @param config PTO configuration whose work schedule applies
+   * @param removedDate Optional day to leave out as well, e.g. one being unbooked
+   * @returns An entry per run with its hours recalculated; only the first keeps the entry's id
+   */
+  static splitAtDaysOff(
+    entry: PTOEntry,
+    config?: WorkHoursConfig | null,
+    removedDate?: string
+  ): PTOEntry[] {
+    const runs: string[][] = [];
+    this.getChargeableDates(entry.startDate, entry.endDate, config)
+      .filter(date => date !== removedDate)
+      .forEach(date => {
+        const run = runs[runs.length - 1];
+        if (run && format(addDays(parseISO(run[run.length - 1]), 1), 'yyyy-MM-dd') === date) {
+          run.push(date);
+        } else {
+          runs.push([date]);
+        }
+      });
+
+    return runs.map((run, index) => {
+      const piece: PTOEntry = {
+        ...entry,
+        startDate: run[0],
+        endDate: run[run.length - 1],
+        totalHours: this.calculateTotalPTOHours(run[0], run[run.length - 1], entry.hoursPerDay, config)
+      };
+      if (index > 0) delete piece.id;
+      return piece;
+    });
+  }
+
   /**
    * Calculates remaining PTO hours for the year
    * @param ptoEntries Array of PTO entries
@@ -243,38 +408,71 @@ export class PTOCalendarUtils {
   }
 
   /**
-   * Calculates PTO usage summary for reporting
+   * Calculates PTO hours booked on or before a date
    * @param ptoEntries Array of PTO entries
-   * @param config PTO configuration
+   * @param date ISO date (inclusive)
+   * @param config PTO configuration whose work schedule applies
+   * @returns Hours booked up to and including the date
+   */
+  static calculateHoursBookedThrough(
+    ptoEntries: PTOEntry[],
+    date: string,
+    config?: WorkHoursConfig | null
+  ): number {
+    return ptoEntries
+      .filter(entry => entry.startDate <= date)
+      .reduce((sum, entry) => sum + this.calculateTotalPTOHours(
+        entry.startDate,
+        entry.endDate < date ? entry.endDate : date,
+        entry.hoursPerDay,
+        config
+      ), 0);
+  }
+
+  /**
+   * Calculates PTO usage summary for reporting.
+   * Rollover is capped by the policy; PTO taken before the carryover expiry
+   * uses carried-over hours first, and whatever is left at expiry is at risk.
+   * @param ptoEntries Array of PTO entries (only those starting in the year are counted)
+   * @param config PTO configuration for the year
+   * @param year Calendar year (defaults to the current year)
    * @returns Usage summary with breakdown
    */
   static calculatePTOSummary(
     ptoEntries: PTOEntry[],
-    config: PTOConfig
-  ): {
-    totalHours: number;
-    usedHours: number;
-    remainingHours: number;
-    totalDays: number;
-    usedDays: number;
-    remainingDays: number;
-    accrualRate: number;
-  } {
-    const totalHours = this.calculateAnnualPTOHours(config.yearsOfService) + config.rolloverHours;
-    const usedHours = ptoEntries.reduce((sum, entry) => sum + entry.totalHours, 0);
+    config: PTOConfig,
+    year: number = new Date().getFullYear()
+  ): PTOSummary {
+    const policy = getPTOPolicy(config);
+    const carryoverHours = getCarryoverHours(policy, config.rolloverHours);
+    const totalHours = this.calculateAnnualPTOHours(config.yearsOfService, policy) + carryoverHours;
+    // Other leave types draw from their own buckets
+    const vacationEntries = ptoEntries.filter(entry =>
+      this.getLeaveType(entry) === 'vacation' && entry.startDate.startsWith(`${year}-`)
+    );
+    const usedHours = vacationEntries.reduce((sum, entry) => sum + entry.totalHours, 0);
     const remainingHours = totalHours - usedHours;
+
+    const carryoverExpiryDate = carryoverHours > 0 ? getCarryoverExpiryDate(policy, year) : null;
+    const expiringHours = carryoverExpiryDate
+      ? Math.max(0, carryoverHours - this.calculateHoursBookedThrough(vacationEntries, carryoverExpiryDate, config))
+      : 0;
     
-    const currentYear = new Date().getFullYear();
-    const daysInYear = this.getDaysInYear(currentYear);
+    const daysInYear = this.getDaysInYear(year);
+    const workdayHours = this.getWorkdayHours(config);
 
     return {
       totalHours,
       usedHours,
       remainingHours,
-      totalDays: totalHours / 8,
-      usedDays: usedHours / 8,
-      remainingDays: remainingHours / 8,
-      accrualRate: totalHours / daysInYear // Hours per day (accounts for leap years)
+      totalDays: totalHours / workdayHours,
+      usedDays: usedHours / workdayHours,
+      remainingDays: remainingHours / workdayHours,
+      accrualRate: totalHours / daysInYear, // Hours per day (accounts for leap years)
+      carryoverHours,
+      forfeitedCarryoverHours: config.rolloverHours - carryoverHours,
+      expiringHours,
+      carryoverExpiryDate
     };
   }
 }
\ No newline at end of file
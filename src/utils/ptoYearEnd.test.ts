@@ -0,0 +1,75 @@
+/**
+ * Test suite for closing PTO plan years
+ * Testing year-end balances, the carryover cap and snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { closePTOYear, getClosedYear } from './ptoYearEnd';
+import { PTOCalendarUtils, PTOConfig } from './ptoUtils';
+
+describe('ptoYearEnd', () => {
+  const config: PTOConfig = { yearsOfService: 2, rolloverHours: 0, isEnabled: true };
+  const day = (date: string, hours = 8) => PTOCalendarUtils.createSingleDayEntry(date, hours);
+
+  describe('closePTOYear', () => {
+    const entries = [
+      day('2025-03-03'),
+      day('2025-03-04'),
+      day('2025-07-07'),
+      PTOCalendarUtils.createSingleDayEntry('2025-02-03', 8, 'Flu', 'sick'),
+      day('2026-01-05')
+    ];
+
+    it('should carry the remaining balance into the next year', () => {
+      const closed = closePTOYear(entries, config, 2025, '2026-01-02');
+
+      expect(closed).toMatchObject({
+        year: 2025,
+        closedOn: '2026-01-02',
+        yearsOfService: 2,
+        workdayHours: 8,
+        totalHours: 168,
+        usedHours: 24,
+        expiredHours: 0,
+        remainingHours: 144,
+        carriedOverHours: 144
+      });
+    });
+
+    it('should keep every leave type taken in the year', () => {
+      const closed = closePTOYear(entries, config, 2025, '2026-01-02');
+      expect(closed.entries.map(entry => entry.startDate)).toEqual(['2025-03-03', '2025-03-04', '2025-07-07', '2025-02-03']);
+    });
+
+    it('should drop expired carryover and apply the carryover cap', () => {
+      const capped: PTOConfig = {
+        ...config,
+        rolloverHours: 56,
+        policy: {
+          id: 'capped',
+          name: 'Capped',
+          hoursPerWorkday: 8,
+          tenureBands: [{ minYears: 0, annualHours: 168 }],
+          maxCarryoverHours: 40,
+          carryoverExpiry: '03-31'
+        }
+      };
+      const closed = closePTOYear([day('2025-02-10')], capped, 2025, '2026-01-02');
+
+      expect(closed.totalHours).toBe(208); // 168 + 40 capped rollover
+      expect(closed.expiredHours).toBe(32); // 40 carried over - 8 used by Mar 31
+      expect(closed.remainingHours).toBe(168);
+      expect(closed.carriedOverHours).toBe(40);
+    });
+  });
+
+  describe('getClosedYear', () => {
+    it('should find a closed year by its year', () => {
+      const closed = closePTOYear([], config, 2025, '2026-01-02');
+
+      expect(getClosedYear([closed], 2025)).toBe(closed);
+      expect(getClosedYear([closed], 2026)).toBeNull();
+      expect(getClosedYear(undefined, 2025)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * PTO Year-End Close
+ * Freezes a finished plan year and works out how much of its balance carries into the next
+ */
+
+import { format } from 'date-fns';
+import { PTOCalendarUtils, PTOConfig, PTOEntry } from './ptoUtils';
+import { getCarryoverHours, getPTOPolicy } from './ptoPolicy';
+
+// Read-only record of a plan year as it stood when it was closed
+export interface ClosedPTOYear {
+  year: number;
+  closedOn: string;          // ISO date the year was closed
+  yearsOfService: number;
+  workdayHours: number;      // Length of a full PTO day that year
+  totalHours: number;        // Annual allowance plus carryover
+  usedHours: number;         // Vacation hours taken
+  expiredHours: number;      // Carried-over hours lost at the carryover expiry
+  remainingHours: number;    // Balance at the end of the year
+  carriedOverHours: number;  // Part of the balance seeded into the next year's rollover
+  entries: PTOEntry[];       // Leave of every type taken in the year
+}
+
+/**
+ * Closes a plan year. The remaining balance comes from the PTO summary, less any carryover
+ * that expired unused, and the policy's carryover cap decides how much moves to the next year.
+ * @param entries PTO entries for every year (only those starting in the year are kept)
+ * @param config PTO configuration for the year
+ * @param year Plan year to close
+ * @param closedOn ISO date of the close (defaults to today)
+ * @returns Snapshot of the year
+ */
+export const closePTOYear = (
+  entries: PTOEntry[],
+  config: PTOConfig,
+  year: number,
+  closedOn: string = format(new Date(), 'yyyy-MM-dd')
+): ClosedPTOYear => {
+  const summary = PTOCalendarUtils.calculatePTOSummary(entries, config, year);
+  const remainingHours = summary.remainingHours - summary.expiringHours;
+
+  return {
+    year,
+    closedOn,
+    yearsOfService: config.yearsOfService,
+    workdayHours: PTOCalendarUtils.getWorkdayHours(config),
+    totalHours: summary.totalHours,
+    usedHours: summary.usedHours,
+    expiredHours: summary.expiringHours,
+    remainingHours,
+    carriedOverHours: getCarryoverHours(getPTOPolicy(config), Math.max(0, remainingHours)),
+    entries: entries
+      .filter(entry => entry.startDate.startsWith(`${year}-`))
+      .map(entry => ({ ...entry }))
+  };
+};
+
+/**
+ * Finds the snapshot of a closed plan year
+ * @param closedYears Snapshots of a calendar's closed years
+ * @param year Plan year
+ * @returns The snapshot, or null while the year is open
+ */
+export const getClosedYear = (closedYears: ClosedPTOYear[] | undefined, year: number): ClosedPTOYear | null =>
+  closedYears?.find(closed => closed.year === year) ?? null;
@@ -0,0 +1,42 @@
+/**
+ * Test suite for dragging date ranges
+ * Testing moves, edge resizes and preview lookups
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getDraggedRange, isInDraggedRange } from './rangeDrag';
+
+describe('rangeDrag', () => {
+  const range = { start: '2025-03-10', end: '2025-03-12' };
+
+  describe('getDraggedRange', () => {
+    it('should move the whole range by the distance dragged', () => {
+      expect(getDraggedRange(range, 'move', '2025-03-11', '2025-03-14')).toEqual({ start: '2025-03-13', end: '2025-03-15' });
+      expect(getDraggedRange(range, 'move', '2025-03-10', '2025-02-28')).toEqual({ start: '2025-02-28', end: '2025-03-02' });
+    });
+
+    it('should move across month and year boundaries', () => {
+      const december = { start: '2025-12-30', end: '2025-12-31' };
+      expect(getDraggedRange(december, 'move', '2025-12-30', '2026-01-02')).toEqual({ start: '2026-01-02', end: '2026-01-03' });
+    });
+
+    it('should resize from either edge', () => {
+      expect(getDraggedRange(range, 'start', '2025-03-10', '2025-03-05')).toEqual({ start: '2025-03-05', end: '2025-03-12' });
+      expect(getDraggedRange(range, 'end', '2025-03-12', '2025-03-20')).toEqual({ start: '2025-03-10', end: '2025-03-20' });
+    });
+
+    it('should stop an edge at the other edge', () => {
+      expect(getDraggedRange(range, 'start', '2025-03-10', '2025-03-20')).toEqual({ start: '2025-03-12', end: '2025-03-12' });
+      expect(getDraggedRange(range, 'end', '2025-03-12', '2025-03-01')).toEqual({ start: '2025-03-10', end: '2025-03-10' });
+    });
+  });
+
+  describe('isInDraggedRange', () => {
+    it('should cover the dragged dates inclusively', () => {
+      expect(isInDraggedRange('2025-03-10', range)).toBe(true);
+      expect(isInDraggedRange('2025-03-12', range)).toBe(true);
+      expect(isInDraggedRange('2025-03-13', range)).toBe(false);
+      expect(isInDraggedRange('2025-03-10', null)).toBe(false);
+    });
+  });
+});
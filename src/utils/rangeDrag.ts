@@ -0,0 +1,51 @@
+/**
+ * Range Dragging
+ * Works out where a date range lands when it is dragged on the calendar grid
+ */
+
+import { addDays, differenceInCalendarDays, formatISO, parseISO } from 'date-fns';
+
+// Dragging the body of a range moves it; dragging an edge resizes it
+export type RangeDragMode = 'move' | 'start' | 'end';
+
+export interface DraggedDates {
+  start: string; // ISO date
+  end: string;   // ISO date
+}
+
+const shiftDate = (date: string, days: number): string =>
+  formatISO(addDays(parseISO(date), days), { representation: 'date' });
+
+/**
+ * Moves or resizes a range by the distance the pointer travelled
+ * @param range Dates of the range when the drag started
+ * @param mode Whether the whole range or one of its edges is dragged
+ * @param from ISO date the drag started on
+ * @param to ISO date the pointer is over
+ * @returns The dragged dates. An edge stops at the other edge, so a range never ends before it starts.
+ */
+export const getDraggedRange = (
+  range: DraggedDates,
+  mode: RangeDragMode,
+  from: string,
+  to: string
+): DraggedDates => {
+  if (mode === 'start') {
+    return { start: to < range.end ? to : range.end, end: range.end };
+  }
+  if (mode === 'end') {
+    return { start: range.start, end: to > range.start ? to : range.start };
+  }
+
+  const days = differenceInCalendarDays(parseISO(to), parseISO(from));
+  return { start: shiftDate(range.start, days), end: shiftDate(range.end, days) };
+};
+
+/**
+ * Checks whether a date falls within dragged dates
+ * @param date ISO date
+ * @param dates Dragged dates, or null when nothing is being dragged
+ * @returns True if the date is covered
+ */
+export const isInDraggedRange = (date: string, dates: DraggedDates | null): boolean =>
+  !!dates && date >= dates.start && date <= dates.end;
@@ -0,0 +1,128 @@
+/**
+ * Test suite for recurrence expansion
+ * Testing frequencies, intervals, COUNT/UNTIL limits and exceptions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeRecurrence, expandRecurrence, expandRecurringRange, getNthWeekdayOfMonth } from './recurrence';
+
+describe('recurrence', () => {
+  describe('getNthWeekdayOfMonth', () => {
+    it('should find the nth weekday from the start of the month', () => {
+      // First Friday of March 2025
+      expect(getNthWeekdayOfMonth(2025, 2, 5, 1)?.getDate()).toBe(7);
+      // Third Monday of January 2025
+      expect(getNthWeekdayOfMonth(2025, 0, 1, 3)?.getDate()).toBe(20);
+    });
+
+    it('should find the last weekday of the month', () => {
+      // Last Monday of May 2025
+      expect(getNthWeekdayOfMonth(2025, 4, 1, -1)?.getDate()).toBe(26);
+    });
+
+    it('should return null when the month has no such day', () => {
+      // February 2025 has four Mondays
+      expect(getNthWeekdayOfMonth(2025, 1, 1, 5)).toBeNull();
+    });
+  });
+
+  describe('expandRecurrence', () => {
+    it('should expand daily rules with an interval', () => {
+      expect(expandRecurrence('2025-01-01', { frequency: 'daily', interval: 3, count: 4 }, '2025-01-01', '2025-12-31'))
+        .toEqual(['2025-01-01', '2025-01-04', '2025-01-07', '2025-01-10']);
+    });
+
+    it('should expand weekly rules on several weekdays', () => {
+      // Every other week on Monday and Wednesday, starting Wednesday Jan 1
+      const dates = expandRecurrence(
+        '2025-01-01',
+        { frequency: 'weekly', interval: 2, byWeekday: [1, 3] },
+        '2025-01-01',
+        '2025-01-31'
+      );
+      expect(dates).toEqual(['2025-01-01', '2025-01-13', '2025-01-15', '2025-01-27', '2025-01-29']);
+    });
+
+    it('should group weekdays into weeks from the rule\'s week start', () => {
+      // Every 2 weeks on Sun, Mon from Sunday Jan 4
+      const rule = { frequency: 'weekly' as const, interval: 2, byWeekday: [0, 1] };
+
+      expect(expandRecurrence('2026-01-04', rule, '2026-01-01', '2026-01-31'))
+        .toEqual(['2026-01-04', '2026-01-05', '2026-01-18', '2026-01-19']);
+      expect(expandRecurrence('2026-01-04', { ...rule, weekStart: 1 }, '2026-01-01', '2026-01-31'))
+        .toEqual(['2026-01-04', '2026-01-12', '2026-01-18', '2026-01-26']);
+    });
+
+    it('should expand monthly rules by nth weekday', () => {
+      const dates = expandRecurrence(
+        '2025-01-03',
+        { frequency: 'monthly', byNthWeekday: { n: 1, weekday: 5 }, count: 3 },
+        '2025-01-01',
+        '2025-12-31'
+      );
+      expect(dates).toEqual(['2025-01-03', '2025-02-07', '2025-03-07']);
+    });
+
+    it('should skip months without the start day', () => {
+      const dates = expandRecurrence('2025-01-31', { frequency: 'monthly' }, '2025-01-01', '2025-05-31');
+      expect(dates).toEqual(['2025-01-31', '2025-03-31', '2025-05-31']);
+    });
+
+    it('should skip Feb 29 in non-leap years', () => {
+      const dates = expandRecurrence('2024-02-29', { frequency: 'yearly' }, '2024-01-01', '2028-12-31');
+      expect(dates).toEqual(['2024-02-29', '2028-02-29']);
+    });
+
+    it('should stop at the until date', () => {
+      const dates = expandRecurrence('2025-01-06', { frequency: 'weekly', until: '2025-01-20' }, '2025-01-01', '2025-12-31');
+      expect(dates).toEqual(['2025-01-06', '2025-01-13', '2025-01-20']);
+    });
+
+    it('should count occurrences before the window and exceptions towards the count', () => {
+      const rule = { frequency: 'weekly' as const, count: 4, exceptions: ['2025-01-13'] };
+      expect(expandRecurrence('2024-12-30', rule, '2025-01-01', '2025-12-31'))
+        .toEqual(['2025-01-06', '2025-01-20']);
+    });
+
+    it('should only return dates inside the window', () => {
+      const dates = expandRecurrence('2020-06-15', { frequency: 'yearly' }, '2025-01-01', '2025-12-31');
+      expect(dates).toEqual(['2025-06-15']);
+    });
+  });
+
+  describe('expandRecurringRange', () => {
+    it('should give every occurrence the length of the first', () => {
+      const occurrences = expandRecurringRange('2025-01-06', '2025-01-10', { frequency: 'weekly', interval: 2 }, '2025-01-01', '2025-01-31');
+      expect(occurrences).toEqual([
+        { start: '2025-01-06', end: '2025-01-10' },
+        { start: '2025-01-20', end: '2025-01-24' }
+      ]);
+    });
+
+    it('should include an occurrence that runs into the window', () => {
+      const occurrences = expandRecurringRange('2025-01-30', '2025-02-02', { frequency: 'monthly' }, '2025-02-01', '2025-02-28');
+      expect(occurrences).toEqual([{ start: '2025-01-30', end: '2025-02-02' }]);
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it('should describe intervals and weekdays', () => {
+      expect(describeRecurrence({ frequency: 'daily' }, '2025-01-06')).toBe('Every day');
+      expect(describeRecurrence({ frequency: 'weekly', interval: 2 }, '2025-01-06')).toBe('Every 2 weeks on Mon');
+      expect(describeRecurrence({ frequency: 'weekly', byWeekday: [5, 1] }, '2025-01-06')).toBe('Every week on Mon, Fri');
+    });
+
+    it('should describe monthly rules by date or nth weekday', () => {
+      expect(describeRecurrence({ frequency: 'monthly' }, '2025-01-15')).toBe('Every month on day 15');
+      expect(describeRecurrence({ frequency: 'monthly', byNthWeekday: { n: 1, weekday: 5 } }, '2025-01-03'))
+        .toBe('Every month on the first Friday');
+      expect(describeRecurrence({ frequency: 'monthly', byNthWeekday: { n: -1, weekday: 1 } }, '2025-01-27'))
+        .toBe('Every month on the last Monday');
+    });
+
+    it('should describe the end of the series', () => {
+      expect(describeRecurrence({ frequency: 'yearly', until: '2030-06-30' }, '2025-06-30')).toBe('Every year until Jun 30, 2030');
+      expect(describeRecurrence({ frequency: 'daily', count: 5 }, '2025-06-30')).toBe('Every day, 5 times');
+    });
+  });
+});
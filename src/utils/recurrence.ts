@@ -0,0 +1,208 @@
+/**
+ * Recurrence Utilities
+ * Expansion of repeating date rules (a practical subset of RFC 5545 RRULE)
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  format,
+  formatISO,
+  getDay,
+  getDaysInMonth,
+  parseISO,
+  startOfWeek
+} from 'date-fns';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;     // Every N days/weeks/months/years (default 1)
+  count?: number;        // Total occurrences, including the first and any exceptions
+  until?: string;        // Last possible occurrence date (ISO, inclusive)
+  byWeekday?: number[];  // Weekly only: days of the week (0 = Sunday)
+  weekStart?: number;    // Weekly only: first day of the week when skipping weeks (default 0 = Sunday)
+  byNthWeekday?: {       // Monthly only: e.g. first Friday (n = 1) or last Monday (n = -1)
+    n: number;
+    weekday: number;
+  };
+  exceptions?: string[]; // Occurrence dates to skip (ISO)
+}
+
+// Guards against rules that never produce a date inside the window
+const MAX_PERIODS = 5000;
+
+const toISODate = (date: Date): string => formatISO(date, { representation: 'date' });
+
+/**
+ * Finds the nth weekday of a month
+ * @param year Full year
+ * @param month Month index (0-11)
+ * @param weekday Day of the week (0 = Sunday)
+ * @param n 1-5 counts from the start of the month, -1 to -5 from the end
+ * @returns The date, or null when the month has no such day (e.g. a 5th Monday)
+ */
+export const getNthWeekdayOfMonth = (
+  year: number,
+  month: number,
+  weekday: number,
+  n: number
+): Date | null => {
+  const daysInMonth = getDaysInMonth(new Date(year, month, 1));
+
+  if (n > 0) {
+    const firstWeekday = getDay(new Date(year, month, 1));
+    const day = 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+    return day <= daysInMonth ? new Date(year, month, day) : null;
+  }
+
+  const lastWeekday = getDay(new Date(year, month, daysInMonth));
+  const day = daysInMonth - ((lastWeekday - weekday + 7) % 7) + (n + 1) * 7;
+  return day >= 1 ? new Date(year, month, day) : null;
+};
+
+// Candidate occurrence dates for the kth period after the series start
+const getPeriodDates = (start: Date, rule: RecurrenceRule, k: number): Date[] => {
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return [addDays(start, k * interval)];
+    case 'weekly': {
+      const weekStartsOn = (rule.weekStart ?? 0) as 0 | 1 | 2 | 3 | 4 | 5 | 6;
+      const weekStart = addWeeks(startOfWeek(start, { weekStartsOn }), k * interval);
+      const weekdays = rule.byWeekday?.length ? rule.byWeekday : [getDay(start)];
+      // Days counted from the start of the week, in order
+      return weekdays
+        .map(weekday => (weekday - weekStartsOn + 7) % 7)
+        .sort((a, b) => a - b)
+        .map(days => addDays(weekStart, days));
+    }
+    case 'monthly': {
+      const month = addMonths(new Date(start.getFullYear(), start.getMonth(), 1), k * interval);
+      if (rule.byNthWeekday) {
+        const date = getNthWeekdayOfMonth(
+          month.getFullYear(),
+          month.getMonth(),
+          rule.byNthWeekday.weekday,
+          rule.byNthWeekday.n
+        );
+        return date ? [date] : [];
+      }
+      // Months without this day (e.g. the 31st) are skipped, as in RFC 5545
+      return start.getDate() <= getDaysInMonth(month)
+        ? [new Date(month.getFullYear(), month.getMonth(), start.getDate())]
+        : [];
+    }
+    case 'yearly': {
+      const date = addYears(start, k * interval);
+      // addYears clamps Feb 29 to Feb 28; skip non-leap years instead
+      return date.getDate() === start.getDate() ? [date] : [];
+    }
+  }
+};
+
+/**
+ * Expands a recurring series into occurrence start dates within a window
+ * @param startDate First occurrence (ISO date); it always counts towards `count`
+ * @param rule Recurrence rule
+ * @param windowStart First date of interest (ISO, inclusive)
+ * @param windowEnd Last date of interest (ISO, inclusive)
+ * @returns Occurrence start dates (ISO) inside the window, in order
+ */
+export const expandRecurrence = (
+  startDate: string,
+  rule: RecurrenceRule,
+  windowStart: string,
+  windowEnd: string
+): string[] => {
+  const start = parseISO(startDate);
+  const exceptions = new Set(rule.exceptions || []);
+  const occurrences: string[] = [];
+  let generated = 0;
+
+  for (let k = 0; k < MAX_PERIODS; k++) {
+    const candidates = getPeriodDates(start, rule, k)
+      .filter(date => differenceInCalendarDays(date, start) >= 0);
+
+    for (const date of candidates) {
+      const iso = toISODate(date);
+      if (rule.until && iso > rule.until) return occurrences;
+      if (iso > windowEnd) return occurrences;
+      if (rule.count !== undefined && generated >= rule.count) return occurrences;
+
+      generated++;
+      if (iso >= windowStart && !exceptions.has(iso)) {
+        occurrences.push(iso);
+      }
+    }
+  }
+
+  return occurrences;
+};
+
+/**
+ * Expands a recurring range into its occurrences within a window.
+ * Every occurrence lasts as long as the first one.
+ * @param start First day of the first occurrence (ISO)
+ * @param end Last day of the first occurrence (ISO)
+ * @param rule Recurrence rule
+ * @param windowStart First date of interest (ISO, inclusive)
+ * @param windowEnd Last date of interest (ISO, inclusive)
+ * @returns Occurrences touching the window, in order
+ */
+export const expandRecurringRange = (
+  start: string,
+  end: string,
+  rule: RecurrenceRule,
+  windowStart: string,
+  windowEnd: string
+): { start: string; end: string }[] => {
+  const length = differenceInCalendarDays(parseISO(end), parseISO(start));
+  // Occurrences starting shortly before the window can still run into it
+  const earliestStart = toISODate(addDays(parseISO(windowStart), -length));
+
+  return expandRecurrence(start, rule, earliestStart, windowEnd).map(occurrence => ({
+    start: occurrence,
+    end: toISODate(addDays(parseISO(occurrence), length))
+  }));
+};
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const FULL_WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', [-1]: 'last' };
+const UNITS: Record<RecurrenceFrequency, string> = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' };
+
+/**
+ * Describes a recurrence rule in words
+ * @param rule Recurrence rule
+ * @param startDate First occurrence (ISO date), which fixes the day for rules without one
+ * @returns Label such as "Every 2 weeks on Mon, Fri until Jun 30, 2025"
+ */
+export const describeRecurrence = (rule: RecurrenceRule, startDate: string): string => {
+  const start = parseISO(startDate);
+  const interval = Math.max(1, rule.interval || 1);
+  let label = interval === 1
+    ? `Every ${UNITS[rule.frequency]}`
+    : `Every ${interval} ${UNITS[rule.frequency]}s`;
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = rule.byWeekday?.length ? [...rule.byWeekday].sort() : [getDay(start)];
+    label += ` on ${weekdays.map(weekday => WEEKDAY_NAMES[weekday]).join(', ')}`;
+  } else if (rule.frequency === 'monthly') {
+    label += rule.byNthWeekday
+      ? ` on the ${ORDINALS[rule.byNthWeekday.n] ?? `${rule.byNthWeekday.n}th`} ${FULL_WEEKDAY_NAMES[rule.byNthWeekday.weekday]}`
+      : ` on day ${start.getDate()}`;
+  }
+
+  if (rule.until) {
+    label += ` until ${format(parseISO(rule.until), 'MMM d, yyyy')}`;
+  } else if (rule.count !== undefined) {
+    label += `, ${rule.count} ${rule.count === 1 ? 'time' : 'times'}`;
+  }
+  return label;
+};
@@ -0,0 +1,161 @@
+/**
+ * Test suite for share link utilities
+ * Testing calendar selection, stripped text, hidden names, links without PTO hours and merging shared calendars
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getSharedGroups, mergeSharedGroups } from './sharing';
+import { GROUP_COLORS, MAX_GROUPS } from '../store';
+import type { EventGroup } from '../store';
+
+describe('sharing', () => {
+  const team: EventGroup = {
+    id: 'team',
+    name: 'Team Offsite',
+    color: '#24d05a',
+    ranges: [{ start: '2025-03-10', end: '2025-03-12', description: 'Planning in Lisbon' }]
+  };
+
+  const pto: EventGroup = {
+    id: 'pto',
+    name: 'My PTO',
+    color: '#f44336',
+    ranges: [{ start: '2025-07-07', end: '2025-07-07' }],
+    ptoConfig: { yearsOfService: 2, rolloverHours: 0, isEnabled: true },
+    ptoEntries: [{ id: 'e1', startDate: '2025-07-07', endDate: '2025-07-07', hoursPerDay: 8, totalHours: 8, name: 'Doctor' }],
+    closedYears: [{
+      year: 2024,
+      closedOn: '2025-01-02',
+      yearsOfService: 1,
+      workdayHours: 8,
+      totalHours: 120,
+      usedHours: 8,
+      expiredHours: 0,
+      remainingHours: 112,
+      carriedOverHours: 40,
+      entries: [{ id: 'e0', startDate: '2024-05-06', endDate: '2024-05-06', hoursPerDay: 8, totalHours: 8, name: 'Moving day' }]
+    }]
+  };
+
+  describe('getSharedGroups', () => {
+    it('should share every calendar unchanged by default', () => {
+      expect(getSharedGroups([team, pto])).toEqual([team, pto]);
+    });
+
+    it('should only share the chosen calendars', () => {
+      expect(getSharedGroups([team, pto], { groupIds: ['pto'] }).map(g => g.id)).toEqual(['pto']);
+      expect(getSharedGroups([team, pto], { groupIds: [] })).toEqual([]);
+    });
+
+    it('should strip descriptions and PTO entry names', () => {
+      const [sharedTeam, sharedPTO] = getSharedGroups([team, pto], { stripText: true });
+
+      expect(sharedTeam.name).toBe('Team Offsite');
+      expect(sharedTeam.ranges).toEqual([{ start: '2025-03-10', end: '2025-03-12' }]);
+      expect(sharedPTO.ptoEntries?.[0]).not.toHaveProperty('name');
+      expect(sharedPTO.closedYears?.[0].entries[0]).not.toHaveProperty('name');
+      expect(pto.ptoEntries?.[0].name).toBe('Doctor');
+    });
+
+    it('should number calendars when their names are hidden', () => {
+      const shared = getSharedGroups([team, pto], { groupIds: ['pto'], hideNames: true });
+
+      expect(shared.map(g => g.name)).toEqual(['Calendar 1']);
+      expect(getSharedGroups([team, pto], { hideNames: true }).map(g => g.name)).toEqual(['Calendar 1', 'Calendar 2']);
+      expect(pto.name).toBe('My PTO');
+    });
+
+    it('should share PTO days without hours or settings', () => {
+      const [sharedPTO] = getSharedGroups([pto], { omitPTOHours: true });
+
+      expect(sharedPTO.ranges).toEqual(pto.ranges);
+      expect(sharedPTO).not.toHaveProperty('ptoConfig');
+      expect(sharedPTO).not.toHaveProperty('ptoEntries');
+      expect(sharedPTO).not.toHaveProperty('closedYears');
+    });
+  });
+
+  describe('mergeSharedGroups', () => {
+    const mine: EventGroup = { id: 'mine', name: 'My PTO', color: '#f44336', ranges: [] };
+
+    it('should add shared calendars as new ones, recoloured when the colour is taken', () => {
+      const { groups, added, merged, skipped } = mergeSharedGroups([mine], [team, { ...pto, name: 'Alex' }]);
+
+      expect({ added, merged, skipped }).toEqual({ added: 2, merged: 0, skipped: 0 });
+      expect(groups.map(g => g.name)).toEqual(['My PTO', 'Team Offsite', 'Alex']);
+      expect(groups[1].color).toBe('#24d05a');
+      expect(groups[2].color).not.toBe('#f44336');
+      expect(new Set(groups.map(g => g.id)).size).toBe(3);
+      expect(groups[2].id).not.toBe('pto');
+    });
+
+    it('should combine calendars with the same name', () => {
+      const local: EventGroup = { ...team, id: 'local', ranges: [{ start: '2025-03-10', end: '2025-03-12' }, { start: '2025-04-01', end: '2025-04-01' }] };
+      const shared: EventGroup = { ...team, name: ' team offsite ', ranges: [...team.ranges, { start: '2025-05-05', end: '2025-05-06' }] };
+      const { groups, added, merged } = mergeSharedGroups([local], [shared]);
+
+      expect({ added, merged }).toEqual({ added: 0, merged: 1 });
+      expect(groups).toHaveLength(1);
+      expect(groups[0].id).toBe('local');
+      expect(groups[0].ranges.map(r => r.start)).toEqual(['2025-03-10', '2025-04-01', '2025-05-05']);
+    });
+
+    it('should keep PTO already booked when combining calendars', () => {
+      const local: EventGroup = {
+        ...mine,
+        ptoConfig: { yearsOfService: 5, rolloverHours: 0, isEnabled: true },
+        ptoEntries: [{ id: 'l1', startDate: '2025-07-07', endDate: '2025-07-08', hoursPerDay: 8, totalHours: 16 }]
+      };
+      const shared: EventGroup = {
+        ...pto,
+        ptoEntries: [
+          ...pto.ptoEntries!,
+          { id: 'e2', startDate: '2025-08-04', endDate: '2025-08-04', hoursPerDay: 4, totalHours: 4 }
+        ]
+      };
+      const [combined] = mergeSharedGroups([local], [shared]).groups;
+
+      expect(combined.ptoConfig?.yearsOfService).toBe(5);
+      expect(combined.closedYears).toBeUndefined();
+      expect(combined.ptoEntries?.map(e => e.startDate)).toEqual(['2025-07-07', '2025-08-04']);
+    });
+
+    it('should leave out the days of shared PTO that overlaps PTO already booked', () => {
+      const local: EventGroup = {
+        ...mine,
+        ranges: [{ start: '2025-07-08', end: '2025-07-08' }],
+        ptoConfig: { yearsOfService: 5, rolloverHours: 0, isEnabled: true },
+        ptoEntries: [{ id: 'l1', startDate: '2025-07-08', endDate: '2025-07-08', hoursPerDay: 8, totalHours: 8 }]
+      };
+      const shared: EventGroup = {
+        ...pto,
+        ranges: [
+          { start: '2025-07-07', end: '2025-07-07' },
+          { start: '2025-07-08', end: '2025-07-08' },
+          { start: '2025-08-04', end: '2025-08-04' }
+        ],
+        ptoEntries: [
+          { id: 'e1', startDate: '2025-07-07', endDate: '2025-07-08', hoursPerDay: 8, totalHours: 16 },
+          { id: 'e2', startDate: '2025-08-04', endDate: '2025-08-04', hoursPerDay: 8, totalHours: 8 }
+        ]
+      };
+      const [combined] = mergeSharedGroups([local], [shared]).groups;
+
+      expect(combined.ptoEntries?.map(e => e.startDate)).toEqual(['2025-07-08', '2025-08-04']);
+      expect(combined.ranges.map(r => r.start)).toEqual(['2025-07-08', '2025-08-04']);
+    });
+
+    it('should stop at the calendar limit', () => {
+      const local = GROUP_COLORS.slice(0, MAX_GROUPS - 1).map((color, index): EventGroup => ({
+        id: `g${index}`,
+        name: `Calendar ${index}`,
+        color: color.hex,
+        ranges: []
+      }));
+      const { groups, added, skipped } = mergeSharedGroups(local, [team, { ...team, name: 'Another' }]);
+
+      expect(groups).toHaveLength(MAX_GROUPS);
+      expect({ added, skipped }).toEqual({ added: 1, skipped: 1 });
+    });
+  });
+});
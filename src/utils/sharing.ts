@@ -0,0 +1,135 @@
+/**
+ * Share Link Utilities
+ * Chooses what a share link carries and merges shared calendars into the user's own
+ */
+
+import { nanoid } from 'nanoid';
+import { GROUP_COLORS, MAX_GROUPS } from '../store';
+import type { DateRange, EventGroup } from '../store';
+import { PTOEntry } from './ptoUtils';
+
+export interface ShareOptions {
+  groupIds?: string[];    // calendars to share; every calendar when omitted
+  stripText?: boolean;    // drop range descriptions and PTO entry names
+  hideNames?: boolean;    // rename calendars "Calendar 1", "Calendar 2", ... in the order shared
+  omitPTOHours?: boolean; // share the days off without PTO settings, hours or closed years
+  viewOnly?: boolean;     // open the link view-only
+}
+
+const stripRangeText = (range: DateRange): DateRange => {
+  const stripped = { ...range };
+  delete stripped.description;
+  return stripped;
+};
+
+const stripEntryText = (entry: PTOEntry): PTOEntry => {
+  const stripped = { ...entry };
+  delete stripped.name;
+  return stripped;
+};
+
+/**
+ * Prepares calendars for a share link. Calendar names are kept so recipients can tell them
+ * apart, unless they are hidden behind numbered ones.
+ * @param groups Calendars in their current order
+ * @param options What to share
+ * @returns The chosen calendars, with anything left out of the link removed
+ */
+export const getSharedGroups = (groups: EventGroup[], options: ShareOptions = {}): EventGroup[] =>
+  groups
+    .filter(group => !options.groupIds || options.groupIds.includes(group.id))
+    .map((group, index) => {
+      const shared: EventGroup = { ...group };
+      if (options.hideNames) shared.name = `Calendar ${index + 1}`;
+      if (options.omitPTOHours) {
+        // PTO days stay visible through the ranges they are mirrored into
+        delete shared.ptoConfig;
+        delete shared.ptoEntries;
+        delete shared.closedYears;
+      }
+      if (options.stripText) {
+        shared.ranges = shared.ranges.map(stripRangeText);
+        if (shared.ptoEntries) shared.ptoEntries = shared.ptoEntries.map(stripEntryText);
+        if (shared.closedYears) {
+          shared.closedYears = shared.closedYears.map(closed => ({ ...closed, entries: closed.entries.map(stripEntryText) }));
+        }
+      }
+      return shared;
+    });
+
+export interface SharedGroupMerge {
+  groups: EventGroup[];
+  added: number;   // shared calendars added as new calendars
+  merged: number;  // shared calendars combined with a calendar of the same name
+  skipped: number; // shared calendars left out at the calendar limit
+}
+
+const isSameName = (a: string, b: string): boolean =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const rangeKey = (range: DateRange): string =>
+  `${range.start}/${range.end}/${JSON.stringify(range.recurrence ?? null)}`;
+
+// Adds the shared calendar's ranges and PTO entries that the local one doesn't already have
+const unionGroups = (local: EventGroup, shared: EventGroup): EventGroup => {
+  const rangeKeys = new Set(local.ranges.map(rangeKey));
+  const localEntries = local.ptoEntries || [];
+  // PTO entries can't overlap, so days already booked locally win
+  const isBookedLocally = (entry: PTOEntry) =>
+    localEntries.some(booked => booked.startDate <= entry.endDate && booked.endDate >= entry.startDate);
+  const droppedEntries = (shared.ptoEntries || []).filter(isBookedLocally);
+  const newEntries = (shared.ptoEntries || [])
+    .filter(entry => !isBookedLocally(entry))
+    .map(entry => ({ ...entry, id: nanoid() }));
+  const entries = [...localEntries, ...newEntries];
+  // Dropped entries take the day ranges they are mirrored into with them
+  const isMirroredFromDropped = (range: DateRange) =>
+    !range.recurrence &&
+    droppedEntries.some(entry => entry.startDate <= range.start && entry.endDate >= range.end);
+  // Settings and closed years stay with the calendar that tracks PTO
+  const ptoSource = local.ptoConfig ? local : shared;
+
+  return {
+    ...local,
+    ranges: [
+      ...local.ranges,
+      ...shared.ranges.filter(range => !rangeKeys.has(rangeKey(range)) && !isMirroredFromDropped(range))
+    ],
+    ptoConfig: ptoSource.ptoConfig,
+    ptoEntries: entries.length > 0 ? entries : undefined,
+    closedYears: ptoSource.closedYears
+  };
+};
+
+/**
+ * Merges shared calendars into the user's own. A shared calendar with the same name as one of
+ * theirs is combined with it; the others are added with fresh ids, recoloured when their colour
+ * is taken, until MAX_GROUPS is reached.
+ * @param local The user's calendars
+ * @param shared Calendars from a share link
+ * @returns The merged calendars and what happened to each shared one
+ */
+export const mergeSharedGroups = (local: EventGroup[], shared: EventGroup[]): SharedGroupMerge => {
+  const groups = [...local];
+  let added = 0;
+  let merged = 0;
+
+  shared.forEach(group => {
+    const matchIndex = groups.findIndex(existing => !existing.isSpecial && isSameName(existing.name, group.name));
+    if (matchIndex >= 0) {
+      groups[matchIndex] = unionGroups(groups[matchIndex], group);
+      merged++;
+      return;
+    }
+
+    const usedColors = new Set(groups.map(g => g.color));
+    const color = usedColors.has(group.color)
+      ? GROUP_COLORS.find(c => !usedColors.has(c.hex))?.hex
+      : group.color;
+    if (groups.length >= MAX_GROUPS || !color) return;
+    groups.push({ ...group, id: nanoid(), color });
+    added++;
+  });
+
+  return { groups, added, merged, skipped: shared.length - added - merged };
+};
@@ -0,0 +1,493 @@
+/**
+ * Test suite for the calendar state codec
+ * Testing round-trips, schema migrations and decode errors
+ */
+
+import { describe, it, expect } from 'vitest';
+import LZString from 'lz-string';
+import {
+  CURRENT_SCHEMA_VERSION,
+  decodeState,
+  encodeState,
+  migratePayload,
+  serializeState,
+  PersistedState,
+  StateDecodeError
+} from './stateCodec';
+import { GROUP_COLORS } from '../store';
+import { UNISPACE_POLICY } from './ptoPolicy';
+
+const compress = (payload: unknown) =>
+  LZString.compressToEncodedURIComponent(JSON.stringify(payload));
+
+const expectDecodeError = (encoded: string, reason: string, currentYear = 2025) => {
+  try {
+    decodeState(encoded, currentYear);
+  } catch (error) {
+    expect(error).toBeInstanceOf(StateDecodeError);
+    expect((error as StateDecodeError).reason).toBe(reason);
+    return;
+  }
+  throw new Error('Expected decodeState to throw');
+};
+
+describe('stateCodec', () => {
+  const state: PersistedState = {
+    startDate: new Date(2025, 0, 1),
+    includeWeekends: false,
+    showToday: true,
+    eventGroups: [
+      {
+        id: 'group-1',
+        name: 'Team Offsite',
+        color: GROUP_COLORS[2].hex,
+        ranges: [
+          { id: 'r1', start: '2025-03-10', end: '2025-03-12', description: 'Planning' },
+          { id: 'r2', start: '2025-06-02', end: '2025-06-02' }
+        ]
+      },
+      {
+        id: 'group-2',
+        name: 'My PTO',
+        color: GROUP_COLORS[1].hex,
+        ranges: [{ id: 'r3', start: '2025-01-15', end: '2025-01-15' }],
+        ptoConfig: { yearsOfService: 5, rolloverHours: 16, isEnabled: true },
+        ptoEntries: [
+          { id: 'e1', startDate: '2025-01-15', endDate: '2025-01-15', hoursPerDay: 4, totalHours: 4, name: 'Dentist' }
+        ]
+      }
+    ]
+  };
+
+  describe('serializeState', () => {
+    it('should stamp the current schema version', () => {
+      expect(serializeState(state).v).toBe(CURRENT_SCHEMA_VERSION);
+    });
+
+    it('should omit default values', () => {
+      const serialized = serializeState({ ...state, includeWeekends: true, eventGroups: [] });
+      expect(serialized).toEqual({ v: CURRENT_SCHEMA_VERSION, s: '2025-01-01' });
+    });
+
+    it('should store ranges as id, start, end and description tuples', () => {
+      const serialized = serializeState(state);
+      expect(serialized.g?.[0].r).toEqual([['r1', 68, 70, 'Planning'], ['r2', 152, 152]]);
+    });
+  });
+
+  describe('round-trip', () => {
+    it('should restore groups, ranges, descriptions and PTO data', () => {
+      const decoded = decodeState(encodeState(state), 2025);
+
+      expect(decoded.startDate).toEqual(new Date(2025, 0, 1));
+      expect(decoded.includeWeekends).toBe(false);
+      expect(decoded.showToday).toBe(true);
+      expect(decoded.eventGroups).toHaveLength(2);
+
+      const [offsite, pto] = decoded.eventGroups;
+      expect(offsite.name).toBe('Team Offsite');
+      expect(offsite.color).toBe(GROUP_COLORS[2].hex);
+      expect(offsite.ranges).toEqual(state.eventGroups[0].ranges);
+
+      expect(pto.ptoConfig).toEqual({ yearsOfService: 5, rolloverHours: 16, isEnabled: true });
+      expect(pto.ptoEntries?.[0]).toMatchObject({
+        startDate: '2025-01-15',
+        endDate: '2025-01-15',
+        hoursPerDay: 4,
+        totalHours: 4,
+        name: 'Dentist'
+      });
+    });
+
+    it('should restore a custom PTO policy', () => {
+      const policy = {
+        id: 'uk',
+        name: 'London office',
+        hoursPerWorkday: 7.5,
+        tenureBands: [{ minYears: 0, annualHours: 187.5 }, { minYears: 5, annualHours: 210 }],
+        maxCarryoverHours: 40,
+        carryoverExpiry: '03-31',
+        negativeBalanceAllowance: 16
+      };
+      const withPolicy = {
+        ...state,
+        eventGroups: [{ ...state.eventGroups[1], ptoConfig: { ...state.eventGroups[1].ptoConfig!, policy } }]
+      };
+
+      expect(decodeState(encodeState(withPolicy), 2025).eventGroups[0].ptoConfig?.policy).toEqual(policy);
+      expect(serializeState(state).g?.[1].pto).not.toHaveProperty('p');
+    });
+
+    it('should keep the accrual anchor date when rolling forward', () => {
+      const accrual = { frequency: 'biweekly' as const, anchorDate: '2025-01-10' };
+      const withAccrual = {
+        ...state,
+        eventGroups: [{ ...state.eventGroups[1], ptoConfig: { ...state.eventGroups[1].ptoConfig!, accrual } }]
+      };
+
+      expect(decodeState(encodeState(withAccrual), 2026).eventGroups[0].ptoConfig?.accrual).toEqual(accrual);
+      expect(serializeState(state).g?.[1].pto).not.toHaveProperty('a');
+    });
+
+    it('should restore pay-period accrual without an anchor', () => {
+      const withAccrual = {
+        ...state,
+        eventGroups: [{
+          ...state.eventGroups[1],
+          ptoConfig: { ...state.eventGroups[1].ptoConfig!, accrual: { frequency: 'semimonthly' as const } }
+        }]
+      };
+
+      expect(decodeState(encodeState(withAccrual), 2025).eventGroups[0].ptoConfig?.accrual)
+        .toEqual({ frequency: 'semimonthly' });
+    });
+
+    it('should restore leave types, buckets and bucket rollover', () => {
+      const policy = {
+        id: 'custom',
+        name: 'Custom',
+        hoursPerWorkday: 8,
+        tenureBands: [{ minYears: 0, annualHours: 120 }],
+        leaveBuckets: [{ type: 'sick' as const, annualHours: 48, accrual: { frequency: 'monthly' as const } }]
+      };
+      const withLeave = {
+        ...state,
+        eventGroups: [{
+          ...state.eventGroups[1],
+          ptoConfig: { ...state.eventGroups[1].ptoConfig!, policy, leaveRolloverHours: { sick: 12 } },
+          ptoEntries: [{ ...state.eventGroups[1].ptoEntries![0], leaveType: 'sick' as const }]
+        }]
+      };
+      const decoded = decodeState(encodeState(withLeave), 2025).eventGroups[0];
+
+      expect(decoded.ptoConfig?.policy).toEqual(policy);
+      expect(decoded.ptoConfig?.leaveRolloverHours).toEqual({ sick: 12 });
+      expect(decoded.ptoEntries?.[0].leaveType).toBe('sick');
+      expect(serializeState(state).g?.[1].ptoEntries?.[0]).not.toHaveProperty('lt');
+    });
+
+    it('should restore the work schedule and booking increment', () => {
+      const policy = { ...UNISPACE_POLICY, hourIncrement: 0.5 };
+      const withSchedule = {
+        ...state,
+        eventGroups: [{
+          ...state.eventGroups[1],
+          ptoConfig: { ...state.eventGroups[1].ptoConfig!, policy, workdayHours: 10, workSchedule: [0, 10, 10, 10, 10, 0, 0] }
+        }]
+      };
+      const decoded = decodeState(encodeState(withSchedule), 2025).eventGroups[0].ptoConfig;
+
+      expect(decoded?.policy?.hourIncrement).toBe(0.5);
+      expect(decoded?.workdayHours).toBe(10);
+      expect(decoded?.workSchedule).toEqual([0, 10, 10, 10, 10, 0, 0]);
+      expect(serializeState(state).g?.[1].pto).not.toHaveProperty('ws');
+    });
+
+    it('should restore holiday regions and overlays', () => {
+      const withRegions = {
+        ...state,
+        holidayOverlays: ['us', 'au'],
+        eventGroups: [{ ...state.eventGroups[1], ptoConfig: { ...state.eventGroups[1].ptoConfig!, holidayRegion: 'uk' } }]
+      };
+      const decoded = decodeState(encodeState(withRegions), 2025);
+
+      expect(decoded.eventGroups[0].ptoConfig?.holidayRegion).toBe('uk');
+      expect(decoded.holidayOverlays).toEqual(['us', 'au']);
+      expect(serializeState(state)).not.toHaveProperty('ho');
+    });
+
+    it('should restore the coverage threshold', () => {
+      const decoded = decodeState(encodeState({ ...state, coverageThreshold: 3 }), 2025);
+
+      expect(decoded.coverageThreshold).toBe(3);
+      expect(serializeState({ ...state, coverageThreshold: 2 })).not.toHaveProperty('ct');
+    });
+
+    it('should restore imported holidays at their original dates', () => {
+      const customHolidays = [{
+        regionId: 'uk',
+        name: 'uk-2025.ics',
+        mode: 'replace' as const,
+        holidays: [{ date: '2024-12-25', name: 'Christmas' }]
+      }];
+      const decoded = decodeState(encodeState({ ...state, customHolidays }), 2025);
+
+      expect(decoded.customHolidays).toEqual(customHolidays);
+      expect(serializeState(state)).not.toHaveProperty('ch');
+    });
+
+    it('should restore closed years exactly as they were frozen', () => {
+      const closedYears = [{
+        year: 2024,
+        closedOn: '2025-01-03',
+        yearsOfService: 4,
+        workdayHours: 8,
+        totalHours: 176,
+        usedHours: 160,
+        expiredHours: 0,
+        remainingHours: 16,
+        carriedOverHours: 16,
+        entries: [
+          { id: '2024-07-01-2024-07-05-closed', startDate: '2024-07-01', endDate: '2024-07-05', hoursPerDay: 8, totalHours: 32, name: 'Trip' },
+          { id: '2024-02-02-2024-02-02-closed', startDate: '2024-02-02', endDate: '2024-02-02', hoursPerDay: 8, totalHours: 8, leaveType: 'sick' as const }
+        ]
+      }];
+      const decoded = decodeState(encodeState({ ...state, eventGroups: [{ ...state.eventGroups[1], closedYears }] }), 2025);
+
+      expect(decoded.eventGroups[0].closedYears).toEqual(closedYears);
+      expect(serializeState(state).g?.[1]).not.toHaveProperty('cy');
+    });
+
+    it('should restore recurring ranges with their exceptions', () => {
+      const ranges = [
+        {
+          id: 's1',
+          start: '2025-01-06',
+          end: '2025-01-10',
+          recurrence: { frequency: 'weekly' as const, interval: 2, weekStart: 1, until: '2025-06-30', exceptions: ['2025-02-03'] }
+        },
+        {
+          id: 's2',
+          start: '2025-01-03',
+          end: '2025-01-03',
+          description: 'Day off',
+          recurrence: { frequency: 'monthly' as const, count: 12, byNthWeekday: { n: 1, weekday: 5 } }
+        }
+      ];
+      const serialized = serializeState({ ...state, eventGroups: [{ ...state.eventGroups[0], ranges }] });
+      const decoded = decodeState(encodeState({ ...state, eventGroups: [{ ...state.eventGroups[0], ranges }] }), 2026);
+
+      expect(serialized.g?.[0].r?.[0]).toEqual(['s1', 5, 9, '', { f: 'weekly', i: 2, u: 180, ws: 1, x: [33] }]);
+      expect(decoded.eventGroups[0].ranges).toEqual(ranges);
+    });
+
+    it('should keep group ids stable', () => {
+      const decoded = decodeState(encodeState(state), 2025);
+      expect(decoded.eventGroups.map(g => g.id)).toEqual(['group-1', 'group-2']);
+    });
+
+    it('should keep range ids across saves', () => {
+      const decoded = decodeState(encodeState(state), 2025);
+      expect(decoded.eventGroups.flatMap(g => g.ranges.map(r => r.id))).toEqual(['r1', 'r2', 'r3']);
+    });
+
+    it('should open past calendars on the current year without moving their dates', () => {
+      const decoded = decodeState(encodeState(state), 2026);
+      expect(decoded.startDate).toEqual(new Date(2026, 0, 1));
+      expect(decoded.eventGroups[0].ranges[0].start).toBe('2025-03-10');
+      expect(decoded.eventGroups[1].ptoEntries?.[0].startDate).toBe('2025-01-15');
+    });
+
+    it('should restore plan year settings', () => {
+      const ptoConfig = {
+        ...state.eventGroups[1].ptoConfig!,
+        firstYear: 2025,
+        years: { 2026: { rolloverHours: 24 }, 2027: { yearsOfService: 10 } }
+      };
+      const decoded = decodeState(encodeState({ ...state, eventGroups: [{ ...state.eventGroups[1], ptoConfig }] }), 2025);
+
+      expect(decoded.eventGroups[0].ptoConfig).toEqual(ptoConfig);
+    });
+
+    it('should restore the balance floor', () => {
+      const ptoConfig = { ...state.eventGroups[1].ptoConfig!, balanceFloorHours: 16 };
+      const decoded = decodeState(encodeState({ ...state, eventGroups: [{ ...state.eventGroups[1], ptoConfig }] }), 2025);
+
+      expect(decoded.eventGroups[0].ptoConfig?.balanceFloorHours).toBe(16);
+      expect(serializeState(state).g?.[1].pto).not.toHaveProperty('bf');
+    });
+
+    it('should keep PTO entry ids so exported events keep their UIDs', () => {
+      const decoded = decodeState(encodeState(state), 2025);
+      expect(decoded.eventGroups[1].ptoEntries?.[0].id).toBe('e1');
+
+      const withoutIds = serializeState(state);
+      delete withoutIds.g?.[1].ptoEntries?.[0].i;
+      const restored = decodeState(compress(withoutIds), 2025);
+      expect(restored.eventGroups[1].ptoEntries?.[0].id).toEqual(expect.any(String));
+    });
+
+    it('should restore the view-only flag of share links', () => {
+      expect(decodeState(encodeState({ ...state, viewOnly: true }), 2025).viewOnly).toBe(true);
+      expect(decodeState(encodeState(state), 2025).viewOnly).toBe(false);
+      expect(serializeState(state)).not.toHaveProperty('ro');
+    });
+  });
+
+  describe('migrations', () => {
+    it('should upgrade an unversioned v1 payload', () => {
+      const v1 = { s: '2025-01-01', g: [{ n: 'Trips', c: 3, r: [[0, 2]] }] };
+      const migrated = migratePayload(v1);
+      expect(migrated.v).toBe(CURRENT_SCHEMA_VERSION);
+
+      const decoded = decodeState(compress(v1), 2025);
+      expect(decoded.eventGroups[0].ranges).toEqual([{ id: expect.any(String), start: '2025-01-01', end: '2025-01-03' }]);
+      expect(decoded.eventGroups[0].color).toBe(GROUP_COLORS[3].hex);
+    });
+
+    it('should roll an unversioned payload from a past year forward to the current year', () => {
+      const v1 = {
+        s: '2024-01-01',
+        g: [{ n: 'Trips', r: [[0, 2]], pto: { y: 2, e: true }, ptoEntries: [{ sd: 14, ed: 14, hpd: 8 }] }]
+      };
+      const decoded = decodeState(compress(v1), 2026);
+      const [trips] = decoded.eventGroups;
+
+      expect(decoded.startDate).toEqual(new Date(2026, 0, 1));
+      expect(trips.ranges).toEqual([{ id: expect.any(String), start: '2026-01-01', end: '2026-01-03' }]);
+      expect(trips.ptoEntries?.[0]).toMatchObject({ startDate: '2026-01-15', endDate: '2026-01-15' });
+      expect(trips.ptoConfig?.firstYear).toBe(2026);
+    });
+
+    it('should keep the dates of unversioned payloads saved for a later year', () => {
+      const decoded = decodeState(compress({ s: '2027-01-01', g: [{ r: [[31, 31]] }] }), 2026);
+      expect(decoded.eventGroups[0].ranges).toEqual([{ id: expect.any(String), start: '2027-02-01', end: '2027-02-01' }]);
+    });
+
+    it('should not roll versioned payloads forward', () => {
+      const decoded = decodeState(compress({ v: 2, s: '2024-01-01', g: [{ r: [[0, 2]], pto: { y: 2, fy: 2024 } }] }), 2026);
+
+      expect(decoded.eventGroups[0].ranges).toEqual([{ id: expect.any(String), start: '2024-01-01', end: '2024-01-03' }]);
+      expect(decoded.eventGroups[0].ptoConfig?.firstYear).toBe(2024);
+    });
+
+    it('should give ranges saved without ids their own ids', () => {
+      const v2 = { v: 2, s: '2025-01-01', g: [{ r: [[0, 2, 'Trip'], [9, 9]] }] };
+      const migrated = migratePayload(v2);
+      const [trip, dayOff] = decodeState(compress(v2), 2025).eventGroups[0].ranges;
+
+      expect(migrated.v).toBe(3);
+      expect(trip).toEqual({ id: expect.any(String), start: '2025-01-01', end: '2025-01-03', description: 'Trip' });
+      expect(dayOff.id).toEqual(expect.any(String));
+      expect(dayOff.id).not.toBe(trip.id);
+    });
+
+    it('should generate ids for groups saved without one', () => {
+      const decoded = decodeState(compress({ v: 2, s: '2025-01-01', g: [{ n: 'A' }, { n: 'B' }] }), 2025);
+      const [a, b] = decoded.eventGroups;
+      expect(a.id).toBeTruthy();
+      expect(a.id).not.toBe(b.id);
+    });
+
+    it('should upgrade a legacy v0 base64 link', () => {
+      const v0 = {
+        startDate: '2025-01-01T00:00:00.000Z',
+        includeWeekends: false,
+        eventGroups: [
+          { id: 'old', name: 'Legacy', color: GROUP_COLORS[4].hex, ranges: [{ start: '2025-02-01', end: '2025-02-03' }] }
+        ]
+      };
+      const decoded = decodeState(btoa(JSON.stringify(v0)), 2025);
+
+      expect(decoded.includeWeekends).toBe(false);
+      expect(decoded.eventGroups[0].name).toBe('Legacy');
+      expect(decoded.eventGroups[0].ranges).toEqual([{ id: expect.any(String), start: '2025-02-01', end: '2025-02-03' }]);
+      // Legacy dates were absolute, so they stay put when the link opens in a later year
+      const later = decodeState(btoa(JSON.stringify(v0)), 2026);
+      expect(later.startDate).toEqual(new Date(2026, 0, 1));
+      expect(later.eventGroups[0].ranges).toEqual([{ id: expect.any(String), start: '2025-02-01', end: '2025-02-03' }]);
+    });
+
+    it('should assign unused colors to groups with an invalid color index', () => {
+      const decoded = decodeState(compress({ s: '2025-01-01', g: [{ c: 0 }, { c: 99 }] }), 2025);
+      expect(decoded.eventGroups[0].color).toBe(GROUP_COLORS[0].hex);
+      expect(decoded.eventGroups[1].color).toBe(GROUP_COLORS[1].hex);
+      expect(decoded.eventGroups[1].name).toBe('My PTO');
+    });
+  });
+
+  describe('decode errors', () => {
+    it('should reject an empty payload', () => {
+      expectDecodeError('', 'empty');
+    });
+
+    it('should reject a payload that is not JSON', () => {
+      expectDecodeError(LZString.compressToEncodedURIComponent('not json'), 'invalid-json');
+    });
+
+    it('should reject a payload without a start date', () => {
+      expectDecodeError(compress({ g: [] }), 'invalid-shape');
+    });
+
+    it('should reject a payload with an invalid start date', () => {
+      expectDecodeError(compress({ v: 2, s: 'yesterday' }), 'invalid-shape');
+      expectDecodeError(compress({ s: 'yesterday' }), 'invalid-shape');
+      expectDecodeError(btoa(JSON.stringify({ startDate: 'yesterday' })), 'invalid-shape');
+    });
+
+    it('should reject malformed ranges with a specific message', () => {
+      expect(() => decodeState(compress({ v: 2, s: '2025-01-01', g: [{ r: [[0, 'x']] }] }), 2025))
+        .toThrow('Calendar 1 has an invalid date range at position 1');
+    });
+
+    it('should reject an unusable PTO policy', () => {
+      const payload = (p: unknown) => compress({ v: 2, s: '2025-01-01', g: [{ pto: { y: 2, p } }] });
+
+      expectDecodeError(payload({ i: 'x', n: 'X', h: 8, b: 'none' }), 'invalid-shape');
+      expect(() => decodeState(payload({ i: 'x', n: 'X', h: 8, b: [] }), 2025))
+        .toThrow('Calendar 1 has an invalid PTO policy: At least one tenure band is required');
+    });
+
+    it('should reject an unusable accrual schedule', () => {
+      expect(() => decodeState(compress({ v: 2, s: '2025-01-01', g: [{ pto: { y: 2, a: { f: 'biweekly' } } }] }), 2025))
+        .toThrow('Calendar 1 has an invalid PTO accrual schedule');
+    });
+
+    it('should reject an unusable work schedule', () => {
+      expect(() => decodeState(compress({ v: 2, s: '2025-01-01', g: [{ pto: { y: 2, ws: [8, 8, 8] } }] }), 2025))
+        .toThrow('Calendar 1 has an invalid work schedule');
+    });
+
+    it('should reject unknown holiday regions', () => {
+      expect(() => decodeState(compress({ v: 2, s: '2025-01-01', g: [{ pto: { y: 2, hr: 'mars' } }] }), 2025))
+        .toThrow('Calendar 1 has an unknown holiday region');
+      expect(() => decodeState(compress({ v: 2, s: '2025-01-01', ho: ['uk', 'mars'] }), 2025))
+        .toThrow('Calendar data has an invalid list of holiday regions');
+    });
+
+    it('should reject malformed imported holidays', () => {
+      expect(() => decodeState(compress({ v: 2, s: '2025-01-01', ch: [{ r: 'uk', n: 'x', h: [['someday', 'A']] }] }), 2025))
+        .toThrow('Imported holiday list 1 is invalid');
+    });
+
+    it('should reject an invalid coverage threshold', () => {
+      expect(() => decodeState(compress({ v: 2, s: '2025-01-01', ct: 0 }), 2025))
+        .toThrow('Calendar data has an invalid coverage threshold (0)');
+    });
+
+    it('should reject malformed plan year settings', () => {
+      expect(() => decodeState(compress({ v: 2, s: '2025-01-01', g: [{ pto: { y: 2, yr: { next: { r: 8 } } } }] }), 2025))
+        .toThrow('Calendar 1 has invalid plan year settings');
+    });
+
+    it('should reject a negative balance floor', () => {
+      expect(() => decodeState(compress({ v: 2, s: '2025-01-01', g: [{ pto: { y: 2, bf: -8 } }] }), 2025))
+        .toThrow('Calendar 1 has an invalid balance floor');
+    });
+
+    it('should reject an invalid view-only flag', () => {
+      expect(() => decodeState(compress({ v: 2, s: '2025-01-01', ro: 'yes' }), 2025))
+        .toThrow('Calendar data has an invalid view-only flag');
+    });
+
+    it('should reject malformed closed years', () => {
+      expect(() => decodeState(compress({ v: 2, s: '2025-01-01', g: [{ cy: [{ y: 2024, d: '2025-01-03', e: [] }] }] }), 2025))
+        .toThrow('Calendar 1 has an invalid closed year at position 1');
+    });
+
+    it('should reject malformed recurrence rules', () => {
+      expect(() => decodeState(compress({ v: 2, s: '2025-01-01', g: [{ r: [[0, 0, '', { f: 'hourly' }]] }] }), 2025))
+        .toThrow('Calendar 1 has an invalid recurrence at position 1');
+      expect(() => decodeState(compress({ v: 2, s: '2025-01-01', g: [{ r: [[0, 0, '', { f: 'monthly', nw: [0, 5] }]] }] }), 2025))
+        .toThrow('Calendar 1 has an invalid recurrence at position 1');
+    });
+
+    it('should reject malformed PTO entries', () => {
+      expectDecodeError(compress({ v: 2, s: '2025-01-01', g: [{ ptoEntries: [{ sd: 0 }] }] }), 'invalid-shape');
+    });
+
+    it('should reject payloads from a newer schema version', () => {
+      expectDecodeError(compress({ v: CURRENT_SCHEMA_VERSION + 1, s: '2025-01-01' }), 'unsupported-version');
+    });
+  });
+});
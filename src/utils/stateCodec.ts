@@ -0,0 +1,876 @@
+/**
+ * Calendar State Codec
+ * Versioned, compressed persistence format shared by share links and localStorage
+ */
+
+import LZString from 'lz-string';
+import { nanoid } from 'nanoid';
+import { addDays, differenceInDays, formatISO, isValid, parseISO } from 'date-fns';
+import { GROUP_COLORS } from '../store';
+import type { DateRange, EventGroup } from '../store';
+import { LEAVE_TYPES, LeaveType, PTOCalendarUtils, PTOConfig, PTOEntry, PTOYearSettings } from './ptoUtils';
+import { LeaveBucket, PTOPolicy, validatePTOPolicy } from './ptoPolicy';
+import { AccrualSchedule, validateAccrualSchedule } from './ptoBalance';
+import { ClosedPTOYear } from './ptoYearEnd';
+import { RecurrenceFrequency, RecurrenceRule } from './recurrence';
+import { DEFAULT_COVERAGE_THRESHOLD } from './teamCoverage';
+import { CustomHolidays, HOLIDAY_REGIONS } from '../constants/holidays';
+
+/**
+ * Schema history:
+ * 0 - legacy uncompressed `{ startDate, eventGroups }` JSON (base64 links)
+ * 1 - compact `{ s, w, t, g }` payload without a version stamp
+ * 2 - adds `v`; dates stay where they were saved and PTO settings record their first plan year (`fy`).
+ *     Older payloads opened a past year's calendar on the current year, moving its dates with it.
+ * 3 - ranges lead with their id (`[id, start, end, ...]`), so exported events keep their UIDs when
+ *     a range moves. Older ranges are given new ids.
+ *
+ * Fields added since are optional and read as their defaults when absent, so they need no new version.
+ * Bump the version only when stored data has to be transformed, and add the migration for it.
+ */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+export interface SerializedPTOPolicy {
+  i: string;                  // id
+  n: string;                  // name
+  h: number;                  // hours per workday
+  hi?: number;                // bookable hour increment
+  b: [number, number][];      // tenure bands as [minYears, annualHours]
+  mc?: number;                // max carryover hours
+  ce?: string;                // carryover expiry (MM-DD)
+  nb?: number;                // negative balance allowance in hours
+  lb?: SerializedLeaveBucket[]; // leave buckets, omitted for the defaults
+}
+
+export interface SerializedLeaveBucket {
+  t: string;              // leave type
+  h?: number;             // annual hours, omitted when untracked
+  a?: SerializedAccrual;  // accrual, omitted for a lump sum
+  mc?: number;            // max carryover hours
+}
+
+export interface SerializedAccrual {
+  f: string;  // frequency
+  d?: string; // anchor payday (ISO), kept absolute so the cadence survives a new start date
+}
+
+export interface SerializedPTOConfig {
+  y?: number;  // years of service
+  r?: number;  // rollover hours
+  e?: boolean; // enabled
+  p?: SerializedPTOPolicy; // omitted for the default policy
+  a?: SerializedAccrual;   // omitted for daily accrual
+  lr?: Record<string, number>; // rollover hours per leave type
+  wh?: number;   // workday hours, omitted for the policy's
+  ws?: number[]; // hours worked Sunday to Saturday, omitted for a Monday–Friday week
+  hr?: string;   // home holiday region, omitted for the US office
+  fy?: number;   // plan year `y` and `r` describe
+  yr?: Record<string, SerializedPTOYearSettings>; // settings for later plan years, keyed by year
+  bf?: number;   // balance floor in hours, omitted when zero
+}
+
+export interface SerializedPTOYearSettings {
+  y?: number;  // years of service
+  r?: number;  // rollover hours
+}
+
+export interface SerializedPTOEntry {
+  sd: number;  // start day offset from `s`
+  ed: number;  // end day offset from `s`
+  hpd: number; // hours per day
+  n?: string;  // name
+  lt?: string; // leave type, omitted for vacation
+  i?: string;  // entry id, kept so exported events keep their UIDs when the entry moves
+}
+
+export interface SerializedCustomHolidays {
+  r: string;                  // holiday region id
+  n: string;                  // name of the imported file or calendar
+  m?: 'r';                    // replaces the region's rules; omitted when supplementing them
+  h: [string, string][];      // holidays as [ISO date, name], absolute so they don't move with `s`
+}
+
+export interface SerializedClosedYear {
+  y: number;   // plan year
+  d: string;   // ISO date the year was closed
+  ys: number;  // years of service
+  wh: number;  // workday hours
+  t: number;   // total hours
+  u: number;   // used hours
+  x: number;   // expired carryover hours
+  rm: number;  // remaining hours
+  c: number;   // hours carried into the next year
+  e: SerializedClosedEntry[];
+}
+
+// Frozen entries keep absolute dates and their booked hours, since nothing about them is recalculated
+export interface SerializedClosedEntry {
+  sd: string;  // start date (ISO)
+  ed: string;  // end date (ISO)
+  hpd: number; // hours per day
+  th: number;  // total hours
+  n?: string;  // name
+  lt?: string; // leave type, omitted for vacation
+}
+
+export interface SerializedRecurrence {
+  f: string;            // frequency
+  i?: number;           // interval, omitted for 1
+  c?: number;           // occurrence count
+  u?: number;           // until, as a day offset from `s`
+  wd?: number[];        // weekly: days of the week
+  ws?: number;          // weekly: first day of the week, omitted for Sunday
+  nw?: [number, number]; // monthly: [n, weekday]
+  x?: number[];         // skipped occurrences, as day offsets from `s`
+}
+
+// [id, startOffset, endOffset, description?, recurrence?] - the description is '' when only a recurrence is written
+export type SerializedRange =
+  | [string, number, number]
+  | [string, number, number, string]
+  | [string, number, number, string, SerializedRecurrence];
+
+export interface SerializedGroup {
+  i?: string; // group id
+  n?: string; // name, omitted when it is the default "My PTO"
+  c?: number; // index into GROUP_COLORS
+  r?: SerializedRange[];
+  pto?: SerializedPTOConfig;
+  ptoEntries?: SerializedPTOEntry[];
+  cy?: SerializedClosedYear[]; // closed plan years, omitted when none
+}
+
+export interface SerializedState {
+  v: number;
+  s: string;   // start date (YYYY-MM-DD); every offset is relative to it
+  w?: boolean; // only written when weekends are hidden
+  t?: boolean; // only written when today is not highlighted
+  g?: SerializedGroup[];
+  ho?: string[]; // holiday regions shown alongside the home region, omitted when none
+  ch?: SerializedCustomHolidays[]; // imported holidays, omitted when none
+  ct?: number; // coverage risk threshold, omitted when it is the default
+  ro?: true;   // only written on share links that open view-only
+}
+
+/** The slice of app state that is persisted */
+export interface PersistedState {
+  startDate: Date;
+  includeWeekends: boolean;
+  showToday: boolean;
+  eventGroups: EventGroup[];
+  holidayOverlays?: string[];
+  customHolidays?: CustomHolidays[];
+  coverageThreshold?: number;
+  viewOnly?: boolean;
+}
+
+export type StateDecodeErrorReason =
+  | 'empty'
+  | 'corrupt'
+  | 'invalid-json'
+  | 'invalid-shape'
+  | 'unsupported-version';
+
+/**
+ * Raised when a share link or saved calendar cannot be decoded.
+ * `reason` lets callers decide how to recover (e.g. keep data written by a newer version).
+ */
+export class StateDecodeError extends Error {
+  readonly reason: StateDecodeErrorReason;
+
+  constructor(reason: StateDecodeErrorReason, message: string) {
+    super(message);
+    this.name = 'StateDecodeError';
+    this.reason = reason;
+  }
+}
+
+type RawPayload = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawPayload =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toISODate = (date: Date): string => formatISO(date, { representation: 'date' });
+
+// Before v2 a calendar saved for a past year opened on January 1 of the current year
+const getRolledForwardStart = (savedStart: Date, currentYear: number): Date =>
+  new Date(Math.max(savedStart.getFullYear(), currentYear), 0, 1);
+
+/**
+ * Migrations keyed by the version they upgrade FROM.
+ * Each one must return a payload that is valid for `version + 1`.
+ */
+const MIGRATIONS: Record<number, (payload: RawPayload, currentYear: number) => RawPayload> = {
+  // Legacy dates were absolute, so they are kept relative to the start date v1 opens on
+  0: (payload, currentYear) => {
+    const savedStart = parseISO(String(payload.startDate));
+    // Left for validatePayload to reject
+    if (!isValid(savedStart)) return { s: String(payload.startDate) };
+    const startDate = getRolledForwardStart(savedStart, currentYear);
+    const groups = Array.isArray(payload.eventGroups) ? payload.eventGroups : [];
+    return {
+      s: toISODate(startDate),
+      w: payload.includeWeekends === false ? false : undefined,
+      t: payload.showToday === false ? false : undefined,
+      g: groups.filter(isRecord).map((group) => ({
+        n: group.name,
+        c: GROUP_COLORS.findIndex((c) => c.hex === group.color),
+        r: (Array.isArray(group.ranges) ? group.ranges : [])
+          .filter(isRecord)
+          .map((range) => [
+            differenceInDays(parseISO(String(range.start)), startDate),
+            differenceInDays(parseISO(String(range.end)), startDate),
+          ]),
+      })),
+    };
+  },
+  // Offsets counted from the start date the calendar opened on, and settings described that year
+  1: (payload, currentYear) => {
+    const savedStart = parseISO(String(payload.s));
+    if (!isValid(savedStart)) return { ...payload, v: 2 };
+    const startDate = getRolledForwardStart(savedStart, currentYear);
+    const firstYear = startDate.getFullYear();
+    return {
+      ...payload,
+      v: 2,
+      s: toISODate(startDate),
+      g: Array.isArray(payload.g)
+        ? payload.g.map((group) =>
+          isRecord(group) && isRecord(group.pto) ? { ...group, pto: { ...group.pto, fy: firstYear } } : group
+        )
+        : payload.g,
+    };
+  },
+  // Ranges had no ids
+  2: (payload) => ({
+    ...payload,
+    v: 3,
+    g: Array.isArray(payload.g)
+      ? payload.g.map((group) =>
+        isRecord(group) && Array.isArray(group.r)
+          ? { ...group, r: group.r.map((range) => (Array.isArray(range) ? [nanoid(), ...range] : range)) }
+          : group
+      )
+      : payload.g,
+  }),
+};
+
+const detectVersion = (payload: RawPayload): number => {
+  if (typeof payload.v === 'number') return payload.v;
+  if (typeof payload.s === 'string') return 1;
+  if (typeof payload.startDate === 'string') return 0;
+  throw new StateDecodeError('invalid-shape', 'Calendar data has no start date');
+};
+
+/**
+ * Upgrades a raw payload of any known version to the current schema
+ * @param payload Parsed JSON payload
+ * @param currentYear Year old payloads were opened on (defaults to today)
+ * @returns Payload in the current schema
+ */
+export const migratePayload = (
+  payload: RawPayload,
+  currentYear: number = new Date().getFullYear()
+): RawPayload => {
+  let version = detectVersion(payload);
+
+  if (!Number.isInteger(version) || version < 0) {
+    throw new StateDecodeError('invalid-shape', `Calendar data has an invalid schema version (${version})`);
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new StateDecodeError(
+      'unsupported-version',
+      `Calendar data was saved by a newer version of the app (schema v${version}, this app reads up to v${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+
+  let migrated = payload;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    migrated = MIGRATIONS[version](migrated, currentYear);
+    version++;
+  }
+  return migrated;
+};
+
+const isOffset = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isHolidayRegionId = (value: unknown): value is string =>
+  HOLIDAY_REGIONS.some(region => region.id === value);
+
+const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+const isWeekday = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+
+const isRecurrence = (value: unknown): boolean =>
+  isRecord(value) &&
+  RECURRENCE_FREQUENCIES.includes(value.f as RecurrenceFrequency) &&
+  (value.i === undefined || (Number.isInteger(value.i) && (value.i as number) > 0)) &&
+  (value.c === undefined || (Number.isInteger(value.c) && (value.c as number) > 0)) &&
+  (value.u === undefined || isOffset(value.u)) &&
+  (value.wd === undefined || (Array.isArray(value.wd) && value.wd.every(isWeekday))) &&
+  (value.ws === undefined || isWeekday(value.ws)) &&
+  (value.nw === undefined || (
+    Array.isArray(value.nw) &&
+    Number.isInteger(value.nw[0]) &&
+    value.nw[0] !== 0 &&
+    Math.abs(value.nw[0]) <= 5 &&
+    isWeekday(value.nw[1])
+  )) &&
+  (value.x === undefined || (Array.isArray(value.x) && value.x.every(isOffset)));
+
+const isWorkSchedule = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.length === 7 &&
+  value.every(hours => isOffset(hours) && hours >= 0 && hours <= 24);
+
+/**
+ * Validates a migrated payload against the current schema
+ * @param payload Payload already upgraded by migratePayload
+ * @returns The same payload, typed
+ */
+export const validatePayload = (payload: RawPayload): SerializedState => {
+  const fail = (message: string): never => {
+    throw new StateDecodeError('invalid-shape', message);
+  };
+
+  if (typeof payload.s !== 'string' || !isValid(parseISO(payload.s))) {
+    fail(`Calendar data has an invalid start date (${String(payload.s)})`);
+  }
+  if (payload.g !== undefined && !Array.isArray(payload.g)) {
+    fail('Calendar data has an invalid group list');
+  }
+  if (payload.ho !== undefined && (!Array.isArray(payload.ho) || !payload.ho.every(isHolidayRegionId))) {
+    fail('Calendar data has an invalid list of holiday regions');
+  }
+  if (payload.ch !== undefined && !Array.isArray(payload.ch)) {
+    fail('Calendar data has an invalid list of imported holidays');
+  }
+  if (payload.ct !== undefined && (!Number.isInteger(payload.ct) || (payload.ct as number) < 1)) {
+    fail(`Calendar data has an invalid coverage threshold (${String(payload.ct)})`);
+  }
+  if (payload.ro !== undefined && payload.ro !== true) {
+    fail('Calendar data has an invalid view-only flag');
+  }
+  ((payload.ch as unknown[] | undefined) || []).forEach((custom, index) => {
+    const isHoliday = (holiday: unknown) =>
+      Array.isArray(holiday) &&
+      typeof holiday[0] === 'string' &&
+      isValid(parseISO(holiday[0])) &&
+      typeof holiday[1] === 'string';
+    if (
+      !isRecord(custom) ||
+      !isHolidayRegionId(custom.r) ||
+      typeof custom.n !== 'string' ||
+      (custom.m !== undefined && custom.m !== 'r') ||
+      !Array.isArray(custom.h) ||
+      !custom.h.every(isHoliday)
+    ) {
+      fail(`Imported holiday list ${index + 1} is invalid`);
+    }
+  });
+
+  ((payload.g as unknown[] | undefined) || []).forEach((group, groupIndex) => {
+    const where = `Calendar ${groupIndex + 1}`;
+    if (!isRecord(group)) return fail(`${where} is not an object`);
+    if (group.i !== undefined && typeof group.i !== 'string') fail(`${where} has an invalid id`);
+    if (group.n !== undefined && typeof group.n !== 'string') fail(`${where} has an invalid name`);
+    if (group.c !== undefined && typeof group.c !== 'number') fail(`${where} has an invalid color`);
+
+    if (group.r !== undefined && !Array.isArray(group.r)) fail(`${where} has an invalid range list`);
+    ((group.r as unknown[] | undefined) || []).forEach((range, rangeIndex) => {
+      if (
+        !Array.isArray(range) ||
+        range.length < 3 ||
+        typeof range[0] !== 'string' ||
+        !isOffset(range[1]) ||
+        !isOffset(range[2]) ||
+        (range[3] !== undefined && typeof range[3] !== 'string')
+      ) {
+        fail(`${where} has an invalid date range at position ${rangeIndex + 1}`);
+      }
+      if (Array.isArray(range) && range[4] !== undefined && !isRecurrence(range[4])) {
+        fail(`${where} has an invalid recurrence at position ${rangeIndex + 1}`);
+      }
+    });
+
+    if (group.pto !== undefined && !isRecord(group.pto)) fail(`${where} has invalid PTO settings`);
+    const policy = isRecord(group.pto) ? group.pto.p : undefined;
+    if (policy !== undefined) {
+      const isBand = (band: unknown) => Array.isArray(band) && isOffset(band[0]) && isOffset(band[1]);
+      const isBucket = (bucket: unknown) =>
+        isRecord(bucket) &&
+        typeof bucket.t === 'string' &&
+        (bucket.h === undefined || isOffset(bucket.h)) &&
+        (bucket.mc === undefined || isOffset(bucket.mc)) &&
+        (bucket.a === undefined || isRecord(bucket.a));
+      if (
+        !isRecord(policy) ||
+        typeof policy.i !== 'string' ||
+        typeof policy.n !== 'string' ||
+        !isOffset(policy.h) ||
+        !Array.isArray(policy.b) ||
+        !policy.b.every(isBand) ||
+        (policy.mc !== undefined && !isOffset(policy.mc)) ||
+        (policy.ce !== undefined && typeof policy.ce !== 'string') ||
+        (policy.nb !== undefined && !isOffset(policy.nb)) ||
+        (policy.hi !== undefined && !isOffset(policy.hi)) ||
+        (policy.lb !== undefined && (!Array.isArray(policy.lb) || !policy.lb.every(isBucket)))
+      ) {
+        fail(`${where} has an invalid PTO policy`);
+      }
+      const problem = validatePTOPolicy(hydratePolicy(policy as unknown as SerializedPTOPolicy));
+      if (problem) fail(`${where} has an invalid PTO policy: ${problem}`);
+    }
+    const accrual = isRecord(group.pto) ? group.pto.a : undefined;
+    if (
+      accrual !== undefined &&
+      (!isRecord(accrual) || validateAccrualSchedule(hydrateAccrual(accrual as unknown as SerializedAccrual)))
+    ) {
+      fail(`${where} has an invalid PTO accrual schedule`);
+    }
+    const leaveRollover = isRecord(group.pto) ? group.pto.lr : undefined;
+    if (leaveRollover !== undefined && (!isRecord(leaveRollover) || !Object.values(leaveRollover).every(isOffset))) {
+      fail(`${where} has invalid leave rollover hours`);
+    }
+    const workdayHours = isRecord(group.pto) ? group.pto.wh : undefined;
+    const workSchedule = isRecord(group.pto) ? group.pto.ws : undefined;
+    if (
+      (workdayHours !== undefined && !(isOffset(workdayHours) && workdayHours > 0 && workdayHours <= 24)) ||
+      (workSchedule !== undefined && !isWorkSchedule(workSchedule))
+    ) {
+      fail(`${where} has an invalid work schedule`);
+    }
+    const holidayRegion = isRecord(group.pto) ? group.pto.hr : undefined;
+    if (holidayRegion !== undefined && !isHolidayRegionId(holidayRegion)) {
+      fail(`${where} has an unknown holiday region`);
+    }
+    const balanceFloor = isRecord(group.pto) ? group.pto.bf : undefined;
+    if (balanceFloor !== undefined && !(isOffset(balanceFloor) && balanceFloor >= 0)) {
+      fail(`${where} has an invalid balance floor`);
+    }
+    const firstYear = isRecord(group.pto) ? group.pto.fy : undefined;
+    const years = isRecord(group.pto) ? group.pto.yr : undefined;
+    const isYearSettings = (settings: unknown) =>
+      isRecord(settings) &&
+      (settings.y === undefined || isOffset(settings.y)) &&
+      (settings.r === undefined || isOffset(settings.r));
+    if (
+      (firstYear !== undefined && !Number.isInteger(firstYear)) ||
+      (years !== undefined && (
+        !isRecord(years) ||
+        !Object.keys(years).every((year) => /^\d{4}$/.test(year)) ||
+        !Object.values(years).every(isYearSettings)
+      ))
+    ) {
+      fail(`${where} has invalid plan year settings`);
+    }
+
+    if (group.cy !== undefined && !Array.isArray(group.cy)) fail(`${where} has an invalid list of closed years`);
+    ((group.cy as unknown[] | undefined) || []).forEach((closed, closedIndex) => {
+      const isDate = (value: unknown) => typeof value === 'string' && isValid(parseISO(value));
+      const isEntry = (entry: unknown) =>
+        isRecord(entry) &&
+        isDate(entry.sd) &&
+        isDate(entry.ed) &&
+        isOffset(entry.hpd) &&
+        isOffset(entry.th) &&
+        (entry.n === undefined || typeof entry.n === 'string') &&
+        (entry.lt === undefined || LEAVE_TYPES.includes(entry.lt as LeaveType));
+      if (
+        !isRecord(closed) ||
+        !Number.isInteger(closed.y) ||
+        !isDate(closed.d) ||
+        !['ys', 'wh', 't', 'u', 'x', 'rm', 'c'].every((key) => isOffset(closed[key])) ||
+        !Array.isArray(closed.e) ||
+        !closed.e.every(isEntry)
+      ) {
+        fail(`${where} has an invalid closed year at position ${closedIndex + 1}`);
+      }
+    });
+
+    if (group.ptoEntries !== undefined && !Array.isArray(group.ptoEntries)) {
+      fail(`${where} has an invalid PTO entry list`);
+    }
+    ((group.ptoEntries as unknown[] | undefined) || []).forEach((entry, entryIndex) => {
+      if (
+        !isRecord(entry) ||
+        !isOffset(entry.sd) ||
+        !isOffset(entry.ed) ||
+        !isOffset(entry.hpd) ||
+        (entry.lt !== undefined && !LEAVE_TYPES.includes(entry.lt as LeaveType)) ||
+        (entry.i !== undefined && typeof entry.i !== 'string')
+      ) {
+        fail(`${where} has an invalid PTO entry at position ${entryIndex + 1}`);
+      }
+    });
+  });
+
+  return payload as unknown as SerializedState;
+};
+
+const serializePolicy = (policy: PTOPolicy): SerializedPTOPolicy => ({
+  i: policy.id,
+  n: policy.name,
+  h: policy.hoursPerWorkday,
+  ...(policy.hourIncrement !== undefined ? { hi: policy.hourIncrement } : {}),
+  b: policy.tenureBands.map((band): [number, number] => [band.minYears, band.annualHours]),
+  ...(policy.maxCarryoverHours !== undefined ? { mc: policy.maxCarryoverHours } : {}),
+  ...(policy.carryoverExpiry ? { ce: policy.carryoverExpiry } : {}),
+  ...(policy.negativeBalanceAllowance !== undefined ? { nb: policy.negativeBalanceAllowance } : {}),
+  ...(policy.leaveBuckets ? { lb: policy.leaveBuckets.map(serializeLeaveBucket) } : {}),
+});
+
+const hydratePolicy = (policy: SerializedPTOPolicy): PTOPolicy => ({
+  id: policy.i,
+  name: policy.n,
+  hoursPerWorkday: policy.h,
+  ...(policy.hi !== undefined ? { hourIncrement: policy.hi } : {}),
+  tenureBands: policy.b.map(([minYears, annualHours]) => ({ minYears, annualHours })),
+  ...(policy.mc !== undefined ? { maxCarryoverHours: policy.mc } : {}),
+  ...(policy.ce ? { carryoverExpiry: policy.ce } : {}),
+  ...(policy.nb !== undefined ? { negativeBalanceAllowance: policy.nb } : {}),
+  ...(policy.lb ? { leaveBuckets: policy.lb.map(hydrateLeaveBucket) } : {}),
+});
+
+const serializeLeaveBucket = (bucket: LeaveBucket): SerializedLeaveBucket => ({
+  t: bucket.type,
+  ...(bucket.annualHours !== undefined ? { h: bucket.annualHours } : {}),
+  ...(bucket.accrual ? { a: serializeAccrual(bucket.accrual) } : {}),
+  ...(bucket.maxCarryoverHours !== undefined ? { mc: bucket.maxCarryoverHours } : {}),
+});
+
+const hydrateLeaveBucket = (bucket: SerializedLeaveBucket): LeaveBucket => ({
+  type: bucket.t as LeaveBucket['type'],
+  ...(bucket.h !== undefined ? { annualHours: bucket.h } : {}),
+  ...(bucket.a ? { accrual: hydrateAccrual(bucket.a) } : {}),
+  ...(bucket.mc !== undefined ? { maxCarryoverHours: bucket.mc } : {}),
+});
+
+const serializeAccrual = (accrual: AccrualSchedule): SerializedAccrual =>
+  'anchorDate' in accrual ? { f: accrual.frequency, d: accrual.anchorDate } : { f: accrual.frequency };
+
+const hydrateAccrual = (accrual: SerializedAccrual): AccrualSchedule =>
+  ({ frequency: accrual.f, ...(accrual.d !== undefined ? { anchorDate: accrual.d } : {}) }) as AccrualSchedule;
+
+const serializeClosedYear = (closed: ClosedPTOYear): SerializedClosedYear => ({
+  y: closed.year,
+  d: closed.closedOn,
+  ys: closed.yearsOfService,
+  wh: closed.workdayHours,
+  t: closed.totalHours,
+  u: closed.usedHours,
+  x: closed.expiredHours,
+  rm: closed.remainingHours,
+  c: closed.carriedOverHours,
+  e: closed.entries.map((entry) => ({
+    sd: entry.startDate,
+    ed: entry.endDate,
+    hpd: entry.hoursPerDay,
+    th: entry.totalHours,
+    ...(entry.name ? { n: entry.name } : {}),
+    ...(entry.leaveType && entry.leaveType !== 'vacation' ? { lt: entry.leaveType } : {}),
+  })),
+});
+
+const hydrateClosedYear = (closed: SerializedClosedYear): ClosedPTOYear => ({
+  year: closed.y,
+  closedOn: closed.d,
+  yearsOfService: closed.ys,
+  workdayHours: closed.wh,
+  totalHours: closed.t,
+  usedHours: closed.u,
+  expiredHours: closed.x,
+  remainingHours: closed.rm,
+  carriedOverHours: closed.c,
+  entries: closed.e.map((entry): PTOEntry => ({
+    id: `${entry.sd}-${entry.ed}-closed`,
+    startDate: entry.sd,
+    endDate: entry.ed,
+    hoursPerDay: entry.hpd,
+    totalHours: entry.th,
+    ...(entry.n ? { name: entry.n } : {}),
+    ...(entry.lt ? { leaveType: entry.lt as LeaveType } : {}),
+  })),
+});
+
+const serializeYears = (years: Record<number, PTOYearSettings>): Record<string, SerializedPTOYearSettings> =>
+  Object.fromEntries(Object.entries(years).map(([year, settings]) => [year, {
+    ...(settings.yearsOfService !== undefined ? { y: settings.yearsOfService } : {}),
+    ...(settings.rolloverHours !== undefined ? { r: settings.rolloverHours } : {}),
+  }]));
+
+const hydrateYears = (years: Record<string, SerializedPTOYearSettings>): Record<number, PTOYearSettings> =>
+  Object.fromEntries(Object.entries(years).map(([year, settings]) => [Number(year), {
+    ...(settings.y !== undefined ? { yearsOfService: settings.y } : {}),
+    ...(settings.r !== undefined ? { rolloverHours: settings.r } : {}),
+  }]));
+
+// Recurrence dates are day offsets, like the ranges they belong to
+const serializeRecurrence = (rule: RecurrenceRule, offset: (iso: string) => number): SerializedRecurrence => ({
+  f: rule.frequency,
+  ...(rule.interval && rule.interval > 1 ? { i: rule.interval } : {}),
+  ...(rule.count !== undefined ? { c: rule.count } : {}),
+  ...(rule.until ? { u: offset(rule.until) } : {}),
+  ...(rule.byWeekday?.length ? { wd: rule.byWeekday } : {}),
+  ...(rule.weekStart ? { ws: rule.weekStart } : {}),
+  ...(rule.byNthWeekday ? { nw: [rule.byNthWeekday.n, rule.byNthWeekday.weekday] as [number, number] } : {}),
+  ...(rule.exceptions?.length ? { x: rule.exceptions.map(offset) } : {}),
+});
+
+const hydrateRecurrence = (rule: SerializedRecurrence, toDate: (offset: number) => string): RecurrenceRule => ({
+  frequency: rule.f as RecurrenceFrequency,
+  ...(rule.i !== undefined ? { interval: rule.i } : {}),
+  ...(rule.c !== undefined ? { count: rule.c } : {}),
+  ...(rule.u !== undefined ? { until: toDate(rule.u) } : {}),
+  ...(rule.wd ? { byWeekday: rule.wd } : {}),
+  ...(rule.ws !== undefined ? { weekStart: rule.ws } : {}),
+  ...(rule.nw ? { byNthWeekday: { n: rule.nw[0], weekday: rule.nw[1] } } : {}),
+  ...(rule.x ? { exceptions: rule.x.map(toDate) } : {}),
+});
+
+/**
+ * Converts app state to the compact current-schema payload
+ * @param state Persisted slice of the app state
+ * @returns Serialized state with default values omitted
+ */
+export const serializeState = (state: PersistedState): SerializedState => {
+  const { startDate } = state;
+  const offset = (iso: string) => differenceInDays(parseISO(iso), startDate);
+
+  const groups = state.eventGroups.map((group) => {
+    const serializedGroup: SerializedGroup = {
+      i: group.id,
+      n: group.name === 'My PTO' ? undefined : group.name,
+      c: GROUP_COLORS.findIndex((c) => c.hex === group.color),
+      r: group.ranges.map((range): SerializedRange => {
+        const id = range.id || nanoid();
+        return range.recurrence
+          ? [id, offset(range.start), offset(range.end), range.description || '', serializeRecurrence(range.recurrence, offset)]
+          : range.description
+            ? [id, offset(range.start), offset(range.end), range.description]
+            : [id, offset(range.start), offset(range.end)];
+      }),
+      pto: group.ptoConfig ? {
+        y: group.ptoConfig.yearsOfService,
+        r: group.ptoConfig.rolloverHours,
+        e: group.ptoConfig.isEnabled,
+        ...(group.ptoConfig.policy ? { p: serializePolicy(group.ptoConfig.policy) } : {}),
+        ...(group.ptoConfig.accrual ? { a: serializeAccrual(group.ptoConfig.accrual) } : {}),
+        ...(group.ptoConfig.leaveRolloverHours ? { lr: group.ptoConfig.leaveRolloverHours } : {}),
+        ...(group.ptoConfig.workdayHours !== undefined ? { wh: group.ptoConfig.workdayHours } : {}),
+        ...(group.ptoConfig.workSchedule ? { ws: group.ptoConfig.workSchedule } : {}),
+        ...(group.ptoConfig.holidayRegion ? { hr: group.ptoConfig.holidayRegion } : {}),
+        ...(group.ptoConfig.firstYear !== undefined ? { fy: group.ptoConfig.firstYear } : {}),
+        ...(group.ptoConfig.years && Object.keys(group.ptoConfig.years).length > 0
+          ? { yr: serializeYears(group.ptoConfig.years) }
+          : {}),
+        ...(group.ptoConfig.balanceFloorHours ? { bf: group.ptoConfig.balanceFloorHours } : {})
+      } : undefined,
+      ptoEntries: (group.ptoEntries && group.ptoEntries.length > 0) ?
+        group.ptoEntries.map((entry) => ({
+          sd: offset(entry.startDate),
+          ed: offset(entry.endDate),
+          hpd: entry.hoursPerDay,
+          n: entry.name,
+          ...(entry.leaveType && entry.leaveType !== 'vacation' ? { lt: entry.leaveType } : {}),
+          ...(entry.id ? { i: entry.id } : {})
+        })) : undefined,
+      cy: group.closedYears && group.closedYears.length > 0 ? group.closedYears.map(serializeClosedYear) : undefined
+    };
+    // Clean up undefined values
+    (Object.keys(serializedGroup) as (keyof SerializedGroup)[]).forEach(
+      (key) => serializedGroup[key] === undefined && delete serializedGroup[key]
+    );
+    return serializedGroup;
+  });
+
+  const serialized: SerializedState = {
+    v: CURRENT_SCHEMA_VERSION,
+    s: toISODate(startDate),
+  };
+  // Only non-default values are written
+  if (!state.includeWeekends) serialized.w = false;
+  if (!state.showToday) serialized.t = false;
+  if (groups.length > 0) serialized.g = groups;
+  if (state.holidayOverlays && state.holidayOverlays.length > 0) serialized.ho = state.holidayOverlays;
+  if (state.customHolidays && state.customHolidays.length > 0) {
+    serialized.ch = state.customHolidays.map((custom) => ({
+      r: custom.regionId,
+      n: custom.name,
+      ...(custom.mode === 'replace' ? { m: 'r' as const } : {}),
+      h: custom.holidays.map((holiday): [string, string] => [holiday.date, holiday.name]),
+    }));
+  }
+  if (state.coverageThreshold !== undefined && state.coverageThreshold !== DEFAULT_COVERAGE_THRESHOLD) {
+    serialized.ct = state.coverageThreshold;
+  }
+  if (state.viewOnly) serialized.ro = true;
+
+  return serialized;
+};
+
+/**
+ * Rebuilds app state from a validated current-schema payload.
+ * Calendars saved while showing a past year open on the current year; their dates stay where they were.
+ * @param serialized Validated payload
+ * @param currentYear Earliest year to open on (defaults to today)
+ * @returns Persisted slice of the app state
+ */
+export const hydrateState = (
+  serialized: SerializedState,
+  currentYear: number = new Date().getFullYear()
+): PersistedState => {
+  const savedStartDate = parseISO(serialized.s);
+  const savedYear = savedStartDate.getFullYear();
+  const yearToUse = savedYear < currentYear ? currentYear : savedYear;
+  const startDate = new Date(yearToUse, 0, 1);
+  const toDate = (offset: number) => toISODate(addDays(savedStartDate, offset));
+
+  const groups = serialized.g || [];
+  const isValidColorIndex = (c?: number): c is number =>
+    c !== undefined && c >= 0 && c < GROUP_COLORS.length;
+  const usedColorIndices = new Set<number>(
+    groups.map((g) => g.c).filter(isValidColorIndex)
+  );
+
+  const eventGroups = groups.map((g, index): EventGroup => {
+    let colorIndex = g.c;
+
+    // If no color index, or invalid, take the first unused one
+    if (!isValidColorIndex(colorIndex)) {
+      colorIndex = undefined;
+      for (let i = 0; i < GROUP_COLORS.length; i++) {
+        if (!usedColorIndices.has(i)) {
+          colorIndex = i;
+          usedColorIndices.add(i);
+          break;
+        }
+      }
+      // Fallback if all colors are used
+      if (colorIndex === undefined) {
+        colorIndex = index % GROUP_COLORS.length;
+      }
+    }
+
+    const ptoConfig: PTOConfig | undefined = g.pto ? {
+      yearsOfService: g.pto.y || 2,
+      rolloverHours: g.pto.r || 0,
+      isEnabled: g.pto.e !== undefined ? g.pto.e : false,
+      ...(g.pto.p ? { policy: hydratePolicy(g.pto.p) } : {}),
+      ...(g.pto.a ? { accrual: hydrateAccrual(g.pto.a) } : {}),
+      ...(g.pto.lr ? { leaveRolloverHours: g.pto.lr } : {}),
+      ...(g.pto.wh !== undefined ? { workdayHours: g.pto.wh } : {}),
+      ...(g.pto.ws ? { workSchedule: g.pto.ws } : {}),
+      ...(g.pto.hr ? { holidayRegion: g.pto.hr } : {}),
+      ...(g.pto.fy !== undefined ? { firstYear: g.pto.fy } : {}),
+      ...(g.pto.yr ? { years: hydrateYears(g.pto.yr) } : {}),
+      ...(g.pto.bf ? { balanceFloorHours: g.pto.bf } : {})
+    } : undefined;
+
+    const ptoEntries: PTOEntry[] | undefined = g.ptoEntries ?
+      g.ptoEntries.map((entry) => ({
+        id: entry.i ?? `${entry.sd}-${entry.ed}-restored`,
+        startDate: toDate(entry.sd),
+        endDate: toDate(entry.ed),
+        hoursPerDay: entry.hpd,
+        totalHours: PTOCalendarUtils.calculateTotalPTOHours(
+          toDate(entry.sd),
+          toDate(entry.ed),
+          entry.hpd,
+          ptoConfig
+        ),
+        name: entry.n,
+        ...(entry.lt ? { leaveType: entry.lt as LeaveType } : {})
+      })) : undefined;
+
+    return {
+      id: g.i || nanoid(),
+      name: g.n || 'My PTO',
+      color: GROUP_COLORS[colorIndex].hex,
+      ranges: (g.r || []).map((r): DateRange => ({
+        id: r[0],
+        start: toDate(r[1]),
+        end: toDate(r[2]),
+        ...(r[3] ? { description: r[3] } : {}),
+        ...(r[4] ? { recurrence: hydrateRecurrence(r[4], toDate) } : {}),
+      })),
+      ptoConfig,
+      ptoEntries,
+      ...(g.cy ? { closedYears: g.cy.map(hydrateClosedYear) } : {})
+    };
+  });
+
+  return {
+    startDate,
+    includeWeekends: serialized.w ?? true,
+    showToday: serialized.t ?? true,
+    eventGroups,
+    holidayOverlays: serialized.ho ?? [],
+    customHolidays: (serialized.ch || []).map((custom): CustomHolidays => ({
+      regionId: custom.r,
+      name: custom.n,
+      mode: custom.m === 'r' ? 'replace' : 'supplement',
+      holidays: custom.h.map(([date, name]) => ({ date, name })),
+    })),
+    coverageThreshold: serialized.ct ?? DEFAULT_COVERAGE_THRESHOLD,
+    viewOnly: serialized.ro === true,
+  };
+};
+
+const parseEncoded = (encoded: string): unknown => {
+  const candidates: string[] = [];
+  try {
+    const decompressed = LZString.decompressFromEncodedURIComponent(encoded);
+    if (decompressed) candidates.push(decompressed);
+  } catch {
+    // Not LZ data, try the legacy base64 format below
+  }
+  try {
+    candidates.push(atob(encoded));
+  } catch {
+    // Not base64 either
+  }
+
+  if (candidates.length === 0) {
+    throw new StateDecodeError('corrupt', 'Calendar data could not be decompressed');
+  }
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  throw new StateDecodeError('invalid-json', 'Calendar data is not valid JSON');
+};
+
+/**
+ * Encodes app state for a share link or localStorage
+ * @param state Persisted slice of the app state
+ * @returns URL-safe compressed string
+ */
+export const encodeState = (state: PersistedState): string =>
+  LZString.compressToEncodedURIComponent(JSON.stringify(serializeState(state)));
+
+/**
+ * Decodes a share link hash or localStorage value of any supported schema version
+ * @param encoded Compressed (or legacy base64) payload
+ * @param currentYear Earliest year to open on (defaults to today)
+ * @returns Persisted slice of the app state
+ * @throws StateDecodeError describing why the payload was rejected
+ */
+export const decodeState = (encoded: string, currentYear?: number): PersistedState => {
+  if (!encoded) {
+    throw new StateDecodeError('empty', 'Calendar data is empty');
+  }
+
+  const parsed = parseEncoded(encoded);
+  if (!isRecord(parsed)) {
+    throw new StateDecodeError('invalid-shape', 'Calendar data is not an object');
+  }
+
+  return hydrateState(validatePayload(migratePayload(parsed, currentYear)), currentYear);
+};
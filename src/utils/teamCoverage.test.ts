@@ -0,0 +1,53 @@
+/**
+ * Test suite for team coverage
+ * Testing who is out per day, heatmap shading and coverage risks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getTeamAbsences, getHeatLevel, isCoverageRisk } from './teamCoverage';
+
+describe('teamCoverage', () => {
+  describe('getTeamAbsences', () => {
+    it('should list everyone out on each day', () => {
+      const absences = getTeamAbsences([
+        { name: 'Alex', dates: [{ start: '2025-03-10', end: '2025-03-12' }] },
+        { name: 'Sam', dates: [{ start: '2025-03-12', end: '2025-03-12' }] }
+      ]);
+
+      expect(absences.get('2025-03-10')).toEqual(['Alex']);
+      expect(absences.get('2025-03-12')).toEqual(['Alex', 'Sam']);
+      expect(absences.has('2025-03-13')).toBe(false);
+    });
+
+    it('should count overlapping spans of one member once', () => {
+      const absences = getTeamAbsences([
+        { name: 'Alex', dates: [{ start: '2025-03-10', end: '2025-03-11' }, { start: '2025-03-11', end: '2025-03-11' }] }
+      ]);
+
+      expect(absences.get('2025-03-11')).toEqual(['Alex']);
+    });
+
+    it('should span month ends', () => {
+      const absences = getTeamAbsences([{ name: 'Alex', dates: [{ start: '2025-02-27', end: '2025-03-02' }] }]);
+      expect([...absences.keys()]).toEqual(['2025-02-27', '2025-02-28', '2025-03-01', '2025-03-02']);
+    });
+  });
+
+  describe('getHeatLevel', () => {
+    it('should shade by the share of the team out', () => {
+      expect(getHeatLevel(0, 5)).toBe(0);
+      expect(getHeatLevel(1, 5)).toBe(1);
+      expect(getHeatLevel(3, 5)).toBe(3);
+      expect(getHeatLevel(5, 5)).toBe(4);
+      expect(getHeatLevel(1, 0)).toBe(0);
+    });
+  });
+
+  describe('isCoverageRisk', () => {
+    it('should flag days with at least the threshold out', () => {
+      expect(isCoverageRisk(1, 2)).toBe(false);
+      expect(isCoverageRisk(2, 2)).toBe(true);
+      expect(isCoverageRisk(0, 0)).toBe(false);
+    });
+  });
+});
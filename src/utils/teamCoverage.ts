@@ -0,0 +1,60 @@
+/**
+ * Team Coverage
+ * Counts how many calendars are out on each day for the availability heatmap
+ */
+
+import { addDays, formatISO, parseISO } from 'date-fns';
+
+// Days with at least this many calendars out are flagged as coverage risks
+export const DEFAULT_COVERAGE_THRESHOLD = 2;
+
+// Shading steps of the heatmap, from a few people out to everyone out
+export const HEAT_LEVELS = 4;
+
+export interface CoverageMember {
+  name: string;
+  dates: { start: string; end: string }[]; // ISO date spans the member is out
+}
+
+/**
+ * Lists who is out on each day
+ * @param members One entry per calendar, with every span it is out
+ * @returns Map of ISO date to the names of members out that day, each name listed once
+ */
+export const getTeamAbsences = (members: CoverageMember[]): Map<string, string[]> => {
+  const absences = new Map<string, string[]>();
+
+  members.forEach(member => {
+    member.dates.forEach(({ start, end }) => {
+      for (let current = parseISO(start); formatISO(current, { representation: 'date' }) <= end; current = addDays(current, 1)) {
+        const date = formatISO(current, { representation: 'date' });
+        const names = absences.get(date) || [];
+        // Overlapping spans of the same member count once
+        if (!names.includes(member.name)) names.push(member.name);
+        absences.set(date, names);
+      }
+    });
+  });
+
+  return absences;
+};
+
+/**
+ * Heatmap shade for a day
+ * @param outCount Number of members out
+ * @param teamSize Number of members in the team
+ * @returns 0 when nobody is out, up to HEAT_LEVELS when everyone is
+ */
+export const getHeatLevel = (outCount: number, teamSize: number): number => {
+  if (outCount <= 0 || teamSize <= 0) return 0;
+  return Math.min(HEAT_LEVELS, Math.ceil((outCount / teamSize) * HEAT_LEVELS));
+};
+
+/**
+ * Checks whether too many members are out on a day
+ * @param outCount Number of members out
+ * @param threshold Smallest number out that is a risk
+ * @returns True if the day is a coverage risk
+ */
+export const isCoverageRisk = (outCount: number, threshold: number): boolean =>
+  outCount > 0 && outCount >= threshold;